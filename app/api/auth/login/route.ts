@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { ApiError, errorResponse, readJsonBody } from "@/lib/api-route"
+import { loginSchema } from "@/lib/auth-schemas"
+import { authenticate, startSession } from "@/lib/auth"
+
+// One message for an unknown username and a wrong password alike
+export async function POST(request: Request) {
+  try {
+    const { username, password } = await readJsonBody(request, loginSchema)
+    const user = await authenticate(username, password)
+    if (!user) throw new ApiError(401, "Wrong username or password")
+    return await startSession(NextResponse.json({ user }), user)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
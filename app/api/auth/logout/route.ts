@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { errorResponse } from "@/lib/api-route"
+import { endSession } from "@/lib/auth"
+
+export async function POST(request: Request) {
+  try {
+    return await endSession(request, NextResponse.json({ ok: true }))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { errorResponse } from "@/lib/api-route"
+import { requireUser } from "@/lib/auth"
+
+// Who is signed in; 401 when nobody is
+export async function GET(request: Request) {
+  try {
+    return NextResponse.json({ user: await requireUser(request) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody } from "@/lib/api-route"
+import { signupSchema } from "@/lib/auth-schemas"
+import { hashPassword, startSession } from "@/lib/auth"
+import { createRetailerAccount } from "@/lib/users-db"
+
+// Registers a new shop with a retailer account and signs it in
+export async function POST(request: Request) {
+  try {
+    const { password, ...shop } = await readJsonBody(request, signupSchema)
+    const user = await createRetailerAccount({ ...shop, passwordHash: await hashPassword(password) })
+    return await startSession(NextResponse.json({ user }, { status: 201 }), user)
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
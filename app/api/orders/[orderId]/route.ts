@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { ApiError, errorResponse, notFound, parseNumericId, readJsonBody } from "@/lib/api-route"
+import { ORDER_STATUS_LABELS, ORDER_STATUS_ROLES, orderStatusUpdateSchema } from "@/lib/order-schemas"
+import { getOrder, updateOrderStatus } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+import { WAREHOUSE_STAFF } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ orderId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request)
+    const order = await getOrder(parseNumericId((await params).orderId, "Order"))
+    if (!order) throw notFound("Order")
+    assertRetailerAccess(user, order.retailId)
+    return NextResponse.json({ order })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// 409 when the order can't move to that status, see ORDER_STATUS_TRANSITIONS;
+// 403 when the user's role can't set it, see ORDER_STATUS_ROLES
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, WAREHOUSE_STAFF)
+    const id = parseNumericId((await params).orderId, "Order")
+    const update = await readJsonBody(request, orderStatusUpdateSchema)
+    if (!ORDER_STATUS_ROLES[update.status].includes(user.role)) {
+      throw new ApiError(403, `Your role can't mark orders ${ORDER_STATUS_LABELS[update.status].toLowerCase()}`)
+    }
+    const order = await updateOrderStatus(id, update)
+    if (!order) throw notFound("Order")
+    return NextResponse.json({ order })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
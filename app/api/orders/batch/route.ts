@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody } from "@/lib/api-route"
+import { createOrdersSchema } from "@/lib/order-schemas"
+import { createOrders } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+// A retailer's cart, one order per line, saved together
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser(request, ["retailer", "warehouse_admin"])
+    const { orders } = await readJsonBody(request, createOrdersSchema)
+    orders.forEach((order) => assertRetailerAccess(user, order.retailId))
+    return NextResponse.json({ orders: await createOrders(orders) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody, readSearchParams } from "@/lib/api-route"
+import { createOrderSchema, orderFiltersSchema } from "@/lib/order-schemas"
+import { createOrder, listOrders } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser, scopeRetailId } from "@/lib/auth"
+
+// Newest first; ?status= and ?retailId= narrow the list. Retailers only get their own.
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser(request)
+    const filters = readSearchParams(request, orderFiltersSchema)
+    return NextResponse.json({ orders: await listOrders({ ...filters, retailId: scopeRetailId(user, filters.retailId) }) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser(request, ["retailer", "warehouse_admin"])
+    const input = await readJsonBody(request, createOrderSchema)
+    assertRetailerAccess(user, input.retailId)
+    return NextResponse.json({ order: await createOrder(input) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound, parseNumericId, readJsonBody } from "@/lib/api-route"
+import { productSchema } from "@/lib/order-schemas"
+import { updateProduct } from "@/lib/orders-db"
+import { requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ productId: string }> }
+
+// Edits catalog fields such as the case dimensions; omitted fields stay as they are
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, ["warehouse_admin"])
+    const id = parseNumericId((await params).productId, "Product")
+    const input = await readJsonBody(request, productSchema.partial())
+    const product = await updateProduct(id, input)
+    if (!product) throw notFound("Product")
+    return NextResponse.json({ product })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody } from "@/lib/api-route"
+import { productSchema } from "@/lib/order-schemas"
+import { createProduct, listProducts } from "@/lib/orders-db"
+import { requireUser } from "@/lib/auth"
+
+export async function GET(request: Request) {
+  try {
+    await requireUser(request)
+    return NextResponse.json({ products: await listProducts() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    await requireUser(request, ["warehouse_admin"])
+    const input = await readJsonBody(request, productSchema)
+    return NextResponse.json({ product: await createProduct(input) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
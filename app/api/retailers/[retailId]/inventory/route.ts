@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseNumericId } from "@/lib/api-route"
+import { listInventory } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ retailId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request)
+    const retailId = parseNumericId((await params).retailId, "Retailer")
+    assertRetailerAccess(user, retailId)
+    const inventory = await listInventory(retailId)
+    return NextResponse.json({ inventory })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseNumericId, readJsonBody, readSearchParams } from "@/lib/api-route"
+import { markNotificationsReadSchema, notificationFiltersSchema } from "@/lib/order-schemas"
+import { listNotifications, markNotificationsRead } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ retailId: string }> }
+
+// Newest first; ?unread=true leaves out the ones already read
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request)
+    const retailId = parseNumericId((await params).retailId, "Retailer")
+    assertRetailerAccess(user, retailId)
+    const notifications = await listNotifications(retailId, readSearchParams(request, notificationFiltersSchema))
+    return NextResponse.json({ notifications })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Marks the given notifications read, or all of them; answers with the full list
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request)
+    const retailId = parseNumericId((await params).retailId, "Retailer")
+    assertRetailerAccess(user, retailId)
+    const { ids } = await readJsonBody(request, markNotificationsReadSchema)
+    return NextResponse.json({ notifications: await markNotificationsRead(retailId, ids) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseNumericId, readSearchParams } from "@/lib/api-route"
+import { backtestQuerySchema } from "@/lib/order-schemas"
+import { backtestRetailer } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ retailId: string }> }
+
+// How ?strategy= would have done over the last ?days= of recorded sales
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request)
+    const retailId = parseNumericId((await params).retailId, "Retailer")
+    assertRetailerAccess(user, retailId)
+    const { strategy, days } = readSearchParams(request, backtestQuerySchema)
+    return NextResponse.json({ backtests: await backtestRetailer(retailId, strategy, days) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
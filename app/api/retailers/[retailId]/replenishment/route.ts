@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseNumericId, readSearchParams } from "@/lib/api-route"
+import { replenishmentQuerySchema } from "@/lib/order-schemas"
+import { getReplenishmentSuggestions } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ retailId: string }> }
+
+// A plan for every product the retailer stocks; ?strategy= picks the service level
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request)
+    const retailId = parseNumericId((await params).retailId, "Retailer")
+    assertRetailerAccess(user, retailId)
+    const { strategy } = readSearchParams(request, replenishmentQuerySchema)
+    return NextResponse.json({ suggestions: await getReplenishmentSuggestions(retailId, strategy) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseNumericId, readJsonBody } from "@/lib/api-route"
+import { recordSalesSchema } from "@/lib/order-schemas"
+import { recordDailySales } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ retailId: string }> }
+
+// Daily sales totals from the store's point of sale, the history replenishment forecasts from
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, ["retailer", "warehouse_admin"])
+    const retailId = parseNumericId((await params).retailId, "Retailer")
+    assertRetailerAccess(user, retailId)
+    const recorded = await recordDailySales(retailId, await readJsonBody(request, recordSalesSchema))
+    return NextResponse.json({ recorded })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { errorResponse } from "@/lib/api-route"
+import { listRetailers } from "@/lib/orders-db"
+import { requireUser, scopeRetailId } from "@/lib/auth"
+
+// Every store for warehouse staff; a retailer only gets their own
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser(request)
+    return NextResponse.json({ retailers: await listRetailers(scopeRetailId(user, undefined)) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
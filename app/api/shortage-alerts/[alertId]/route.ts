@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound, readJsonBody } from "@/lib/api-route"
+import { shortageAlertUpdateSchema } from "@/lib/order-schemas"
+import { getShortageAlert, setShortageAlertResolved } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ alertId: string }> }
+
+// Resolves an alert without ordering, e.g. stock arrived from elsewhere
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, ["retailer", "warehouse_admin"])
+    const { alertId } = await params
+    const existing = await getShortageAlert(alertId)
+    if (!existing) throw notFound("Shortage alert")
+    assertRetailerAccess(user, existing.retailId)
+    const { resolved } = await readJsonBody(request, shortageAlertUpdateSchema)
+    const alert = await setShortageAlertResolved(alertId, resolved)
+    if (!alert) throw notFound("Shortage alert")
+    return NextResponse.json({ alert })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
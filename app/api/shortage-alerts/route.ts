@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody, readSearchParams } from "@/lib/api-route"
+import { createShortageAlertSchema, shortageAlertFiltersSchema } from "@/lib/order-schemas"
+import { createShortageAlert, listShortageAlerts } from "@/lib/orders-db"
+import { assertRetailerAccess, requireUser, scopeRetailId } from "@/lib/auth"
+
+// Newest first; ?resolved=false lists the open ones, ?retailId= one retailer's.
+// Retailers only get their own.
+export async function GET(request: Request) {
+  try {
+    const user = await requireUser(request)
+    const filters = readSearchParams(request, shortageAlertFiltersSchema)
+    const alerts = await listShortageAlerts({ ...filters, retailId: scopeRetailId(user, filters.retailId) })
+    return NextResponse.json({ alerts })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const user = await requireUser(request, ["retailer", "warehouse_admin"])
+    const input = await readJsonBody(request, createShortageAlertSchema)
+    assertRetailerAccess(user, input.retailId)
+    return NextResponse.json({ alert: await createShortageAlert(input) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
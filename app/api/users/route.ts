@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody } from "@/lib/api-route"
+import { createUserSchema } from "@/lib/auth-schemas"
+import { hashPassword, requireUser } from "@/lib/auth"
+import { createUser, listUsers } from "@/lib/users-db"
+
+export async function GET(request: Request) {
+  try {
+    await requireUser(request, ["warehouse_admin"])
+    return NextResponse.json({ users: await listUsers() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Staff accounts and extra logins for an existing store
+export async function POST(request: Request) {
+  try {
+    await requireUser(request, ["warehouse_admin"])
+    const { password, ...user } = await readJsonBody(request, createUserSchema)
+    return NextResponse.json(
+      { user: await createUser({ ...user, passwordHash: await hashPassword(password) }) },
+      { status: 201 },
+    )
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
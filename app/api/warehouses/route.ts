@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody } from "@/lib/api-route"
+import { createWarehouseSchema } from "@/lib/order-schemas"
+import { createWarehouse, listWarehouses } from "@/lib/orders-db"
+import { requireUser } from "@/lib/auth"
+
+export async function GET(request: Request) {
+  try {
+    await requireUser(request)
+    return NextResponse.json({ warehouses: await listWarehouses() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    await requireUser(request, ["warehouse_admin"])
+    const input = await readJsonBody(request, createWarehouseSchema)
+    return NextResponse.json({ warehouse: await createWarehouse(input) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound, readJsonBody } from "@/lib/api-route"
+import { boxListSchema } from "@/lib/workspace-schemas"
+import { listBoxes, replaceBoxes, workspaceExists } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json(await listBoxes(workspaceId))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Replaces every box in the workspace, placed and unplaced
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    const { boxes, unplaceableBoxes } = await readJsonBody(request, boxListSchema)
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json(await replaceBoxes(workspaceId, boxes, unplaceableBoxes))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound } from "@/lib/api-route"
+import { deletePlan, getPlan } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string; planId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId, planId } = await params
+    const plan = await getPlan(workspaceId, planId)
+    if (!plan) throw notFound("Plan")
+    return NextResponse.json({ plan })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId, planId } = await params
+    if (!(await deletePlan(workspaceId, planId))) throw notFound("Plan")
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
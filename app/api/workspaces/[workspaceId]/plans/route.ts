@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound, readJsonBody } from "@/lib/api-route"
+import { planSnapshotSchema } from "@/lib/workspace-schemas"
+import { listPlans, savePlan, workspaceExists } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json({ plans: await listPlans(workspaceId) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    const plan = await readJsonBody(request, planSnapshotSchema)
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json({ plan: await savePlan(workspaceId, plan) }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
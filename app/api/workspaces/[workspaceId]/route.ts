@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound, readJsonBody } from "@/lib/api-route"
+import { workspaceMetadataSchema, workspaceSchema } from "@/lib/workspace-schemas"
+import {
+  deleteWorkspace,
+  getWorkspace,
+  saveWorkspace,
+  updateWorkspaceMetadata,
+  workspaceExists,
+} from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    const workspace = await getWorkspace(workspaceId)
+    if (!workspace) throw notFound("Workspace")
+    return NextResponse.json({ workspace })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Creates or replaces the whole workspace; this is what the workspace store syncs with
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    const input = await readJsonBody(request, workspaceSchema)
+    return NextResponse.json({ workspace: await saveWorkspace(workspaceId, input) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Renames or re-describes the workspace without touching its contents
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    const input = await readJsonBody(request, workspaceMetadataSchema.partial())
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json({ workspace: await updateWorkspaceMetadata(workspaceId, input) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    await deleteWorkspace(workspaceId)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound, readJsonBody } from "@/lib/api-route"
+import { fleetSchema } from "@/lib/workspace-schemas"
+import { listFleet, replaceFleet, workspaceExists } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json({ fleet: await listFleet(workspaceId) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+// Replaces the truck types the fleet planner may dispatch for this workspace
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    const { fleet } = await readJsonBody(request, fleetSchema)
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json({ fleet: await replaceFleet(workspaceId, fleet) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound } from "@/lib/api-route"
+import { restoreVersion } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string; versionId: string }> }
+
+// Puts the version's contents back as the workspace, saved as a new version
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId, versionId } = await params
+    const workspace = await restoreVersion(workspaceId, versionId)
+    if (!workspace) throw notFound("Version")
+    return NextResponse.json({ workspace })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
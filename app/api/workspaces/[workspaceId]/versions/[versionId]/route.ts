@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound } from "@/lib/api-route"
+import { getVersion } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string; versionId: string }> }
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId, versionId } = await params
+    const version = await getVersion(workspaceId, versionId)
+    if (!version) throw notFound("Version")
+    return NextResponse.json({ version })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
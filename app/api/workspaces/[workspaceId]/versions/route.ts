@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { errorResponse, notFound } from "@/lib/api-route"
+import { listVersions, workspaceExists } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+type RouteContext = { params: Promise<{ workspaceId: string }> }
+
+// Newest first, without contents; fetch a version by id to diff or inspect it
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const { workspaceId } = await params
+    if (!(await workspaceExists(workspaceId))) throw notFound("Workspace")
+    return NextResponse.json({ versions: await listVersions(workspaceId) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { errorResponse, readJsonBody } from "@/lib/api-route"
+import { workspaceSchema } from "@/lib/workspace-schemas"
+import { listWorkspaces, saveWorkspace } from "@/lib/workspace-db"
+import { requireUser } from "@/lib/auth"
+import { LOAD_PLANNERS } from "@/lib/access-control"
+
+// Summaries only; fetch a workspace by id for its boxes, fleet and plans
+export async function GET(request: Request) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    return NextResponse.json({ workspaces: await listWorkspaces() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    await requireUser(request, LOAD_PLANNERS)
+    const input = await readJsonBody(request, workspaceSchema)
+    const workspace = await saveWorkspace(input.id ?? crypto.randomUUID(), input)
+    return NextResponse.json({ workspace }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
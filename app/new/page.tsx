@@ -95,7 +95,10 @@ export default function NewWorkspacePage() {
   // ───────────────────────── stores ─────────────────────────
   const {
     boxes,
+    unplaceableBoxes,
     truckDimensions,
+    fleet,
+    planSnapshots,
     stabilityScore,
     safetyScore,
     optimizationScore,
@@ -600,7 +603,11 @@ export default function NewWorkspacePage() {
                     saveWorkspace(currentWorkspace.id, {
                       ...currentWorkspace,
                       boxes,
+                      unplaceableBoxes,
                       truckDimensions,
+                      fleet,
+                      plans: planSnapshots,
+                      scores: { stability: stabilityScore, safety: safetyScore, optimization: optimizationScore },
                       lastModified: new Date().toISOString(),
                     });
                   }}
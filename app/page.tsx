@@ -12,6 +12,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Store, Warehouse, Shield } from "lucide-react"
 import { EnhancedWorldMap } from "@/components/enhanced-worldmap"
 import { CursorEffect } from "@/components/cursor-effect"
+import { login, signup } from "@/lib/auth-api"
+import { getHomePath } from "@/lib/access-control"
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth-schemas"
+import type { SessionUser } from "@/types/auth"
+
+type AuthForm = "retail" | "warehouse" | "signup"
+
+// Where the middleware sent the user from, if it's a path on this site
+function getRedirectTarget(user: SessionUser): string {
+  const next = new URLSearchParams(window.location.search).get("next")
+  return next?.startsWith("/") && !next.startsWith("//") ? next : getHomePath(user.role)
+}
 
 export default function LoginPage() {
   const router = useRouter()
@@ -26,57 +38,54 @@ export default function LoginPage() {
     address: "",
     phone: "",
   })
+  const [submitting, setSubmitting] = useState<AuthForm | null>(null)
+  const [formError, setFormError] = useState<{ form: AuthForm; message: string } | null>(null)
 
   useEffect(() => {
     const timer = setTimeout(() => setShowContent(true), 500)
     return () => clearTimeout(timer)
   }, [])
 
+  // The server sets the session cookie; the page only decides where to go next
+  const submit = async (form: AuthForm, authenticate: () => Promise<SessionUser>) => {
+    setSubmitting(form)
+    setFormError(null)
+    try {
+      const user = await authenticate()
+      router.push(getRedirectTarget(user))
+    } catch (error) {
+      setFormError({ form, message: error instanceof Error ? error.message : "Sign-in failed" })
+      setSubmitting(null)
+    }
+  }
+
   const handleRetailLogin = (e: React.FormEvent) => {
     e.preventDefault()
-    if (retailLoginData.retailId && retailLoginData.password) {
-      localStorage.setItem(
-        "currentRetail",
-        JSON.stringify({
-          id: retailLoginData.retailId,
-          name: `Retail Shop ${retailLoginData.retailId}`,
-        }),
-      )
-      router.push("/retailer")
-    }
+    submit("retail", () => login({ username: retailLoginData.retailId, password: retailLoginData.password }))
   }
 
   const handleWarehouseLogin = (e: React.FormEvent) => {
     e.preventDefault()
-    if (warehouseLoginData.username === "warehouse_admin" && warehouseLoginData.password === "walmart2024") {
-      localStorage.setItem(
-        "warehouseAuth",
-        JSON.stringify({
-          id: "WH001",
-          name: "Walmart Central Warehouse",
-          role: "admin",
-        }),
-      )
-      router.push("/truck")
-    } else {
-      alert("Invalid warehouse credentials!")
-    }
+    submit("warehouse", () => login(warehouseLoginData))
   }
 
   const handleSignup = (e: React.FormEvent) => {
     e.preventDefault()
-    if (signupData.password === signupData.confirmPassword && signupData.shopName) {
-      localStorage.setItem(
-        "currentRetail",
-        JSON.stringify({
-          id: signupData.retailId,
-          name: signupData.shopName,
-        }),
-      )
-      router.push("/dashboard")
+    if (signupData.password !== signupData.confirmPassword) {
+      setFormError({ form: "signup", message: "The passwords don't match" })
+      return
     }
+    const { shopName, retailId, password, address, phone } = signupData
+    submit("signup", () => signup({ shopName, username: retailId, password, address, phone: phone || undefined }))
   }
 
+  const renderError = (form: AuthForm) =>
+    formError?.form === form && (
+      <p role="alert" className="text-sm text-red-400">
+        {formError.message}
+      </p>
+    )
+
   return (
     <div className="min-h-screen bg-black flex items-center justify-center relative overflow-hidden">
       <CursorEffect />
@@ -166,11 +175,13 @@ export default function LoginPage() {
                         required
                       />
                     </div>
+                    {renderError("retail")}
                     <Button
                       type="submit"
+                      disabled={submitting !== null}
                       className="w-full bg-gradient-to-r from-blue-600/80 to-blue-700/80 hover:from-blue-700 hover:to-blue-800 transition-all duration-300 transform hover:scale-105 cursor-pointer backdrop-blur-sm"
                     >
-                      Login to Dashboard
+                      {submitting === "retail" ? "Signing in..." : "Login to Dashboard"}
                     </Button>
                   </form>
                 </CardContent>
@@ -182,9 +193,11 @@ export default function LoginPage() {
                 <CardHeader>
                   <CardTitle className="text-white flex items-center gap-2">
                     <Shield className="h-5 w-5 animate-pulse" />
-                    Warehouse Admin Login
+                    Warehouse Staff Login
                   </CardTitle>
-                  <CardDescription className="text-gray-400">Authorized warehouse personnel only</CardDescription>
+                  <CardDescription className="text-gray-400">
+                    Admins, loaders and drivers sign in with their own account
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <form onSubmit={handleWarehouseLogin} className="space-y-4">
@@ -195,7 +208,7 @@ export default function LoginPage() {
                       <Input
                         id="warehouseUsername"
                         type="text"
-                        placeholder="warehouse_admin"
+                        placeholder="Enter your username"
                         value={warehouseLoginData.username}
                         onChange={(e) => setWarehouseLoginData({ ...warehouseLoginData, username: e.target.value })}
                         className="bg-gray-800/30 border-gray-700/50 text-white placeholder:text-gray-500 focus:border-red-500 transition-all duration-300 cursor-pointer backdrop-blur-sm"
@@ -209,27 +222,25 @@ export default function LoginPage() {
                       <Input
                         id="warehousePassword"
                         type="password"
-                        placeholder="Enter warehouse password"
+                        placeholder="Enter your password"
                         value={warehouseLoginData.password}
                         onChange={(e) => setWarehouseLoginData({ ...warehouseLoginData, password: e.target.value })}
                         className="bg-gray-800/30 border-gray-700/50 text-white placeholder:text-gray-500 focus:border-red-500 transition-all duration-300 cursor-pointer backdrop-blur-sm"
                         required
                       />
                     </div>
+                    {renderError("warehouse")}
                     <Button
                       type="submit"
+                      disabled={submitting !== null}
                       className="w-full bg-gradient-to-r from-red-600/80 to-red-700/80 hover:from-red-700 hover:to-red-800 transition-all duration-300 transform hover:scale-105 cursor-pointer backdrop-blur-sm"
                     >
-                      Access Warehouse System
+                      {submitting === "warehouse" ? "Signing in..." : "Access Warehouse System"}
                     </Button>
                   </form>
                   <div className="mt-4 p-3 bg-gray-800/30 rounded-lg backdrop-blur-sm border border-gray-700/50">
                     <p className="text-xs text-gray-400 text-center">
-                      Demo Credentials:
-                      <br />
-                      Username: warehouse_admin
-                      <br />
-                      Password: walmart2024
+                      Staff accounts are created by your warehouse administrator.
                     </p>
                   </div>
                 </CardContent>
@@ -267,7 +278,7 @@ export default function LoginPage() {
                       <Input
                         id="newRetailId"
                         type="text"
-                        placeholder="Choose a retail ID"
+                        placeholder="Choose a retail ID to sign in with"
                         value={signupData.retailId}
                         onChange={(e) => setSignupData({ ...signupData, retailId: e.target.value })}
                         className="bg-gray-800/30 border-gray-700/50 text-white placeholder:text-gray-500 focus:border-green-500 transition-all duration-300 cursor-pointer backdrop-blur-sm"
@@ -295,11 +306,10 @@ export default function LoginPage() {
                       <Input
                         id="phone"
                         type="tel"
-                        placeholder="Contact number"
+                        placeholder="Contact number (optional)"
                         value={signupData.phone}
                         onChange={(e) => setSignupData({ ...signupData, phone: e.target.value })}
                         className="bg-gray-800/30 border-gray-700/50 text-white placeholder:text-gray-500 focus:border-green-500 transition-all duration-300 cursor-pointer backdrop-blur-sm"
-                        required
                       />
                     </div>
                     <div className="space-y-2">
@@ -309,7 +319,8 @@ export default function LoginPage() {
                       <Input
                         id="newPassword"
                         type="password"
-                        placeholder="Create password"
+                        placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                        minLength={MIN_PASSWORD_LENGTH}
                         value={signupData.password}
                         onChange={(e) => setSignupData({ ...signupData, password: e.target.value })}
                         className="bg-gray-800/30 border-gray-700/50 text-white placeholder:text-gray-500 focus:border-green-500 transition-all duration-300 cursor-pointer backdrop-blur-sm"
@@ -330,11 +341,13 @@ export default function LoginPage() {
                         required
                       />
                     </div>
+                    {renderError("signup")}
                     <Button
                       type="submit"
+                      disabled={submitting !== null}
                       className="w-full bg-gradient-to-r from-green-600/80 to-green-700/80 hover:from-green-700 hover:to-green-800 transition-all duration-300 transform hover:scale-105 cursor-pointer backdrop-blur-sm"
                     >
-                      Create Account
+                      {submitting === "signup" ? "Creating account..." : "Create Account"}
                     </Button>
                   </form>
                 </CardContent>
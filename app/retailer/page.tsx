@@ -1,6 +1,7 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -10,10 +11,27 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
+import { RetailerOrderHistory } from "@/components/retailer-order-history"
+import {
+  OrdersApiError,
+  createOrders,
+  fetchInventory,
+  fetchNotifications,
+  fetchOrders,
+  fetchReplenishment,
+  fetchReplenishmentBacktest,
+  fetchRetailers,
+  markNotificationsRead,
+} from "@/lib/orders-api"
+import type { CreateOrderInput } from "@/lib/order-schemas"
+import { logout } from "@/lib/auth-api"
+import type { InventoryItem, Order, OrderNotification, OrderPriority, Retailer } from "@/types/orders"
+import type { ProductBacktest, ReplenishmentStrategy } from "@/types/replenishment"
 import { Minus, Plus, ShoppingCart, LogOut, Send, Package, AlertTriangle, Bell, X, Calculator, TrendingUp, DollarSign, Truck, Building2, BarChart3, Search, Filter, Eye, Settings, Zap, Target, ShoppingBag, Clock, Star, ChevronRight, Grid3X3, List, RefreshCw, Download, Upload, Users, Boxes } from 'lucide-react'
 
 interface Item {
   id: string
+  productId: number
   name: string
   category: string
   price: number
@@ -46,26 +64,61 @@ interface ShortageItem {
   selected: boolean
   customQuantity?: number
   priority: "high" | "medium" | "low"
+  reorderPoint: number
+  averageDailySales: number
+  explanation: string[] // why this quantity, from the forecast
 }
 
-const availableItems: Item[] = [{ id: "1", name: "Coca Cola 12-Pack", category: "Beverages", price: 4.99, inStock: true, currentStock: 15, minStock: 20, maxStock: 80, leadTime: 2, supplierReliability: 95, image: "/assets/1.png", },
-{ id: "2", name: "Lay's Potato Chips", category: "Snacks", price: 2.49, inStock: true, currentStock: 8, minStock: 25, maxStock: 100, leadTime: 1, supplierReliability: 98, image: "/assets/2.png", }, { id: "3", name: "Wonder Bread", category: "Bakery", price: 1.99, inStock: true, currentStock: 45, minStock: 30, maxStock: 60, leadTime: 1, supplierReliability: 92, image: "/assets/3.png", }, { id: "4", name: "Milk Gallon", category: "Dairy", price: 3.49, inStock: true, currentStock: 3, minStock: 15, maxStock: 40, leadTime: 1, supplierReliability: 90, image: "/assets/4.png", }, { id: "5", name: "Bananas (lb)", category: "Produce", price: 0.68, inStock: true, currentStock: 12, minStock: 20, maxStock: 50, leadTime: 2, supplierReliability: 85, image: "/assets/5.png", }, { id: "7", name: "Tide Detergent", category: "Household", price: 12.99, inStock: true, currentStock: 22, minStock: 15, maxStock: 40, leadTime: 3, supplierReliability: 96, image: "/assets/7.png", }, { id: "8", name: "Charmin Toilet Paper", category: "Household", price: 8.99, inStock: true, currentStock: 18, minStock: 20, maxStock: 60, leadTime: 2, supplierReliability: 94, image: "/assets/8.png", }, { id: "9", name: "Cheerios Cereal", category: "Breakfast", price: 4.49, inStock: true, currentStock: 5, minStock: 12, maxStock: 50, leadTime: 2, supplierReliability: 97, image: "/assets/9.png", }, { id: "10", name: "Frozen Pizza", category: "Frozen", price: 3.99, inStock: true, currentStock: 28, minStock: 25, maxStock: 80, leadTime: 3, supplierReliability: 93, image: "/assets/10.png", },
-{
-  id: "11",
-  name: "Medical Crate",
-  category: "Medical",
-  price: 30.99,
-  inStock: true,
-  currentStock: 28,
-  minStock: 25,
-  maxStock: 80,
-  leadTime: 3,
-  supplierReliability: 93,
-  image: "/placeholder.svg?height=64&width=64&text=Frozen+Pizza",
-}]
+// How often the page checks for order status changes
+const NOTIFICATION_POLL_MS = 30_000
+
+// How far back the strategy back-test replays sales
+const BACKTEST_DAYS = 60
+
+function toItem(entry: InventoryItem): Item {
+  return {
+    id: String(entry.product.id),
+    productId: entry.product.id,
+    name: entry.product.name,
+    category: entry.product.category,
+    price: entry.product.price,
+    inStock: entry.currentStock > 0,
+    currentStock: entry.currentStock,
+    minStock: entry.minStock,
+    maxStock: entry.maxStock,
+    leadTime: entry.leadTimeDays,
+    supplierReliability: entry.supplierReliability,
+    image: entry.product.image ?? "/placeholder.svg",
+  }
+}
+
+const SHORTAGE_PRIORITY: Record<ShortageItem["priority"], OrderPriority> = { high: "high", medium: "normal", low: "low" }
+
+// Date inputs give a local calendar day; the API wants an instant
+function toDeliveryDate(day: string): string | undefined {
+  return day ? new Date(`${day}T00:00:00`).toISOString() : undefined
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof OrdersApiError && error.isOffline) return "Can't reach the server. Check your connection and try again."
+  return error instanceof Error ? error.message : fallback
+}
 
 export default function InventoryDashboard() {
-  const [retailInfo] = useState({ id: "RT-001", name: "Downtown Market" })
+  const router = useRouter()
+  // A retailer account only gets its own store back; a warehouse admin picks one in the header
+  const [retailers, setRetailers] = useState<Retailer[]>([])
+  const [retailId, setRetailId] = useState<number | null>(null)
+  const [availableItems, setAvailableItems] = useState<Item[]>([])
+  const [inventoryLoading, setInventoryLoading] = useState(true)
+  const [orderHistory, setOrderHistory] = useState<Order[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [notifications, setNotifications] = useState<OrderNotification[]>([])
+  const [showNotifications, setShowNotifications] = useState(false)
+  const [activeView, setActiveView] = useState<"inventory" | "history">("inventory")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null)
   const [orderItems, setOrderItems] = useState<OrderItem[]>([])
   const [deadline, setDeadline] = useState("")
   const [shortageItems, setShortageItems] = useState<ShortageItem[]>([])
@@ -73,7 +126,9 @@ export default function InventoryDashboard() {
   const [showTopAlert, setShowTopAlert] = useState(true)
   const [selectedShortageItems, setSelectedShortageItems] = useState<Set<string>>(new Set())
   const [customDeadline, setCustomDeadline] = useState("")
-  const [orderingStrategy, setOrderingStrategy] = useState<"conservative" | "balanced" | "aggressive">("balanced")
+  const [orderingStrategy, setOrderingStrategy] = useState<ReplenishmentStrategy>("balanced")
+  const [backtests, setBacktests] = useState<ProductBacktest[] | null>(null)
+  const [backtestLoading, setBacktestLoading] = useState(false)
   const [budgetLimit, setBudgetLimit] = useState<number>(0)
   const [cashFlowMode, setCashFlowMode] = useState(false)
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
@@ -89,56 +144,132 @@ export default function InventoryDashboard() {
     threeDays.setDate(threeDays.getDate() + 3)
     setCustomDeadline(threeDays.toISOString().split("T")[0])
 
-    const shortages = availableItems
-      .filter((item) => item.currentStock <= item.minStock)
-      .map((item) => {
-        const shortage = item.minStock - item.currentStock
-        const urgency =
-          item.currentStock === 0
-            ? ("critical" as const)
-            : item.currentStock <= item.minStock * 0.3
-              ? ("critical" as const)
-              : item.currentStock <= item.minStock * 0.6
-                ? ("low" as const)
-                : ("moderate" as const)
-
-        let suggestedQuantity = shortage
-        if (orderingStrategy === "conservative") {
-          suggestedQuantity = Math.ceil(shortage * 0.8)
-        } else if (orderingStrategy === "aggressive") {
-          suggestedQuantity = shortage + Math.ceil((item.maxStock || item.minStock * 2) - item.minStock) * 0.3
-        }
-
-        let priority: "high" | "medium" | "low" = "medium"
-        if (urgency === "critical" || item.category === "Dairy" || item.category === "Produce") {
-          priority = "high"
-        } else if (item.supplierReliability && item.supplierReliability < 90) {
-          priority = "high"
-        } else if (item.leadTime && item.leadTime > 2) {
-          priority = "low"
-        }
-
-        return {
-          id: item.id,
-          name: item.name,
-          category: item.category,
-          currentStock: item.currentStock,
-          minStock: item.minStock,
-          maxStock: item.maxStock || item.minStock * 2,
-          leadTime: item.leadTime || 2,
-          suggestedQuantity,
-          urgency,
-          image: item.image,
-          price: item.price,
-          selected: urgency === "critical",
-          priority,
-        }
+    fetchRetailers()
+      .then((list) => {
+        setRetailers(list)
+        setRetailId((current) => current ?? list[0]?.id ?? null)
+        if (list.length === 0) setInventoryLoading(false)
       })
+      .catch((error) => {
+        setNotice({ text: errorMessage(error, "Failed to load stores"), isError: true })
+        setInventoryLoading(false)
+      })
+  }, [])
+
+  const loadInventory = useCallback(async () => {
+    if (retailId === null) return
+    try {
+      setInventoryLoading(true)
+      setAvailableItems((await fetchInventory(retailId)).map(toItem))
+    } catch (error) {
+      setNotice({ text: errorMessage(error, "Failed to load inventory"), isError: true })
+    } finally {
+      setInventoryLoading(false)
+    }
+  }, [retailId])
+
+  const loadOrderHistory = useCallback(async () => {
+    if (retailId === null) return
+    try {
+      setHistoryLoading(true)
+      setOrderHistory(await fetchOrders({ retailId }))
+      setHistoryError(null)
+    } catch (error) {
+      setHistoryError(errorMessage(error, "Failed to load orders"))
+    } finally {
+      setHistoryLoading(false)
+    }
+  }, [retailId])
 
-    setShortageItems(shortages)
-    const criticalItems = new Set(shortages.filter(item => item.urgency === "critical").map(item => item.id))
-    setSelectedShortageItems(criticalItems)
-  }, [orderingStrategy])
+  const loadNotifications = useCallback(async () => {
+    if (retailId === null) return
+    try {
+      setNotifications(await fetchNotifications(retailId))
+    } catch (error) {
+      // Polling tries again shortly; the bell just keeps its last count
+      console.error("Failed to load notifications:", error)
+    }
+  }, [retailId])
+
+  useEffect(() => {
+    setOrderItems([])
+    setBacktests(null)
+    loadInventory()
+    loadOrderHistory()
+    loadNotifications()
+  }, [loadInventory, loadOrderHistory, loadNotifications])
+
+  useEffect(() => {
+    const timer = setInterval(loadNotifications, NOTIFICATION_POLL_MS)
+    return () => clearInterval(timer)
+  }, [loadNotifications])
+
+  // A status change means the history (and, on delivery, the stock) is out of date
+  const unreadCount = notifications.filter((notification) => !notification.read).length
+  useEffect(() => {
+    if (unreadCount > 0) {
+      loadOrderHistory()
+      loadInventory()
+    }
+  }, [unreadCount, loadOrderHistory, loadInventory])
+
+  useEffect(() => {
+    if (retailId === null || availableItems.length === 0) {
+      setShortageItems([])
+      return
+    }
+    let cancelled = false
+    fetchReplenishment(retailId, orderingStrategy)
+      .then((suggestions) => {
+        if (cancelled) return
+        const itemsByProduct = new Map(availableItems.map(item => [item.productId, item]))
+        const shortages = suggestions
+          .filter(({ plan }) => plan.needsReorder && plan.suggestedQuantity > 0)
+          .flatMap(({ productId, plan }) => {
+            const item = itemsByProduct.get(productId)
+            if (!item) return []
+
+            let priority: "high" | "medium" | "low" = "medium"
+            if (plan.urgency === "critical" || item.category === "Dairy" || item.category === "Produce") {
+              priority = "high"
+            } else if (item.supplierReliability && item.supplierReliability < 90) {
+              priority = "high"
+            } else if (item.leadTime && item.leadTime > 2) {
+              priority = "low"
+            }
+
+            return [{
+              id: item.id,
+              name: item.name,
+              category: item.category,
+              currentStock: item.currentStock,
+              minStock: item.minStock,
+              maxStock: item.maxStock || item.minStock * 2,
+              leadTime: item.leadTime || 2,
+              supplierReliability: item.supplierReliability ?? 100,
+              suggestedQuantity: plan.suggestedQuantity,
+              urgency: plan.urgency,
+              image: item.image,
+              price: item.price,
+              selected: plan.urgency === "critical",
+              priority,
+              reorderPoint: plan.reorderPoint,
+              averageDailySales: plan.forecast.averageDaily,
+              explanation: plan.explanation,
+            }]
+          })
+
+        setShortageItems(shortages)
+        const criticalItems = new Set(shortages.filter(item => item.urgency === "critical").map(item => item.id))
+        setSelectedShortageItems(criticalItems)
+      })
+      .catch((error) => {
+        if (!cancelled) setNotice({ text: errorMessage(error, "Failed to load reorder suggestions"), isError: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [retailId, availableItems, orderingStrategy])
 
   const addToOrder = (item: Item) => {
     setOrderItems((prev) => {
@@ -198,13 +329,35 @@ export default function InventoryDashboard() {
       }, 0)
   }
 
-  const sendRequest = () => {
-    if (orderItems.length === 0) return
-    alert("Request sent to warehouse successfully!")
-    setOrderItems([])
+  // Every line becomes its own order, all saved together; true when they were
+  const submitOrders = async (inputs: CreateOrderInput[]) => {
+    try {
+      setIsSubmitting(true)
+      const placed = await createOrders(inputs)
+      setNotice({
+        text: `Sent ${placed.length} ${placed.length === 1 ? "order" : "orders"} to the warehouse for approval`,
+        isError: false,
+      })
+      loadOrderHistory()
+      return true
+    } catch (error) {
+      setNotice({ text: errorMessage(error, "Failed to send the order"), isError: true })
+      return false
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const sendRequest = async () => {
+    if (orderItems.length === 0 || retailId === null) return
+    const deliveryDate = toDeliveryDate(deadline)
+    const sent = await submitOrders(
+      orderItems.map((item) => ({ retailId, productId: item.productId, quantity: item.quantity, deliveryDate })),
+    )
+    if (sent) setOrderItems([])
   }
 
-  const sendSelectedShortageOrders = () => {
+  const sendSelectedShortageOrders = async () => {
     if (selectedShortageItems.size === 0) {
       alert("Please select items to order.")
       return
@@ -214,10 +367,61 @@ export default function InventoryDashboard() {
       alert(`Order total ($${totalCost.toFixed(2)}) exceeds budget limit ($${budgetLimit.toFixed(2)}). Please adjust quantities or budget.`)
       return
     }
-    alert(`Selected shortage orders sent successfully! Total: $${totalCost.toFixed(2)}`)
-    setShowShortagePopup(false)
-    setShowTopAlert(false)
-    setSelectedShortageItems(new Set())
+    if (retailId === null) return
+
+    const deliveryDate = toDeliveryDate(customDeadline)
+    const inputs = shortageItems
+      .filter(item => selectedShortageItems.has(item.id))
+      .map(item => ({
+        retailId,
+        productId: Number(item.id),
+        // The aggressive strategy can suggest part of a unit
+        quantity: Math.ceil(item.customQuantity ?? item.suggestedQuantity),
+        deliveryDate,
+        priority: SHORTAGE_PRIORITY[item.priority],
+      }))
+      .filter(input => input.quantity > 0)
+    if (inputs.length === 0) {
+      alert("Selected items all have a quantity of 0.")
+      return
+    }
+
+    if (await submitOrders(inputs)) {
+      setShowShortagePopup(false)
+      setShowTopAlert(false)
+      setSelectedShortageItems(new Set())
+    }
+  }
+
+  const runBacktest = async () => {
+    if (retailId === null) return
+    try {
+      setBacktestLoading(true)
+      setBacktests(await fetchReplenishmentBacktest(retailId, orderingStrategy, BACKTEST_DAYS))
+    } catch (error) {
+      setNotice({ text: errorMessage(error, "Failed to run the back-test"), isError: true })
+    } finally {
+      setBacktestLoading(false)
+    }
+  }
+
+  const openNotifications = async () => {
+    setShowNotifications(true)
+    if (retailId === null || unreadCount === 0) return
+    try {
+      setNotifications(await markNotificationsRead(retailId))
+    } catch (error) {
+      console.error("Failed to mark notifications read:", error)
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      await logout()
+      router.push("/")
+    } catch (error) {
+      setNotice({ text: errorMessage(error, "Could not sign out"), isError: true })
+    }
   }
 
   // Filter items based on search and category
@@ -236,6 +440,7 @@ export default function InventoryDashboard() {
   const totalItems = availableItems.length
   const lowStockItems = availableItems.filter(item => item.currentStock <= item.minStock).length
   const outOfStockItems = availableItems.filter(item => !item.inStock).length
+  const retailer = retailers.find(candidate => candidate.id === retailId)
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -249,8 +454,22 @@ export default function InventoryDashboard() {
                   <Building2 className="h-6 w-6 text-white" />
                 </div>
                 <div>
-                  <h1 className="text-xl font-bold text-gray-900">{retailInfo.name}</h1>
-                  <p className="text-sm text-gray-600">ID: {retailInfo.id}</p>
+                  {retailers.length > 1 ? (
+                    <select
+                      value={retailId ?? ""}
+                      onChange={(e) => setRetailId(Number(e.target.value))}
+                      className="text-xl font-bold text-gray-900 bg-transparent focus:outline-none"
+                    >
+                      {retailers.map(retailer => (
+                        <option key={retailer.id} value={retailer.id}>{retailer.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <h1 className="text-xl font-bold text-gray-900">{retailer?.name ?? "No store"}</h1>
+                  )}
+                  <p className="text-sm text-gray-600">
+                    {retailer ? `ID: ${retailer.id}${retailer.location ? ` · ${retailer.location}` : ""}` : "Run the database seed to add stores"}
+                  </p>
                 </div>
               </div>
 
@@ -271,6 +490,20 @@ export default function InventoryDashboard() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <Button
+                onClick={openNotifications}
+                variant="outline"
+                size="sm"
+                className="relative gap-2 text-gray-700 border-gray-300 hover:bg-gray-50"
+              >
+                <Bell className="h-4 w-4" />
+                Updates
+                {unreadCount > 0 && (
+                  <span className="absolute -top-2 -right-2 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+                    {unreadCount}
+                  </span>
+                )}
+              </Button>
               <Button variant="outline" size="sm" className="gap-2 text-gray-700 border-gray-300 hover:bg-gray-50">
                 <Download className="h-4 w-4" />
                 Export
@@ -279,7 +512,11 @@ export default function InventoryDashboard() {
                 <Settings className="h-4 w-4" />
                 Settings
               </Button>
-              <Button variant="outline" className="gap-2 text-gray-700 border-gray-300 hover:bg-gray-50">
+              <Button
+                variant="outline"
+                className="gap-2 text-gray-700 border-gray-300 hover:bg-gray-50"
+                onClick={handleLogout}
+              >
                 <LogOut className="h-4 w-4" />
                 Logout
               </Button>
@@ -288,6 +525,17 @@ export default function InventoryDashboard() {
         </div>
       </header>
 
+      {notice && (
+        <div className={`border-b ${notice.isError ? "bg-red-50 border-red-200" : "bg-green-50 border-green-200"}`}>
+          <div className="container mx-auto px-6 py-3 flex items-center justify-between">
+            <p className={`text-sm font-medium ${notice.isError ? "text-red-700" : "text-green-700"}`}>{notice.text}</p>
+            <Button onClick={() => setNotice(null)} variant="ghost" size="sm" className="text-gray-600 hover:bg-gray-100">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Smart Alert Banner */}
       {shortageItems.length > 0 && showTopAlert && (
         <div className="relative overflow-hidden bg-orange-100 border-b border-orange-200">
@@ -337,240 +585,266 @@ export default function InventoryDashboard() {
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
           {/* Inventory Section */}
           <div className="lg:col-span-3 space-y-6">
-            {/* Section Header with Controls */}
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-              <div>
-                <h2 className="text-2xl font-bold text-gray-900">Inventory Management</h2>
-                <p className="text-gray-600 mt-1">Manage your store inventory and place orders</p>
-              </div>
+            <Tabs value={activeView} onValueChange={(value) => setActiveView(value as "inventory" | "history")}>
+              <TabsList className="bg-gray-100">
+                <TabsTrigger value="inventory" className="text-gray-900 data-[state=active]:bg-white data-[state=active]:text-gray-900">Inventory</TabsTrigger>
+                <TabsTrigger value="history" className="text-gray-900 data-[state=active]:bg-white data-[state=active]:text-gray-900">
+                  Order History ({orderHistory.length})
+                </TabsTrigger>
+              </TabsList>
 
-              <div className="flex items-center gap-3">
-                <div className="flex items-center gap-2 bg-gray-100 rounded-lg p-1">
-                  <Button
-                    onClick={() => setViewMode("grid")}
-                    variant={viewMode === "grid" ? "default" : "ghost"}
-                    size="sm"
-                    className="px-3"
-                  >
-                    <Grid3X3 className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    onClick={() => setViewMode("list")}
-                    variant={viewMode === "list" ? "default" : "ghost"}
-                    size="sm"
-                    className="px-3"
-                  >
-                    <List className="h-4 w-4" />
-                  </Button>
-                </div>
-                <Button variant="outline" size="sm" className="gap-2 text-gray-700 border-gray-300 hover:bg-gray-50">
-                  <RefreshCw className="h-4 w-4" />
-                  Refresh
-                </Button>
-              </div>
-            </div>
-
-            {/* Search and Filter Bar */}
-            <Card className="bg-white border-gray-200">
-              <CardContent className="p-4">
-                <div className="flex flex-col sm:flex-row gap-4">
-                  <div className="relative flex-1">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                    <Input
-                      placeholder="Search products..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="pl-10 bg-white text-gray-900 placeholder-gray-500"
-                    />
+              <TabsContent value="inventory" className="space-y-6">
+                {/* Section Header with Controls */}
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-900">Inventory Management</h2>
+                    <p className="text-gray-600 mt-1">Manage your store inventory and place orders</p>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <Filter className="h-4 w-4 text-gray-400" />
-                    <select
-                      value={selectedCategory}
-                      onChange={(e) => setSelectedCategory(e.target.value)}
-                      className="bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2 bg-gray-100 rounded-lg p-1">
+                      <Button
+                        onClick={() => setViewMode("grid")}
+                        variant={viewMode === "grid" ? "default" : "ghost"}
+                        size="sm"
+                        className="px-3"
+                      >
+                        <Grid3X3 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        onClick={() => setViewMode("list")}
+                        variant={viewMode === "list" ? "default" : "ghost"}
+                        size="sm"
+                        className="px-3"
+                      >
+                        <List className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={loadInventory}
+                      disabled={inventoryLoading}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 text-gray-700 border-gray-300 hover:bg-gray-50"
                     >
-                      {categories.map(category => (
-                        <option key={category} value={category} className="text-gray-900">
-                          {category === "all" ? "All Categories" : category}
-                        </option>
-                      ))}
-                    </select>
+                      <RefreshCw className={`h-4 w-4 ${inventoryLoading ? "animate-spin" : ""}`} />
+                      Refresh
+                    </Button>
                   </div>
                 </div>
-              </CardContent>
-            </Card>
 
-            {/* Items Grid/List */}
-            <div className={viewMode === "grid"
-              ? "grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6"
-              : "space-y-4"
-            }>
-              {filteredItems.map((item) => {
-                const isLowStock = item.currentStock <= item.minStock
-                const isCritical = item.currentStock <= item.minStock * 0.3
-                const stockPercentage = (item.currentStock / (item.maxStock || item.minStock * 2)) * 100
-
-                if (viewMode === "list") {
-                  return (
-                    <Card key={item.id} className="bg-white hover:bg-gray-50 transition-colors border-gray-200">
-                      <CardContent className="p-4">
-                        <div className="flex items-center gap-4">
-                          <img
-                            src={item.image || "/placeholder.svg"}
-                            alt={item.name}
-                            className="w-16 h-16 rounded-lg object-cover border border-gray-200 bg-gray-100"
-                          />
+                {/* Search and Filter Bar */}
+                <Card className="bg-white border-gray-200">
+                  <CardContent className="p-4">
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                        <Input
+                          placeholder="Search products..."
+                          value={searchTerm}
+                          onChange={(e) => setSearchTerm(e.target.value)}
+                          className="pl-10 bg-white text-gray-900 placeholder-gray-500"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Filter className="h-4 w-4 text-gray-400" />
+                        <select
+                          value={selectedCategory}
+                          onChange={(e) => setSelectedCategory(e.target.value)}
+                          className="bg-white border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {categories.map(category => (
+                            <option key={category} value={category} className="text-gray-900">
+                              {category === "all" ? "All Categories" : category}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
 
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-start justify-between mb-2">
-                              <div>
-                                <h3 className="font-semibold text-gray-900">{item.name}</h3>
-                                <p className="text-sm text-gray-600">{item.category}</p>
-                              </div>
-                              <div className="flex items-center gap-2">
-                                <Badge variant={item.inStock ? "default" : "destructive"} className={item.inStock ? "bg-green-100 text-green-800 border-green-300" : "bg-red-100 text-red-800 border-red-300"}>
-                                  {item.inStock ? "In Stock" : "Out of Stock"}
-                                </Badge>
-                                {isLowStock && item.inStock && (
-                                  <Badge variant="outline" className="border-orange-500 text-orange-600 bg-orange-50">
-                                    Low Stock
-                                  </Badge>
-                                )}
+                {/* Items Grid/List */}
+                <div className={viewMode === "grid"
+                  ? "grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6"
+                  : "space-y-4"
+                }>
+                  {filteredItems.map((item) => {
+                    const isLowStock = item.currentStock <= item.minStock
+                    const isCritical = item.currentStock <= item.minStock * 0.3
+                    const stockPercentage = (item.currentStock / (item.maxStock || item.minStock * 2)) * 100
+
+                    if (viewMode === "list") {
+                      return (
+                        <Card key={item.id} className="bg-white hover:bg-gray-50 transition-colors border-gray-200">
+                          <CardContent className="p-4">
+                            <div className="flex items-center gap-4">
+                              <img
+                                src={item.image || "/placeholder.svg"}
+                                alt={item.name}
+                                className="w-16 h-16 rounded-lg object-cover border border-gray-200 bg-gray-100"
+                              />
+
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-start justify-between mb-2">
+                                  <div>
+                                    <h3 className="font-semibold text-gray-900">{item.name}</h3>
+                                    <p className="text-sm text-gray-600">{item.category}</p>
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                    <Badge variant={item.inStock ? "default" : "destructive"} className={item.inStock ? "bg-green-100 text-green-800 border-green-300" : "bg-red-100 text-red-800 border-red-300"}>
+                                      {item.inStock ? "In Stock" : "Out of Stock"}
+                                    </Badge>
+                                    {isLowStock && item.inStock && (
+                                      <Badge variant="outline" className="border-orange-500 text-orange-600 bg-orange-50">
+                                        Low Stock
+                                      </Badge>
+                                    )}
+                                  </div>
+                                </div>
+
+                                <div className="grid grid-cols-4 gap-4 text-sm">
+                                  <div>
+                                    <span className="text-gray-600">Current Stock:</span>
+                                    <div className="font-medium text-gray-900">{item.currentStock}</div>
+                                  </div>
+                                  <div>
+                                    <span className="text-gray-600">Min Required:</span>
+                                    <div className="font-medium text-gray-900">{item.minStock}</div>
+                                  </div>
+                                  <div>
+                                    <span className="text-gray-600">Price:</span>
+                                    <div className="font-bold text-green-600 text-lg">${item.price}</div>
+                                  </div>
+                                  <div className="flex justify-end">
+                                    <Button
+                                      onClick={() => addToOrder(item)}
+                                      className="gap-2 bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
+                                    >
+                                      <Plus className="h-4 w-4" />
+                                      Add to Order
+                                    </Button>
+                                  </div>
+                                </div>
                               </div>
                             </div>
+                          </CardContent>
+                        </Card>
+                      )
+                    }
 
-                            <div className="grid grid-cols-4 gap-4 text-sm">
-                              <div>
-                                <span className="text-gray-600">Current Stock:</span>
-                                <div className="font-medium text-gray-900">{item.currentStock}</div>
-                              </div>
-                              <div>
-                                <span className="text-gray-600">Min Required:</span>
-                                <div className="font-medium text-gray-900">{item.minStock}</div>
-                              </div>
-                              <div>
-                                <span className="text-gray-600">Price:</span>
-                                <div className="font-bold text-green-600 text-lg">${item.price}</div>
+                    return (
+                      <Card
+                        key={item.id}
+                        className={`group relative overflow-hidden bg-white hover:bg-gray-50 transition-all duration-200 border-gray-200 hover:border-gray-300 hover:shadow-lg ${isCritical ? "ring-1 ring-red-300" : isLowStock ? "ring-1 ring-orange-300" : ""
+                          }`}
+                      >
+                        <CardContent className="p-5">
+                          <div className="flex items-start gap-4 mb-4">
+                            <div className="relative">
+                              <img
+                                src={item.image || "/placeholder.svg"}
+                                alt={item.name}
+                                className="w-16 h-16 rounded-xl object-cover border border-gray-200 bg-gray-100"
+                              />
+                              {!item.inStock && (
+                                <div className="absolute inset-0 bg-red-100 rounded-xl flex items-center justify-center">
+                                  <X className="h-6 w-6 text-red-500" />
+                                </div>
+                              )}
+                            </div>
+
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-start justify-between mb-2">
+                                <h3 className="font-semibold text-gray-900 truncate">{item.name}</h3>
+                                <Badge variant={item.inStock ? "default" : "destructive"} className={`ml-2 ${item.inStock ? "bg-green-100 text-green-800 border-green-300" : "bg-red-100 text-red-800 border-red-300"}`}>
+                                  {item.inStock ? "In Stock" : "Out"}
+                                </Badge>
                               </div>
-                              <div className="flex justify-end">
-                                <Button
-                                  onClick={() => addToOrder(item)}
-                                  disabled={!item.inStock}
-                                  className="gap-2 bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
-                                >
-                                  <Plus className="h-4 w-4" />
-                                  Add to Order
-                                </Button>
+                              <p className="text-sm text-gray-600 mb-3">{item.category}</p>
+
+                              {/* Stock Level Indicator */}
+                              <div className="space-y-2">
+                                <div className="flex justify-between text-xs">
+                                  <span className="text-gray-600">Stock Level</span>
+                                  <span className={`font-medium ${isCritical ? "text-red-600" :
+                                    isLowStock ? "text-orange-600" : "text-green-600"
+                                    }`}>
+                                    {item.currentStock}/{item.maxStock || item.minStock * 2}
+                                  </span>
+                                </div>
+                                <div className="w-full bg-gray-200 rounded-full h-2">
+                                  <div
+                                    className={`h-2 rounded-full transition-all ${isCritical ? "bg-red-500" :
+                                      isLowStock ? "bg-orange-500" : "bg-green-500"
+                                      }`}
+                                    style={{ width: `${Math.min(100, stockPercentage)}%` }}
+                                  />
+                                </div>
                               </div>
                             </div>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  )
-                }
 
-                return (
-                  <Card
-                    key={item.id}
-                    className={`group relative overflow-hidden bg-white hover:bg-gray-50 transition-all duration-200 border-gray-200 hover:border-gray-300 hover:shadow-lg ${isCritical ? "ring-1 ring-red-300" : isLowStock ? "ring-1 ring-orange-300" : ""
-                      }`}
-                  >
-                    <CardContent className="p-5">
-                      <div className="flex items-start gap-4 mb-4">
-                        <div className="relative">
-                          <img
-                            src={item.image || "/placeholder.svg"}
-                            alt={item.name}
-                            className="w-16 h-16 rounded-xl object-cover border border-gray-200 bg-gray-100"
-                          />
-                          {!item.inStock && (
-                            <div className="absolute inset-0 bg-red-100 rounded-xl flex items-center justify-center">
-                              <X className="h-6 w-6 text-red-500" />
+                          <div className="space-y-3">
+                            {/* Metrics */}
+                            <div className="grid grid-cols-2 gap-3 text-xs">
+                              <div className="bg-gray-100 rounded-lg p-2">
+                                <span className="text-gray-600 block">Lead Time</span>
+                                <span className="font-semibold text-gray-900">{item.leadTime || 2} days</span>
+                              </div>
                             </div>
-                          )}
-                        </div>
 
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between mb-2">
-                            <h3 className="font-semibold text-gray-900 truncate">{item.name}</h3>
-                            <Badge variant={item.inStock ? "default" : "destructive"} className={`ml-2 ${item.inStock ? "bg-green-100 text-green-800 border-green-300" : "bg-red-100 text-red-800 border-red-300"}`}>
-                              {item.inStock ? "In Stock" : "Out"}
-                            </Badge>
-                          </div>
-                          <p className="text-sm text-gray-600 mb-3">{item.category}</p>
-
-                          {/* Stock Level Indicator */}
-                          <div className="space-y-2">
-                            <div className="flex justify-between text-xs">
-                              <span className="text-gray-600">Stock Level</span>
-                              <span className={`font-medium ${isCritical ? "text-red-600" :
-                                isLowStock ? "text-orange-600" : "text-green-600"
-                                }`}>
-                                {item.currentStock}/{item.maxStock || item.minStock * 2}
-                              </span>
-                            </div>
-                            <div className="w-full bg-gray-200 rounded-full h-2">
-                              <div
-                                className={`h-2 rounded-full transition-all ${isCritical ? "bg-red-500" :
-                                  isLowStock ? "bg-orange-500" : "bg-green-500"
-                                  }`}
-                                style={{ width: `${Math.min(100, stockPercentage)}%` }}
-                              />
+                            {/* Price and Action */}
+                            <div className="flex items-center justify-between pt-1">
+                              <div className="text-2xl font-bold text-green-600">${item.price}</div>
+                              <Button
+                                onClick={() => addToOrder(item)}
+                                size="sm"
+                                className="gap-2 group-hover:shadow-md transition-shadow bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
+                              >
+                                <Plus className="h-4 w-4" />
+                                Add
+                              </Button>
                             </div>
                           </div>
-                        </div>
-                      </div>
-
-                      <div className="space-y-3">
-                        {/* Metrics */}
-                        <div className="grid grid-cols-2 gap-3 text-xs">
-                          <div className="bg-gray-100 rounded-lg p-2">
-                            <span className="text-gray-600 block">Lead Time</span>
-                            <span className="font-semibold text-gray-900">{item.leadTime || 2} days</span>
-                          </div>
-                        </div>
 
-                        {/* Price and Action */}
-                        <div className="flex items-center justify-between pt-1">
-                          <div className="text-2xl font-bold text-green-600">${item.price}</div>
-                          <Button
-                            onClick={() => addToOrder(item)}
-                            disabled={!item.inStock}
-                            size="sm"
-                            className="gap-2 group-hover:shadow-md transition-shadow bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
-                          >
-                            <Plus className="h-4 w-4" />
-                            Add
-                          </Button>
-                        </div>
-                      </div>
+                          {/* Warning overlay for critical items */}
+                          {isCritical && (
+                            <div className="absolute top-2 left-2">
+                              <Badge variant="destructive" className="gap-1 bg-red-100 text-red-800 border-red-300">
+                                <AlertTriangle className="h-3 w-3" />
+                                Critical
+                              </Badge>
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )
+                  })}
+                </div>
 
-                      {/* Warning overlay for critical items */}
-                      {isCritical && (
-                        <div className="absolute top-2 left-2">
-                          <Badge variant="destructive" className="gap-1 bg-red-100 text-red-800 border-red-300">
-                            <AlertTriangle className="h-3 w-3" />
-                            Critical
-                          </Badge>
-                        </div>
-                      )}
+                {filteredItems.length === 0 && (
+                  <Card className="bg-white border-gray-200">
+                    <CardContent className="p-12 text-center">
+                      <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                      <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        {inventoryLoading ? "Loading inventory..." : "No items found"}
+                      </h3>
+                      {!inventoryLoading && <p className="text-gray-600">Try adjusting your search or filter criteria</p>}
                     </CardContent>
                   </Card>
-                )
-              })}
-            </div>
+                )}
+              </TabsContent>
 
-            {filteredItems.length === 0 && (
-              <Card className="bg-white border-gray-200">
-                <CardContent className="p-12 text-center">
-                  <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">No items found</h3>
-                  <p className="text-gray-600">Try adjusting your search or filter criteria</p>
-                </CardContent>
-              </Card>
-            )}
+              <TabsContent value="history">
+                <RetailerOrderHistory
+                  orders={orderHistory}
+                  loading={historyLoading}
+                  error={historyError}
+                  onRefresh={loadOrderHistory}
+                />
+              </TabsContent>
+            </Tabs>
           </div>
 
           {/* Order Summary Sidebar */}
@@ -665,9 +939,13 @@ export default function InventoryDashboard() {
                         </div>
                       </div>
 
-                      <Button onClick={sendRequest} className="w-full gap-2 bg-blue-600 hover:bg-blue-700 text-white">
+                      <Button
+                        onClick={sendRequest}
+                        disabled={isSubmitting}
+                        className="w-full gap-2 bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
+                      >
                         <Send className="h-4 w-4" />
-                        Send Order Request
+                        {isSubmitting ? "Sending..." : "Send Order Request"}
                       </Button>
                     </div>
                   </>
@@ -812,8 +1090,12 @@ export default function InventoryDashboard() {
                               </span>
                             </div>
                             <div className="bg-gray-100 rounded-lg p-2">
-                              <span className="text-gray-600 block text-xs">Required</span>
-                              <span className="font-semibold text-green-600">{item.minStock}</span>
+                              <span className="text-gray-600 block text-xs">Reorder At</span>
+                              <span className="font-semibold text-green-600">{item.reorderPoint}</span>
+                            </div>
+                            <div className="bg-gray-100 rounded-lg p-2">
+                              <span className="text-gray-600 block text-xs">Sells / Day</span>
+                              <span className="font-semibold text-gray-900">{item.averageDailySales.toFixed(1)}</span>
                             </div>
                             <div className="bg-gray-100 rounded-lg p-2">
                               <span className="text-gray-600 block text-xs">Lead Time</span>
@@ -821,6 +1103,15 @@ export default function InventoryDashboard() {
                             </div>
                           </div>
 
+                          <details className="mb-3 text-sm" onClick={(e) => e.stopPropagation()}>
+                            <summary className="cursor-pointer text-blue-600 hover:text-blue-700">Why this quantity?</summary>
+                            <ul className="mt-2 space-y-1 text-gray-700 list-disc pl-5">
+                              {item.explanation.map((step, index) => (
+                                <li key={index}>{step}</li>
+                              ))}
+                            </ul>
+                          </details>
+
                           <div className="flex items-center justify-between">
                             <div className="flex items-center gap-3">
                               <span className="text-sm text-gray-600">Quantity:</span>
@@ -891,9 +1182,9 @@ export default function InventoryDashboard() {
                       <Label className="text-gray-900">Select your ordering approach:</Label>
                       <div className="space-y-3">
                         {[
-                          { value: "conservative", label: "Conservative", desc: "Order 80% of shortage (Lower cash commitment)", icon: "🛡️" },
-                          { value: "balanced", label: "Balanced", desc: "Order exact shortage amount (Recommended)", icon: "⚖️" },
-                          { value: "aggressive", label: "Aggressive", desc: "Order above minimum (Higher buffer)", icon: "🚀" }
+                          { value: "conservative", label: "Conservative", desc: "90% service level (Less safety stock, lower cash commitment)", icon: "🛡️" },
+                          { value: "balanced", label: "Balanced", desc: "95% service level (Recommended)", icon: "⚖️" },
+                          { value: "aggressive", label: "Aggressive", desc: "98% service level (Higher buffer against stockouts)", icon: "🚀" }
                         ].map(({ value, label, desc, icon }) => (
                           <Card key={value} className={`cursor-pointer transition-colors ${orderingStrategy === value ? "border-blue-500 bg-blue-50" : "bg-white hover:bg-gray-50"
                             }`}>
@@ -905,7 +1196,10 @@ export default function InventoryDashboard() {
                                   name="strategy"
                                   value={value}
                                   checked={orderingStrategy === value}
-                                  onChange={(e) => setOrderingStrategy(e.target.value as typeof orderingStrategy)}
+                                  onChange={(e) => {
+                                    setOrderingStrategy(e.target.value as ReplenishmentStrategy)
+                                    setBacktests(null)
+                                  }}
                                   className="mt-1"
                                 />
                                 <div className="flex-1">
@@ -1004,6 +1298,77 @@ export default function InventoryDashboard() {
                   </div>
                 </CardContent>
               </Card>
+
+              <Card className="bg-gray-50 border-gray-200">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between text-gray-900">
+                    <span className="flex items-center gap-2">
+                      <BarChart3 className="h-5 w-5" />
+                      Strategy Back-Test
+                    </span>
+                    <Button
+                      onClick={runBacktest}
+                      disabled={backtestLoading || retailId === null}
+                      size="sm"
+                      variant="outline"
+                      className="gap-2 border-gray-300 text-gray-700 hover:bg-gray-100"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${backtestLoading ? "animate-spin" : ""}`} />
+                      Run on last {BACKTEST_DAYS} days
+                    </Button>
+                  </CardTitle>
+                  <CardDescription className="text-gray-600">
+                    Replays your recorded sales as if the {orderingStrategy} strategy had been placing every order
+                  </CardDescription>
+                </CardHeader>
+                {backtests && (
+                  <CardContent className="space-y-4">
+                    {(() => {
+                      const demanded = backtests.reduce((sum, { result }) => sum + result.unitsDemanded, 0)
+                      const sold = backtests.reduce((sum, { result }) => sum + result.unitsSold, 0)
+                      return (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                          <div className="bg-white rounded-lg p-3">
+                            <span className="text-gray-600 block text-xs">Fill Rate</span>
+                            <span className="font-semibold text-gray-900">
+                              {demanded > 0 ? ((sold / demanded) * 100).toFixed(1) : "100.0"}%
+                            </span>
+                          </div>
+                          <div className="bg-white rounded-lg p-3">
+                            <span className="text-gray-600 block text-xs">Lost Sales</span>
+                            <span className="font-semibold text-red-600">{demanded - sold} units</span>
+                          </div>
+                          <div className="bg-white rounded-lg p-3">
+                            <span className="text-gray-600 block text-xs">Stockout Days</span>
+                            <span className="font-semibold text-gray-900">
+                              {backtests.reduce((sum, { result }) => sum + result.stockoutDays, 0)}
+                            </span>
+                          </div>
+                          <div className="bg-white rounded-lg p-3">
+                            <span className="text-gray-600 block text-xs">Orders Placed</span>
+                            <span className="font-semibold text-gray-900">
+                              {backtests.reduce((sum, { result }) => sum + result.ordersPlaced, 0)}
+                            </span>
+                          </div>
+                        </div>
+                      )
+                    })()}
+                    <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                      {backtests.map(({ productId, result }) => (
+                        <div key={productId} className="flex justify-between p-2 bg-white rounded-lg">
+                          <span className="text-gray-900">
+                            {availableItems.find(item => item.productId === productId)?.name ?? `Product ${productId}`}
+                          </span>
+                          <span className="text-gray-600">
+                            {(result.fillRate * 100).toFixed(1)}% filled · {result.stockoutDays} stockout days · avg{" "}
+                            {result.averageOnHand.toFixed(0)} on hand
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
             </TabsContent>
 
             <TabsContent value="summary" className="space-y-4">
@@ -1100,7 +1465,7 @@ export default function InventoryDashboard() {
           <div className="flex gap-3 pt-4 border-t border-gray-200">
             <Button
               onClick={sendSelectedShortageOrders}
-              disabled={selectedCount === 0 || (budgetLimit > 0 && shortageOrderTotal > budgetLimit)}
+              disabled={isSubmitting || selectedCount === 0 || (budgetLimit > 0 && shortageOrderTotal > budgetLimit)}
               className="flex-1 gap-2 bg-blue-600 hover:bg-blue-700 text-white disabled:bg-gray-300 disabled:text-gray-500"
             >
               <Bell className="h-4 w-4" />
@@ -1116,6 +1481,46 @@ export default function InventoryDashboard() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Order Status Updates */}
+      <Dialog open={showNotifications} onOpenChange={setShowNotifications}>
+        <DialogContent className="max-w-lg bg-white border-gray-200">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-gray-900">
+              <Bell className="h-5 w-5 text-blue-600" />
+              Order Updates
+            </DialogTitle>
+            <DialogDescription className="text-gray-600">
+              Status changes from the warehouse on your orders
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-6">No updates yet</p>
+            ) : (
+              notifications.map(notification => (
+                <div key={notification.id} className="p-3 rounded-lg bg-gray-50 border border-gray-200">
+                  <p className="text-sm text-gray-900">{notification.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+                </div>
+              ))
+            )}
+          </div>
+
+          <Button
+            onClick={() => {
+              setShowNotifications(false)
+              setActiveView("history")
+            }}
+            variant="outline"
+            className="gap-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            View Order History
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
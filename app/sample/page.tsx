@@ -144,6 +144,8 @@ export default function SamplePage() {
         boxes,
         unplaceableBoxes,
         truckDimensions,
+        fleet,
+        planSnapshots,
         stabilityScore,
         safetyScore,
         optimizationScore,
@@ -775,7 +777,11 @@ export default function SamplePage() {
                                         saveWorkspace(currentWorkspace.id, {
                                             ...currentWorkspace,
                                             boxes,
+                                            unplaceableBoxes,
                                             truckDimensions,
+                                            fleet,
+                                            plans: planSnapshots,
+                                            scores: { stability: stabilityScore, safety: safetyScore, optimization: optimizationScore },
                                             lastModified: new Date().toISOString(),
                                         });
                                     }}
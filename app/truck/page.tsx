@@ -18,28 +18,12 @@ import {
   Calendar,
   Hash,
   Weight,
+  LogOut,
 } from "lucide-react"
 import { useRouter } from "next/navigation"
-
-interface Order {
-  id: number
-  retailId: number
-  productId: number
-  quantity: number
-  deliveryDate: string
-  status: string
-  totalWeight?: number
-  priority: string
-  createdAt: string
-  retail?: {
-    name: string
-    location?: string
-  }
-  product?: {
-    name: string
-    sku?: string
-  }
-}
+import { fetchOrders as requestOrders } from "@/lib/orders-api"
+import { logout } from "@/lib/auth-api"
+import type { Order } from "@/types/orders"
 
 type SortField = "id" | "deliveryDate" | "createdAt" | "quantity" | "priority" | "status"
 type SortDirection = "asc" | "desc"
@@ -79,12 +63,7 @@ export default function OrdersPage() {
   const fetchOrders = async () => {
     try {
       setLoading(true)
-      const response = await fetch("http://localhost:3001/api/orders")
-      if (!response.ok) {
-        throw new Error("Failed to fetch orders")
-      }
-      const data = await response.json()
-      setOrders(data)
+      setOrders(await requestOrders())
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred")
     } finally {
@@ -92,6 +71,15 @@ export default function OrdersPage() {
     }
   }
 
+  const handleLogout = async () => {
+    try {
+      await logout()
+      router.push("/")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not sign out")
+    }
+  }
+
   const getStatusConfig = (status: string) => {
     const configs = {
       pending: { color: "text-yellow-400 bg-yellow-400/20 border-yellow-400/30", icon: Clock },
@@ -225,81 +213,90 @@ export default function OrdersPage() {
               </h1>
               <p className="text-gray-400 text-lg">Warehouse Manager Dashboard</p>
             </div>
-            <div className="relative create-model-dropdown">
+            <div className="flex items-center gap-3">
               <button
-                onClick={() => setShowCreateDropdown(!showCreateDropdown)}
-                className="relative px-6 py-3 bg-gradient-to-r from-green-500 via-green-600 to-green-700 hover:from-green-400 hover:via-green-500 hover:to-green-600 text-white font-semibold rounded-xl shadow-lg hover:shadow-green-500/25 transition-all duration-300 transform hover:scale-105 hover:-translate-y-1 group overflow-hidden"
+                onClick={handleLogout}
+                className="px-4 py-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-300 rounded-xl transition-colors flex items-center gap-2"
               >
-                <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-green-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
-                <div className="absolute inset-0 bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300 animate-pulse"></div>
-                <span className="relative z-10 flex items-center gap-2">
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                  </svg>
-                  Create Model
-                  <svg
-                    className={`w-4 h-4 transition-transform duration-200 ${showCreateDropdown ? "rotate-180" : ""}`}
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                  </svg>
-                </span>
+                <LogOut className="w-4 h-4" />
+                Sign out
               </button>
-
-              {/* Dropdown Menu */}
-              {showCreateDropdown && (
-                <div className="absolute right-0 mt-2 w-56 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden">
-                  <div className="py-2">
-                    <button
-                      onClick={() => {
-                        router.push("/sample")
-                        setShowCreateDropdown(false)
-                      }}
-                      className="w-full px-4 py-3 text-left text-white hover:bg-gray-700 transition-colors flex items-center gap-3 group"
+              <div className="relative create-model-dropdown">
+                <button
+                  onClick={() => setShowCreateDropdown(!showCreateDropdown)}
+                  className="relative px-6 py-3 bg-gradient-to-r from-green-500 via-green-600 to-green-700 hover:from-green-400 hover:via-green-500 hover:to-green-600 text-white font-semibold rounded-xl shadow-lg hover:shadow-green-500/25 transition-all duration-300 transform hover:scale-105 hover:-translate-y-1 group overflow-hidden"
+                >
+                  <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-green-600 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
+                  <div className="absolute inset-0 bg-white/20 opacity-0 group-hover:opacity-100 transition-opacity duration-300 animate-pulse"></div>
+                  <span className="relative z-10 flex items-center gap-2">
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                    Create Model
+                    <svg
+                      className={`w-4 h-4 transition-transform duration-200 ${showCreateDropdown ? "rotate-180" : ""}`}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
                     >
-                      <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
-                        <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-                          />
-                        </svg>
-                      </div>
-                      <div>
-                        <div className="font-semibold text-white">Sample Model</div>
-                        <div className="text-sm text-gray-400">Use pre-built templates</div>
-                      </div>
-                    </button>
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                  </span>
+                </button>
 
-                    <button
-                      onClick={() => {
-                        router.push("/new")
-                        setShowCreateDropdown(false)
-                      }}
-                      className="w-full px-4 py-3 text-left text-white hover:bg-gray-700 transition-colors flex items-center gap-3 group"
-                    >
-                      <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
-                        <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                          />
-                        </svg>
-                      </div>
-                      <div>
-                        <div className="font-semibold text-white">New Model</div>
-                        <div className="text-sm text-gray-400">Create from scratch</div>
-                      </div>
-                    </button>
+                {/* Dropdown Menu */}
+                {showCreateDropdown && (
+                  <div className="absolute right-0 mt-2 w-56 bg-gray-800 border border-gray-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+                    <div className="py-2">
+                      <button
+                        onClick={() => {
+                          router.push("/sample")
+                          setShowCreateDropdown(false)
+                        }}
+                        className="w-full px-4 py-3 text-left text-white hover:bg-gray-700 transition-colors flex items-center gap-3 group"
+                      >
+                        <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-blue-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
+                          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                            />
+                          </svg>
+                        </div>
+                        <div>
+                          <div className="font-semibold text-white">Sample Model</div>
+                          <div className="text-sm text-gray-400">Use pre-built templates</div>
+                        </div>
+                      </button>
+
+                      <button
+                        onClick={() => {
+                          router.push("/new")
+                          setShowCreateDropdown(false)
+                        }}
+                        className="w-full px-4 py-3 text-left text-white hover:bg-gray-700 transition-colors flex items-center gap-3 group"
+                      >
+                        <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform">
+                          <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                            />
+                          </svg>
+                        </div>
+                        <div>
+                          <div className="font-semibold text-white">New Model</div>
+                          <div className="text-sm text-gray-400">Create from scratch</div>
+                        </div>
+                      </button>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -619,7 +616,7 @@ export default function OrdersPage() {
                       </td>
 
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
-                        {order.totalWeight ? `${order.totalWeight} kg` : "-"}
+                        {order.totalWeight ? `${order.totalWeight} lbs` : "-"}
                       </td>
 
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -748,7 +745,7 @@ export default function OrdersPage() {
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-1">Weight</label>
                   <div className="text-xl font-semibold text-white">
-                    {selectedOrder.totalWeight ? `${selectedOrder.totalWeight} kg` : "N/A"}
+                    {selectedOrder.totalWeight ? `${selectedOrder.totalWeight} lbs` : "N/A"}
                   </div>
                 </div>
                 <div>
@@ -12,6 +12,7 @@ import { PerformanceMonitor } from "@/components/performance-monitor";
 import { StatusPanel } from "@/components/status-panel";
 import { ScoreDisplay } from "@/components/score-display";
 import { SimulationControls } from "@/components/simulation-controls";
+import { OrderApprovalQueue } from "@/components/order-approval-queue";
 import { useOptimizationStore } from "@/store/optimization-store";
 import { useWorkspaceStore } from "@/store/workspace-store";
 import { Button } from "@/components/ui/button";
@@ -21,6 +22,7 @@ import {
   Package,
   FileText,
   Settings,
+  ClipboardCheck,
   Zap,
   Play,
   Save,
@@ -40,7 +42,10 @@ export default function WalmartTruckOptimizer() {
   // ───────────────────────── stores ─────────────────────────
   const {
     boxes,
+    unplaceableBoxes,
     truckDimensions,
+    fleet,
+    planSnapshots,
     stabilityScore,
     safetyScore,
     optimizationScore,
@@ -74,7 +79,11 @@ export default function WalmartTruckOptimizer() {
     saveWorkspace(currentWorkspace.id, {
       ...currentWorkspace,
       boxes,
+      unplaceableBoxes,
       truckDimensions,
+      fleet,
+      plans: planSnapshots,
+      scores: { stability: stabilityScore, safety: safetyScore, optimization: optimizationScore },
       lastModified: new Date().toISOString(),
     });
   };
@@ -169,12 +178,13 @@ export default function WalmartTruckOptimizer() {
           {!sidebarCollapsed && (
             <div className="flex-1 overflow-y-auto p-4">
               <Tabs defaultValue="boxes" className="w-full">
-                <TabsList className="grid w-full grid-cols-4 bg-gray-800 border border-primary/20">
+                <TabsList className="grid w-full grid-cols-5 bg-gray-800 border border-primary/20">
                   {[
                     { value: "boxes", icon: Package },
                     { value: "physics", icon: Zap },
                     { value: "control", icon: Settings },
                     { value: "reports", icon: FileText },
+                    { value: "orders", icon: ClipboardCheck },
                   ].map(({ value, icon: Icon }) => (
                     <TabsTrigger
                       key={value}
@@ -204,6 +214,10 @@ export default function WalmartTruckOptimizer() {
                 <TabsContent value="reports" className="mt-4">
                   <ReportGenerator />
                 </TabsContent>
+
+                <TabsContent value="orders" className="mt-4">
+                  <OrderApprovalQueue />
+                </TabsContent>
               </Tabs>
             </div>
           )}
@@ -4,6 +4,8 @@ import type React from "react"
 
 import { useRef, useEffect, useState, useCallback } from "react"
 import { useOptimizationStore } from "@/store/optimization-store"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import { ZONE_COLORS, getCompartmentColor, resolveTemperatureCompartments } from "@/lib/temperature-zones"
 import { Button } from "@/components/ui/button"
 import { Download, RotateCcw, ZoomIn, ZoomOut } from "lucide-react"
 
@@ -19,7 +21,7 @@ export function TwoDRenderer({ isOverlay = false }: TwoDRendererProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 })
 
-  const { boxes, truckDimensions, temperatureZones, stabilityScore, safetyScore } = useOptimizationStore()
+  const { boxes, truckDimensions, temperatureZoneLayout, stabilityScore, safetyScore } = useOptimizationStore()
 
   const drawScene = useCallback(() => {
     const canvas = canvasRef.current
@@ -69,29 +71,19 @@ export function TwoDRenderer({ isOverlay = false }: TwoDRendererProps) {
     const offsetX = rect.width / 2 + pan.x
     const offsetY = rect.height / 2 + pan.y
 
-    // Draw temperature zones first (background)
+    // Draw temperature compartments first (background); they run along z, so the front view has none
     ctx.globalAlpha = 0.15
 
-    // Frozen zone (cyan)
-    ctx.fillStyle = "#00bcd4"
-    if (viewAngle === "top") {
-      const zoneWidth = truckDimensions.width * baseScale
-      const zoneHeight = 4 * baseScale
-      ctx.fillRect(
-        offsetX - zoneWidth / 2,
-        offsetY + (truckDimensions.length * baseScale) / 2 - zoneHeight,
-        zoneWidth,
-        zoneHeight,
-      )
-    }
-
-    // Cold zone (blue)
-    ctx.fillStyle = "#2196f3"
-    if (viewAngle === "top") {
-      const zoneWidth = truckDimensions.width * baseScale
-      const zoneHeight = 8 * baseScale
-      ctx.fillRect(offsetX - zoneWidth / 2, offsetY - zoneHeight / 2, zoneWidth, zoneHeight)
-    }
+    resolveTemperatureCompartments(temperatureZoneLayout, truckDimensions).forEach((compartment) => {
+      ctx.fillStyle = getCompartmentColor(compartment)
+      if (viewAngle === "top") {
+        const zoneWidth = truckDimensions.width * baseScale
+        ctx.fillRect(offsetX - zoneWidth / 2, offsetY + compartment.startZ * baseScale, zoneWidth, compartment.length * baseScale)
+      } else if (viewAngle === "side") {
+        const zoneHeight = truckDimensions.height * baseScale
+        ctx.fillRect(offsetX + compartment.startZ * baseScale, offsetY - zoneHeight / 2, compartment.length * baseScale, zoneHeight)
+      }
+    })
 
     ctx.globalAlpha = 1
 
@@ -137,39 +129,31 @@ export function TwoDRenderer({ isOverlay = false }: TwoDRendererProps) {
     // Draw boxes
     boxes.forEach((box, index) => {
       let x, y, width, height
+      const dims = getOrientedDimensions(box)
 
       switch (viewAngle) {
         case "top":
-          x = offsetX + (box.position.x - box.width / 2) * baseScale
-          y = offsetY + (box.position.z - box.length / 2) * baseScale
-          width = box.width * baseScale
-          height = box.length * baseScale
+          x = offsetX + (box.position.x - dims.width / 2) * baseScale
+          y = offsetY + (box.position.z - dims.length / 2) * baseScale
+          width = dims.width * baseScale
+          height = dims.length * baseScale
           break
         case "side":
-          x = offsetX + (box.position.z - box.length / 2) * baseScale
-          y = offsetY - (box.position.y + box.height / 2) * baseScale
-          width = box.length * baseScale
-          height = box.height * baseScale
+          x = offsetX + (box.position.z - dims.length / 2) * baseScale
+          y = offsetY - (box.position.y + dims.height / 2) * baseScale
+          width = dims.length * baseScale
+          height = dims.height * baseScale
           break
         case "front":
-          x = offsetX + (box.position.x - box.width / 2) * baseScale
-          y = offsetY - (box.position.y + box.height / 2) * baseScale
-          width = box.width * baseScale
-          height = box.height * baseScale
+          x = offsetX + (box.position.x - dims.width / 2) * baseScale
+          y = offsetY - (box.position.y + dims.height / 2) * baseScale
+          width = dims.width * baseScale
+          height = dims.height * baseScale
           break
       }
 
       // Box fill color based on temperature zone
-      switch (box.temperatureZone) {
-        case "frozen":
-          ctx.fillStyle = "#00bcd4"
-          break
-        case "cold":
-          ctx.fillStyle = "#2196f3"
-          break
-        default:
-          ctx.fillStyle = "#666666"
-      }
+      ctx.fillStyle = ZONE_COLORS[box.temperatureZone] ?? ZONE_COLORS.regular
 
       // Add transparency for fragile items
       ctx.globalAlpha = box.isFragile ? 0.7 : 1.0
@@ -272,17 +256,17 @@ export function TwoDRenderer({ isOverlay = false }: TwoDRendererProps) {
       ctx.textAlign = "left"
 
       // Temperature zones legend
-      ctx.fillStyle = "#00bcd4"
+      ctx.fillStyle = ZONE_COLORS.frozen
       ctx.fillRect(10, legendY, 15, 10)
       ctx.fillStyle = "white"
       ctx.fillText("Frozen", 30, legendY + 8)
 
-      ctx.fillStyle = "#2196f3"
+      ctx.fillStyle = ZONE_COLORS.cold
       ctx.fillRect(10, legendY + 15, 15, 10)
       ctx.fillStyle = "white"
       ctx.fillText("Cold", 30, legendY + 23)
 
-      ctx.fillStyle = "#666666"
+      ctx.fillStyle = ZONE_COLORS.regular
       ctx.fillRect(10, legendY + 30, 15, 10)
       ctx.fillStyle = "white"
       ctx.fillText("Regular", 30, legendY + 38)
@@ -294,7 +278,7 @@ export function TwoDRenderer({ isOverlay = false }: TwoDRendererProps) {
       ctx.fillStyle = "white"
       ctx.fillText("Fragile", 30, legendY + 53)
     }
-  }, [boxes, truckDimensions, temperatureZones, viewAngle, zoom, pan, isOverlay, stabilityScore, safetyScore])
+  }, [boxes, truckDimensions, temperatureZoneLayout, viewAngle, zoom, pan, isOverlay, stabilityScore, safetyScore])
 
   useEffect(() => {
     drawScene()
@@ -6,6 +6,7 @@ import { Edges, Text, Html } from "@react-three/drei"
 import { useFrame } from "@react-three/fiber"
 import { useOptimizationStore } from "@/store/optimization-store"
 import type { Box } from "@/types/box"
+import { getOrientedDimensions, ORIENTATION_LABELS } from "@/lib/box-orientation"
 import type * as THREE from "three"
 
 interface BoxRendererProps {
@@ -18,12 +19,13 @@ export function BoxRenderer({ box }: BoxRendererProps) {
   const [selected, setSelected] = useState(false)
   const [isColliding, setIsColliding] = useState(false)
   const { updateBoxPosition, checkCollisions } = useOptimizationStore()
+  const dims = getOrientedDimensions(box)
 
   // Physics body with realistic properties
   const [ref, api] = useBox(() => ({
     mass: box.weight / 100, // Convert lbs to reasonable physics mass
     position: [box.position.x, box.position.y, box.position.z],
-    args: [box.width, box.height, box.length],
+    args: [dims.width, dims.height, dims.length],
     material: {
       friction: box.isFragile ? 0.8 : 0.4,
       restitution: box.isFragile ? 0.1 : 0.3,
@@ -127,7 +129,7 @@ export function BoxRenderer({ box }: BoxRendererProps) {
           setSelected(!selected)
         }}
       >
-        <boxGeometry args={[box.width, box.height, box.length]} />
+        <boxGeometry args={[dims.width, dims.height, dims.length]} />
         <meshStandardMaterial {...material} />
         <Edges
           color={box.isFragile ? "#ff9800" : isColliding ? "#ff0000" : "#333333"}
@@ -137,12 +139,15 @@ export function BoxRenderer({ box }: BoxRendererProps) {
 
       {/* Enhanced Box Labels */}
       {(hovered || selected) && (
-        <Html position={[box.position.x, box.position.y + box.height / 2 + 1, box.position.z]}>
+        <Html position={[box.position.x, box.position.y + dims.height / 2 + 1, box.position.z]}>
           <div className="bg-gray-900/95 text-white p-2 rounded-lg text-xs min-w-32 border border-gray-600">
             <div className="font-bold text-cyan-400">{box.name}</div>
             <div className="text-gray-300">
               {box.width}×{box.height}×{box.length} ft
             </div>
+            {box.orientation && box.orientation !== "xy" && (
+              <div className="text-gray-400">{ORIENTATION_LABELS[box.orientation]}</div>
+            )}
             <div className="text-gray-300">{box.weight} lbs</div>
             <div className="flex items-center space-x-1 mt-1">
               <span
@@ -169,7 +174,7 @@ export function BoxRenderer({ box }: BoxRendererProps) {
       {/* Weight indicator for selected boxes */}
       {selected && (
         <Text
-          position={[box.position.x, box.position.y - box.height / 2 - 0.5, box.position.z]}
+          position={[box.position.x, box.position.y - dims.height / 2 - 0.5, box.position.z]}
           fontSize={0.3}
           color="#00bcd4"
           anchorX="center"
@@ -182,7 +187,7 @@ export function BoxRenderer({ box }: BoxRendererProps) {
       {/* Stability indicator */}
       {selected && (
         <Text
-          position={[box.position.x, box.position.y + box.height / 2 + 0.8, box.position.z]}
+          position={[box.position.x, box.position.y + dims.height / 2 + 0.8, box.position.z]}
           fontSize={0.25}
           color={isColliding ? "#ff4444" : "#44ff44"}
           anchorX="center"
@@ -2,6 +2,7 @@
 
 import { Text } from "@react-three/drei"
 import { useOptimizationStore } from "@/store/optimization-store"
+import { getOrientedDimensions } from "@/lib/box-orientation"
 
 export function LoadingIndicators() {
   const { loadingSequence, boxes, truckDimensions } = useOptimizationStore()
@@ -17,7 +18,7 @@ export function LoadingIndicators() {
         return (
           <Text
             key={boxId}
-            position={[box.position.x, box.position.y + box.height / 2 + 0.8, box.position.z]}
+            position={[box.position.x, box.position.y + getOrientedDimensions(box).height / 2 + 0.8, box.position.z]}
             fontSize={0.4}
             color="#00ff88"
             anchorX="center"
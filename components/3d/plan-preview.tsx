@@ -0,0 +1,124 @@
+"use client"
+
+import { useRef, type ElementRef, type MutableRefObject } from "react"
+import { Canvas, useFrame, useThree } from "@react-three/fiber"
+import { Edges, OrbitControls } from "@react-three/drei"
+import * as THREE from "three"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import { getStopIndex } from "@/lib/route-order"
+import type { Box, TruckDimensions } from "@/types/box"
+
+const STOP_COLORS = ["#d63031", "#e17055", "#00b894", "#0984e3", "#fdcb6e", "#6c5ce7"]
+const UNROUTED_COLOR = "#636e72"
+
+// One camera pose shared by every preview; whichever view the user drags leads
+export interface CameraSync {
+  position: THREE.Vector3
+  target: THREE.Vector3
+  leader: number | null
+  version: number
+}
+
+export function createCameraSync(truckHeight: number): CameraSync {
+  return {
+    position: new THREE.Vector3(20, 15, 20),
+    target: new THREE.Vector3(0, truckHeight / 2, 0),
+    leader: null,
+    version: 0,
+  }
+}
+
+function SyncedControls({ viewIndex, sync }: { viewIndex: number; sync: MutableRefObject<CameraSync> }) {
+  const controls = useRef<ElementRef<typeof OrbitControls>>(null)
+  const camera = useThree((state) => state.camera)
+  const appliedVersion = useRef(-1)
+
+  // Followers copy the leader's pose once per change
+  useFrame(() => {
+    const current = controls.current
+    if (!current || sync.current.leader === viewIndex || appliedVersion.current === sync.current.version) return
+    camera.position.copy(sync.current.position)
+    current.target.copy(sync.current.target)
+    current.update()
+    appliedVersion.current = sync.current.version
+  })
+
+  return (
+    <OrbitControls
+      ref={controls}
+      maxPolarAngle={Math.PI / 2.1}
+      minDistance={8}
+      maxDistance={60}
+      enableDamping
+      dampingFactor={0.05}
+      onStart={() => {
+        sync.current.leader = viewIndex
+      }}
+      onChange={() => {
+        if (sync.current.leader !== viewIndex || !controls.current) return
+        sync.current.position.copy(camera.position)
+        sync.current.target.copy(controls.current.target)
+        sync.current.version++
+        appliedVersion.current = sync.current.version
+      }}
+    />
+  )
+}
+
+function PreviewBox({ box, color }: { box: Box; color: string }) {
+  const { width, height, length } = getOrientedDimensions(box)
+
+  return (
+    <mesh position={[box.position.x, box.position.y, box.position.z]}>
+      <boxGeometry args={[width, height, length]} />
+      <meshStandardMaterial color={color} roughness={0.5} />
+      <Edges color="#000000" />
+    </mesh>
+  )
+}
+
+// Static, physics-free view of one saved plan
+export function PlanPreview({
+  boxes,
+  truckDimensions,
+  stopOrder,
+  viewIndex,
+  cameraSync,
+}: {
+  boxes: Box[]
+  truckDimensions: TruckDimensions
+  stopOrder: string[]
+  viewIndex: number
+  cameraSync: MutableRefObject<CameraSync>
+}) {
+  const { width, length, height } = truckDimensions
+  const colorFor = (box: Box) => {
+    const stopIndex = getStopIndex(stopOrder, box.destination)
+    return stopIndex < stopOrder.length ? STOP_COLORS[stopIndex % STOP_COLORS.length] : UNROUTED_COLOR
+  }
+
+  return (
+    <Canvas camera={{ position: cameraSync.current.position.toArray(), fov: 50 }}>
+      <color attach="background" args={["#111827"]} />
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[15, 20, 10]} intensity={1} />
+
+      {/* Cargo space outline and floor */}
+      <mesh position={[0, height / 2, 0]}>
+        <boxGeometry args={[width, height, length]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+        <Edges color="#6b7280" />
+      </mesh>
+      <mesh position={[0, -0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[width, length]} />
+        <meshStandardMaterial color="#374151" />
+      </mesh>
+
+      {boxes.map((box) => (
+        <PreviewBox key={box.id} box={box} color={colorFor(box)} />
+      ))}
+
+      <SyncedControls viewIndex={viewIndex} sync={cameraSync} />
+    </Canvas>
+  )
+}
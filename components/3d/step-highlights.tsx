@@ -0,0 +1,52 @@
+"use client"
+
+import { Edges } from "@react-three/drei"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import type { UnloadStep } from "@/lib/unload-simulation"
+import type { Box } from "@/types/box"
+
+const LOAD_STEP_COLOR = "#22d3ee"
+const UNLOADED_COLOR = "#22c55e"
+const SHIFTED_COLOR = "#f97316"
+const UNSUPPORTED_COLOR = "#ef4444"
+
+function BoxOutline({ box, color }: { box: Box; color: string }) {
+  const { width, height, length } = getOrientedDimensions(box)
+
+  return (
+    <mesh position={[box.position.x, box.position.y, box.position.z]}>
+      {/* Slightly oversized so the outline isn't hidden inside the box faces */}
+      <boxGeometry args={[width + 0.05, height + 0.05, length + 0.05]} />
+      <meshBasicMaterial color={color} transparent opacity={0.15} depthWrite={false} />
+      <Edges color={color} />
+    </mesh>
+  )
+}
+
+// Outlines the box being loaded at the current load step, or during an unload
+// simulation the stop's boxes, the boxes shifted to reach them and any left unsupported
+export function StepHighlights({ unloadStep }: { unloadStep: UnloadStep | null }) {
+  const { boxes, loadingSequence, currentLoadStep } = useOptimizationStore()
+
+  if (!unloadStep) {
+    const loadBox = loadingSequence[currentLoadStep]
+    const box = loadBox && boxes.find((candidate) => candidate.id === loadBox.id)
+    return box ? <BoxOutline box={box} color={LOAD_STEP_COLOR} /> : null
+  }
+
+  const colors = new Map<string, string>()
+  unloadStep.unloadedBoxIds.forEach((id) => colors.set(id, UNLOADED_COLOR))
+  unloadStep.shiftedBoxIds.forEach((id) => colors.set(id, SHIFTED_COLOR))
+  unloadStep.unsupportedBoxIds.forEach((id) => colors.set(id, UNSUPPORTED_COLOR))
+
+  return (
+    <group>
+      {boxes
+        .filter((box) => colors.has(box.id))
+        .map((box) => (
+          <BoxOutline key={box.id} box={box} color={colors.get(box.id)!} />
+        ))}
+    </group>
+  )
+}
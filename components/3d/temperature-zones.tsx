@@ -1,30 +1,32 @@
 "use client"
 
 import { useOptimizationStore } from "@/store/optimization-store"
+import { getCompartmentColor, resolveTemperatureCompartments } from "@/lib/temperature-zones"
 import * as THREE from "three"
 
 export function TemperatureZones() {
-  const { truckDimensions, temperatureZones } = useOptimizationStore()
+  const { truckDimensions, temperatureZoneLayout } = useOptimizationStore()
+  const compartments = resolveTemperatureCompartments(temperatureZoneLayout, truckDimensions)
 
   return (
     <group>
-      {/* Frozen zone (front section) */}
-      <mesh position={[0, truckDimensions.height / 2, truckDimensions.length / 2 - 2]}>
-        <boxGeometry args={[truckDimensions.width, truckDimensions.height, 4]} />
-        <meshStandardMaterial color="#00bcd4" transparent opacity={0.1} side={THREE.DoubleSide} />
-      </mesh>
+      {compartments
+        .filter((compartment) => compartment.length > 0)
+        .map((compartment) => {
+          const color = getCompartmentColor(compartment)
+          // Refrigerated compartments are tinted a little stronger than ambient ones
+          const opacity = compartment.setpoint === null ? 0.05 : 0.1
 
-      {/* Cold zone (middle section) */}
-      <mesh position={[0, truckDimensions.height / 2, 0]}>
-        <boxGeometry args={[truckDimensions.width, truckDimensions.height, 8]} />
-        <meshStandardMaterial color="#2196f3" transparent opacity={0.1} side={THREE.DoubleSide} />
-      </mesh>
-
-      {/* Regular zone (back section) */}
-      <mesh position={[0, truckDimensions.height / 2, -truckDimensions.length / 2 + 4]}>
-        <boxGeometry args={[truckDimensions.width, truckDimensions.height, 8]} />
-        <meshStandardMaterial color="#666666" transparent opacity={0.05} side={THREE.DoubleSide} />
-      </mesh>
+          return (
+            <mesh
+              key={compartment.id}
+              position={[0, truckDimensions.height / 2, (compartment.startZ + compartment.endZ) / 2]}
+            >
+              <boxGeometry args={[truckDimensions.width, truckDimensions.height, compartment.length]} />
+              <meshStandardMaterial color={color} transparent opacity={opacity} side={THREE.DoubleSide} />
+            </mesh>
+          )
+        })}
     </group>
   )
 }
@@ -0,0 +1,81 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { VEHICLE_MODELS, computeAxleLoads, getGrossWeight } from "@/lib/axle-loads"
+import { Truck } from "lucide-react"
+
+export function AxleLoadPanel() {
+  const { boxes, truckDimensions, vehicleModel, setVehicleModel } = useOptimizationStore()
+
+  const axleLoads = computeAxleLoads(boxes, vehicleModel, truckDimensions)
+  const grossWeight = getGrossWeight(axleLoads)
+
+  const handleVehicleChange = (id: string) => {
+    const vehicle = VEHICLE_MODELS.find((model) => model.id === id)
+    if (vehicle) setVehicleModel(vehicle)
+  }
+
+  const getLoadColor = (load: number, limit: number) => {
+    const utilization = load / limit
+    if (utilization > 1) return "text-red-400"
+    if (utilization > 0.9) return "text-yellow-400"
+    return "text-green-400"
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center text-white">
+          <Truck className="h-4 w-4 mr-2" />
+          Axle Loads
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <Label className="text-xs text-gray-300">Vehicle</Label>
+          <Select value={vehicleModel.id} onValueChange={handleVehicleChange}>
+            <SelectTrigger className="h-8 text-xs bg-gray-700 border-gray-600">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VEHICLE_MODELS.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {axleLoads.map((axle) => (
+          <div key={axle.axleId} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-300">{axle.name}:</span>
+              <span className={getLoadColor(axle.load, axle.limit)}>
+                {axle.load.toFixed(0)} / {axle.limit.toLocaleString()} lbs
+              </span>
+            </div>
+            <Progress value={Math.min(100, Math.max(0, (axle.load / axle.limit) * 100))} className="h-1.5" />
+          </div>
+        ))}
+
+        <div className="text-xs space-y-1 pt-2 border-t border-gray-700">
+          <div className="flex justify-between">
+            <span className="text-gray-300">Gross Weight:</span>
+            <span className={getLoadColor(grossWeight, vehicleModel.grossWeightLimit)}>
+              {grossWeight.toFixed(0)} / {vehicleModel.grossWeightLimit.toLocaleString()} lbs
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-300">Max Payload:</span>
+            <span className="text-white">{vehicleModel.maxPayload.toLocaleString()} lbs</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -13,9 +13,12 @@ import {
 } from "@/components/ui/select";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, QrCode, Trash2, Package, X, AlertTriangle } from "lucide-react";
+import { Plus, QrCode, Trash2, Package, X, AlertTriangle, Lock, LockOpen, FileSpreadsheet } from "lucide-react";
+import { ManifestImportDialog } from "@/components/manifest-import-dialog";
 import { useOptimizationStore } from "@/store/optimization-store";
 import type { Box } from "@/types/box";
+import { validateBoxPayload, type BoxPayload } from "@/lib/box-validation";
+import { UNPLACED_REASON_LABELS } from "@/lib/unplaced-reasons";
 
 // Import the route store from the TruckVisualization system
 import { create } from 'zustand'
@@ -50,57 +53,23 @@ import { useRouteStore } from "./truck-visualization";
 /* -------------------------------------------------------------------------- */
 
 /**
- * Validate JSON text coming from a QR code and coerce it to a `Box` payload
+ * Parse JSON text coming from a QR code and validate it as a box payload
  * (without runtime-generated properties such as `id`, `position`, `isNew`).
  */
-function parseBoxQR(qr: string, availableDestinations: string[]): Omit<Box, "id" | "position" | "isNew"> {
+function parseBoxQR(qr: string, availableDestinations: string[]): BoxPayload {
   let raw: any;
   try {
     raw = JSON.parse(qr);
   } catch {
     throw new Error("QR data is not valid JSON");
   }
+  if (typeof raw !== "object" || raw === null) throw new Error("QR data must be a JSON object");
 
-  const required = [
-    "name",
-    "width",
-    "height",
-    "length",
-    "weight",
-    "temperatureZone",
-  ];
-
-  const missing = required.filter(
-    (k) => raw[k] === undefined || raw[k] === null
-  );
-  if (missing.length) throw new Error(`Missing fields: ${missing.join(", ")}`);
-
-  for (const n of ["width", "height", "length", "weight"]) {
-    if (!(typeof raw[n] === "number" && raw[n] > 0)) {
-      throw new Error(`${n} must be a positive number`);
-    }
-  }
-
-  if (!["regular", "cold", "frozen"].includes(raw.temperatureZone)) {
-    throw new Error("temperatureZone must be regular, cold or frozen");
-  }
-
-  // Dynamic destination validation based on available stops
-  if (raw.destination && availableDestinations.length > 0 && !availableDestinations.includes(raw.destination)) {
-    console.warn(`Destination "${raw.destination}" not found in route stops, will be cleared`);
-  }
+  const { payload, warnings } = validateBoxPayload(raw, availableDestinations);
+  warnings.forEach((warning) => console.warn(warning));
 
   alert("QR Scan Successful");
-  return {
-    name: String(raw.name).trim(),
-    width: raw.width,
-    height: raw.height,
-    length: raw.length,
-    weight: raw.weight,
-    temperatureZone: raw.temperatureZone,
-    isFragile: Boolean(raw.isFragile),
-    destination: (raw.destination && availableDestinations.includes(raw.destination)) ? raw.destination : "",
-  };
+  return payload;
 }
 
 /**
@@ -122,7 +91,7 @@ function detectQR(frame: ImageData): string | null {
 
 export function BoxManager() {
   /* ----------------------------- global store ----------------------------- */
-  const { boxes, addBox, removeBox, updateBox } = useOptimizationStore();
+  const { boxes, unplaceableBoxes, addBox, addBoxes, removeBox, updateBox, historyTransaction } = useOptimizationStore();
   const { deliveryStops, getAvailableDestinations } = useRouteStore();
 
   /* ------------------------------ derived state --------------------------- */
@@ -131,6 +100,7 @@ export function BoxManager() {
 
   /* ------------------------------ local state ----------------------------- */
   const [showScanner, setShowScanner] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [qrText, setQrText] = useState("");
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string>("");
@@ -145,6 +115,7 @@ export function BoxManager() {
     weight: 10,
     temperatureZone: "regular",
     isFragile: false,
+    thisSideUp: false,
     destination: "",
   });
 
@@ -232,10 +203,11 @@ export function BoxManager() {
       weight: 10,
       temperatureZone: "regular",
       isFragile: false,
+      thisSideUp: false,
       destination: "",
     });
 
-  const addBoxToStore = (payload: Omit<Box, "id" | "position" | "isNew">) => {
+  const addBoxToStore = (payload: BoxPayload) => {
     addBox({
       id: `box-${Date.now()}`,
       ...payload,
@@ -244,6 +216,19 @@ export function BoxManager() {
     });
   };
 
+  const handleManifestImport = (payloads: BoxPayload[]) => {
+    const batchId = Date.now();
+    addBoxes(
+      payloads.map((payload, index) => ({
+        id: `box-${batchId}-${index}`,
+        ...payload,
+        position: { x: 0, y: 0.5, z: 0 },
+        isNew: true,
+      })),
+      `Import ${payloads.length} boxes from manifest`,
+    );
+  };
+
   const handleQr = (txt: string) => {
     if (busy) return;
     setBusy(true);
@@ -274,6 +259,7 @@ export function BoxManager() {
       weight: draft.weight ?? 10,
       temperatureZone: draft.temperatureZone ?? "regular",
       isFragile: draft.isFragile ?? false,
+      thisSideUp: draft.thisSideUp ?? false,
       destination: draft.destination ?? "",
     });
     resetDraft();
@@ -293,8 +279,10 @@ export function BoxManager() {
   const handleBulkDestinationUpdate = () => {
     if (!bulkDestination || selectedBoxes.size === 0) return;
     
-    selectedBoxes.forEach(boxId => {
-      updateBox(boxId, { destination: bulkDestination });
+    historyTransaction(`Assign ${selectedBoxes.size} boxes to ${bulkDestination}`, () => {
+      selectedBoxes.forEach(boxId => {
+        updateBox(boxId, { destination: bulkDestination });
+      });
     });
     
     setSelectedBoxes(new Set());
@@ -533,6 +521,22 @@ export function BoxManager() {
                 </Label>
               </div>
 
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="thisSideUp"
+                  checked={draft.thisSideUp}
+                  onCheckedChange={(v) =>
+                    setDraft({ ...draft, thisSideUp: v as boolean })
+                  }
+                />
+                <Label
+                  htmlFor="thisSideUp"
+                  className="text-xs text-muted-foreground"
+                >
+                  This Side Up
+                </Label>
+              </div>
+
               <div className="grid grid-cols-2 gap-2">
                 <Button onClick={handleAddClick} className="h-8 text-xs">
                   Add Box
@@ -545,6 +549,19 @@ export function BoxManager() {
                   <QrCode className="h-4 w-4 mr-1" /> Scan QR
                 </Button>
               </div>
+              <Button
+                variant="outline"
+                className="w-full h-8 text-xs"
+                onClick={() => setShowImport(true)}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-1" /> Import CSV / Excel Manifest
+              </Button>
+              <ManifestImportDialog
+                open={showImport}
+                onOpenChange={setShowImport}
+                availableDestinations={availableDestinations}
+                onImport={handleManifestImport}
+              />
             </>
           ) : (
             /* --------------------------- Scanner UI --------------------------- */
@@ -675,6 +692,16 @@ export function BoxManager() {
                           FRAGILE
                         </span>
                       )}
+                      {b.thisSideUp && (
+                        <span className="px-1 py-0.5 bg-secondary/20 text-secondary rounded text-xs font-medium">
+                          ⬆ UP
+                        </span>
+                      )}
+                      {b.locked && (
+                        <span className="px-1 py-0.5 bg-amber-500/20 text-amber-500 rounded text-xs font-medium">
+                          LOCKED
+                        </span>
+                      )}
                       {b.destination ? (
                         <span className={`text-xs font-medium ${getDestinationColor(b.destination)}`}>
                           📍 {b.destination}
@@ -687,10 +714,21 @@ export function BoxManager() {
                     </div>
                   </div>
                 </div>
+                {/* Only a box with a spot in the truck can be pinned to it */}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-8 w-8 flex-shrink-0 ${b.locked ? "text-amber-500" : "text-muted-foreground"}`}
+                  disabled={b.isNew && !b.locked}
+                  title={b.locked ? "Unlock so the optimizer may move this box" : b.isNew ? "Optimize or place the box before locking it" : "Lock this box where it is"}
+                  onClick={() => updateBox(b.id, { locked: !b.locked })}
+                >
+                  {b.locked ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+                </Button>
                 <Button
                   variant="destructive"
                   size="icon"
-                  className="h-8 w-8 flex-shrink-0"
+                  className="h-8 w-8 flex-shrink-0 ml-1"
                   onClick={() => removeBox(b.id)}
                 >
                   <Trash2 className="h-4 w-4" />
@@ -724,6 +762,54 @@ export function BoxManager() {
           )}
         </CardContent>
       </Card>
+
+      {/* ─────────────────────── Unplaced Boxes ─────────────────────── */}
+      {unplaceableBoxes.length > 0 && (
+        <Card className="bg-orange-500/10 border-orange-500/20">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center text-orange-600 dark:text-orange-400">
+              <AlertTriangle className="h-4 w-4 mr-2" /> Unplaced Boxes ({unplaceableBoxes.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-64 overflow-y-auto space-y-2">
+              {unplaceableBoxes.map((b) => (
+                <div
+                  key={b.id}
+                  className="flex items-center justify-between p-2 rounded text-xs bg-muted/50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-foreground truncate">{b.name}</span>
+                      {b.unplacedReason && (
+                        <span className="px-1 py-0.5 bg-orange-500/20 text-orange-600 rounded text-xs font-medium flex-shrink-0">
+                          {UNPLACED_REASON_LABELS[b.unplacedReason.code]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {b.width}×{b.height}×{b.length} | {b.weight}lbs
+                    </div>
+                    {b.unplacedReason && (
+                      <div className="text-orange-600 dark:text-orange-300 mt-1">
+                        {b.unplacedReason.message}
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    className="h-8 w-8 flex-shrink-0"
+                    onClick={() => removeBox(b.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
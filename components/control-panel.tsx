@@ -6,29 +6,95 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
 import { useOptimizationStore } from "@/store/optimization-store"
-import { Settings, Truck, Shuffle, RotateCcw } from "lucide-react"
+import { listPackingSolvers } from "@/lib/packing-solvers"
+import { TRUCK_PRESETS } from "@/lib/fleet-planner"
+import { FleetPlannerPanel } from "@/components/fleet-planner-panel"
+import { HistoryPanel } from "@/components/history-panel"
+import { PlanComparisonPanel } from "@/components/plan-comparison-panel"
+import { PlanInterchangePanel } from "@/components/plan-interchange-panel"
+import { TEMPERATURE_ZONES, getCompartmentColor, resolveTemperatureCompartments } from "@/lib/temperature-zones"
+import type { TemperatureCompartment, TemperatureZone } from "@/types/box"
+import { Settings, Truck, Shuffle, RotateCcw, X, Thermometer, Plus, PackagePlus } from "lucide-react"
 
 export function ControlPanel() {
-  const { truckDimensions, setTruckDimensions, optimizeLayout, resetLayout, boxes } = useOptimizationStore()
+  const {
+    truckDimensions,
+    setTruckDimensions,
+    optimizeLayout,
+    cancelOptimization,
+    resetLayout,
+    boxes,
+    unplaceableBoxes,
+    isOptimizing,
+    optimizationProgress,
+    packingSolverId,
+    setPackingSolverId,
+    packingDiagnostics,
+    supportRules,
+    setSupportRules,
+    temperatureZoneLayout,
+    setTemperatureZoneLayout,
+    strictTemperatureZones,
+    setStrictTemperatureZones,
+    vehicleModel,
+    setVehicleModel,
+    historyTransaction,
+    placeNewBoxes,
+    incrementalPlacement,
+    setIncrementalPlacement,
+    currentLoadStep,
+  } = useOptimizationStore()
 
-  const [truckType, setTruckType] = useState("28ft-box")
+  const packingSolvers = listPackingSolvers()
+  const selectedSolver = packingSolvers.find((solver) => solver.id === packingSolverId)
+  const newBoxCount = boxes.filter((box) => box.isNew).length + unplaceableBoxes.length
 
-  const truckPresets = {
-    "28ft-box": { width: 8, length: 28, height: 9 },
-    "26ft-box": { width: 8, length: 26, height: 9 },
-    "24ft-box": { width: 8, length: 24, height: 8.5 },
-    "53ft-trailer": { width: 8.5, length: 53, height: 9 },
-    custom: truckDimensions,
-  }
+  const [truckType, setTruckType] = useState("28ft-box")
 
   const handleTruckTypeChange = (type: string) => {
     setTruckType(type)
-    if (type !== "custom") {
-      setTruckDimensions(truckPresets[type as keyof typeof truckPresets])
+    const preset = TRUCK_PRESETS.find((candidate) => candidate.id === type)
+    if (preset) {
+      historyTransaction("Change truck type", () => {
+        setTruckDimensions(preset.dimensions)
+        setVehicleModel(preset.vehicle)
+      })
     }
   }
 
+  const compartments = temperatureZoneLayout.compartments
+  const resolvedCompartments = resolveTemperatureCompartments(temperatureZoneLayout, truckDimensions)
+
+  const updateCompartment = (index: number, updates: Partial<TemperatureCompartment>) => {
+    setTemperatureZoneLayout({
+      compartments: compartments.map((compartment, i) => (i === index ? { ...compartment, ...updates } : compartment)),
+    })
+  }
+
+  const toggleCompartmentZone = (index: number, zone: TemperatureZone) => {
+    const { accepts } = compartments[index]
+    updateCompartment(index, {
+      accepts: accepts.includes(zone) ? accepts.filter((accepted) => accepted !== zone) : [...accepts, zone],
+    })
+  }
+
+  const addCompartment = () => {
+    setTemperatureZoneLayout({
+      compartments: [
+        ...compartments,
+        { id: `compartment-${Date.now()}`, name: `Compartment ${compartments.length + 1}`, length: 4, setpoint: 36, accepts: ["cold"] },
+      ],
+    })
+  }
+
+  const removeCompartment = (index: number) => {
+    setTemperatureZoneLayout({ compartments: compartments.filter((_, i) => i !== index) })
+  }
+
   const handleOptimize = () => {
     optimizeLayout()
   }
@@ -54,10 +120,11 @@ export function ControlPanel() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="28ft-box">28ft Box Truck</SelectItem>
-                <SelectItem value="26ft-box">26ft Box Truck</SelectItem>
-                <SelectItem value="24ft-box">24ft Box Truck</SelectItem>
-                <SelectItem value="53ft-trailer">53ft Trailer</SelectItem>
+                {TRUCK_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
                 <SelectItem value="custom">Custom</SelectItem>
               </SelectContent>
             </Select>
@@ -123,6 +190,110 @@ export function ControlPanel() {
         </CardContent>
       </Card>
 
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm text-white flex items-center">
+            <Thermometer className="h-4 w-4 mr-2" />
+            Temperature Compartments
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="text-xs text-gray-400">Nose to rear doors. Leave length blank to fill the remaining space.</div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-xs text-gray-300">Strict Zones</Label>
+              <div className="text-xs text-gray-500">Leave boxes unplaced rather than load them in the wrong compartment</div>
+            </div>
+            <Switch checked={strictTemperatureZones} onCheckedChange={setStrictTemperatureZones} disabled={isOptimizing} />
+          </div>
+
+          {compartments.map((compartment, index) => {
+            const resolved = resolvedCompartments[index]
+            return (
+              <div
+                key={compartment.id}
+                className="space-y-2 border-l-4 border-gray-700 rounded p-2 bg-gray-900/40"
+                style={{ borderLeftColor: getCompartmentColor(compartment) }}
+              >
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={compartment.name}
+                    onChange={(e) => updateCompartment(index, { name: e.target.value })}
+                    className="h-7 text-xs bg-gray-700 border-gray-600"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-gray-400"
+                    onClick={() => removeCompartment(index)}
+                    disabled={isOptimizing || compartments.length === 1}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-xs text-gray-300">Length (ft)</Label>
+                    <Input
+                      type="number"
+                      value={compartment.length ?? ""}
+                      placeholder={resolved ? `auto (${resolved.length.toFixed(1)})` : "auto"}
+                      onChange={(e) =>
+                        updateCompartment(index, {
+                          length: e.target.value === "" ? undefined : Number.parseFloat(e.target.value),
+                        })
+                      }
+                      className="h-7 text-xs bg-gray-700 border-gray-600"
+                      min="0"
+                      step="0.5"
+                      disabled={isOptimizing}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs text-gray-300">Setpoint (°F)</Label>
+                    <Input
+                      type="number"
+                      value={compartment.setpoint ?? ""}
+                      placeholder="ambient"
+                      onChange={(e) =>
+                        updateCompartment(index, {
+                          setpoint: e.target.value === "" ? null : Number.parseFloat(e.target.value),
+                        })
+                      }
+                      className="h-7 text-xs bg-gray-700 border-gray-600"
+                      step="1"
+                      disabled={isOptimizing}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-1">
+                  {TEMPERATURE_ZONES.map((zone) => (
+                    <Button
+                      key={zone}
+                      variant={compartment.accepts.includes(zone) ? "default" : "outline"}
+                      size="sm"
+                      className="h-6 px-2 text-xs capitalize"
+                      onClick={() => toggleCompartmentZone(index, zone)}
+                      disabled={isOptimizing}
+                    >
+                      {zone}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+
+          <Button onClick={addCompartment} variant="outline" className="w-full h-8 text-xs" disabled={isOptimizing}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Compartment
+          </Button>
+        </CardContent>
+      </Card>
+
       <Card className="bg-gray-800 border-gray-700">
         <CardHeader className="pb-2">
           <CardTitle className="text-sm text-white flex items-center">
@@ -131,21 +302,150 @@ export function ControlPanel() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          <Button onClick={handleOptimize} className="w-full h-8 text-xs" disabled={boxes.length === 0}>
-            <Shuffle className="h-3 w-3 mr-1" />
-            Optimize Layout
-          </Button>
+          <div>
+            <Label className="text-xs text-gray-300">Packing Strategy</Label>
+            <Select value={packingSolverId} onValueChange={setPackingSolverId} disabled={isOptimizing}>
+              <SelectTrigger className="h-8 text-xs bg-gray-700 border-gray-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {packingSolvers.map((solver) => (
+                  <SelectItem key={solver.id} value={solver.id}>
+                    {solver.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedSolver && <div className="text-xs text-gray-400 mt-1">{selectedSolver.description}</div>}
+          </div>
+
+          <div>
+            <Label className="text-xs text-gray-300">
+              Min Base Support: {(supportRules.minSupportRatio * 100).toFixed(0)}%
+            </Label>
+            <Slider
+              value={[supportRules.minSupportRatio]}
+              onValueChange={(value) => setSupportRules({ minSupportRatio: value[0] })}
+              max={1.0}
+              min={0.3}
+              step={0.05}
+              disabled={isOptimizing}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-gray-300">Auto-place Added Boxes</Label>
+            <Switch checked={incrementalPlacement} onCheckedChange={setIncrementalPlacement} disabled={isOptimizing} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label className="text-xs text-gray-300">Require Corner Support</Label>
+            <Switch
+              checked={supportRules.requireCornerSupport}
+              onCheckedChange={(checked) => setSupportRules({ requireCornerSupport: checked })}
+              disabled={isOptimizing}
+            />
+          </div>
+
+          {isOptimizing ? (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-gray-300">
+                <span>Optimizing...</span>
+                {optimizationProgress && (
+                  <span>
+                    {optimizationProgress.placed + optimizationProgress.unplaced}/{optimizationProgress.total} boxes
+                  </span>
+                )}
+              </div>
+              <Progress
+                value={
+                  optimizationProgress && optimizationProgress.total > 0
+                    ? ((optimizationProgress.placed + optimizationProgress.unplaced) / optimizationProgress.total) * 100
+                    : 0
+                }
+                className="h-2"
+              />
+              <Button onClick={cancelOptimization} variant="outline" className="w-full h-8 text-xs">
+                <X className="h-3 w-3 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={handleOptimize}
+              className="w-full h-8 text-xs"
+              disabled={boxes.length === 0 && unplaceableBoxes.length === 0}
+            >
+              <Shuffle className="h-3 w-3 mr-1" />
+              Optimize Layout
+            </Button>
+          )}
+
+          {!isOptimizing && newBoxCount > 0 && (
+            <div className="space-y-1">
+              <Button onClick={placeNewBoxes} variant="outline" className="w-full h-8 text-xs">
+                <PackagePlus className="h-3 w-3 mr-1" />
+                Place {newBoxCount} New {newBoxCount === 1 ? "Box" : "Boxes"}
+              </Button>
+              <div className="text-xs text-gray-500">
+                Keeps the {currentLoadStep} loaded and any locked boxes where they are
+              </div>
+            </div>
+          )}
 
           <Button
             onClick={handleReset}
             variant="outline"
             className="w-full h-8 text-xs"
-            disabled={boxes.length === 0}
+            disabled={boxes.length === 0 || isOptimizing}
           >
             <RotateCcw className="h-3 w-3 mr-1" />
             Reset Layout
           </Button>
 
+          {packingDiagnostics && !isOptimizing && (
+            <div className="text-xs text-gray-300 space-y-1 border border-gray-700 rounded p-2">
+              <div className="flex justify-between">
+                <span>Placed</span>
+                <span>
+                  {packingDiagnostics.placedCount}/{packingDiagnostics.placedCount + packingDiagnostics.unplacedCount}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Volume used</span>
+                <span>{packingDiagnostics.volumeUtilization.toFixed(1)}%</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Solve time</span>
+                <span>{(packingDiagnostics.durationMs / 1000).toFixed(2)}s</span>
+              </div>
+              {packingDiagnostics.warnings.map((warning) => (
+                <div key={warning} className="text-yellow-400">
+                  {warning}
+                </div>
+              ))}
+              {packingDiagnostics.unsupportedBoxes.map((issue) => (
+                <div key={issue.boxId} className="flex justify-between text-yellow-400">
+                  <span>{issue.boxId}</span>
+                  <span>
+                    {(issue.supportRatio * 100).toFixed(0)}% supported{!issue.cornersSupported && ", corner overhang"}
+                  </span>
+                </div>
+              ))}
+              {packingDiagnostics.unloadBlockers.map((blocker) => (
+                <div key={blocker.boxId} className="flex justify-between gap-2 text-yellow-400">
+                  <span>
+                    {blocker.boxId} ({blocker.stop})
+                  </span>
+                  <span className="truncate" title={blocker.blockedBy.join(", ")}>
+                    behind {blocker.blockedBy.length} later-stop {blocker.blockedBy.length === 1 ? "box" : "boxes"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="text-xs text-gray-400 space-y-1">
             <div>• Maximizes volume utilization</div>
             <div>• Respects weight distribution</div>
@@ -163,15 +463,15 @@ export function ControlPanel() {
           <div className="text-xs space-y-1">
             <div className="flex justify-between">
               <span className="text-gray-300">Max Weight:</span>
-              <span className="text-white">34,000 lbs</span>
+              <span className="text-white">{vehicleModel.maxPayload.toLocaleString()} lbs</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Max Height:</span>
               <span className="text-white">{truckDimensions.height} ft</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-gray-300">Temperature Zones:</span>
-              <span className="text-white">3</span>
+              <span className="text-gray-300">Temperature Compartments:</span>
+              <span className="text-white">{compartments.length}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Fragile Items:</span>
@@ -180,6 +480,14 @@ export function ControlPanel() {
           </div>
         </CardContent>
       </Card>
+
+      <HistoryPanel />
+
+      <PlanComparisonPanel />
+
+      <PlanInterchangePanel />
+
+      <FleetPlannerPanel />
     </div>
   )
 }
@@ -0,0 +1,225 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { VEHICLE_MODELS } from "@/lib/axle-loads"
+import { TRUCK_PRESETS } from "@/lib/fleet-planner"
+import type { FleetTruckType } from "@/types/fleet"
+import type { TruckDimensions } from "@/types/box"
+import { Layers, Plus, X } from "lucide-react"
+
+export function FleetPlannerPanel() {
+  const {
+    boxes,
+    unplaceableBoxes,
+    truckDimensions,
+    vehicleModel,
+    isOptimizing,
+    fleet,
+    setFleet,
+    fleetPlan,
+    activeTruckLoadId,
+    planFleet,
+    selectTruckLoad,
+    clearFleetPlan,
+  } = useOptimizationStore()
+
+  const isPreset = (type: FleetTruckType) => TRUCK_PRESETS.some((preset) => preset.id === type.id)
+
+  const updateTruckType = (id: string, updates: Partial<FleetTruckType>) => {
+    setFleet(fleet.map((type) => (type.id === id ? { ...type, ...updates } : type)))
+  }
+
+  const updateDimension = (type: FleetTruckType, dimension: keyof TruckDimensions, value: string) => {
+    updateTruckType(type.id, { dimensions: { ...type.dimensions, [dimension]: Number.parseFloat(value) || 0 } })
+  }
+
+  const addCustomTruck = () => {
+    setFleet([
+      ...fleet,
+      {
+        id: `custom-${Date.now()}`,
+        name: `Custom Truck ${fleet.filter((type) => !isPreset(type)).length + 1}`,
+        dimensions: { ...truckDimensions },
+        vehicle: vehicleModel,
+        available: 1,
+      },
+    ])
+  }
+
+  const removeTruckType = (id: string) => {
+    setFleet(fleet.filter((type) => type.id !== id))
+  }
+
+  const availableTrucks = fleet.reduce((sum, type) => sum + Math.max(0, type.available), 0)
+  const boxCount = fleetPlan
+    ? fleetPlan.loads.reduce((sum, load) => sum + load.boxes.length, 0) + fleetPlan.unplacedBoxes.length
+    : boxes.length + unplaceableBoxes.length
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-white flex items-center">
+          <Layers className="h-4 w-4 mr-2" />
+          Fleet Planning
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-xs text-gray-500">
+          Splits every box across the trucks below, keeping each route stop on one truck where it fits
+        </div>
+
+        {fleet.map((type) => (
+          <div key={type.id} className="space-y-2 rounded p-2 bg-gray-900/40">
+            <div className="flex items-center gap-2">
+              {isPreset(type) ? (
+                <span className="text-xs text-white flex-1">{type.name}</span>
+              ) : (
+                <Input
+                  value={type.name}
+                  onChange={(e) => updateTruckType(type.id, { name: e.target.value })}
+                  className="h-7 text-xs bg-gray-700 border-gray-600"
+                />
+              )}
+              <Input
+                type="number"
+                value={type.available}
+                onChange={(e) => updateTruckType(type.id, { available: Math.max(0, Number.parseInt(e.target.value) || 0) })}
+                className="h-7 w-16 text-xs bg-gray-700 border-gray-600"
+                min="0"
+                step="1"
+                disabled={isOptimizing}
+                title="Trucks available"
+              />
+              {!isPreset(type) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-gray-400"
+                  onClick={() => removeTruckType(type.id)}
+                  disabled={isOptimizing}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            {isPreset(type) ? (
+              <div className="text-xs text-gray-400">
+                {type.dimensions.width}×{type.dimensions.length}×{type.dimensions.height} ft • {type.vehicle.name}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  {(["width", "length", "height"] as const).map((dimension) => (
+                    <div key={dimension}>
+                      <Label className="text-xs text-gray-300 capitalize">{dimension} (ft)</Label>
+                      <Input
+                        type="number"
+                        value={type.dimensions[dimension]}
+                        onChange={(e) => updateDimension(type, dimension, e.target.value)}
+                        className="h-7 text-xs bg-gray-700 border-gray-600"
+                        min="1"
+                        step="0.5"
+                        disabled={isOptimizing}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Select
+                  value={type.vehicle.id}
+                  onValueChange={(id) => {
+                    const vehicle = VEHICLE_MODELS.find((model) => model.id === id)
+                    if (vehicle) updateTruckType(type.id, { vehicle })
+                  }}
+                  disabled={isOptimizing}
+                >
+                  <SelectTrigger className="h-7 text-xs bg-gray-700 border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VEHICLE_MODELS.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full h-7 text-xs"
+          onClick={addCustomTruck}
+          disabled={isOptimizing}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add Custom Truck
+        </Button>
+
+        <Button
+          onClick={() => planFleet()}
+          className="w-full bg-cyan-600 hover:bg-cyan-700"
+          disabled={isOptimizing || boxCount === 0 || availableTrucks === 0}
+        >
+          Plan Fleet ({boxCount} boxes, {availableTrucks} trucks)
+        </Button>
+
+        {fleetPlan && (
+          <div className="space-y-2 pt-2 border-t border-gray-700">
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-300">Trucks needed:</span>
+              <span className="text-white">{fleetPlan.loads.length}</span>
+            </div>
+            {fleetPlan.loads.map((load) => (
+              <button
+                key={load.id}
+                onClick={() => selectTruckLoad(load.id)}
+                disabled={isOptimizing}
+                className={`w-full text-left p-2 rounded text-xs border transition-colors ${
+                  load.id === activeTruckLoadId
+                    ? "bg-cyan-500/20 border-cyan-500/40"
+                    : "bg-gray-900/40 border-transparent hover:bg-gray-700/60"
+                }`}
+              >
+                <div className="flex justify-between">
+                  <span className="text-white font-medium">{load.name}</span>
+                  <span className="text-gray-300">{load.boxes.length} boxes</span>
+                </div>
+                <div className="text-gray-400">
+                  {load.boxes.reduce((sum, box) => sum + box.weight, 0).toFixed(0)} lbs •{" "}
+                  {load.diagnostics.volumeUtilization.toFixed(1)}% full
+                </div>
+                {load.stops.length > 0 && (
+                  <div className="text-gray-500 truncate">{load.stops.map((stop) => stop || "Unassigned").join(" → ")}</div>
+                )}
+              </button>
+            ))}
+            {fleetPlan.unplacedBoxes.length > 0 && (
+              <div className="text-xs text-orange-400">
+                {fleetPlan.unplacedBoxes.length} boxes fit no available truck
+              </div>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-7 text-xs"
+              onClick={clearFleetPlan}
+              disabled={isOptimizing}
+            >
+              Back to Single Truck
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { Bookmark, History, Redo2, Undo2, X } from "lucide-react"
+
+// Typing in a field keeps the browser's own undo
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+// Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo
+function useHistoryShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+}
+
+export function HistoryPanel() {
+  const { history, isOptimizing, undo, redo, saveCheckpoint, restoreCheckpoint, deleteCheckpoint } =
+    useOptimizationStore()
+  const [checkpointName, setCheckpointName] = useState("")
+  useHistoryShortcuts(undo, redo)
+
+  const lastEdit = history.past[history.past.length - 1]
+  const nextEdit = history.future[0]
+
+  const handleSaveCheckpoint = () => {
+    saveCheckpoint(checkpointName)
+    setCheckpointName("")
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-white flex items-center">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={undo}
+            disabled={!lastEdit || isOptimizing}
+            title={lastEdit ? `Undo ${lastEdit.label} (Ctrl+Z)` : "Nothing to undo"}
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            Undo
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={redo}
+            disabled={!nextEdit || isOptimizing}
+            title={nextEdit ? `Redo ${nextEdit.label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+          >
+            <Redo2 className="h-3 w-3 mr-1" />
+            Redo
+          </Button>
+        </div>
+        <div className="text-xs text-gray-500 truncate">
+          {lastEdit ? `Last change: ${lastEdit.label}` : "No changes yet"}
+        </div>
+
+        <div className="flex gap-2 pt-2 border-t border-gray-700">
+          <Input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSaveCheckpoint()}
+            placeholder="Checkpoint name"
+            className="h-7 text-xs bg-gray-700 border-gray-600"
+          />
+          <Button size="sm" className="h-7 text-xs bg-cyan-600 hover:bg-cyan-700" onClick={handleSaveCheckpoint}>
+            <Bookmark className="h-3 w-3 mr-1" />
+            Save
+          </Button>
+        </div>
+
+        {history.checkpoints.length > 0 && (
+          <div className="space-y-1">
+            {history.checkpoints.map((checkpoint) => (
+              <div key={checkpoint.id} className="flex items-center gap-2 rounded p-2 bg-gray-900/40 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="text-white truncate">{checkpoint.name}</div>
+                  <div className="text-gray-400">
+                    {new Date(checkpoint.createdAt).toLocaleTimeString()} • {checkpoint.snapshot.boxes.length} boxes
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => restoreCheckpoint(checkpoint.id)}
+                  disabled={isOptimizing}
+                >
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 text-gray-400"
+                  onClick={() => deleteCheckpoint(checkpoint.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
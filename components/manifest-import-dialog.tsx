@@ -0,0 +1,256 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  LENGTH_UNITS,
+  MANIFEST_FIELDS,
+  WEIGHT_UNITS,
+  expandManifestRows,
+  guessColumnMapping,
+  guessUnits,
+  missingRequiredFields,
+  readManifestFile,
+  validateManifestRows,
+  type ColumnMapping,
+  type LengthUnit,
+  type ManifestField,
+  type ManifestTable,
+  type ManifestUnits,
+  type WeightUnit,
+} from "@/lib/manifest-import"
+import type { BoxPayload } from "@/lib/box-validation"
+import { FileSpreadsheet, Upload } from "lucide-react"
+
+// The preview only renders this many rows; validation and import cover all of them
+const PREVIEW_ROWS = 200
+const UNMAPPED = "unmapped"
+
+export function ManifestImportDialog({
+  open,
+  onOpenChange,
+  availableDestinations,
+  onImport,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  availableDestinations: string[]
+  onImport: (payloads: BoxPayload[]) => void
+}) {
+  const [fileName, setFileName] = useState("")
+  const [table, setTable] = useState<ManifestTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [units, setUnits] = useState<ManifestUnits>({ length: "in", weight: "lb" })
+  const [error, setError] = useState("")
+
+  const rows = useMemo(
+    () => (table ? validateManifestRows(table, mapping, units, availableDestinations) : []),
+    [table, mapping, units, availableDestinations],
+  )
+  const missingFields = missingRequiredFields(mapping)
+  const payloads = useMemo(() => expandManifestRows(rows), [rows])
+  const errorRowCount = rows.filter((row) => row.errors.length > 0).length
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError("")
+    try {
+      const nextTable = await readManifestFile(file)
+      const guessedMapping = guessColumnMapping(nextTable.headers)
+      setFileName(file.name)
+      setTable(nextTable)
+      setMapping(guessedMapping)
+      setUnits(guessUnits(nextTable.headers, guessedMapping))
+    } catch (e) {
+      setTable(null)
+      setError(e instanceof Error ? e.message : "Couldn't read the file")
+    }
+  }
+
+  const setColumn = (field: ManifestField, value: string) => {
+    const next = { ...mapping }
+    if (value === UNMAPPED) {
+      delete next[field]
+    } else {
+      next[field] = Number(value)
+    }
+    setMapping(next)
+  }
+
+  const handleImport = () => {
+    onImport(payloads)
+    setTable(null)
+    setFileName("")
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileSpreadsheet className="h-5 w-5 mr-2" />
+            Import Manifest
+          </DialogTitle>
+          <DialogDescription>
+            CSV or Excel (.xlsx) with one header row. Rows are checked with the same rules as a scanned QR code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="h-8 text-xs"
+          />
+          {fileName && <span className="text-xs text-muted-foreground truncate">{fileName}</span>}
+        </div>
+
+        {error && <div className="text-xs text-destructive bg-destructive/10 p-2 rounded">{error}</div>}
+
+        {table && (
+          <>
+            {/* ------------------------- column mapping ------------------------- */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {MANIFEST_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <Label className="text-xs text-muted-foreground">
+                    {label}
+                    {required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>
+                        {field === "temperatureZone" ? "Not mapped (regular)" : "Not mapped"}
+                      </SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div>
+                <Label className="text-xs text-muted-foreground">Dimensions in</Label>
+                <Select
+                  value={units.length}
+                  onValueChange={(value) => setUnits({ ...units, length: value as LengthUnit })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LENGTH_UNITS).map(([unit, { label }]) => (
+                      <SelectItem key={unit} value={unit}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs text-muted-foreground">Weight in</Label>
+                <Select
+                  value={units.weight}
+                  onValueChange={(value) => setUnits({ ...units, weight: value as WeightUnit })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(WEIGHT_UNITS).map(([unit, { label }]) => (
+                      <SelectItem key={unit} value={unit}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* ----------------------------- preview ---------------------------- */}
+            <div className="text-xs text-muted-foreground">
+              {missingFields.length > 0 ? (
+                <span className="text-destructive">Map the required columns: {missingFields.join(", ")}</span>
+              ) : (
+                <>
+                  {rows.length} rows • <span className="text-foreground">{payloads.length} boxes to add</span>
+                  {errorRowCount > 0 && <span className="text-destructive"> • {errorRowCount} rows with errors will be skipped</span>}
+                </>
+              )}
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-muted text-muted-foreground">
+                  <tr>
+                    <th className="p-1 text-left">Row</th>
+                    <th className="p-1 text-left">Name</th>
+                    <th className="p-1 text-right">Qty</th>
+                    <th className="p-1 text-right">W × H × L (ft)</th>
+                    <th className="p-1 text-right">Weight (lb)</th>
+                    <th className="p-1 text-left">Zone</th>
+                    <th className="p-1 text-left">Destination</th>
+                    <th className="p-1 text-left">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <tr key={row.rowNumber} className={row.errors.length ? "bg-destructive/10" : ""}>
+                      <td className="p-1">{row.rowNumber}</td>
+                      <td className="p-1 truncate max-w-[10rem]">{row.payload?.name ?? "—"}</td>
+                      <td className="p-1 text-right">{row.quantity}</td>
+                      <td className="p-1 text-right">
+                        {row.payload ? `${row.payload.width} × ${row.payload.height} × ${row.payload.length}` : "—"}
+                      </td>
+                      <td className="p-1 text-right">{row.payload?.weight ?? "—"}</td>
+                      <td className="p-1">{row.payload?.temperatureZone ?? "—"}</td>
+                      <td className="p-1">{row.payload?.destination || "—"}</td>
+                      <td className="p-1">
+                        {row.errors.length > 0 ? (
+                          <span className="text-destructive">{row.errors.join("; ")}</span>
+                        ) : row.warnings.length > 0 ? (
+                          <span className="text-orange-500">{row.warnings.join("; ")}</span>
+                        ) : (
+                          <span className="text-green-500">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > PREVIEW_ROWS && (
+                <div className="p-2 text-xs text-muted-foreground">
+                  Showing the first {PREVIEW_ROWS} of {rows.length} rows
+                </div>
+              )}
+            </ScrollArea>
+
+            <Button
+              className="w-full h-8 text-xs"
+              onClick={handleImport}
+              disabled={missingFields.length > 0 || payloads.length === 0}
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              Import {payloads.length} Boxes
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,182 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { fetchOrders, fetchWarehouses, updateOrderStatus } from "@/lib/orders-api"
+import type { Order, Warehouse } from "@/types/orders"
+import { Check, ClipboardCheck, RefreshCw, X } from "lucide-react"
+
+const PRIORITY_RANK = { high: 0, normal: 1, low: 2 }
+
+// Most urgent first, then the soonest due
+function compareOrders(a: Order, b: Order): number {
+  return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.deliveryDate.localeCompare(b.deliveryDate)
+}
+
+export function OrderApprovalQueue() {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyOrderId, setBusyOrderId] = useState<number | null>(null)
+  const [warehouseChoice, setWarehouseChoice] = useState<Record<number, number>>({})
+  const [rejectingOrderId, setRejectingOrderId] = useState<number | null>(null)
+  const [rejectReason, setRejectReason] = useState("")
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true)
+      const [pending, available] = await Promise.all([fetchOrders({ status: "pending" }), fetchWarehouses()])
+      setOrders(pending.sort(compareOrders))
+      setWarehouses(available)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the approval queue")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadQueue()
+  }, [])
+
+  const decide = async (order: Order, status: "confirmed" | "rejected", note?: string) => {
+    try {
+      setBusyOrderId(order.id)
+      const warehouseId = warehouseChoice[order.id] ?? order.warehouseId ?? warehouses[0]?.id
+      await updateOrderStatus(order.id, {
+        status,
+        ...(note && { note }),
+        ...(status === "confirmed" && warehouseId && { warehouseId }),
+      })
+      setOrders((prev) => prev.filter((o) => o.id !== order.id))
+      setRejectingOrderId(null)
+      setRejectReason("")
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update the order")
+    } finally {
+      setBusyOrderId(null)
+    }
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            Approval Queue ({orders.length})
+          </span>
+          <Button size="sm" variant="ghost" onClick={loadQueue} disabled={loading} className="h-6 px-2">
+            <RefreshCw className={`h-3 w-3 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-xs text-gray-500">
+          Retailer orders waiting for the warehouse. Approved orders can be added to the load from the Orders panel.
+        </div>
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+
+        {!loading && orders.length === 0 && (
+          <div className="text-xs text-gray-400 text-center py-4">No orders waiting for approval</div>
+        )}
+
+        {orders.map((order) => (
+          <div key={order.id} className="p-2 bg-gray-700/50 rounded space-y-2">
+            <div className="flex justify-between items-start text-xs">
+              <div>
+                <div className="text-white font-medium">
+                  #{order.id} {order.product.name}
+                </div>
+                <div className="text-gray-400">{order.retail.name}</div>
+              </div>
+              <span
+                className={`uppercase ${order.priority === "high" ? "text-red-400" : order.priority === "low" ? "text-green-400" : "text-blue-400"}`}
+              >
+                {order.priority}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-1 text-xs text-gray-400">
+              <span>Qty: {order.quantity}</span>
+              <span>{order.totalWeight} lbs</span>
+              <span className="col-span-2">Due: {new Date(order.deliveryDate).toLocaleDateString()}</span>
+            </div>
+
+            {rejectingOrderId === order.id ? (
+              <div className="space-y-2">
+                <Input
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Reason for the retailer"
+                  className="h-7 text-xs bg-gray-800 border-gray-600 text-white"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="flex-1 h-7 text-xs"
+                    disabled={busyOrderId === order.id || !rejectReason.trim()}
+                    onClick={() => decide(order, "rejected", rejectReason.trim())}
+                  >
+                    Reject order
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => {
+                      setRejectingOrderId(null)
+                      setRejectReason("")
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <select
+                  value={warehouseChoice[order.id] ?? order.warehouseId ?? warehouses[0]?.id ?? ""}
+                  onChange={(e) => setWarehouseChoice((prev) => ({ ...prev, [order.id]: Number(e.target.value) }))}
+                  className="flex-1 min-w-0 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-xs text-white"
+                  title="Warehouse that ships it"
+                >
+                  {warehouses.map((warehouse) => (
+                    <option key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  className="h-7 px-2 bg-green-600 hover:bg-green-700 text-white"
+                  disabled={busyOrderId === order.id}
+                  onClick={() => decide(order, "confirmed")}
+                  title="Approve"
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  className="h-7 px-2"
+                  disabled={busyOrderId === order.id}
+                  onClick={() => setRejectingOrderId(order.id)}
+                  title="Reject"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
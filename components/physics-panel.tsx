@@ -7,10 +7,24 @@ import { Slider } from "@/components/ui/slider"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
 import { useOptimizationStore } from "@/store/optimization-store"
+import { AxleLoadPanel } from "@/components/axle-load-panel"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import { resolveTemperatureCompartments } from "@/lib/temperature-zones"
+import type { MCTSPlacementRules } from "@/lib/mcts-placement"
+import type { PhysicsWorkerRequestType, PhysicsWorkerResponse } from "@/types/worker-messages"
 import { Zap, Activity, AlertTriangle, CheckCircle } from "lucide-react"
 
 export function PhysicsPanel() {
-  const { physicsEnabled, setPhysicsEnabled, boxes, truckDimensions, optimizationScore } = useOptimizationStore()
+  const {
+    physicsEnabled,
+    setPhysicsEnabled,
+    boxes,
+    truckDimensions,
+    vehicleModel,
+    temperatureZoneLayout,
+    strictTemperatureZones,
+    optimizationScore,
+  } = useOptimizationStore()
 
   const [accelerationForce, setAccelerationForce] = useState(0.4)
   const [brakingForce, setBrakingForce] = useState(0.8)
@@ -27,18 +41,18 @@ export function PhysicsPanel() {
     if (typeof Worker !== 'undefined') {
       workerRef.current = new Worker(new URL('../workers/physics-worker.ts', import.meta.url))
       
-      workerRef.current.onmessage = (event) => {
-        const { type, payload, id } = event.data
+      workerRef.current.onmessage = (event: MessageEvent<PhysicsWorkerResponse>) => {
+        const message = event.data
         
-        switch (type) {
+        switch (message.type) {
           case 'SIMULATION_UPDATE':
-            setPhysicsStats(payload.stats)
+            setPhysicsStats(message.payload.stats)
             break
           case 'OPTIMAL_PLACEMENT_FOUND':
-            console.log('Optimal placements found:', payload.solutions)
+            console.log('Optimal placements found:', message.payload.solutions)
             break
           case 'ERROR':
-            console.error('Physics worker error:', payload)
+            console.error('Physics worker error:', message.payload.message)
             break
         }
       }
@@ -57,7 +71,7 @@ export function PhysicsPanel() {
   }, [])
 
   // Send message to worker
-  const sendWorkerMessage = (type: string, payload: any) => {
+  const sendWorkerMessage = (type: PhysicsWorkerRequestType, payload: any) => {
     if (workerRef.current) {
       const id = `msg_${messageIdRef.current++}`
       workerRef.current.postMessage({ type, payload, id })
@@ -97,8 +111,10 @@ export function PhysicsPanel() {
           (otherBox) =>
             otherBox.id !== box.id &&
             otherBox.position.y < box.position.y &&
-            Math.abs(otherBox.position.x - box.position.x) < (otherBox.width + box.width) / 2 &&
-            Math.abs(otherBox.position.z - box.position.z) < (otherBox.length + box.length) / 2,
+            Math.abs(otherBox.position.x - box.position.x) <
+              (getOrientedDimensions(otherBox).width + getOrientedDimensions(box).width) / 2 &&
+            Math.abs(otherBox.position.z - box.position.z) <
+              (getOrientedDimensions(otherBox).length + getOrientedDimensions(box).length) / 2,
         )
 
         if (supportingBoxes.length === 0) {
@@ -147,17 +163,12 @@ export function PhysicsPanel() {
   const findOptimalPlacement = () => {
     if (!workerRef.current) return
     
-    const constraints = {
+    const constraints: MCTSPlacementRules & { truckDimensions: typeof truckDimensions } = {
       truckDimensions,
-      maxWeight: 34000,
-      fragileZones: [],
-      temperatureZones: { 
-        cold: [{ x: -2, y: 1, z: -4, width: 3, height: 2, length: 2 }], 
-        frozen: [{ x: 2, y: 1, z: -4, width: 3, height: 2, length: 2 }], 
-        regular: [] 
-      },
-      lifoOrder: true,
-      perishableAreas: []
+      compartments: resolveTemperatureCompartments(temperatureZoneLayout, truckDimensions),
+      strictTemperatureZones,
+      vehicle: vehicleModel,
+      maxWeight: vehicleModel.maxPayload,
     }
     
     sendWorkerMessage('FIND_OPTIMAL_PLACEMENT', { boxes, constraints })
@@ -365,21 +376,23 @@ export function PhysicsPanel() {
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Max Capacity:</span>
-              <span className="text-white">34,000 lbs</span>
+              <span className="text-white">{vehicleModel.maxPayload.toLocaleString()} lbs</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-300">Utilization:</span>
               <span
                 className={`${
-                  (boxes.reduce((sum, box) => sum + box.weight, 0) / 34000) > 0.9 ? "text-red-400" : "text-green-400"
+                  (boxes.reduce((sum, box) => sum + box.weight, 0) / vehicleModel.maxPayload) > 0.9 ? "text-red-400" : "text-green-400"
                 }`}
               >
-                {((boxes.reduce((sum, box) => sum + box.weight, 0) / 34000) * 100).toFixed(1)}%
+                {((boxes.reduce((sum, box) => sum + box.weight, 0) / vehicleModel.maxPayload) * 100).toFixed(1)}%
               </span>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <AxleLoadPanel />
     </div>
   )
 }
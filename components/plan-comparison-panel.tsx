@@ -0,0 +1,247 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { PlanPreview, createCameraSync } from "@/components/3d/plan-preview"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { useWorkspaceStore } from "@/store/workspace-store"
+import { computePlanMetrics, findBestPlanIndex, type PlanMetrics } from "@/lib/plan-comparison"
+import type { PlanSnapshot } from "@/types/workspace"
+import { Columns3, Save, X } from "lucide-react"
+
+interface ComparedPlan {
+  plan: PlanSnapshot
+  metrics: PlanMetrics
+}
+
+interface MetricRow {
+  label: string
+  value: (compared: ComparedPlan) => number
+  format: (value: number) => string
+  better?: "higher" | "lower" // rows without one are shown but not ranked
+}
+
+const percent = (value: number) => `${value.toFixed(1)}%`
+const count = (value: number) => value.toFixed(0)
+const pounds = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 0 })} lbs`
+
+const METRIC_ROWS: MetricRow[] = [
+  { label: "Stability score", value: ({ plan }) => plan.scores.stability, format: count, better: "higher" },
+  { label: "Safety score", value: ({ plan }) => plan.scores.safety, format: count, better: "higher" },
+  { label: "Optimization score", value: ({ plan }) => plan.scores.optimization, format: count, better: "higher" },
+  { label: "Volume used", value: ({ metrics }) => metrics.volumeUtilization, format: percent, better: "higher" },
+  { label: "Payload used", value: ({ metrics }) => metrics.payloadUtilization, format: percent },
+  { label: "Boxes placed", value: ({ metrics }) => metrics.placedCount, format: count, better: "higher" },
+  { label: "Boxes unplaced", value: ({ metrics }) => metrics.unplacedCount, format: count, better: "lower" },
+  { label: "Cargo weight", value: ({ metrics }) => metrics.totalWeight, format: pounds },
+  { label: "Gross weight", value: ({ metrics }) => metrics.grossWeight, format: pounds },
+  {
+    label: "Axles over limit",
+    value: ({ metrics }) => metrics.axleLoads.filter((axle) => axle.load > axle.limit).length,
+    format: count,
+    better: "lower",
+  },
+  { label: "COG height", value: ({ metrics }) => metrics.centerOfGravity.y, format: (value) => `${value.toFixed(2)} ft`, better: "lower" },
+  { label: "COG off centerline", value: ({ metrics }) => metrics.lateralOffset, format: percent, better: "lower" },
+  { label: "COG off mid-length", value: ({ metrics }) => metrics.longitudinalOffset, format: percent, better: "lower" },
+]
+
+function PlanComparisonDialog({
+  plans,
+  open,
+  onOpenChange,
+}: {
+  plans: PlanSnapshot[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { stopOrder, applyPlanSnapshot } = useOptimizationStore()
+  const compared = useMemo(() => plans.map((plan) => ({ plan, metrics: computePlanMetrics(plan) })), [plans])
+  const tallestTruck = Math.max(0, ...plans.map((plan) => plan.truckDimensions.height))
+  const cameraSync = useRef(createCameraSync(tallestTruck))
+  const columns = { gridTemplateColumns: `minmax(9rem, auto) repeat(${plans.length}, minmax(0, 1fr))` }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] max-h-[95vh] overflow-y-auto bg-gray-900 border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Compare Plans</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Dragging any view turns every view; the best value in each row is highlighted
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 text-xs" style={columns}>
+          <div />
+          {compared.map(({ plan }, index) => (
+            <div key={plan.id} className="space-y-2">
+              <div className="h-56 rounded overflow-hidden border border-gray-700">
+                <PlanPreview
+                  boxes={plan.boxes}
+                  truckDimensions={plan.truckDimensions}
+                  stopOrder={stopOrder}
+                  viewIndex={index}
+                  cameraSync={cameraSync}
+                />
+              </div>
+              <div className="text-sm font-semibold text-white truncate">{plan.name}</div>
+              <div className="text-gray-400">
+                {plan.solverId ?? "Manual layout"} • {plan.truckDimensions.width}×{plan.truckDimensions.length}×
+                {plan.truckDimensions.height} ft • {plan.vehicleModel.name}
+              </div>
+            </div>
+          ))}
+
+          {METRIC_ROWS.map((row) => {
+            const values = compared.map(row.value)
+            const best = row.better ? findBestPlanIndex(values, row.better) : -1
+            return (
+              <div key={row.label} className="contents">
+                <div className="text-gray-300 py-1 border-t border-gray-800">{row.label}</div>
+                {values.map((value, index) => (
+                  <div
+                    key={compared[index].plan.id}
+                    className={`py-1 border-t border-gray-800 font-mono ${index === best ? "text-green-400 font-semibold" : "text-white"}`}
+                  >
+                    {row.format(value)}
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+
+          <div className="text-gray-300 py-1 border-t border-gray-800">Axle loads</div>
+          {compared.map(({ plan, metrics }) => (
+            <div key={plan.id} className="py-1 border-t border-gray-800 space-y-0.5">
+              {metrics.axleLoads.map((axle) => (
+                <div key={axle.axleId} className={`font-mono ${axle.load > axle.limit ? "text-red-400" : "text-white"}`}>
+                  {axle.name}: {axle.load.toFixed(0)} / {axle.limit} lbs
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div />
+          {compared.map(({ plan }) => (
+            <Button
+              key={plan.id}
+              size="sm"
+              className="bg-cyan-600 hover:bg-cyan-700"
+              onClick={() => {
+                applyPlanSnapshot(plan.id)
+                onOpenChange(false)
+              }}
+            >
+              Use This Plan
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function PlanComparisonPanel() {
+  const { boxes, isOptimizing, planSnapshots, savePlanSnapshot, removePlanSnapshot } = useOptimizationStore()
+  const { savePlan, removePlan } = useWorkspaceStore()
+  const [planName, setPlanName] = useState("")
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isComparing, setIsComparing] = useState(false)
+
+  const selectedPlans = planSnapshots.filter((plan) => selectedIds.has(plan.id))
+
+  const handleSave = () => {
+    savePlanSnapshot(planName)
+    savePlan(useOptimizationStore.getState().planSnapshots.at(-1)!)
+    setPlanName("")
+  }
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelectedIds(next)
+  }
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-white flex items-center">
+          <Columns3 className="h-4 w-4 mr-2" />
+          Plan Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-xs text-gray-500">
+          Save the current layout, then change the solver or truck and optimize again to compare
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={planName}
+            onChange={(e) => setPlanName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && boxes.length > 0 && handleSave()}
+            placeholder="Plan name"
+            className="h-7 text-xs bg-gray-700 border-gray-600"
+          />
+          <Button
+            size="sm"
+            className="h-7 text-xs bg-cyan-600 hover:bg-cyan-700"
+            onClick={handleSave}
+            disabled={isOptimizing || boxes.length === 0}
+          >
+            <Save className="h-3 w-3 mr-1" />
+            Save
+          </Button>
+        </div>
+
+        {planSnapshots.map((plan) => (
+          <div key={plan.id} className="flex items-center gap-2 rounded p-2 bg-gray-900/40 text-xs">
+            <Checkbox checked={selectedIds.has(plan.id)} onCheckedChange={() => toggleSelected(plan.id)} />
+            <div className="flex-1 min-w-0">
+              <div className="text-white truncate">{plan.name}</div>
+              <div className="text-gray-400">
+                {plan.boxes.length} placed • {plan.unplaceableBoxes.length} unplaced • {plan.truckDimensions.length} ft
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-gray-400"
+              onClick={() => {
+                removePlanSnapshot(plan.id)
+                removePlan(plan.id)
+                setSelectedIds(new Set([...selectedIds].filter((id) => id !== plan.id)))
+              }}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+
+        {planSnapshots.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full h-7 text-xs"
+            onClick={() => setIsComparing(true)}
+            disabled={selectedPlans.length < 2}
+          >
+            Compare {selectedPlans.length} Selected
+          </Button>
+        )}
+
+        {isComparing && (
+          <PlanComparisonDialog plans={selectedPlans} open={isComparing} onOpenChange={setIsComparing} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,129 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { exportLoadPlan, loadPlanToCsv, parseLoadPlanFile } from "@/lib/plan-interchange"
+import { FileJson, FileSpreadsheet, FileUp, Share2 } from "lucide-react"
+
+function downloadFile(contents: string, type: string, fileName: string) {
+  const blob = new Blob([contents], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function PlanInterchangePanel() {
+  const { boxes, unplaceableBoxes, isOptimizing, stopOrder, setStopOrder, importLoadPlan } = useOptimizationStore()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const buildDocument = () => {
+    const state = useOptimizationStore.getState()
+    return exportLoadPlan({
+      boxes: state.boxes,
+      unplaceableBoxes: state.unplaceableBoxes,
+      loadingSequence: state.loadingSequence,
+      truckDimensions: state.truckDimensions,
+      vehicleModel: state.vehicleModel,
+      zoneLayout: state.temperatureZoneLayout,
+      stopOrder: state.stopOrder,
+      solverId: state.packingSolverId,
+      scores: { stability: state.stabilityScore, safety: state.safetyScore, optimization: state.optimizationScore },
+    })
+  }
+
+  const handleExportJson = () => {
+    downloadFile(JSON.stringify(buildDocument(), null, 2), "application/json", `load-plan-${Date.now()}.json`)
+  }
+
+  const handleExportCsv = () => {
+    downloadFile(loadPlanToCsv(buildDocument()), "text/csv", `load-plan-${Date.now()}.csv`)
+  }
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const plan = parseLoadPlanFile(file.name, await file.text())
+      // Stops are named by their place on the route, so a route already set up matches the file's;
+      // stops it doesn't have follow in the file's order. Set first: a new stop order rebuilds the sequence.
+      if (plan.stopOrder) setStopOrder([...stopOrder, ...plan.stopOrder.filter((stop) => !stopOrder.includes(stop))])
+      importLoadPlan(plan)
+      setMessage({
+        text: `Imported ${plan.boxes.length} placed and ${plan.unplaceableBoxes.length} unplaced boxes from ${file.name}`,
+        isError: false,
+      })
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : "Couldn't read the file", isError: true })
+    } finally {
+      // Lets the same file be picked again after fixing it
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const hasBoxes = boxes.length + unplaceableBoxes.length > 0
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm text-white flex items-center">
+          <Share2 className="h-4 w-4 mr-2" />
+          Export / Import Plan
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="text-xs text-gray-500">
+          JSON keeps the truck, zones and route; CSV lists the boxes for a spreadsheet or WMS
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs border-gray-600"
+            onClick={handleExportJson}
+            disabled={isOptimizing || !hasBoxes}
+          >
+            <FileJson className="h-3 w-3 mr-1" />
+            JSON
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs border-gray-600"
+            onClick={handleExportCsv}
+            disabled={isOptimizing || !hasBoxes}
+          >
+            <FileSpreadsheet className="h-3 w-3 mr-1" />
+            CSV
+          </Button>
+        </div>
+
+        <Button
+          size="sm"
+          className="w-full h-7 text-xs bg-cyan-600 hover:bg-cyan-700"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isOptimizing}
+        >
+          <FileUp className="h-3 w-3 mr-1" />
+          Import Plan
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+
+        {message && (
+          <div className={`text-xs ${message.isError ? "text-red-400" : "text-green-400"}`}>{message.text}</div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,10 +8,29 @@ import { useWorkspaceStore } from "@/store/workspace-store"
 import { FileText, Download, ImageIcon, FileSpreadsheet } from "lucide-react"
 import { generatePDFReport } from "@/utils/pdf-generator"
 import { generate2DImages } from "@/utils/image-generator"
+import { DEFAULT_ORIENTATION, ORIENTATION_LABELS } from "@/lib/box-orientation"
+import { findStackingViolations } from "@/lib/stacking-rules"
+import { findCompartmentAt, findZoneMismatches, formatSetpoint, resolveTemperatureCompartments } from "@/lib/temperature-zones"
+import { UNPLACED_REASON_LABELS } from "@/lib/unplaced-reasons"
+import { computeAxleLoads, findAxleOverloads, getGrossWeight } from "@/lib/axle-loads"
+import { findUnloadBlockers, resolveStopOrder } from "@/lib/route-order"
+import { simulateUnloading } from "@/lib/unload-simulation"
 
 export function ReportGenerator() {
-  const { boxes, truckDimensions, stabilityScore, safetyScore, optimizationScore, loadingSequence, temperatureZones } =
-    useOptimizationStore()
+  const {
+    boxes,
+    unplaceableBoxes,
+    truckDimensions,
+    vehicleModel,
+    stabilityScore,
+    safetyScore,
+    optimizationScore,
+    loadingSequence,
+    stopOrder,
+    supportRules,
+    temperatureZones,
+    temperatureZoneLayout,
+  } = useOptimizationStore()
   const { currentWorkspace } = useWorkspaceStore()
 
   const [isGenerating, setIsGenerating] = useState(false)
@@ -21,16 +40,23 @@ export function ReportGenerator() {
 
     try {
       // Generate 2D images first
-      const images = await generate2DImages(boxes, truckDimensions, temperatureZones)
+      const images = await generate2DImages(boxes, truckDimensions, temperatureZones, temperatureZoneLayout)
+      const stackingViolations = findStackingViolations(boxes)
+      const compartments = resolveTemperatureCompartments(temperatureZoneLayout, truckDimensions)
+      const zoneMismatches = findZoneMismatches(boxes, compartments)
+      const axleLoads = computeAxleLoads(boxes, vehicleModel, truckDimensions)
+      const axleOverloads = findAxleOverloads(axleLoads)
+      const grossWeight = getGrossWeight(axleLoads)
+      const unloadBlockers = findUnloadBlockers(boxes, resolveStopOrder(stopOrder, boxes))
 
       // Create comprehensive report data
       const reportData = {
         workspace: currentWorkspace,
         timestamp: new Date().toISOString(),
         truckInfo: {
-          type: "28ft Box Truck",
+          type: vehicleModel.name,
           dimensions: truckDimensions,
-          maxWeight: 34000,
+          maxWeight: vehicleModel.maxPayload,
           maxVolume: truckDimensions.width * truckDimensions.length * truckDimensions.height,
         },
         loadingPlan: {
@@ -42,7 +68,7 @@ export function ReportGenerator() {
               (truckDimensions.width * truckDimensions.length * truckDimensions.height)) *
             100
           ).toFixed(1),
-          weightUtilization: ((boxes.reduce((sum, box) => sum + box.weight, 0) / 34000) * 100).toFixed(1),
+          weightUtilization: ((boxes.reduce((sum, box) => sum + box.weight, 0) / vehicleModel.maxPayload) * 100).toFixed(1),
           sequence: loadingSequence, // This is now correctly an array of Box objects
         },
         scores: {
@@ -55,6 +81,21 @@ export function ReportGenerator() {
           cold: temperatureZones.cold.length,
           frozen: temperatureZones.frozen.length,
         },
+        // Nose to doors, distances measured from the nose
+        compartments: compartments.map((compartment) => ({
+          name: compartment.name,
+          span: `${(compartment.startZ + truckDimensions.length / 2).toFixed(1)}-${(compartment.endZ + truckDimensions.length / 2).toFixed(1)} ft`,
+          setpoint: formatSetpoint(compartment.setpoint),
+          accepts: compartment.accepts.map((zone) => zone.toUpperCase()).join(", ") || "NONE",
+          boxCount: boxes.filter((box) => findCompartmentAt(compartments, box.position.z)?.id === compartment.id).length,
+        })),
+        axleLoads: axleLoads.map((axle) => ({
+          name: axle.name,
+          load: `${axle.load.toFixed(0)} lbs`,
+          limit: `${axle.limit.toLocaleString()} lbs`,
+          utilization: `${((axle.load / axle.limit) * 100).toFixed(1)}%`,
+          status: axle.load > axle.limit ? "OVER" : "OK",
+        })),
         safetyChecklist: [
           {
             item: "Weight distribution verified",
@@ -71,20 +112,50 @@ export function ReportGenerator() {
             status: boxes.filter((box) => box.isFragile).every((box) => box.position.y < 6) ? "✓ PASS" : "⚠ WARNING",
             details: `${boxes.filter((box) => box.isFragile).length} fragile items identified`,
           },
+          {
+            item: "Stacking within crush and stack limits",
+            status: stackingViolations.length === 0 ? "✓ PASS" : "❌ FAIL",
+            details:
+              stackingViolations.length === 0
+                ? `${boxes.filter((box) => box.crushFactor !== undefined || box.stackLimit !== undefined).length} rated items checked`
+                : `Overloaded: ${Array.from(new Set(stackingViolations.map((violation) => violation.boxId))).join(", ")}`,
+          },
           {
             item: "Temperature zones maintained",
-            status: "✓ PASS",
-            details: "All items placed in appropriate temperature zones",
+            status: zoneMismatches.length === 0 ? "✓ PASS" : "❌ FAIL",
+            details:
+              zoneMismatches.length === 0
+                ? `All ${boxes.length} items inside compartments accepting their zone`
+                : `${zoneMismatches.length} outside an accepting compartment: ${zoneMismatches.map((box) => box.id).join(", ")}`,
           },
           {
             item: "Loading sequence optimized",
             status: loadingSequence.length > 0 ? "✓ PASS" : "⚠ WARNING",
             details: "Multi-stop delivery sequence calculated",
           },
+          {
+            item: "Each stop unloads without moving later freight",
+            status: unloadBlockers.length === 0 ? "✓ PASS" : "⚠ WARNING",
+            details:
+              unloadBlockers.length === 0
+                ? `${resolveStopOrder(stopOrder, boxes).length} stops checked`
+                : `Buried: ${unloadBlockers.map((blocker) => `${blocker.boxId} (${blocker.stop})`).join(", ")}`,
+          },
+          {
+            item: "Axle loads within legal limits",
+            status: axleOverloads.length === 0 ? "✓ PASS" : "❌ FAIL",
+            details:
+              axleOverloads.length === 0
+                ? axleLoads.map((axle) => `${axle.name}: ${axle.load.toFixed(0)} lbs`).join(", ")
+                : `Overloaded: ${axleOverloads.map((axle) => `${axle.name} ${axle.load.toFixed(0)}/${axle.limit} lbs`).join(", ")}`,
+          },
           {
             item: "DOT weight compliance",
-            status: boxes.reduce((sum, box) => sum + box.weight, 0) <= 34000 ? "✓ PASS" : "❌ FAIL",
-            details: `Total weight: ${boxes.reduce((sum, box) => sum + box.weight, 0)} lbs`,
+            status:
+              boxes.reduce((sum, box) => sum + box.weight, 0) <= vehicleModel.maxPayload && grossWeight <= vehicleModel.grossWeightLimit
+                ? "✓ PASS"
+                : "❌ FAIL",
+            details: `Total weight: ${boxes.reduce((sum, box) => sum + box.weight, 0)} lbs, gross ${grossWeight.toFixed(0)} of ${vehicleModel.grossWeightLimit} lbs`,
           },
         ],
         // FIXED: Create proper box data with correct sequence numbers
@@ -95,15 +166,25 @@ export function ReportGenerator() {
             id: box.id,
             name: box.name,
             dimensions: `${box.width}×${box.height}×${box.length} ft`,
+            orientation: ORIENTATION_LABELS[box.orientation ?? DEFAULT_ORIENTATION] + (box.thisSideUp ? " (this side up)" : ""),
             weight: `${box.weight} lbs`,
             position: `X:${box.position.x.toFixed(1)}, Y:${box.position.y.toFixed(1)}, Z:${box.position.z.toFixed(1)}`,
             temperatureZone: box.temperatureZone.toUpperCase(),
             isFragile: box.isFragile ? "YES" : "NO",
             destination: box.destination,
-            stackLimit: box.stackLimit || "N/A",
-            crushFactor: box.crushFactor ? (box.crushFactor * 100).toFixed(0) + "%" : "N/A",
+            stackLimit: box.stackLimit ?? "N/A",
+            crushFactor: box.crushFactor !== undefined ? (box.crushFactor * 100).toFixed(0) + "%" : "N/A",
           }
         }).sort((a, b) => a.sequenceNumber - b.sequenceNumber), // Sort by loading sequence
+        // Left off the truck by the last optimization, with why
+        unplacedBoxes: unplaceableBoxes.map((box) => ({
+          id: box.id,
+          name: box.name,
+          dimensions: `${box.width}×${box.height}×${box.length} ft`,
+          weight: `${box.weight} lbs`,
+          reason: box.unplacedReason ? UNPLACED_REASON_LABELS[box.unplacedReason.code] : "Not optimized",
+          details: box.unplacedReason?.message ?? "Run the optimizer to place this box",
+        })),
         images,
       }
 
@@ -120,7 +201,7 @@ export function ReportGenerator() {
     setIsGenerating(true)
 
     try {
-      const images = await generate2DImages(boxes, truckDimensions, temperatureZones)
+      const images = await generate2DImages(boxes, truckDimensions, temperatureZones, temperatureZoneLayout)
 
       // Create ZIP file with all images
       const zip = new (await import("jszip")).default()
@@ -145,6 +226,9 @@ export function ReportGenerator() {
   }
 
   const handleExportLoadingPlan = () => {
+    const routeStops = resolveStopOrder(stopOrder, boxes)
+    const unloadBlockers = findUnloadBlockers(boxes, routeStops)
+    const unloadSteps = simulateUnloading(boxes, routeStops, vehicleModel, truckDimensions, supportRules)
     // FIXED: Create loading plan with proper sequence handling
     const loadingPlan = {
       workspace: currentWorkspace?.name,
@@ -156,16 +240,31 @@ export function ReportGenerator() {
         destination: box.destination,
         weight: box.weight,
         dimensions: `${box.width}×${box.height}×${box.length}`,
+        orientation: box.orientation ?? DEFAULT_ORIENTATION,
+        thisSideUp: box.thisSideUp ?? false,
         isFragile: box.isFragile,
         temperatureZone: box.temperatureZone,
         position: `X:${box.position.x.toFixed(1)}, Y:${box.position.y.toFixed(1)}, Z:${box.position.z.toFixed(1)}`,
-        instructions: box.isFragile ? "Handle with care - fragile item" : "Standard loading procedure",
+        instructions: [
+          box.isFragile ? "Handle with care - fragile item" : "Standard loading procedure",
+          ...(box.thisSideUp ? ["Keep this side up"] : []),
+          ...((box.orientation ?? DEFAULT_ORIENTATION) !== DEFAULT_ORIENTATION ? [`Load ${ORIENTATION_LABELS[box.orientation!].toLowerCase()}`] : []),
+        ].join(". "),
         estimatedTime: "2-3 minutes",
       })),
-      unloadingGuide: ["Stop 4", "Stop 3", "Stop 2", "Stop 1"].map((stop) => ({
-        stop,
+      unloadingGuide: unloadSteps.map((step) => ({
+        stop: step.stop,
+        blockedBoxes: unloadBlockers
+          .filter((blocker) => blocker.stop === step.stop)
+          .map((blocker) => ({ boxId: blocker.boxId, blockedBy: blocker.blockedBy })),
+        boxesToShift: step.shiftedBoxIds,
+        remainingLoadStable: step.stable,
+        remainingLoadIssues: [
+          ...(step.unsupportedBoxIds.length > 0 ? [`${step.unsupportedBoxIds.length} boxes left without enough support`] : []),
+          ...step.overloadedAxles.map((axle) => `${axle} axle over its legal limit`),
+        ],
         boxes: boxes
-          .filter((box) => box.destination === stop)
+          .filter((box) => box.destination === step.stop)
           .map((box) => ({
             name: box.name,
             weight: box.weight,
@@ -234,7 +333,7 @@ export function ReportGenerator() {
     
     return {
       totalWeight: `${totalWeight} lbs`,
-      weightCapacityUsed: `${((totalWeight / 34000) * 100).toFixed(1)}%`,
+      weightCapacityUsed: `${((totalWeight / vehicleModel.maxPayload) * 100).toFixed(1)}%`,
       highPositionBoxes: highBoxes,
       fragileItems: fragileBoxes,
       heavyItems: heavyBoxes,
@@ -7,44 +7,13 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AlertTriangle, Package, Truck, Clock, CheckCircle } from "lucide-react"
-
-interface ShortageAlert {
-  id: string
-  item: {
-    name: string
-    sku: string
-  }
-  shop: {
-    name: string
-  }
-  severity: string
-  triggeredAt: string
-  resolvedFlag: boolean
-  alertData: any
-}
-
-interface OrderRequest {
-  id: string
-  totalQuantity: number
-  status: string
-  priority: string
-  createdAt: string
-  shop: {
-    name: string
-  }
-  warehouse: {
-    name: string
-  }
-  sourceAlert?: {
-    item: {
-      name: string
-    }
-  }
-}
+import { createOrder, fetchOrders as requestOrders, fetchShortageAlerts } from "@/lib/orders-api"
+import { ORDER_STATUS_LABELS } from "@/lib/order-schemas"
+import type { Order, ShortageAlert } from "@/types/orders"
 
 export default function RetailerDashboard() {
   const [alerts, setAlerts] = useState<ShortageAlert[]>([])
-  const [orders, setOrders] = useState<OrderRequest[]>([])
+  const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -54,9 +23,7 @@ export default function RetailerDashboard() {
 
   const fetchAlerts = async () => {
     try {
-      const response = await fetch('/api/shortage-alerts?resolved=false')
-      const data = await response.json()
-      setAlerts(data)
+      setAlerts(await fetchShortageAlerts({ resolved: false }))
     } catch (error) {
       console.error('Error fetching alerts:', error)
     }
@@ -64,9 +31,7 @@ export default function RetailerDashboard() {
 
   const fetchOrders = async () => {
     try {
-      const response = await fetch('/api/orders')
-      const data = await response.json()
-      setOrders(data)
+      setOrders(await requestOrders())
       setLoading(false)
     } catch (error) {
       console.error('Error fetching orders:', error)
@@ -76,24 +41,16 @@ export default function RetailerDashboard() {
 
   const createOrderFromAlert = async (alert: ShortageAlert) => {
     try {
-      const response = await fetch('/api/orders', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          shopId: alert.shop.id,
-          warehouseId: 'default-warehouse', // You'll need to implement proper warehouse selection
-          totalQuantity: alert.alertData.suggestedQuantity || 10,
-          priority: alert.severity === 'CRITICAL' ? 'URGENT' : 'MEDIUM',
-          sourceAlertId: alert.id,
-        }),
+      // No warehouse yet: the warehouse side assigns one when it picks the order up
+      await createOrder({
+        retailId: alert.retailId,
+        productId: alert.productId,
+        quantity: alert.suggestedQuantity,
+        priority: alert.severity === 'critical' ? 'high' : 'normal',
+        sourceAlertId: alert.id,
       })
-
-      if (response.ok) {
-        fetchOrders()
-        fetchAlerts()
-      }
+      fetchOrders()
+      fetchAlerts()
     } catch (error) {
       console.error('Error creating order:', error)
     }
@@ -101,20 +58,21 @@ export default function RetailerDashboard() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'PENDING': return 'bg-yellow-500'
-      case 'APPROVED': return 'bg-green-500'
-      case 'REJECTED': return 'bg-red-500'
-      case 'FULFILLED': return 'bg-blue-500'
+      case 'pending': return 'bg-yellow-500'
+      case 'confirmed': return 'bg-green-500'
+      case 'in_transit': return 'bg-orange-500'
+      case 'rejected': return 'bg-red-500'
+      case 'delivered': return 'bg-blue-500'
       default: return 'bg-gray-500'
     }
   }
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
-      case 'CRITICAL': return 'destructive'
-      case 'HIGH': return 'destructive'
-      case 'MEDIUM': return 'default'
-      case 'LOW': return 'secondary'
+      case 'critical': return 'destructive'
+      case 'high': return 'destructive'
+      case 'medium': return 'default'
+      case 'low': return 'secondary'
       default: return 'secondary'
     }
   }
@@ -154,7 +112,7 @@ export default function RetailerDashboard() {
             <div>
               <p className="text-sm font-medium text-muted-foreground">Pending Orders</p>
               <p className="text-2xl font-bold">
-                {orders.filter(o => o.status === 'PENDING').length}
+                {orders.filter(o => o.status === 'pending').length}
               </p>
             </div>
           </CardContent>
@@ -166,7 +124,7 @@ export default function RetailerDashboard() {
             <div>
               <p className="text-sm font-medium text-muted-foreground">In Transit</p>
               <p className="text-2xl font-bold">
-                {orders.filter(o => o.status === 'APPROVED').length}
+                {orders.filter(o => o.status === 'in_transit').length}
               </p>
             </div>
           </CardContent>
@@ -178,7 +136,7 @@ export default function RetailerDashboard() {
             <div>
               <p className="text-sm font-medium text-muted-foreground">Fulfilled</p>
               <p className="text-2xl font-bold">
-                {orders.filter(o => o.status === 'FULFILLED').length}
+                {orders.filter(o => o.status === 'delivered').length}
               </p>
             </div>
           </CardContent>
@@ -204,7 +162,7 @@ export default function RetailerDashboard() {
                     <AlertDescription>
                       <div className="flex items-center justify-between">
                         <div>
-                          <strong>{alert.item.name}</strong> (SKU: {alert.item.sku})
+                          <strong>{alert.product.name}</strong> (SKU: {alert.product.sku})
                           <br />
                           <span className="text-sm text-muted-foreground">
                             Triggered: {new Date(alert.triggeredAt).toLocaleDateString()}
@@ -248,13 +206,13 @@ export default function RetailerDashboard() {
                 <div key={order.id} className="flex items-center justify-between p-3 border rounded">
                   <div>
                     <div className="font-medium">
-                      {order.sourceAlert?.item.name || 'Manual Order'} 
+                      {order.product.name}
                       <span className="text-muted-foreground ml-2">
-                        (Qty: {order.totalQuantity})
+                        (Qty: {order.quantity})
                       </span>
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      From: {order.warehouse.name} → To: {order.shop.name}
+                      From: {order.warehouse?.name ?? 'Unassigned'} → To: {order.retail.name}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       Created: {new Date(order.createdAt).toLocaleDateString()}
@@ -262,7 +220,7 @@ export default function RetailerDashboard() {
                   </div>
                   <div className="flex items-center space-x-2">
                     <Badge className={getStatusColor(order.status)}>
-                      {order.status}
+                      {ORDER_STATUS_LABELS[order.status]}
                     </Badge>
                     <Badge variant="outline">
                       {order.priority}
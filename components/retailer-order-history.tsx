@@ -0,0 +1,100 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ORDER_STATUSES, ORDER_STATUS_LABELS } from "@/lib/order-schemas"
+import type { Order, OrderStatus } from "@/types/orders"
+import { Package, RefreshCw } from "lucide-react"
+
+const STATUS_BADGE_CLASSES: Record<OrderStatus, string> = {
+  pending: "border-yellow-500 text-yellow-700 bg-yellow-50",
+  confirmed: "border-green-500 text-green-700 bg-green-50",
+  in_transit: "border-orange-500 text-orange-700 bg-orange-50",
+  delivered: "border-blue-500 text-blue-700 bg-blue-50",
+  rejected: "border-red-500 text-red-700 bg-red-50",
+}
+
+interface RetailerOrderHistoryProps {
+  orders: Order[]
+  loading: boolean
+  error: string | null
+  onRefresh: () => void
+}
+
+export function RetailerOrderHistory({ orders, loading, error, onRefresh }: RetailerOrderHistoryProps) {
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "all">("all")
+
+  const visibleOrders = statusFilter === "all" ? orders : orders.filter((order) => order.status === statusFilter)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(["all", ...ORDER_STATUSES] as const).map((status) => (
+          <Button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            variant={statusFilter === status ? "default" : "outline"}
+            size="sm"
+            className={statusFilter === status ? "" : "border-gray-300 text-gray-700 hover:bg-gray-50"}
+          >
+            {status === "all" ? "All" : ORDER_STATUS_LABELS[status]} (
+            {status === "all" ? orders.length : orders.filter((order) => order.status === status).length})
+          </Button>
+        ))}
+        <Button
+          onClick={onRefresh}
+          disabled={loading}
+          variant="outline"
+          size="sm"
+          className="ml-auto gap-2 text-gray-700 border-gray-300 hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!loading && visibleOrders.length === 0 ? (
+        <Card className="bg-white border-gray-200">
+          <CardContent className="p-12 text-center">
+            <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No orders yet</h3>
+            <p className="text-gray-600">Orders you send to the warehouse show up here with their status</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {visibleOrders.map((order) => (
+            <Card key={order.id} className="bg-white border-gray-200">
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900">
+                      #{order.id} {order.product.name}
+                      <span className="ml-2 text-sm font-normal text-gray-600">× {order.quantity}</span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Ordered {new Date(order.createdAt).toLocaleDateString()} · Due{" "}
+                      {new Date(order.deliveryDate).toLocaleDateString()}
+                      {order.warehouse && ` · From ${order.warehouse.name}`}
+                    </div>
+                    {order.statusNote && <div className="mt-1 text-sm text-gray-700 italic">{order.statusNote}</div>}
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <Badge variant="outline" className={STATUS_BADGE_CLASSES[order.status]}>
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </Badge>
+                    <span className="text-xs text-gray-500 capitalize">{order.priority} priority</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -7,9 +7,18 @@ import { Suspense, useRef, useEffect, useState, useMemo, useCallback } from "rea
 import { TruckContainer } from "@/components/3d/truck-container"
 import { TemperatureZones } from "@/components/3d/temperature-zones"
 import { LoadingIndicators } from "@/components/3d/loading-indicators"
+import { StepHighlights } from "@/components/3d/step-highlights"
 import { PhysicsDebugger } from "@/components/3d/physics-debugger"
 import { TwoDRenderer } from "@/components/2d/two-d-renderer"
 import { useOptimizationStore } from "@/store/optimization-store"
+import { getAllowedOrientations, getOrientedDimensions, ORIENTATION_LABELS, DEFAULT_ORIENTATION } from "@/lib/box-orientation"
+import type { BoxOrientation } from "@/types/box"
+import { resolveStopOrder } from "@/lib/route-order"
+import { simulateUnloading, type UnloadStep } from "@/lib/unload-simulation"
+import { fetchOrders, fetchWarehouses, updateOrderStatus as saveOrderStatus } from "@/lib/orders-api"
+import { getCaseCount, isOrderLoaded, ordersToBoxes } from "@/lib/order-boxes"
+import { ORDER_STATUS_LABELS, ORDER_STATUS_TRANSITIONS } from "@/lib/order-schemas"
+import type { Order, OrderStatus, Retailer } from "@/types/orders"
 import { useFrame } from "@react-three/fiber"
 import {
   PhysicsSimulationController,
@@ -31,8 +40,10 @@ interface HoveredBoxInfo {
   name: string
   position: { x: number; y: number; z: number }
   dimensions: { width: number; height: number; length: number }
+  orientation: BoxOrientation
   weight: number
   isFragile: boolean
+  locked: boolean
   temperatureZone: string
   destination: string
   screenPosition: { x: number; y: number }
@@ -42,48 +53,27 @@ interface SelectedBoxInfo {
   id: string
   name: string
   position: { x: number; y: number; z: number }
-  rotation: { x: number; y: number; z: number }
-  isRotated: boolean
-}
-
-interface Order {
-  id: number
-  retailId: number
-  productId: number
-  quantity: number
-  deliveryDate: string
-  status: string
-  totalWeight: number
-  priority: string
-  createdAt: string
-  retail?: {
-    name: string
-    address: string
-  }
-  product?: {
-    name: string
-    category: string
-    weight: number
-  }
+  orientation: BoxOrientation
 }
 
 interface Warehouse {
   id: number
   name: string
   address: string
-  coordinates: {
+  coordinates?: {
     lat: number
     lng: number
   }
   capacity: number
-  orderWarehouses: any[]
-  deliveryRoutes: any[]
+  orderWarehouses?: any[]
+  deliveryRoutes?: any[]
 }
 
 interface DeliveryStop {
   id: string
   warehouseId: number
   warehouse: Warehouse
+  retailId?: number // set on stops added for a retailer's orders; warehouseId then holds the same id
   order: number
   estimatedArrival?: string
   isCompleted: boolean
@@ -98,6 +88,7 @@ interface RouteStore {
   reorderStop: (stopId: string, direction: 'up' | 'down') => void
   toggleStopCompletion: (stopId: string) => void
   getAvailableDestinations: () => string[]
+  ensureRetailerStop: (retailer: Retailer) => string
 }
 
 export const useRouteStore = create<RouteStore>((set, get) => ({
@@ -133,10 +124,11 @@ export const useRouteStore = create<RouteStore>((set, get) => ({
     
     set({ deliveryStops: updated })
     
-    // Clear boxes assigned to removed stop and sync
+    // Clear boxes assigned to removed stop, move the renumbered stops' boxes along and sync
     if (removedStop) {
       reassignBoxesFromRemovedStop(removedStop.name)
     }
+    renameBoxDestinationsForStops(deliveryStops, updated)
     syncDestinationsWithRoute(updated)
   },
   
@@ -161,6 +153,7 @@ export const useRouteStore = create<RouteStore>((set, get) => ({
     }))
     
     set({ deliveryStops: reorderedStops })
+    renameBoxDestinationsForStops(deliveryStops, reorderedStops)
     syncDestinationsWithRoute(reorderedStops)
   },
   
@@ -175,30 +168,76 @@ export const useRouteStore = create<RouteStore>((set, get) => ({
   getAvailableDestinations: () => {
     const { deliveryStops } = get()
     return deliveryStops.map(stop => stop.name)
+  },
+
+  // Returns the name of the stop delivering to the retailer: one added for it
+  // earlier, else one at the same address, else a new stop at the end of the route
+  ensureRetailerStop: (retailer) => {
+    const { deliveryStops } = get()
+    const existing =
+      deliveryStops.find(stop => stop.retailId === retailer.id) ??
+      deliveryStops.find(stop => stop.warehouse.address === retailer.address)
+    if (existing) return existing.name
+
+    const newStop: DeliveryStop = {
+      id: `stop-${Date.now()}-retailer-${retailer.id}`,
+      warehouseId: retailer.id,
+      retailId: retailer.id,
+      warehouse: {
+        id: retailer.id,
+        name: retailer.name,
+        address: retailer.address,
+        ...(retailer.coordinates && { coordinates: retailer.coordinates }),
+        capacity: 0
+      },
+      order: deliveryStops.length + 1,
+      isCompleted: false,
+      name: `Stop ${deliveryStops.length + 1}`
+    }
+    const updatedStops = [...deliveryStops, newStop]
+    set({ deliveryStops: updatedStops })
+    syncDestinationsWithRoute(updatedStops)
+    return newStop.name
   }
 }))
 
 // Sync functions
+const syncStopOrderWithRoute = (deliveryStops: DeliveryStop[]) => {
+  const stopOrder = [...deliveryStops].sort((a, b) => a.order - b.order).map(stop => stop.name)
+  useOptimizationStore.getState().setStopOrder(stopOrder)
+}
+
 const syncDestinationsWithRoute = (deliveryStops: DeliveryStop[]) => {
-  const { boxes, updateBox } = useOptimizationStore.getState()
+  const { boxes, updateBox, historyTransaction } = useOptimizationStore.getState()
   const availableDestinations = deliveryStops.map(stop => stop.name)
+  syncStopOrderWithRoute(deliveryStops)
   
   // Update boxes with invalid destinations
-  boxes.forEach(box => {
-    if (box.destination && !availableDestinations.includes(box.destination)) {
-      updateBox(box.id, { destination: '' })
-    }
+  const invalidBoxes = boxes.filter(box => box.destination && !availableDestinations.includes(box.destination))
+  if (invalidBoxes.length === 0) return
+  historyTransaction('Clear removed destinations', () => {
+    invalidBoxes.forEach(box => updateBox(box.id, { destination: '' }))
+  })
+}
+
+// Stops are named after their place on the route, so boxes follow their stop to its new name
+const renameBoxDestinationsForStops = (previousStops: DeliveryStop[], renamedStops: DeliveryStop[]) => {
+  const renames = new Map<string, string>()
+  renamedStops.forEach(stop => {
+    const previous = previousStops.find(candidate => candidate.id === stop.id)
+    if (previous && previous.name !== stop.name) renames.set(previous.name, stop.name)
   })
+  useOptimizationStore.getState().renameDestinations(renames)
 }
 
 const reassignBoxesFromRemovedStop = (removedStopName: string) => {
-  const { boxes, updateBox } = useOptimizationStore.getState()
+  const { boxes, updateBox, historyTransaction } = useOptimizationStore.getState()
   
   // Clear destination for boxes assigned to removed stop
-  boxes.forEach(box => {
-    if (box.destination === removedStopName) {
-      updateBox(box.id, { destination: '' })
-    }
+  const assignedBoxes = boxes.filter(box => box.destination === removedStopName)
+  if (assignedBoxes.length === 0) return
+  historyTransaction(`Remove stop ${removedStopName}`, () => {
+    assignedBoxes.forEach(box => updateBox(box.id, { destination: '' }))
   })
 }
 
@@ -257,6 +296,7 @@ export function initializeRouteStore(routes: any[]): boolean {
       }));
     });
     
+    syncStopOrderWithRoute(useRouteStore.getState().deliveryStops);
     console.log('✅ Route store initialized with', routes.length, 'stops');
     return true;
   } catch (error) {
@@ -364,6 +404,8 @@ function OrdersPanel() {
   const [selectedStatuses, setSelectedStatuses] = useState<Set<string>>(new Set(['pending', 'confirmed', 'in_transit', 'delivered']))
   const [showAddStopModal, setShowAddStopModal] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [selectedOrderIds, setSelectedOrderIds] = useState<Set<number>>(new Set())
+  const [loadMessage, setLoadMessage] = useState<string | null>(null)
 
   // Route store integration
   const { 
@@ -372,21 +414,18 @@ function OrdersPanel() {
     removeDeliveryStop, 
     reorderStop, 
     toggleStopCompletion,
-    getAvailableDestinations 
+    getAvailableDestinations,
+    ensureRetailerStop
   } = useRouteStore()
   
-  const { boxes } = useOptimizationStore()
+  const { boxes, unplaceableBoxes, addBoxes } = useOptimizationStore()
+  const loadedBoxes = useMemo(() => [...boxes, ...unplaceableBoxes], [boxes, unplaceableBoxes])
 
   // Load orders from API
   const loadOrders = async () => {
     try {
       setLoading(true)
-      const response = await fetch('http://localhost:3001/api/orders')
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      const data = await response.json()
-      setOrders(data)
+      setOrders(await fetchOrders())
       setError(null)
     } catch (err) {
       console.error('Failed to load orders:', err)
@@ -400,16 +439,7 @@ function OrdersPanel() {
   const loadWarehouses = async () => {
     try {
       setWarehousesLoading(true)
-      const response = await fetch('http://localhost:3001/api/warehouses')
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      const result = await response.json()
-      if (result.success) {
-        setWarehouses(result.data)
-      } else {
-        throw new Error('Failed to fetch warehouses')
-      }
+      setWarehouses(await fetchWarehouses())
     } catch (err) {
       console.error('Failed to load warehouses:', err)
       setError(err instanceof Error ? err.message : 'Failed to load warehouses')
@@ -448,26 +478,16 @@ function OrdersPanel() {
   }, [])
 
   // Update order status
-  const updateOrderStatus = async (orderId: number, newStatus: string) => {
+  const updateOrderStatus = async (orderId: number, newStatus: OrderStatus) => {
     try {
       setUpdatingStatus(prev => new Set(prev).add(orderId))
 
-      const response = await fetch(`http://localhost:3001/api/orders`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ id: orderId, status: newStatus }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
+      const updated = await saveOrderStatus(orderId, { status: newStatus })
 
       setOrders(prevOrders =>
         prevOrders.map(order =>
           order.id === orderId
-            ? { ...order, status: newStatus }
+            ? updated
             : order
         )
       )
@@ -483,6 +503,37 @@ function OrdersPanel() {
     }
   }
 
+  // Only confirmed orders are ready to be picked and loaded
+  const isLoadable = (order: Order) => order.status === 'confirmed' && !isOrderLoaded(order.id, loadedBoxes)
+
+  const toggleOrderSelected = (orderId: number) => {
+    setSelectedOrderIds(prev => {
+      const next = new Set(prev)
+      if (next.has(orderId)) {
+        next.delete(orderId)
+      } else {
+        next.add(orderId)
+      }
+      return next
+    })
+  }
+
+  // Explode the selected orders into cases bound for each retailer's stop
+  const addOrdersToLoad = () => {
+    const selected = orders.filter(order => selectedOrderIds.has(order.id) && isLoadable(order))
+    const { boxes: newBoxes, addedOrders, skipped } = ordersToBoxes(
+      selected,
+      loadedBoxes,
+      order => ensureRetailerStop(order.retail)
+    )
+    addBoxes(newBoxes, `Add ${addedOrders.length} order${addedOrders.length !== 1 ? 's' : ''} to load`)
+    setSelectedOrderIds(new Set())
+    setLoadMessage(
+      `Added ${newBoxes.length} cases from ${addedOrders.length} order${addedOrders.length !== 1 ? 's' : ''}` +
+        skipped.map(({ order, reason }) => `; #${order.id} skipped: ${reason}`).join('')
+    )
+  }
+
   // Get box count and weight for a stop
   const getStopBoxCount = (stopName: string) => {
     return boxes.filter(box => box.destination === stopName).length
@@ -732,6 +783,39 @@ function OrdersPanel() {
             </div>
           )}
 
+          {/* Add to Load - Orders Only */}
+          {activeTab === 'orders' && !loading && !error && (selectedOrderIds.size > 0 || loadMessage) && (
+            <div className="mb-3 p-2 bg-cyan-900/30 border border-cyan-700 rounded text-xs">
+              {selectedOrderIds.size > 0 && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-cyan-200">
+                    {selectedOrderIds.size} order{selectedOrderIds.size !== 1 ? 's' : ''} selected
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setSelectedOrderIds(new Set())}
+                      className="px-2 py-1 bg-gray-600 text-white rounded hover:bg-gray-500"
+                    >
+                      Clear
+                    </button>
+                    <button
+                      onClick={addOrdersToLoad}
+                      className="px-2 py-1 bg-cyan-600 text-white rounded hover:bg-cyan-700"
+                    >
+                      Add orders to load
+                    </button>
+                  </div>
+                </div>
+              )}
+              {loadMessage && (
+                <div className="mt-1 text-gray-300 flex justify-between gap-2">
+                  <span>{loadMessage}</span>
+                  <button onClick={() => setLoadMessage(null)} className="text-gray-400 hover:text-white">×</button>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Orders Tab Content */}
           {activeTab === 'orders' && !loading && !error && (
             <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -770,10 +854,26 @@ function OrdersPanel() {
                 filteredOrders.map((order) => (
                   <div key={order.id} className="bg-gray-800/50 rounded-lg p-3 border border-gray-700">
                     <div className="flex items-start justify-between mb-2">
-                      <div>
-                        <div className="text-sm font-medium text-white">Order #{order.id}</div>
-                        <div className="text-xs text-gray-400">
-                          {order.product?.name || `Product ${order.productId}`}
+                      <div className="flex items-start gap-2">
+                        {isLoadable(order) && (
+                          <input
+                            type="checkbox"
+                            checked={selectedOrderIds.has(order.id)}
+                            onChange={() => toggleOrderSelected(order.id)}
+                            className="mt-1 accent-cyan-500"
+                            title="Select to add to the load"
+                          />
+                        )}
+                        <div>
+                          <div className="text-sm font-medium text-white">
+                            Order #{order.id}
+                            {isOrderLoaded(order.id, loadedBoxes) && (
+                              <span className="ml-2 px-1 rounded bg-cyan-900/50 text-cyan-300 text-[10px]">ON LOAD</span>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {order.product?.name || `Product ${order.productId}`}
+                          </div>
                         </div>
                       </div>
                       <div className={`text-xs px-2 py-1 rounded ${getPriorityColor(order.priority)}`}>
@@ -786,6 +886,12 @@ function OrdersPanel() {
                         <span>Quantity:</span>
                         <span className="text-white">{order.quantity}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Cases:</span>
+                        <span className="text-white">
+                          {getCaseCount(order)} × {order.product.case.width}×{order.product.case.height}×{order.product.case.length} ft
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span>Weight:</span>
                         <span className="text-white">{order.totalWeight} lbs</span>
@@ -810,13 +916,13 @@ function OrdersPanel() {
                       <span className="text-xs text-gray-400">Status:</span>
                       <select
                         value={order.status}
-                        onChange={(e) => updateOrderStatus(order.id, e.target.value)}
+                        onChange={(e) => updateOrderStatus(order.id, e.target.value as OrderStatus)}
                         disabled={updatingStatus.has(order.id)}
                         className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:border-cyan-400 disabled:opacity-50"
                       >
-                        {statusOptions.map((status) => (
+                        {[order.status, ...ORDER_STATUS_TRANSITIONS[order.status]].map((status) => (
                           <option key={status} value={status}>
-                            {status.replace('_', ' ').toUpperCase()}
+                            {ORDER_STATUS_LABELS[status].toUpperCase()}
                           </option>
                         ))}
                       </select>
@@ -827,8 +933,11 @@ function OrdersPanel() {
                     </div>
 
                     <div className={`mt-2 px-2 py-1 rounded text-xs text-center ${getStatusColor(order.status)}`}>
-                      {order.status.replace('_', ' ').toUpperCase()}
+                      {ORDER_STATUS_LABELS[order.status].toUpperCase()}
                     </div>
+                    {order.statusNote && (
+                      <div className="mt-1 text-xs text-gray-400 italic">{order.statusNote}</div>
+                    )}
                   </div>
                 ))
               )}
@@ -1037,7 +1146,7 @@ function OrdersPanel() {
             ) : (
               <div className="space-y-2">
                 {warehouses.map((warehouse) => {
-                  const isAlreadyAdded = deliveryStops.some(stop => stop.warehouseId === warehouse.id)
+                  const isAlreadyAdded = deliveryStops.some(stop => stop.retailId === undefined && stop.warehouseId === warehouse.id)
                   return (
                     <button
                       key={warehouse.id}
@@ -1117,6 +1226,11 @@ function BoxTooltip({ hoveredBox }: { hoveredBox: HoveredBoxInfo | null }) {
           </span>
         </div>
 
+        <div className="flex justify-between gap-3">
+          <span className="text-gray-300">Orientation:</span>
+          <span className="text-white">{ORIENTATION_LABELS[hoveredBox.orientation]}</span>
+        </div>
+
         <div className="flex justify-between gap-3">
           <span className="text-gray-300">Weight:</span>
           <span className="text-white font-mono">{hoveredBox.weight} lbs</span>
@@ -1162,6 +1276,13 @@ function BoxTooltip({ hoveredBox }: { hoveredBox: HoveredBoxInfo | null }) {
             <span className="text-red-400 font-medium">⚠️ FRAGILE</span>
           </div>
         )}
+
+        {hoveredBox.locked && (
+          <div className="flex justify-between gap-3">
+            <span className="text-gray-300">Placement:</span>
+            <span className="text-amber-400 font-medium">🔒 LOCKED</span>
+          </div>
+        )}
       </div>
 
       <div className="mt-2 pt-2 border-t border-gray-700 space-y-1 text-xs">
@@ -1189,19 +1310,23 @@ function BoxTooltip({ hoveredBox }: { hoveredBox: HoveredBoxInfo | null }) {
 
 // Manual Box Control Panel
 function BoxControlPanel({ selectedBox }: { selectedBox: SelectedBoxInfo | null }) {
-  const { updateBoxPosition, updateBox } = useOptimizationStore()
+  const { updateBoxPosition, updateBox, boxes } = useOptimizationStore()
   const [localPosition, setLocalPosition] = useState({ x: 0, y: 0, z: 0 })
-  const [localRotation, setLocalRotation] = useState(false)
+  const [localOrientation, setLocalOrientation] = useState<BoxOrientation>(DEFAULT_ORIENTATION)
 
   useEffect(() => {
     if (selectedBox) {
       setLocalPosition(selectedBox.position)
-      setLocalRotation(selectedBox.isRotated || false)
+      setLocalOrientation(selectedBox.orientation)
     }
   }, [selectedBox?.id])
 
   if (!selectedBox) return null
 
+  const box = boxes.find(b => b.id === selectedBox.id)
+  const allowedOrientations = box ? getAllowedOrientations(box) : [DEFAULT_ORIENTATION]
+  const isLocked = Boolean(box?.locked)
+
   const handlePositionChange = (axis: 'x' | 'y' | 'z', value: number) => {
     const newPosition = { ...localPosition, [axis]: value }
     setLocalPosition(newPosition)
@@ -1213,18 +1338,13 @@ function BoxControlPanel({ selectedBox }: { selectedBox: SelectedBoxInfo | null
     }
   }
 
-  const handleRotationToggle = () => {
-    const newRotation = !localRotation
-    setLocalRotation(newRotation)
+  const handleOrientationChange = (orientation: BoxOrientation) => {
+    setLocalOrientation(orientation)
 
-    updateBox(selectedBox.id, {
-      //@ts-ignore 
-      isRotated: newRotation,
-    })
+    updateBox(selectedBox.id, { orientation })
 
     if (globalSelectedBox) {
-      globalSelectedBox.isRotated = newRotation
-      globalSelectedBox.rotation.y = newRotation ? Math.PI / 2 : 0
+      globalSelectedBox.orientation = orientation
     }
   }
 
@@ -1234,32 +1354,42 @@ function BoxControlPanel({ selectedBox }: { selectedBox: SelectedBoxInfo | null
 
       <div className="space-y-3 text-xs">
         <div className="pb-2 border-b border-gray-700">
-          <label className="text-gray-300 block mb-2">Orientation:</label>
-          <div className="flex gap-2">
-            <button
-              onClick={handleRotationToggle}
-              className={`px-3 py-1 rounded text-xs transition-colors ${!localRotation
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                }`}
-            >
-              Horizontal
-            </button>
-            <button
-              onClick={handleRotationToggle}
-              className={`px-3 py-1 rounded text-xs transition-colors ${localRotation
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                }`}
-            >
-              Vertical
-            </button>
-          </div>
+          <button
+            onClick={() => updateBox(selectedBox.id, { locked: !isLocked })}
+            className={`w-full px-3 py-1 rounded text-xs transition-colors ${isLocked
+                ? 'bg-amber-600 text-white hover:bg-amber-700'
+                : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+              }`}
+          >
+            {isLocked ? '🔒 Locked in Place' : '🔓 Lock in Place'}
+          </button>
           <div className="text-gray-400 mt-1">
-            {localRotation ? "📦 Rotated 90°" : "📦 Default orientation"}
+            {isLocked ? 'The optimizer packs around this box. Unlock to move it.' : 'Keeps this spot when the load is re-optimized'}
           </div>
         </div>
 
+        <div className="pb-2 border-b border-gray-700">
+          <label className="text-gray-300 block mb-2">Orientation:</label>
+          <div className="grid grid-cols-2 gap-2">
+            {allowedOrientations.map(orientation => (
+              <button
+                key={orientation}
+                onClick={() => handleOrientationChange(orientation)}
+                disabled={isLocked}
+                className={`px-3 py-1 rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${localOrientation === orientation
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                  }`}
+              >
+                {ORIENTATION_LABELS[orientation]}
+              </button>
+            ))}
+          </div>
+          {box?.thisSideUp && (
+            <div className="text-gray-400 mt-1">⬆️ This side up: only turning is allowed</div>
+          )}
+        </div>
+
         <div>
           <label className="text-gray-300 block mb-1">Position X:</label>
           <input
@@ -1268,8 +1398,9 @@ function BoxControlPanel({ selectedBox }: { selectedBox: SelectedBoxInfo | null
             max={12}
             step={0.1}
             value={localPosition.x}
+            disabled={isLocked}
             onChange={(e) => handlePositionChange('x', parseFloat(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           />
           <span className="text-white font-mono">{localPosition.x.toFixed(1)}</span>
         </div>
@@ -1282,8 +1413,9 @@ function BoxControlPanel({ selectedBox }: { selectedBox: SelectedBoxInfo | null
             max={8}
             step={0.1}
             value={localPosition.y}
+            disabled={isLocked}
             onChange={(e) => handlePositionChange('y', parseFloat(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           />
           <span className="text-white font-mono">{localPosition.y.toFixed(1)}</span>
         </div>
@@ -1296,8 +1428,9 @@ function BoxControlPanel({ selectedBox }: { selectedBox: SelectedBoxInfo | null
             max={14}
             step={0.1}
             value={localPosition.z}
+            disabled={isLocked}
             onChange={(e) => handlePositionChange('z', parseFloat(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
           />
           <span className="text-white font-mono">{localPosition.z.toFixed(1)}</span>
         </div>
@@ -1327,7 +1460,8 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
   const [isHovered, setIsHovered] = useState(false)
   const [isSelected, setIsSelected] = useState(false)
   const [localPosition, setLocalPosition] = useState(box.position)
-  const [localRotation, setLocalRotation] = useState(box.isRotated || false)
+  const dims = getOrientedDimensions(box)
+  const isReoriented = (box.orientation ?? DEFAULT_ORIENTATION) !== DEFAULT_ORIENTATION
   const { isSimulationRunning } = useOptimizationStore()
   const { deliveryStops } = useRouteStore()
 
@@ -1338,7 +1472,6 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
 
       if (selected && selectedBox) {
         setLocalPosition(selectedBox.position)
-        setLocalRotation(selectedBox.isRotated || false)
       }
     }
     globalSelectCallbacks.add(checkSelection)
@@ -1357,7 +1490,6 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
   useFrame(() => {
     if (groupRef.current && (isSelected || localPosition !== box.position)) {
       groupRef.current.position.set(localPosition.x, localPosition.y, localPosition.z)
-      groupRef.current.rotation.y = localRotation ? Math.PI / 2 : 0
     }
   })
 
@@ -1376,8 +1508,10 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       name: box.name,
       position: localPosition,
       dimensions: { width: box.width, height: box.height, length: box.length },
+      orientation: box.orientation ?? DEFAULT_ORIENTATION,
       weight: box.weight,
       isFragile: box.isFragile,
+      locked: Boolean(box.locked),
       temperatureZone: box.temperatureZone,
       destination: box.destination,
       screenPosition
@@ -1417,13 +1551,12 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       id: box.id,
       name: box.name,
       position: localPosition,
-      rotation: { x: 0, y: localRotation ? Math.PI / 2 : 0, z: 0 },
-      isRotated: localRotation
+      orientation: box.orientation ?? DEFAULT_ORIENTATION
     }
 
     globalSelectedBox = selectedInfo
     globalSelectCallbacks.forEach(callback => callback(selectedInfo))
-  }, [box, localPosition, localRotation, isSimulationRunning])
+  }, [box, localPosition, isSimulationRunning])
 
   // Enhanced color logic based on destination
   const getBoxColor = (box: any) => {
@@ -1450,7 +1583,6 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       {/* Main Box Mesh */}
       <mesh
         ref={meshRef}
-        rotation={[0, localRotation ? Math.PI / 2 : 0, 0]}
         onPointerEnter={handlePointerEnter}
         onPointerLeave={handlePointerLeave}
         onPointerMove={handlePointerMove}
@@ -1458,7 +1590,7 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
         castShadow
         receiveShadow
       >
-        <boxGeometry args={[box.width, box.height, box.length]} />
+        <boxGeometry args={[dims.width, dims.height, dims.length]} />
         <meshStandardMaterial
           color={getBoxColor(box)}
           transparent={box.isNew}
@@ -1472,8 +1604,8 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       </mesh>
 
       {/* ONLY BLACK BORDERS - Bold and Simple */}
-      <lineSegments rotation={[0, localRotation ? Math.PI / 2 : 0, 0]}>
-        <edgesGeometry args={[new THREE.BoxGeometry(box.width, box.height, box.length), 1]} />
+      <lineSegments>
+        <edgesGeometry args={[new THREE.BoxGeometry(dims.width, dims.height, dims.length), 1]} />
         <lineBasicMaterial 
           color="#000000"
           transparent={false}
@@ -1482,8 +1614,8 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       </lineSegments>
 
       {/* Top Label */}
-      <mesh position={[0, box.height / 2 + 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-        <planeGeometry args={[Math.min(box.width * 0.9, 3), Math.min(box.length * 0.9, 2)]} />
+      <mesh position={[0, dims.height / 2 + 0.01, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[Math.min(dims.width * 0.9, 3), Math.min(dims.length * 0.9, 2)]} />
         <meshBasicMaterial
           color="#ffffff"
           transparent
@@ -1492,8 +1624,8 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       </mesh>
 
       {/* Box ID/Name Text Background */}
-      <mesh position={[0, box.height / 2 + 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-        <planeGeometry args={[Math.min(box.width * 0.8, 2.5), Math.min(box.length * 0.3, 0.8)]} />
+      <mesh position={[0, dims.height / 2 + 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[Math.min(dims.width * 0.8, 2.5), Math.min(dims.length * 0.3, 0.8)]} />
         <meshBasicMaterial
           color="#000000"
           transparent
@@ -1503,13 +1635,13 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
 
       {/* Corner Accent Dots */}
       {[
-        [-box.width/2, box.height/2, -box.length/2],
-        [box.width/2, box.height/2, -box.length/2],
-        [-box.width/2, box.height/2, box.length/2],
-        [box.width/2, box.height/2, box.length/2]
+        [-dims.width/2, dims.height/2, -dims.length/2],
+        [dims.width/2, dims.height/2, -dims.length/2],
+        [-dims.width/2, dims.height/2, dims.length/2],
+        [dims.width/2, dims.height/2, dims.length/2]
       ].map((pos, i) => (
         //@ts-ignore
-        <mesh key={i} position={pos} rotation={[0, localRotation ? Math.PI / 2 : 0, 0]}>
+        <mesh key={i} position={pos}>
           <sphereGeometry args={[0.05, 8, 8]} />
           <meshBasicMaterial
             color={isHovered ? "#ffffff" : getBoxColor(box)}
@@ -1522,16 +1654,16 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       {/* Selection Highlight */}
       {isSelected && (
         <>
-          <mesh rotation={[0, localRotation ? Math.PI / 2 : 0, 0]}>
-            <boxGeometry args={[box.width + 0.15, box.height + 0.15, box.length + 0.15]} />
+          <mesh>
+            <boxGeometry args={[dims.width + 0.15, dims.height + 0.15, dims.length + 0.15]} />
             <meshBasicMaterial
               color="#00ffff"
               transparent
               opacity={0.2}
             />
           </mesh>
-          <lineSegments rotation={[0, localRotation ? Math.PI / 2 : 0, 0]}>
-            <edgesGeometry args={[new THREE.BoxGeometry(box.width + 0.15, box.height + 0.15, box.length + 0.15)]} />
+          <lineSegments>
+            <edgesGeometry args={[new THREE.BoxGeometry(dims.width + 0.15, dims.height + 0.15, dims.length + 0.15)]} />
             <lineBasicMaterial 
               color="#00ffff" 
               transparent={true}
@@ -1541,9 +1673,17 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
         </>
       )}
 
+      {/* Lock Indicator */}
+      {box.locked && (
+        <lineSegments>
+          <edgesGeometry args={[new THREE.BoxGeometry(dims.width + 0.08, dims.height + 0.08, dims.length + 0.08)]} />
+          <lineBasicMaterial color="#f59e0b" />
+        </lineSegments>
+      )}
+
       {/* Rotation Indicator */}
-      {localRotation && (
-        <group position={[0, box.height / 2 + 0.3, 0]}>
+      {isReoriented && (
+        <group position={[0, dims.height / 2 + 0.3, 0]}>
           <mesh rotation={[-Math.PI / 2, 0, 0]}>
             <ringGeometry args={[0.15, 0.25, 8]} />
             <meshBasicMaterial
@@ -1564,8 +1704,8 @@ function InteractiveBoxRenderer({ box }: { box: any }) {
       )}
 
       {/* Drop Shadow */}
-      <mesh position={[0, -box.height / 2 - 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-        <planeGeometry args={[box.width * 0.9, box.length * 0.9]} />
+      <mesh position={[0, -dims.height / 2 - 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[dims.width * 0.9, dims.length * 0.9]} />
         <meshBasicMaterial
           color="#000000"
           transparent
@@ -1692,8 +1832,15 @@ function PhysicsStatusIndicator() {
   )
 }
 
-function Scene() {
-  const { boxes, physicsEnabled, truckDimensions, updatePhysics, isSimulationRunning } = useOptimizationStore()
+function Scene({ unloadStep }: { unloadStep: UnloadStep | null }) {
+  const { boxes: allBoxes, physicsEnabled, truckDimensions, updatePhysics, isSimulationRunning } = useOptimizationStore()
+
+  // While stepping through an unload, boxes delivered at earlier stops are already off the truck
+  const boxes = useMemo(() => {
+    if (!unloadStep) return allBoxes
+    const onBoard = new Set([...unloadStep.unloadedBoxIds, ...unloadStep.remainingBoxIds])
+    return allBoxes.filter(box => onBoard.has(box.id))
+  }, [allBoxes, unloadStep])
 
   const boxesKey = useMemo(() => {
     return boxes.map(b => `${b.id}-${b.position.x}-${b.position.y}-${b.position.z}`).join(',')
@@ -1741,6 +1888,7 @@ function Scene() {
       <TruckContainer dimensions={truckDimensions} />
       <TemperatureZones />
       <LoadingIndicators />
+      <StepHighlights unloadStep={unloadStep} />
 
       <TruckBedPhysics dimensions={truckDimensions} />
 
@@ -1763,11 +1911,177 @@ function Scene() {
   )
 }
 
+// Steps through the loading sequence, or through the route stop by stop to
+// check each stop's freight can come out of the doors
+function StepThroughPanel({
+  unloadSteps,
+  unloadStepIndex,
+  onUnloadStepChange,
+}: {
+  unloadSteps: UnloadStep[]
+  unloadStepIndex: number | null
+  onUnloadStepChange: (index: number | null) => void
+}) {
+  const { boxes, loadingSequence, currentLoadStep, nextLoadStep, previousLoadStep } = useOptimizationStore()
+
+  if (boxes.length === 0) return null
+
+  const unloadStep = unloadStepIndex !== null ? unloadSteps[unloadStepIndex] : undefined
+  const loadBox = loadingSequence[currentLoadStep]
+  const stepButtonClass = 'px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed'
+
+  return (
+    <div className="absolute bottom-20 right-4 z-10 w-72 bg-gray-900/95 text-white p-3 rounded-lg border border-gray-600 shadow-xl backdrop-blur-sm text-xs space-y-2">
+      {unloadStepIndex === null ? (
+        <>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-bold text-cyan-400">📦 Loading Sequence</h4>
+            <span className="text-gray-400">
+              {loadingSequence.length > 0 ? `${currentLoadStep + 1} / ${loadingSequence.length}` : '—'}
+            </span>
+          </div>
+          {loadBox && (
+            <div className="text-gray-300 truncate">
+              {loadBox.name} → {loadBox.destination || 'Unassigned'}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button onClick={previousLoadStep} disabled={currentLoadStep === 0} className={stepButtonClass}>◀</button>
+            <button
+              onClick={nextLoadStep}
+              disabled={currentLoadStep >= loadingSequence.length - 1}
+              className={stepButtonClass}
+            >
+              ▶
+            </button>
+            <button
+              onClick={() => onUnloadStepChange(0)}
+              className="flex-1 px-2 py-1 rounded bg-cyan-600 hover:bg-cyan-700"
+            >
+              🚪 Simulate Unloading
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-bold text-cyan-400">🚪 Unload Simulation</h4>
+            <span className="text-gray-400">
+              {unloadSteps.length > 0 ? `Stop ${unloadStepIndex + 1} / ${unloadSteps.length}` : '—'}
+            </span>
+          </div>
+          {unloadStep ? (
+            <div className="space-y-1">
+              <div className="text-white font-medium">{unloadStep.stop}</div>
+              <div className="flex justify-between">
+                <span className="text-green-400">Unloaded</span>
+                <span>{unloadStep.unloadedBoxIds.length} boxes</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-orange-400">Shifted to reach them</span>
+                <span>{unloadStep.shiftedBoxIds.length} boxes</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Left on board</span>
+                <span>{unloadStep.remainingBoxIds.length} boxes</span>
+              </div>
+              {unloadStep.stable ? (
+                <div className="text-green-400">✓ Remaining load stays stable</div>
+              ) : (
+                <>
+                  {unloadStep.unsupportedBoxIds.length > 0 && (
+                    <div className="text-red-400">
+                      ⚠ {unloadStep.unsupportedBoxIds.length} boxes left without enough support
+                    </div>
+                  )}
+                  {unloadStep.overloadedAxles.length > 0 && (
+                    <div className="text-red-400">⚠ Over limit: {unloadStep.overloadedAxles.join(', ')}</div>
+                  )}
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="text-gray-400">No boxes are assigned to a route stop</div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => onUnloadStepChange(unloadStepIndex - 1)}
+              disabled={unloadStepIndex === 0}
+              className={stepButtonClass}
+            >
+              ◀
+            </button>
+            <button
+              onClick={() => onUnloadStepChange(unloadStepIndex + 1)}
+              disabled={unloadStepIndex >= unloadSteps.length - 1}
+              className={stepButtonClass}
+            >
+              ▶
+            </button>
+            <button
+              onClick={() => onUnloadStepChange(null)}
+              className="flex-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            >
+              Back to Loading
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Switches the scene between the trucks of a fleet plan
+function TruckLoadSwitcher() {
+  const { fleetPlan, activeTruckLoadId, selectTruckLoad, isOptimizing } = useOptimizationStore()
+
+  if (!fleetPlan || fleetPlan.loads.length < 2) return null
+
+  return (
+    <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10 flex gap-1 bg-gray-900/95 p-1 rounded-lg border border-gray-600 shadow-xl">
+      {fleetPlan.loads.map((load) => (
+        <button
+          key={load.id}
+          onClick={() => selectTruckLoad(load.id)}
+          disabled={isOptimizing}
+          className={`px-3 py-1 rounded text-xs transition-colors ${
+            load.id === activeTruckLoadId ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          🚛 {load.name} ({load.boxes.length})
+        </button>
+      ))}
+    </div>
+  )
+}
+
 export function TruckVisualization({ viewMode }: TruckVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const { physicsEnabled, boxes, optimizeLayout, isSimulationRunning } = useOptimizationStore()
+  const {
+    physicsEnabled,
+    boxes,
+    optimizeLayout,
+    isSimulationRunning,
+    stopOrder,
+    vehicleModel,
+    truckDimensions,
+    supportRules,
+  } = useOptimizationStore()
   const { deliveryStops } = useRouteStore()
   const [forceUpdate, setForceUpdate] = useState(0)
+  const [unloadStepIndex, setUnloadStepIndex] = useState<number | null>(null)
+  const isSimulatingUnload = unloadStepIndex !== null
+
+  // Re-run against the current layout so edits made mid-simulation show up straight away
+  const unloadSteps = useMemo(
+    () => isSimulatingUnload
+      ? simulateUnloading(boxes, resolveStopOrder(stopOrder, boxes), vehicleModel, truckDimensions, supportRules)
+      : [],
+    [isSimulatingUnload, boxes, stopOrder, vehicleModel, truckDimensions, supportRules]
+  )
+  const activeUnloadStep = isSimulatingUnload
+    ? unloadSteps[Math.min(unloadStepIndex, unloadSteps.length - 1)] ?? null
+    : null
   const [hoveredBox, setHoveredBox] = useState<HoveredBoxInfo | null>(null)
   const [selectedBox, setSelectedBox] = useState<SelectedBoxInfo | null>(null)
 
@@ -1834,7 +2148,12 @@ export function TruckVisualization({ viewMode }: TruckVisualizationProps) {
   }
 
   if (viewMode === "2d") {
-    return <TwoDRenderer />
+    return (
+      <div className="relative w-full h-full">
+        <TwoDRenderer />
+        <TruckLoadSwitcher />
+      </div>
+    )
   }
 
   return (
@@ -1883,6 +2202,18 @@ export function TruckVisualization({ viewMode }: TruckVisualizationProps) {
         ) : null
       })()}
 
+      {/* Loading / Unloading Step-Through */}
+      {!isSimulationRunning && (
+        <StepThroughPanel
+          unloadSteps={unloadSteps}
+          unloadStepIndex={isSimulatingUnload ? Math.min(unloadStepIndex, Math.max(unloadSteps.length - 1, 0)) : null}
+          onUnloadStepChange={setUnloadStepIndex}
+        />
+      )}
+
+      {/* Fleet Plan Truck Switcher */}
+      <TruckLoadSwitcher />
+
       {/* 2D Overlay for Hybrid Mode */}
       {viewMode === "hybrid" && (
         <div className="absolute top-4 right-4 z-10 w-64 h-48 border border-gray-600 bg-gray-900/95 rounded-lg overflow-hidden">
@@ -1972,7 +2303,7 @@ export function TruckVisualization({ viewMode }: TruckVisualizationProps) {
             size={4096}
             axisIndex={0}
           >
-            <Scene key={`scene-${forceUpdate}`} />
+            <Scene key={`scene-${forceUpdate}`} unloadStep={activeUnloadStep} />
           </Physics>
         </Suspense>
       </Canvas>
@@ -0,0 +1,252 @@
+"use client"
+
+import { useCallback, useEffect, useState, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useWorkspaceStore, type Workspace } from "@/store/workspace-store"
+import { useOptimizationStore } from "@/store/optimization-store"
+import { fetchWorkspaceVersion, fetchWorkspaceVersions } from "@/lib/workspace-api"
+import { diffWorkspaceVersions, formatPosition, hasChanges, type WorkspaceDiff } from "@/lib/workspace-diff"
+import type { WorkspaceVersion, WorkspaceVersionSummary } from "@/types/workspace"
+import { ArrowRight, History, RotateCcw } from "lucide-react"
+
+// Long diffs are cut off; the counts in the headings stay exact
+const MAX_LISTED_BOXES = 50
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return "—"
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(0)}`
+}
+
+function DiffSection({ title, count, children }: { title: string; count: number; children: ReactNode }) {
+  if (count === 0) return null
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-foreground">
+        {title} ({count})
+      </div>
+      <div className="space-y-0.5 text-xs text-muted-foreground">{children}</div>
+    </div>
+  )
+}
+
+function VersionDiffView({ diff }: { diff: WorkspaceDiff }) {
+  if (!hasChanges(diff)) {
+    return <div className="text-sm text-muted-foreground">No changes between these versions</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.scoreDeltas.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {diff.scoreDeltas.map((score) => (
+            <div key={score.key} className="rounded-lg bg-muted/50 p-2 text-center">
+              <div className="text-xs text-muted-foreground">{score.label}</div>
+              <div
+                className={`text-lg font-semibold ${
+                  score.delta === null || score.delta === 0
+                    ? "text-foreground"
+                    : score.delta > 0
+                      ? "text-green-400"
+                      : "text-red-400"
+                }`}
+              >
+                {formatDelta(score.delta)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {score.from?.toFixed(0) ?? "—"} → {score.to?.toFixed(0) ?? "—"}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DiffSection title="Truck changes" count={diff.truckChanges.length}>
+        {diff.truckChanges.map((change) => (
+          <div key={change.label}>
+            <span className="text-foreground">{change.label}:</span> {change.from} → {change.to}
+          </div>
+        ))}
+      </DiffSection>
+
+      <DiffSection title="Boxes added" count={diff.added.length}>
+        {diff.added.slice(0, MAX_LISTED_BOXES).map((box) => (
+          <div key={box.id} className="text-green-400">
+            + {box.name} ({box.destination || "no destination"})
+          </div>
+        ))}
+      </DiffSection>
+
+      <DiffSection title="Boxes removed" count={diff.removed.length}>
+        {diff.removed.slice(0, MAX_LISTED_BOXES).map((box) => (
+          <div key={box.id} className="text-red-400">
+            − {box.name} ({box.destination || "no destination"})
+          </div>
+        ))}
+      </DiffSection>
+
+      <DiffSection title="Boxes moved" count={diff.moved.length}>
+        {diff.moved.slice(0, MAX_LISTED_BOXES).map((move) => (
+          <div key={move.box.id}>
+            <span className="text-foreground">{move.box.name}</span> {formatPosition(move.from)} →{" "}
+            {formatPosition(move.to)}
+            {move.distance !== null && ` • ${move.distance.toFixed(1)} ft`}
+            {move.reoriented && " • rotated"}
+          </div>
+        ))}
+      </DiffSection>
+    </div>
+  )
+}
+
+export function WorkspaceHistoryDialog({
+  workspace,
+  open,
+  onOpenChange,
+}: {
+  workspace: Workspace
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { currentWorkspace, restoreVersion } = useWorkspaceStore()
+  const { loadWorkspaceLayout } = useOptimizationStore()
+  const [versions, setVersions] = useState<WorkspaceVersionSummary[] | null>(null)
+  const [loadedVersions, setLoadedVersions] = useState<Record<string, WorkspaceVersion>>({})
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const refreshVersions = useCallback(async () => {
+    try {
+      const list = await fetchWorkspaceVersions(workspace.id)
+      setVersions(list)
+      // Newest against the one before it, unless the user already picked
+      setSelectedIds((selected) => (selected.length === 2 ? selected : list.slice(0, 2).map((version) => version.id)))
+      setError(null)
+    } catch {
+      setError("Version history needs a connection to the server")
+    }
+  }, [workspace.id])
+
+  useEffect(() => {
+    if (open) void refreshVersions()
+  }, [open, refreshVersions])
+
+  // Contents are only fetched for the versions being compared
+  useEffect(() => {
+    const missing = selectedIds.filter((id) => !loadedVersions[id])
+    if (missing.length === 0) return
+    Promise.all(missing.map((id) => fetchWorkspaceVersion(workspace.id, id)))
+      .then((fetched) =>
+        setLoadedVersions((loaded) => ({
+          ...loaded,
+          ...Object.fromEntries(fetched.map((version) => [version.id, version])),
+        })),
+      )
+      .catch(() => setError("Couldn't load the selected versions"))
+  }, [selectedIds, loadedVersions, workspace.id])
+
+  const toggleSelected = (id: string) => {
+    if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter((selectedId) => selectedId !== id))
+    } else {
+      // Comparing is always two versions: picking a third drops the earliest pick
+      setSelectedIds([...selectedIds, id].slice(-2))
+    }
+  }
+
+  const handleRestore = async (versionId: string) => {
+    setRestoringId(versionId)
+    const restored = await restoreVersion(workspace.id, versionId)
+    setRestoringId(null)
+    if (!restored) {
+      setError("Restore failed; the workspace was left as it was")
+      return
+    }
+    if (currentWorkspace?.id === workspace.id) loadWorkspaceLayout(restored)
+    setSelectedIds([])
+    await refreshVersions()
+  }
+
+  const [older, newer] = selectedIds
+    .map((id) => loadedVersions[id])
+    .filter((version): version is WorkspaceVersion => Boolean(version))
+    .sort((a, b) => a.number - b.number)
+  const diff = older && newer ? diffWorkspaceVersions(older.contents, newer.contents) : null
+  const latestNumber = versions?.[0]?.number
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Version History: {workspace.name}
+          </DialogTitle>
+          <DialogDescription>
+            Every save is kept. Tick two versions to see what changed, or restore one as the newest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4">
+          <ScrollArea className="h-[28rem] pr-2">
+            <div className="space-y-1">
+              {versions?.length === 0 && (
+                <div className="text-sm text-muted-foreground">Not saved to the server yet</div>
+              )}
+              {versions?.map((version) => (
+                <div key={version.id} className="flex items-center gap-2 rounded-lg bg-muted/50 p-2 text-xs">
+                  <Checkbox
+                    checked={selectedIds.includes(version.id)}
+                    onCheckedChange={() => toggleSelected(version.id)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-foreground">
+                      Version {version.number}
+                      {version.number === latestNumber && " (current)"}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {new Date(version.createdAt).toLocaleString()} • {version.boxCount} boxes
+                    </div>
+                    {version.label && <div className="text-muted-foreground truncate">{version.label}</div>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Restore this version"
+                    onClick={() => handleRestore(version.id)}
+                    disabled={version.number === latestNumber || restoringId !== null}
+                  >
+                    <RotateCcw className={`h-3 w-3 ${restoringId === version.id ? "animate-spin" : ""}`} />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <ScrollArea className="h-[28rem] pr-2">
+            {older && newer ? (
+              <div className="space-y-3">
+                <div className="flex items-center text-sm font-medium text-foreground">
+                  Version {older.number}
+                  <ArrowRight className="h-4 w-4 mx-2" />
+                  Version {newer.number}
+                </div>
+                {diff && <VersionDiffView diff={diff} />}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                {selectedIds.length === 2 ? "Loading versions..." : "Select two versions to compare"}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
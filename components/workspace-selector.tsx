@@ -1,11 +1,12 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useWorkspaceStore } from "@/store/workspace-store";
+import { WorkspaceHistoryDialog } from "@/components/workspace-history-dialog";
+import { useWorkspaceStore, type Workspace } from "@/store/workspace-store";
 import { useOptimizationStore } from "@/store/optimization-store";
 import {
   Truck,
@@ -16,6 +17,9 @@ import {
   Zap,
   FileText,
   Map,
+  CloudOff,
+  RefreshCw,
+  History,
 } from "lucide-react";
 
 interface WorkspaceSelectorProps {
@@ -26,8 +30,17 @@ export function WorkspaceSelector({
   onWorkspaceSelected,
 }: WorkspaceSelectorProps) {
   const [newWorkspaceName, setNewWorkspaceName] = useState("");
-  const { workspaces, createWorkspace, loadWorkspace } = useWorkspaceStore();
-  const { loadSampleData, resetToEmpty } = useOptimizationStore();
+  const [historyWorkspace, setHistoryWorkspace] = useState<Workspace | null>(null);
+  const { workspaces, createWorkspace, loadWorkspace, syncStatus, syncWithServer } = useWorkspaceStore();
+  const { loadSampleData, resetToEmpty, loadWorkspaceLayout } = useOptimizationStore();
+
+  // Pick up workspaces saved on other devices, and retry once back online
+  useEffect(() => {
+    void syncWithServer();
+    const handleOnline = () => void syncWithServer();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [syncWithServer]);
 
   const handleCreateSampleWorkspace = () => {
     const workspace = createWorkspace("Sample Workspace - 30+ Boxes", "sample");
@@ -46,6 +59,8 @@ export function WorkspaceSelector({
 
   const handleLoadExistingWorkspace = (workspaceId: string) => {
     loadWorkspace(workspaceId);
+    const workspace = useWorkspaceStore.getState().currentWorkspace;
+    if (workspace) loadWorkspaceLayout(workspace);
     onWorkspaceSelected();
   };
 
@@ -218,6 +233,18 @@ export function WorkspaceSelector({
               <CardTitle className="text-lg text-foreground flex items-center">
                 <Users className="h-5 w-5 mr-2" />
                 Recent Workspaces
+                {syncStatus === "syncing" && (
+                  <span className="ml-auto flex items-center text-xs font-normal text-muted-foreground">
+                    <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+                    Syncing...
+                  </span>
+                )}
+                {(syncStatus === "offline" || syncStatus === "error") && (
+                  <span className="ml-auto flex items-center text-xs font-normal text-muted-foreground">
+                    <CloudOff className="h-3 w-3 mr-1" />
+                    {syncStatus === "offline" ? "Offline, saved on this device" : "Sync failed, saved on this device"}
+                  </span>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -241,6 +268,18 @@ export function WorkspaceSelector({
                       <span>
                         {new Date(workspace.lastModified).toLocaleDateString()}
                       </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto h-6 px-2 text-xs"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHistoryWorkspace(workspace);
+                        }}
+                      >
+                        <History className="h-3 w-3 mr-1" />
+                        History
+                      </Button>
                     </div>
                   </div>
                 ))}
@@ -249,6 +288,14 @@ export function WorkspaceSelector({
           </Card>
         )}
 
+        {historyWorkspace && (
+          <WorkspaceHistoryDialog
+            workspace={historyWorkspace}
+            open={historyWorkspace !== null}
+            onOpenChange={(open) => !open && setHistoryWorkspace(null)}
+          />
+        )}
+
         {/* Features Overview */}
         <div className="mt-12 text-center">
           <h2 className="text-2xl font-bold text-foreground mb-6">
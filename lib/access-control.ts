@@ -0,0 +1,57 @@
+// access-control.ts
+// Which roles may open which pages and API routes, and where each role lands
+// after signing in. middleware.ts enforces the prefixes on every request; the
+// route handlers narrow further, e.g. a retailer only ever sees their own
+// store. No server-only imports, so it runs in the edge middleware too.
+
+import type { UserRole } from "@/types/auth"
+
+export const USER_ROLES: UserRole[] = ["retailer", "warehouse_admin", "loader", "driver"]
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  retailer: "Retailer",
+  warehouse_admin: "Warehouse admin",
+  loader: "Loader",
+  driver: "Driver",
+}
+
+export const WAREHOUSE_STAFF: UserRole[] = ["warehouse_admin", "loader", "driver"]
+
+// Builds and edits load plans
+export const LOAD_PLANNERS: UserRole[] = ["warehouse_admin", "loader"]
+
+interface AccessRule {
+  prefix: string
+  roles: UserRole[] | "public"
+}
+
+// First match wins, so more specific prefixes come first. Anything not listed
+// only needs a signed-in user.
+const ACCESS_RULES: AccessRule[] = [
+  { prefix: "/api/auth", roles: "public" },
+  { prefix: "/api/users", roles: ["warehouse_admin"] },
+  { prefix: "/api/workspaces", roles: LOAD_PLANNERS },
+  { prefix: "/retailer", roles: ["retailer", "warehouse_admin"] },
+  { prefix: "/warehouse", roles: LOAD_PLANNERS },
+  { prefix: "/new", roles: LOAD_PLANNERS },
+  { prefix: "/sample", roles: LOAD_PLANNERS },
+  { prefix: "/truck", roles: WAREHOUSE_STAFF },
+]
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+// "public" for routes anyone may call, otherwise the roles allowed
+export function getAllowedRoles(pathname: string): UserRole[] | "public" | "signed-in" {
+  return ACCESS_RULES.find((rule) => matchesPrefix(pathname, rule.prefix))?.roles ?? "signed-in"
+}
+
+export function canAccess(pathname: string, role: UserRole): boolean {
+  const allowed = getAllowedRoles(pathname)
+  return allowed === "public" || allowed === "signed-in" || allowed.includes(role)
+}
+
+export function getHomePath(role: UserRole): string {
+  return role === "retailer" ? "/retailer" : "/truck"
+}
@@ -0,0 +1,61 @@
+// api-route.ts
+// Shared plumbing for the app/api route handlers: parse and validate a JSON
+// body or query string, and turn thrown errors into JSON responses with the
+// right status.
+
+import { NextResponse } from "next/server"
+import type { ZodType, ZodTypeDef } from "zod"
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export function notFound(what: string): ApiError {
+  return new ApiError(404, `${what} not found`)
+}
+
+export async function readJsonBody<T>(request: Request, schema: ZodType<T, ZodTypeDef, unknown>): Promise<T> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new ApiError(400, "Request body must be JSON")
+  }
+
+  const parsed = schema.safeParse(body)
+  if (!parsed.success) {
+    throw new ApiError(400, "Invalid request body", parsed.error.flatten())
+  }
+  return parsed.data
+}
+
+export function readSearchParams<T>(request: Request, schema: ZodType<T, ZodTypeDef, unknown>): T {
+  const parsed = schema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+  if (!parsed.success) {
+    throw new ApiError(400, "Invalid query parameters", parsed.error.flatten())
+  }
+  return parsed.data
+}
+
+// Route segments for autoincrement ids; anything that isn't one can't match a row
+export function parseNumericId(value: string, what: string): number {
+  const id = Number(value)
+  if (!Number.isInteger(id) || id <= 0) throw notFound(what)
+  return id
+}
+
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status })
+  }
+
+  console.error("❌ API request failed:", error)
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+}
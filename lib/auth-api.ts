@@ -0,0 +1,62 @@
+// auth-api.ts
+// Browser-side calls to the auth routes. The session lives in an httpOnly
+// cookie the server sets, so nothing here stores credentials; these only
+// report who is signed in. Every call throws an AuthApiError on failure;
+// status 0 means the server couldn't be reached.
+
+import type { SessionUser } from "@/types/auth"
+import type { LoginInput, SignupInput } from "@/lib/auth-schemas"
+
+export class AuthApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "AuthApiError"
+  }
+
+  get isOffline(): boolean {
+    return this.status === 0
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(`/api/auth${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    })
+  } catch (error) {
+    throw new AuthApiError(0, error instanceof Error ? error.message : "Network request failed")
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new AuthApiError(response.status, body?.error ?? response.statusText)
+  }
+  return (await response.json()) as T
+}
+
+export async function login(input: LoginInput): Promise<SessionUser> {
+  return (await request<{ user: SessionUser }>("/login", { method: "POST", body: JSON.stringify(input) })).user
+}
+
+export async function signup(input: SignupInput): Promise<SessionUser> {
+  return (await request<{ user: SessionUser }>("/signup", { method: "POST", body: JSON.stringify(input) })).user
+}
+
+export async function logout(): Promise<void> {
+  await request<{ ok: true }>("/logout", { method: "POST" })
+}
+
+// null when nobody is signed in
+export async function fetchSession(): Promise<SessionUser | null> {
+  try {
+    return (await request<{ user: SessionUser }>("/session")).user
+  } catch (error) {
+    if (error instanceof AuthApiError && error.status === 401) return null
+    throw error
+  }
+}
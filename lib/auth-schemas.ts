@@ -0,0 +1,50 @@
+// auth-schemas.ts
+// Request validation for sign-in, retailer sign-up and the admin's user
+// management. Usernames are compared lowercase, so they're lowercased here.
+
+import { z } from "zod"
+import type { UserRole } from "@/types/auth"
+import { USER_ROLES } from "@/lib/access-control"
+
+export const MIN_PASSWORD_LENGTH = 8
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9._-]{3,40}$/, "Use 3-40 letters, digits, dots, dashes or underscores")
+const newPasswordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters`)
+  .max(200)
+
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1),
+  password: z.string().min(1),
+})
+
+// A new shop registers its store and its first account together
+export const signupSchema = z.object({
+  shopName: z.string().trim().min(1),
+  username: usernameSchema,
+  password: newPasswordSchema,
+  address: z.string().trim().min(1),
+  phone: z.string().trim().min(1).optional(),
+})
+
+export const createUserSchema = z
+  .object({
+    username: usernameSchema,
+    password: newPasswordSchema,
+    name: z.string().trim().min(1),
+    role: z.enum(USER_ROLES as [UserRole, ...UserRole[]]),
+    retailId: z.number().int().positive().optional(),
+  })
+  .refine((user) => (user.role === "retailer") === (user.retailId !== undefined), {
+    message: "Retailer accounts need a retailId; other roles can't have one",
+    path: ["retailId"],
+  })
+
+export type LoginInput = z.infer<typeof loginSchema>
+export type SignupInput = z.infer<typeof signupSchema>
+export type CreateUserInput = z.infer<typeof createUserSchema>
@@ -0,0 +1,114 @@
+// auth.ts
+// Passwords, sessions and access checks for the route handlers. Passwords are
+// hashed with scrypt and a per-user salt. Signing in stores a session row and
+// sets an httpOnly cookie signed with AUTH_SECRET (see lib/session-token.ts);
+// set AUTH_SECRET to a long random string in production. Server-side only.
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto"
+import type { NextResponse } from "next/server"
+import { ApiError } from "@/lib/api-route"
+import { createSession, deleteSession, findSessionUser, findUserForLogin } from "@/lib/users-db"
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  signSessionToken,
+  verifySessionToken,
+} from "@/lib/session-token"
+import type { SessionUser, UserRole } from "@/types/auth"
+
+// N=2^15 takes ~50ms per check here: slow for guessing, fine for a sign-in
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 }
+const KEY_LENGTH = 64
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem has to cover 128 × N × r bytes
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    )
+  })
+}
+
+// "scrypt$N$r$p$salt$key", so the cost can be raised later without breaking old hashes
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const { N, r, p } = SCRYPT_PARAMS
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS)
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$")
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split("$")
+  if (scheme !== "scrypt" || !salt || !key) return false
+  const expected = Buffer.from(key, "base64")
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) })
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Checked against when the username doesn't exist, so both failures take as long
+let decoyHash: Promise<string> | null = null
+
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+  const account = await findUserForLogin(username)
+  if (!account) {
+    decoyHash ??= hashPassword(randomBytes(16).toString("hex"))
+    await verifyPassword(password, await decoyHash)
+    return null
+  }
+  return (await verifyPassword(password, account.passwordHash)) ? account.user : null
+}
+
+function readSessionCookie(request: Request): string | undefined {
+  const cookies = request.headers.get("cookie")?.split(";") ?? []
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=")
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="))
+  }
+  return undefined
+}
+
+export async function startSession(response: NextResponse, user: SessionUser): Promise<NextResponse> {
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000)
+  const sid = await createSession(user.id, expiresAt)
+  const token = await signSessionToken({ sid, user, exp: Math.floor(expiresAt.getTime() / 1000) })
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  })
+  return response
+}
+
+export async function endSession(request: Request, response: NextResponse): Promise<NextResponse> {
+  const payload = await verifySessionToken(readSessionCookie(request))
+  if (payload) await deleteSession(payload.sid)
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
+
+export async function getSessionUser(request: Request): Promise<SessionUser | null> {
+  const payload = await verifySessionToken(readSessionCookie(request))
+  return payload ? findSessionUser(payload.sid) : null
+}
+
+// 401 when signed out, 403 when signed in with a role not in `roles`
+export async function requireUser(request: Request, roles?: UserRole[]): Promise<SessionUser> {
+  const user = await getSessionUser(request)
+  if (!user) throw new ApiError(401, "Sign in required")
+  if (roles && !roles.includes(user.role)) throw new ApiError(403, "Not allowed for your role")
+  return user
+}
+
+// Retailers only reach their own store; warehouse staff reach every store
+export function assertRetailerAccess(user: SessionUser, retailId: number): void {
+  if (user.role === "retailer" && user.retailId !== retailId) {
+    throw new ApiError(403, "Retailer accounts can only see their own store")
+  }
+}
+
+// The store a list should be narrowed to: a retailer's own, or whatever was asked for
+export function scopeRetailId(user: SessionUser, requested: number | undefined): number | undefined {
+  return user.role === "retailer" ? (user.retailId ?? -1) : requested
+}
@@ -0,0 +1,152 @@
+// axle-loads.ts
+// Vehicle models and how a load spreads over their axles. Cargo weight is
+// split by the lever rule: on a straight truck between the steer and drive
+// axles, on a tractor-trailer between the kingpin and the trailer axle, with
+// the kingpin share split again between steer and drive.
+
+import type { AxleGroup, AxleGroupId, Box, TruckDimensions, VehicleModel } from "@/types/box"
+
+export const VEHICLE_MODELS: VehicleModel[] = [
+  {
+    id: "straight-truck-28",
+    name: "28ft Box Truck",
+    maxPayload: 34000,
+    grossWeightLimit: 46000,
+    axles: [
+      { id: "steer", name: "Steer", position: -5, legalLimit: 12000, tareWeight: 7500 },
+      { id: "drive", name: "Drive Tandem", position: 20, legalLimit: 34000, tareWeight: 6500 },
+    ],
+  },
+  {
+    id: "tractor-pup-28",
+    name: "Tractor + 28ft Pup Trailer",
+    maxPayload: 34000,
+    grossWeightLimit: 80000,
+    kingpinPosition: 3,
+    axles: [
+      { id: "steer", name: "Steer", position: -13, legalLimit: 12000, tareWeight: 10000 },
+      { id: "drive", name: "Drive Tandem", position: 3.5, legalLimit: 34000, tareWeight: 9000 },
+      { id: "trailer", name: "Trailer Axle", position: 23, legalLimit: 20000, tareWeight: 4500 },
+    ],
+  },
+  {
+    id: "tractor-trailer-53",
+    name: "Tractor + 53ft Trailer",
+    maxPayload: 45000,
+    grossWeightLimit: 80000,
+    kingpinPosition: 3,
+    axles: [
+      { id: "steer", name: "Steer", position: -13, legalLimit: 12000, tareWeight: 11000 },
+      { id: "drive", name: "Drive Tandem", position: 3.5, legalLimit: 34000, tareWeight: 13000 },
+      { id: "trailer", name: "Trailer Tandem", position: 45, legalLimit: 34000, tareWeight: 8000 },
+    ],
+  },
+]
+
+export const DEFAULT_VEHICLE_MODEL = VEHICLE_MODELS[0]
+
+// Saved data only keeps the model id; unknown ids fall back to the default
+export function getVehicleModel(id: string | null | undefined): VehicleModel {
+  return VEHICLE_MODELS.find((model) => model.id === id) ?? DEFAULT_VEHICLE_MODEL
+}
+
+export interface AxleLoad {
+  axleId: AxleGroupId
+  name: string
+  load: number // lbs including the vehicle's tare weight
+  limit: number
+}
+
+type LoadedBox = Pick<Box, "weight" | "position">
+
+function findAxle(vehicle: VehicleModel, id: AxleGroupId): AxleGroup | undefined {
+  return vehicle.axles.find((axle) => axle.id === id)
+}
+
+// Share of a point load carried by the far support; beyond either support it goes negative or past 1
+function leverShare(distance: number, near: number, far: number): number {
+  return far === near ? 0.5 : (distance - near) / (far - near)
+}
+
+/**
+ * Share of a load `distance` ft from the cargo nose carried by each axle, in
+ * vehicle.axles order. The shares always sum to 1; a load overhanging the
+ * rear axle lifts the steer axle, which shows up as a negative share.
+ */
+export function getAxleShares(vehicle: VehicleModel, distance: number): number[] {
+  const steer = findAxle(vehicle, "steer")
+  const drive = findAxle(vehicle, "drive")
+  const trailer = findAxle(vehicle, "trailer")
+  const shares = new Map<AxleGroupId, number>()
+
+  if (steer && drive) {
+    if (trailer && vehicle.kingpinPosition !== undefined) {
+      const trailerShare = leverShare(distance, vehicle.kingpinPosition, trailer.position)
+      const driveShare = leverShare(vehicle.kingpinPosition, steer.position, drive.position)
+      shares.set("trailer", trailerShare)
+      shares.set("drive", (1 - trailerShare) * driveShare)
+      shares.set("steer", (1 - trailerShare) * (1 - driveShare))
+    } else {
+      const driveShare = leverShare(distance, steer.position, drive.position)
+      shares.set("drive", driveShare)
+      shares.set("steer", 1 - driveShare)
+    }
+  }
+
+  return vehicle.axles.map((axle) => shares.get(axle.id) ?? 0)
+}
+
+function getDistanceFromNose(box: LoadedBox, truckDimensions: Pick<TruckDimensions, "length">): number {
+  return box.position.z + truckDimensions.length / 2
+}
+
+export function computeAxleLoads(
+  boxes: LoadedBox[],
+  vehicle: VehicleModel,
+  truckDimensions: Pick<TruckDimensions, "length">,
+): AxleLoad[] {
+  const loads = vehicle.axles.map((axle) => ({ axleId: axle.id, name: axle.name, load: axle.tareWeight, limit: axle.legalLimit }))
+  boxes.forEach((box) => addToAxleLoads(box, loads, vehicle, truckDimensions))
+  return loads
+}
+
+// Incremental update for packers that place one box at a time
+export function addToAxleLoads(
+  box: LoadedBox,
+  loads: AxleLoad[],
+  vehicle: VehicleModel,
+  truckDimensions: Pick<TruckDimensions, "length">,
+): void {
+  getAxleShares(vehicle, getDistanceFromNose(box, truckDimensions)).forEach((share, index) => {
+    loads[index].load += box.weight * share
+  })
+}
+
+export function getGrossWeight(loads: AxleLoad[]): number {
+  return loads.reduce((sum, axle) => sum + axle.load, 0)
+}
+
+export function findAxleOverloads(loads: AxleLoad[]): AxleLoad[] {
+  return loads.filter((axle) => axle.load > axle.limit)
+}
+
+// Axles a box would push over their legal limit; axles it takes weight off don't count
+export function getAxlesOverloadedBy(
+  box: LoadedBox,
+  loads: AxleLoad[],
+  vehicle: VehicleModel,
+  truckDimensions: Pick<TruckDimensions, "length">,
+): AxleLoad[] {
+  const shares = getAxleShares(vehicle, getDistanceFromNose(box, truckDimensions))
+  return loads.filter((axle, index) => shares[index] > 0 && axle.load + box.weight * shares[index] > axle.limit)
+}
+
+export function wouldExceedAxleLimits(
+  box: LoadedBox,
+  loads: AxleLoad[],
+  vehicle: VehicleModel,
+  truckDimensions: Pick<TruckDimensions, "length">,
+): boolean {
+  if (getGrossWeight(loads) + box.weight > vehicle.grossWeightLimit) return true
+  return getAxlesOverloadedBy(box, loads, vehicle, truckDimensions).length > 0
+}
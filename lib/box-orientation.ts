@@ -0,0 +1,66 @@
+// box-orientation.ts
+// A box keeps its labelled width × height × length; `orientation` says how it
+// sits in the truck. Everything that needs the space a box actually occupies
+// (packing, collisions, rendering) goes through getOrientedDimensions.
+
+import type { Box, BoxOrientation } from "@/types/box"
+
+export interface BoxDimensions {
+  width: number // along the truck's x axis
+  height: number // vertical
+  length: number // along the truck's z axis
+}
+
+export const DEFAULT_ORIENTATION: BoxOrientation = "xy"
+
+export const ALL_ORIENTATIONS: BoxOrientation[] = ["xy", "yz", "xz", "yx", "zx", "zy"]
+
+// Orientations that keep the labelled height vertical
+const UPRIGHT_ORIENTATIONS: BoxOrientation[] = ["xy", "yz"]
+
+export const ORIENTATION_LABELS: Record<BoxOrientation, string> = {
+  xy: "Upright",
+  yz: "Upright, turned 90°",
+  xz: "Tipped forward",
+  yx: "Tipped sideways",
+  zx: "Tipped forward, turned 90°",
+  zy: "Tipped sideways, turned 90°",
+}
+
+// Maps labelled dimensions onto truck axes for a given orientation
+export function orientDimensions(dimensions: BoxDimensions, orientation: BoxOrientation = DEFAULT_ORIENTATION): BoxDimensions {
+  const { width, height, length } = dimensions
+
+  switch (orientation) {
+    case "xy":
+      return { width, height, length }
+    case "yz":
+      return { width: length, height, length: width }
+    case "xz":
+      return { width, height: length, length: height }
+    case "yx":
+      return { width: height, height: width, length }
+    case "zx":
+      return { width: height, height: length, length: width }
+    case "zy":
+      return { width: length, height: width, length: height }
+  }
+}
+
+// Space the box occupies in the truck as currently oriented
+export function getOrientedDimensions(box: Pick<Box, "width" | "height" | "length" | "orientation">): BoxDimensions {
+  return orientDimensions(box, box.orientation)
+}
+
+export function getAllowedOrientations(box: Pick<Box, "thisSideUp" | "allowedOrientations">): BoxOrientation[] {
+  let allowed = box.allowedOrientations?.length ? ALL_ORIENTATIONS.filter((o) => box.allowedOrientations!.includes(o)) : ALL_ORIENTATIONS
+  if (box.thisSideUp) {
+    allowed = allowed.filter((o) => UPRIGHT_ORIENTATIONS.includes(o))
+  }
+  // A whitelist that conflicts with this-side-up still leaves the box as labelled
+  return allowed.length > 0 ? allowed : [DEFAULT_ORIENTATION]
+}
+
+export function isOrientationAllowed(box: Pick<Box, "thisSideUp" | "allowedOrientations">, orientation: BoxOrientation): boolean {
+  return getAllowedOrientations(box).includes(orientation)
+}
@@ -0,0 +1,71 @@
+// box-validation.ts
+// The rules a box must pass before it is added from outside the manual form:
+// a scanned QR payload or a row of an imported manifest. Dimensions are in
+// feet and weight in pounds by the time they get here.
+
+import type { Box, BoxOrientation } from "@/types/box"
+import { ALL_ORIENTATIONS } from "@/lib/box-orientation"
+
+// A box as entered, before the store gives it an id and a position
+export type BoxPayload = Omit<Box, "id" | "position" | "isNew">
+
+const REQUIRED_FIELDS = ["name", "width", "height", "length", "weight", "temperatureZone"] as const
+const DIMENSION_FIELDS = ["width", "height", "length", "weight"] as const
+
+/**
+ * Validate loosely typed box fields and coerce them to a `BoxPayload`.
+ * Throws on anything that can't be loaded; a destination that isn't on the
+ * route is cleared rather than rejected and reported in `warnings`.
+ */
+export function validateBoxPayload(
+  raw: Record<string, unknown>,
+  availableDestinations: string[],
+): { payload: BoxPayload; warnings: string[] } {
+  const missing = REQUIRED_FIELDS.filter((field) => raw[field] === undefined || raw[field] === null || raw[field] === "")
+  if (missing.length) throw new Error(`Missing fields: ${missing.join(", ")}`)
+
+  for (const field of DIMENSION_FIELDS) {
+    const value = raw[field]
+    if (!(typeof value === "number" && Number.isFinite(value) && value > 0)) {
+      throw new Error(`${field} must be a positive number`)
+    }
+  }
+
+  if (!["regular", "cold", "frozen"].includes(raw.temperatureZone as string)) {
+    throw new Error("temperatureZone must be regular, cold or frozen")
+  }
+
+  if (
+    raw.allowedOrientations !== undefined &&
+    !(
+      Array.isArray(raw.allowedOrientations) &&
+      raw.allowedOrientations.every((orientation: unknown) => ALL_ORIENTATIONS.includes(orientation as BoxOrientation))
+    )
+  ) {
+    throw new Error(`allowedOrientations must only contain ${ALL_ORIENTATIONS.join(", ")}`)
+  }
+
+  // Dynamic destination validation based on available stops
+  const destination = typeof raw.destination === "string" ? raw.destination.trim() : ""
+  const warnings: string[] = []
+  const isKnownDestination = availableDestinations.includes(destination)
+  if (destination && availableDestinations.length > 0 && !isKnownDestination) {
+    warnings.push(`Destination "${destination}" not found in route stops, will be cleared`)
+  }
+
+  return {
+    payload: {
+      name: String(raw.name).trim(),
+      width: raw.width as number,
+      height: raw.height as number,
+      length: raw.length as number,
+      weight: raw.weight as number,
+      temperatureZone: raw.temperatureZone as Box["temperatureZone"],
+      isFragile: Boolean(raw.isFragile),
+      thisSideUp: Boolean(raw.thisSideUp),
+      ...(raw.allowedOrientations ? { allowedOrientations: raw.allowedOrientations as BoxOrientation[] } : {}),
+      destination: isKnownDestination ? destination : "",
+    },
+    warnings,
+  }
+}
@@ -0,0 +1,161 @@
+// fleet-planner.ts
+// Splits one order set across as many trucks as it needs. Each truck is
+// packed with a registered PackingSolver; stops are kept whole on a truck
+// where possible so a delivery is only ever split when it can't fit alone.
+// Kept free of React/zustand imports so it can run inside the physics worker.
+
+import type { Box } from "@/types/box"
+import type { FleetPlan, FleetPlanInput, FleetTruckType, TruckLoad } from "@/types/fleet"
+import type { PackingSolverResult } from "@/types/packing"
+import type { OptimizationProgress } from "@/types/worker-messages"
+import { VEHICLE_MODELS } from "@/lib/axle-loads"
+import { getDefaultPackingConstraints, getPackingSolver } from "@/lib/packing-solvers"
+import { getStopIndex, resolveStopOrder } from "@/lib/route-order"
+import { fitsTruckInAnyOrientation, noTruckLeftReason, tooLargeReason } from "@/lib/unplaced-reasons"
+
+const [STRAIGHT_TRUCK, , TRACTOR_TRAILER_53] = VEHICLE_MODELS
+
+export const TRUCK_PRESETS: FleetTruckType[] = [
+  { id: "28ft-box", name: "28ft Box Truck", dimensions: { width: 8, length: 28, height: 9 }, vehicle: STRAIGHT_TRUCK, available: 3 },
+  { id: "26ft-box", name: "26ft Box Truck", dimensions: { width: 8, length: 26, height: 9 }, vehicle: STRAIGHT_TRUCK, available: 2 },
+  { id: "24ft-box", name: "24ft Box Truck", dimensions: { width: 8, length: 24, height: 8.5 }, vehicle: STRAIGHT_TRUCK, available: 2 },
+  { id: "53ft-trailer", name: "53ft Trailer", dimensions: { width: 8.5, length: 53, height: 9 }, vehicle: TRACTOR_TRAILER_53, available: 1 },
+]
+
+// Stays well under 100%: real loads never fill every cubic foot
+const MAX_VOLUME_FILL = 0.85
+
+function getTruckVolume(type: FleetTruckType): number {
+  const { width, length, height } = type.dimensions
+  return width * length * height
+}
+
+// Cheap check before paying for a packing run
+function mightHoldAll(type: FleetTruckType, boxes: Box[]): boolean {
+  const volume = boxes.reduce((sum, box) => sum + box.width * box.height * box.length, 0)
+  const weight = boxes.reduce((sum, box) => sum + box.weight, 0)
+  return volume <= getTruckVolume(type) * MAX_VOLUME_FILL && weight <= type.vehicle.maxPayload
+}
+
+// Boxes grouped by destination, in route order
+function groupByStop(boxes: Box[], stopOrder: string[]): Box[][] {
+  const groups = new Map<string, Box[]>()
+  for (const box of boxes) {
+    const group = groups.get(box.destination) ?? []
+    group.push(box)
+    groups.set(box.destination, group)
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => getStopIndex(stopOrder, a) - getStopIndex(stopOrder, b))
+    .map(([, group]) => group)
+}
+
+/**
+ * Plans the fewest trucks it can, one at a time. While the rest of the order
+ * set fits a single truck, the smallest available type that takes it all is
+ * used. Otherwise the largest available type is filled with whole stops in
+ * route order, and the first stop is split only when it doesn't fit alone.
+ */
+export function* planFleet(input: FleetPlanInput): Generator<OptimizationProgress, FleetPlan, void> {
+  const startTime = performance.now()
+  const total = input.boxes.length
+  const remainingTrucks = new Map(input.fleet.map((type) => [type.id, Math.max(0, type.available)]))
+  const stopOrder = resolveStopOrder(input.stopOrder, input.boxes)
+  const loads: TruckLoad[] = []
+  const unplacedBoxes: Box[] = []
+  let loadedCount = 0
+
+  // Nothing can take a box that fits none of the truck types
+  const fitsSomeTruck = (box: Box) => input.fleet.some((type) => fitsTruckInAnyOrientation(box, type.dimensions))
+  const largestType = [...input.fleet].sort((a, b) => getTruckVolume(b) - getTruckVolume(a))[0]
+  for (const box of input.boxes) {
+    if (!fitsSomeTruck(box) && largestType) {
+      unplacedBoxes.push({ ...box, unplacedReason: tooLargeReason(box, largestType.dimensions) })
+    }
+  }
+  // With no truck types at all every box waits, and ends up unplaced as having no truck left
+  let pendingGroups = groupByStop(input.boxes.filter((box) => !largestType || fitsSomeTruck(box)), stopOrder)
+
+  function* packOnto(type: FleetTruckType, boxes: Box[]): Generator<OptimizationProgress, PackingSolverResult, void> {
+    const run = getPackingSolver(input.solverId).solve({
+      // A locked spot only means something in the truck it was set in
+      boxes: boxes.map((box) => ({ ...box, locked: false })),
+      truckDimensions: type.dimensions,
+      zoneLayout: input.zoneLayout,
+      vehicle: type.vehicle,
+      stopOrder,
+      constraints: { ...getDefaultPackingConstraints(type.dimensions, type.vehicle), ...input.constraints },
+    })
+    let step = run.next()
+    while (!step.done) {
+      yield { ...step.value, placed: loadedCount + step.value.placed, unplaced: unplacedBoxes.length, total }
+      step = run.next()
+    }
+    return step.value
+  }
+
+  while (pendingGroups.length > 0) {
+    const availableTypes = input.fleet
+      .filter((type) => (remainingTrucks.get(type.id) ?? 0) > 0)
+      .sort((a, b) => getTruckVolume(a) - getTruckVolume(b))
+    if (availableTypes.length === 0) break
+
+    const pendingBoxes = pendingGroups.flat()
+    let chosen: { type: FleetTruckType; result: PackingSolverResult; groupsTaken: number } | null = null
+
+    for (const type of availableTypes) {
+      if (!mightHoldAll(type, pendingBoxes)) continue
+      const result = yield* packOnto(type, pendingBoxes)
+      if (result.unplacedBoxes.length === 0) {
+        chosen = { type, result, groupsTaken: pendingGroups.length }
+        break
+      }
+    }
+
+    if (!chosen) {
+      const type = availableTypes[availableTypes.length - 1]
+      for (let count = 1; count <= pendingGroups.length; count++) {
+        const boxes = pendingGroups.slice(0, count).flat()
+        if (count > 1 && !mightHoldAll(type, boxes)) break
+        const result = yield* packOnto(type, boxes)
+        if (result.unplacedBoxes.length > 0) {
+          // Split the first stop: whatever fit goes now, the rest waits for the next truck
+          if (count === 1) chosen = { type, result, groupsTaken: 0 }
+          break
+        }
+        chosen = { type, result, groupsTaken: count }
+      }
+    }
+
+    // The largest truck left couldn't take a single box of the next stop
+    if (!chosen || chosen.result.placedBoxes.length === 0) {
+      unplacedBoxes.push(...(chosen?.result.unplacedBoxes ?? pendingGroups[0]))
+      pendingGroups = pendingGroups.slice(1)
+      continue
+    }
+
+    const { type, result, groupsTaken } = chosen
+    const truckNumber = loads.filter((load) => load.truckTypeId === type.id).length + 1
+    remainingTrucks.set(type.id, (remainingTrucks.get(type.id) ?? 0) - 1)
+    loads.push({
+      id: `load-${loads.length + 1}`,
+      truckTypeId: type.id,
+      name: `${type.name} #${truckNumber}`,
+      truckDimensions: type.dimensions,
+      vehicle: type.vehicle,
+      boxes: result.placedBoxes,
+      stops: groupByStop(result.placedBoxes, stopOrder).map((group) => group[0].destination),
+      diagnostics: result.diagnostics,
+    })
+    loadedCount += result.placedBoxes.length
+    pendingGroups = groupsTaken > 0 ? pendingGroups.slice(groupsTaken) : [result.unplacedBoxes, ...pendingGroups.slice(1)]
+  }
+
+  unplacedBoxes.push(...pendingGroups.flat().map((box) => ({ ...box, unplacedReason: noTruckLeftReason() })))
+  return { loads, unplacedBoxes, durationMs: performance.now() - startTime }
+}
+
+export function getFleetPlanBoxes(plan: FleetPlan): Box[] {
+  return [...plan.loads.flatMap((load) => load.boxes), ...plan.unplacedBoxes]
+}
@@ -0,0 +1,108 @@
+// incremental-placement.ts
+// Slots boxes added late into a layout the crew has started loading, instead
+// of repacking from scratch. New boxes first go around the layout exactly as
+// it stands; failing that, boxes not yet loaded are re-placed around the
+// loaded and locked ones. Anything that still won't fit is reported as
+// needing a full repack rather than moving freight that's already on board.
+
+import type { Box } from "@/types/box"
+import type { IncrementalPlacementInput, PackingSolverResult } from "@/types/packing"
+import type { OptimizationProgress } from "@/types/worker-messages"
+import type { Advanced3DPlacementEngine } from "@/store/advanced-3d-placement-engine"
+import { DEFAULT_ORIENTATION, getAllowedOrientations, orientDimensions } from "@/lib/box-orientation"
+import { buildPackingDiagnostics, createPlacementEngine, withOrientedExtents } from "@/lib/packing-solvers"
+import { compareByLoadingOrder } from "@/lib/route-order"
+import { needsRepackReason, overWeightReason } from "@/lib/unplaced-reasons"
+
+export const INCREMENTAL_SOLVER_ID = "incremental"
+
+interface SlotResult {
+  placed: Box[]
+  unplaced: Box[]
+}
+
+// First spot the engine finds in any allowed orientation, trying the box's current one first
+function findSlot(engine: Advanced3DPlacementEngine, box: Box, obstacles: Box[]): Box | null {
+  const current = box.orientation ?? DEFAULT_ORIENTATION
+  const orientations = [current, ...getAllowedOrientations(box).filter((orientation) => orientation !== current)]
+
+  for (const orientation of orientations) {
+    const oriented = { ...box, ...orientDimensions(box, orientation), orientation: DEFAULT_ORIENTATION }
+    const position = engine.findOptimalPlacement(oriented, obstacles.map(withOrientedExtents))
+    if (position) {
+      return { ...box, position, orientation, isNew: false, unplacedReason: undefined }
+    }
+  }
+  return null
+}
+
+function* slotBoxes(
+  engine: Advanced3DPlacementEngine,
+  boxes: Box[],
+  obstacles: Box[],
+  maxWeight: number,
+): Generator<OptimizationProgress, SlotResult, void> {
+  const placed: Box[] = []
+  const unplaced: Box[] = []
+  let loadedWeight = obstacles.reduce((sum, box) => sum + box.weight, 0)
+
+  for (const box of boxes) {
+    // The engine's floor fallback doesn't check payload, so do it up front
+    const slotted = loadedWeight + box.weight > maxWeight ? null : findSlot(engine, box, [...obstacles, ...placed])
+    if (slotted) {
+      placed.push(slotted)
+      loadedWeight += slotted.weight
+    } else {
+      unplaced.push(box)
+    }
+
+    yield { placed: placed.length, unplaced: unplaced.length, total: boxes.length, currentBoxId: box.id }
+  }
+
+  return { placed, unplaced }
+}
+
+export function* placeNewBoxes(input: IncrementalPlacementInput): Generator<OptimizationProgress, PackingSolverResult, void> {
+  const startTime = performance.now()
+  const engine = createPlacementEngine(input)
+  const byLoadingOrder = compareByLoadingOrder(input.stopOrder)
+  const inLoadingOrder = (boxes: Box[]) => [...boxes].sort((a, b) => byLoadingOrder(a, b) || b.weight - a.weight)
+  const finish = (placedBoxes: Box[], unplacedBoxes: Box[]): PackingSolverResult => ({
+    placedBoxes,
+    unplacedBoxes,
+    diagnostics: buildPackingDiagnostics(
+      INCREMENTAL_SOLVER_ID,
+      { ...input, boxes: [...placedBoxes, ...unplacedBoxes] },
+      placedBoxes,
+      unplacedBoxes,
+      startTime,
+    ),
+  })
+
+  const around = yield* slotBoxes(engine, inLoadingOrder(input.newBoxes), input.placedBoxes, input.constraints.maxWeight)
+  if (around.unplaced.length === 0) {
+    return finish([...input.placedBoxes, ...around.placed], [])
+  }
+
+  const frozenIds = new Set(input.frozenBoxIds)
+  const frozen = input.placedBoxes.filter((box) => frozenIds.has(box.id))
+  const movable = input.placedBoxes.filter((box) => !frozenIds.has(box.id))
+  const replaced = yield* slotBoxes(engine, inLoadingOrder([...movable, ...input.newBoxes]), frozen, input.constraints.maxWeight)
+  if (replaced.unplaced.length === 0) {
+    return finish([...frozen, ...replaced.placed], [])
+  }
+
+  // Keep the layout as it stands and say why the rest is left over
+  const placedWeight = [...input.placedBoxes, ...around.placed].reduce((sum, box) => sum + box.weight, 0)
+  return finish(
+    [...input.placedBoxes, ...around.placed],
+    around.unplaced.map((box) => ({
+      ...box,
+      isNew: false,
+      unplacedReason:
+        placedWeight + box.weight > input.constraints.maxWeight
+          ? overWeightReason(box, input.constraints.maxWeight - placedWeight)
+          : needsRepackReason(),
+    })),
+  )
+}
@@ -0,0 +1,158 @@
+// layout-history.ts
+// Undo/redo and named checkpoints for the optimization store. Each entry
+// holds the layout as it was before an edit. The store never mutates its
+// box arrays in place, so a snapshot is only a handful of references.
+// Kept free of zustand so the bookkeeping stays easy to reason about.
+
+import type { Box, TemperatureZoneLayout, TruckDimensions, VehicleModel } from "@/types/box"
+import type { FleetPlan } from "@/types/fleet"
+import type { PackingDiagnostics } from "@/types/packing"
+
+export const MAX_HISTORY_ENTRIES = 100
+// Repeated edits with the same key closer together than this (a slider drag) undo as one
+export const HISTORY_COALESCE_MS = 1000
+
+export interface LayoutSnapshot {
+  boxes: Box[]
+  unplaceableBoxes: Box[]
+  truckDimensions: TruckDimensions
+  vehicleModel: VehicleModel
+  temperatureZoneLayout: TemperatureZoneLayout
+  packingDiagnostics: PackingDiagnostics | null
+  fleetPlan: FleetPlan | null
+  activeTruckLoadId: string | null
+}
+
+export interface HistoryEntry {
+  label: string // what the edit did, e.g. "Move box"
+  snapshot: LayoutSnapshot
+  recordedAt: number
+  coalesceKey?: string
+}
+
+export interface LayoutCheckpoint {
+  id: string
+  name: string
+  createdAt: number
+  snapshot: LayoutSnapshot
+}
+
+export interface LayoutHistory {
+  past: HistoryEntry[] // oldest first; the last one is undone next
+  future: HistoryEntry[] // the first one is redone next
+  checkpoints: LayoutCheckpoint[]
+}
+
+export const EMPTY_LAYOUT_HISTORY: LayoutHistory = { past: [], future: [], checkpoints: [] }
+
+export function takeLayoutSnapshot(state: LayoutSnapshot): LayoutSnapshot {
+  return {
+    boxes: state.boxes,
+    unplaceableBoxes: state.unplaceableBoxes,
+    truckDimensions: state.truckDimensions,
+    vehicleModel: state.vehicleModel,
+    temperatureZoneLayout: state.temperatureZoneLayout,
+    packingDiagnostics: state.packingDiagnostics,
+    fleetPlan: state.fleetPlan,
+    activeTruckLoadId: state.activeTruckLoadId,
+  }
+}
+
+/**
+ * Records `snapshot` (the layout before the edit) and drops the redo stack.
+ * While edits with the same `coalesceKey` keep arriving within
+ * HISTORY_COALESCE_MS of each other, only the first one's snapshot is kept.
+ */
+export function recordEdit(
+  history: LayoutHistory,
+  snapshot: LayoutSnapshot,
+  label: string,
+  coalesceKey?: string,
+  now = Date.now(),
+): LayoutHistory {
+  const last = history.past[history.past.length - 1]
+  if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.recordedAt < HISTORY_COALESCE_MS) {
+    return { ...history, past: [...history.past.slice(0, -1), { ...last, recordedAt: now }], future: [] }
+  }
+
+  const entry: HistoryEntry = { label, snapshot, recordedAt: now, coalesceKey }
+  return { ...history, past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES), future: [] }
+}
+
+// The layout to go back to, or null when there is nothing to undo
+export function undoEdit(
+  history: LayoutHistory,
+  current: LayoutSnapshot,
+): { history: LayoutHistory; snapshot: LayoutSnapshot } | null {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      ...history,
+      past: history.past.slice(0, -1),
+      future: [{ ...entry, snapshot: current, coalesceKey: undefined }, ...history.future],
+    },
+  }
+}
+
+export function redoEdit(
+  history: LayoutHistory,
+  current: LayoutSnapshot,
+): { history: LayoutHistory; snapshot: LayoutSnapshot } | null {
+  const [entry, ...future] = history.future
+  if (!entry) return null
+
+  return {
+    snapshot: entry.snapshot,
+    history: {
+      ...history,
+      past: [...history.past, { ...entry, snapshot: current }],
+      future,
+    },
+  }
+}
+
+/**
+ * Stops are named by their place on the route, so reordering or removing one
+ * renames the others. The renames reach every state undo, redo or a
+ * checkpoint can bring back; otherwise they would hand a stop's boxes to
+ * whichever stop took its old name.
+ */
+export function renameBoxDestinations(boxes: Box[], renames: Map<string, string>): Box[] {
+  return boxes.map((box) => {
+    const destination = renames.get(box.destination)
+    return destination === undefined ? box : { ...box, destination }
+  })
+}
+
+export function renameSnapshotDestinations(snapshot: LayoutSnapshot, renames: Map<string, string>): LayoutSnapshot {
+  const { fleetPlan } = snapshot
+  return {
+    ...snapshot,
+    boxes: renameBoxDestinations(snapshot.boxes, renames),
+    unplaceableBoxes: renameBoxDestinations(snapshot.unplaceableBoxes, renames),
+    fleetPlan: fleetPlan && {
+      ...fleetPlan,
+      loads: fleetPlan.loads.map((load) => ({
+        ...load,
+        boxes: renameBoxDestinations(load.boxes, renames),
+        stops: load.stops.map((stop) => renames.get(stop) ?? stop),
+      })),
+      unplacedBoxes: renameBoxDestinations(fleetPlan.unplacedBoxes, renames),
+    },
+  }
+}
+
+export function renameHistoryDestinations(history: LayoutHistory, renames: Map<string, string>): LayoutHistory {
+  const renameEntry = <T extends { snapshot: LayoutSnapshot }>(entry: T): T => ({
+    ...entry,
+    snapshot: renameSnapshotDestinations(entry.snapshot, renames),
+  })
+  return {
+    past: history.past.map(renameEntry),
+    future: history.future.map(renameEntry),
+    checkpoints: history.checkpoints.map(renameEntry),
+  }
+}
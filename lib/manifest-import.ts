@@ -0,0 +1,317 @@
+// manifest-import.ts
+// Reads box manifests exported by the WMS (CSV or XLSX) and turns their rows
+// into box payloads. Columns are mapped to box fields by the user, helped by
+// a guess from the header names; dimensions and weights are converted to the
+// feet and pounds the packer works in, then every row goes through the same
+// validation as a scanned QR code. A row with a quantity becomes that many boxes.
+
+import type { BoxOrientation } from "@/types/box"
+import { validateBoxPayload, type BoxPayload } from "@/lib/box-validation"
+
+export type ManifestField =
+  | "name"
+  | "quantity"
+  | "width"
+  | "height"
+  | "length"
+  | "weight"
+  | "temperatureZone"
+  | "isFragile"
+  | "thisSideUp"
+  | "destination"
+  | "allowedOrientations"
+
+export type ColumnMapping = Partial<Record<ManifestField, number>> // field -> column index
+export type LengthUnit = "in" | "cm" | "ft"
+export type WeightUnit = "lb" | "kg"
+
+export interface ManifestUnits {
+  length: LengthUnit
+  weight: WeightUnit
+}
+
+export interface ManifestTable {
+  headers: string[]
+  rows: string[][]
+  firstRowNumber: number // spreadsheet row number of rows[0]
+}
+
+export interface ManifestRow {
+  rowNumber: number // as shown in the spreadsheet
+  quantity: number
+  payload: BoxPayload | null // null when the row has errors
+  errors: string[]
+  warnings: string[]
+}
+
+export const MANIFEST_FIELDS: { field: ManifestField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: "name", label: "Name", required: true, aliases: ["name", "description", "item", "sku", "product"] },
+  { field: "quantity", label: "Quantity", required: false, aliases: ["qty", "quantity", "count", "units", "pieces"] },
+  { field: "width", label: "Width", required: true, aliases: ["width", "w"] },
+  { field: "height", label: "Height", required: true, aliases: ["height", "h"] },
+  { field: "length", label: "Length", required: true, aliases: ["length", "l", "depth", "d"] },
+  { field: "weight", label: "Weight", required: true, aliases: ["weight", "wt", "gross weight", "mass"] },
+  { field: "temperatureZone", label: "Temperature zone", required: false, aliases: ["temperature zone", "temperature", "temp", "zone"] },
+  { field: "isFragile", label: "Fragile", required: false, aliases: ["fragile", "is fragile"] },
+  { field: "thisSideUp", label: "This side up", required: false, aliases: ["this side up", "upright", "keep upright"] },
+  { field: "destination", label: "Destination", required: false, aliases: ["destination", "dest", "store", "stop"] },
+  {
+    field: "allowedOrientations",
+    label: "Allowed orientations",
+    required: false,
+    aliases: ["allowed orientations", "orientations"],
+  },
+]
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; toFeet: number }> = {
+  in: { label: "Inches", toFeet: 1 / 12 },
+  cm: { label: "Centimeters", toFeet: 1 / 30.48 },
+  ft: { label: "Feet", toFeet: 1 },
+}
+
+export const WEIGHT_UNITS: Record<WeightUnit, { label: string; toPounds: number }> = {
+  lb: { label: "Pounds", toPounds: 1 },
+  kg: { label: "Kilograms", toPounds: 2.20462 },
+}
+
+// Guards against a stray extra digit turning one row into thousands of boxes
+export const MAX_ROW_QUANTITY = 1000
+
+const TRUE_VALUES = ["yes", "y", "true", "1", "x"]
+
+/* -------------------------------------------------------------------------- */
+/*                                FILE READING                                */
+/* -------------------------------------------------------------------------- */
+
+export async function readManifestFile(file: File): Promise<ManifestTable> {
+  const rows = /\.xlsx$/i.test(file.name)
+    ? await readXlsxRows(await file.arrayBuffer())
+    : parseCsv(await file.text())
+  const headerIndex = rows.findIndex((row) => row.some((cell) => cell.trim() !== ""))
+  if (headerIndex === -1) throw new Error("The file has no rows")
+
+  return {
+    headers: rows[headerIndex].map((header) => header.trim()),
+    rows: rows.slice(headerIndex + 1),
+    firstRowNumber: headerIndex + 2,
+  }
+}
+
+// RFC 4180 quoting; the delimiter (comma, semicolon or tab) is picked from the header line
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "") // Excel writes a byte order mark
+  const firstLine = content.slice(0, content.search(/\r?\n|$/))
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || row.length > 0) rows.push([...row, cell])
+  return rows
+}
+
+// First worksheet only, values as displayed text. Browser-only: relies on DOMParser.
+async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  const JSZip = (await import("jszip")).default
+  const zip = await JSZip.loadAsync(data)
+  const readXml = async (path: string) => {
+    const file = zip.file(path)
+    return file ? new DOMParser().parseFromString(await file.async("text"), "application/xml") : null
+  }
+
+  const workbook = await readXml("xl/workbook.xml")
+  const relationships = await readXml("xl/_rels/workbook.xml.rels")
+  const firstSheetId = workbook?.getElementsByTagName("sheet")[0]?.getAttribute("r:id")
+  const target = Array.from(relationships?.getElementsByTagName("Relationship") ?? [])
+    .find((relationship) => relationship.getAttribute("Id") === firstSheetId)
+    ?.getAttribute("Target")
+  const sheet = target ? await readXml(`xl/${target.replace(/^\/?xl\//, "")}`) : null
+  if (!sheet) throw new Error("Couldn't find a worksheet in the file")
+
+  const sharedStrings = Array.from((await readXml("xl/sharedStrings.xml"))?.getElementsByTagName("si") ?? []).map(
+    (item) => Array.from(item.getElementsByTagName("t")).map((text) => text.textContent ?? "").join(""),
+  )
+
+  // Empty rows are left out of the sheet, so rows are placed by their number
+  const rows: string[][] = []
+  for (const rowElement of Array.from(sheet.getElementsByTagName("row"))) {
+    const row: string[] = []
+    for (const cellElement of Array.from(rowElement.getElementsByTagName("c"))) {
+      const column = columnIndex(cellElement.getAttribute("r") ?? "") ?? row.length
+      const type = cellElement.getAttribute("t")
+      const value = cellElement.getElementsByTagName("v")[0]?.textContent ?? ""
+      row[column] =
+        type === "s"
+          ? (sharedStrings[Number(value)] ?? "")
+          : type === "inlineStr"
+            ? Array.from(cellElement.getElementsByTagName("t")).map((text) => text.textContent ?? "").join("")
+            : type === "b"
+              ? (value === "1" ? "TRUE" : "FALSE")
+              : value
+    }
+    rows[Number(rowElement.getAttribute("r") ?? rows.length + 1) - 1] = Array.from(row, (cell) => cell ?? "")
+  }
+  return Array.from(rows, (row) => row ?? [])
+}
+
+// "C7" -> 2
+function columnIndex(reference: string): number | null {
+  const letters = reference.match(/^[A-Z]+/)?.[0]
+  if (!letters) return null
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/* -------------------------------------------------------------------------- */
+/*                            MAPPING AND VALIDATION                          */
+/* -------------------------------------------------------------------------- */
+
+function normalizeHeader(header: string): string {
+  // "Width (in)" -> "width", "GROSS_WEIGHT" -> "gross weight"
+  return header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, "")
+    .replace(/[_\-.]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+  for (const { field, aliases } of MANIFEST_FIELDS) {
+    const column = normalized.findIndex((header, index) => !used.has(index) && aliases.includes(header))
+    if (column !== -1) {
+      mapping[field] = column
+      used.add(column)
+    }
+  }
+  return mapping
+}
+
+// Units written in the headers, e.g. "Width (cm)" or "Weight kg"
+export function guessUnits(headers: string[], mapping: ColumnMapping): ManifestUnits {
+  const headerOf = (field: ManifestField) => {
+    const column = mapping[field]
+    return column === undefined ? "" : headers[column].toLowerCase()
+  }
+  const dimensionHeaders = [headerOf("width"), headerOf("height"), headerOf("length")].join(" ")
+  const length: LengthUnit = /\bcm\b|centimet/.test(dimensionHeaders)
+    ? "cm"
+    : /\bft\b|feet|foot/.test(dimensionHeaders)
+      ? "ft"
+      : "in"
+  const weight: WeightUnit = /\bkgs?\b|kilo/.test(headerOf("weight")) ? "kg" : "lb"
+  return { length, weight }
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): string[] {
+  return MANIFEST_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined).map(
+    ({ label }) => label,
+  )
+}
+
+function parseNumber(value: string): number | undefined {
+  const trimmed = value.replace(/,/g, "").trim()
+  return trimmed === "" ? undefined : Number(trimmed)
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+export function validateManifestRows(
+  table: ManifestTable,
+  mapping: ColumnMapping,
+  units: ManifestUnits,
+  availableDestinations: string[],
+): ManifestRow[] {
+  const lengthFactor = LENGTH_UNITS[units.length].toFeet
+  const weightFactor = WEIGHT_UNITS[units.weight].toPounds
+
+  return table.rows
+    .map((cells, index) => ({ cells, rowNumber: table.firstRowNumber + index }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""))
+    .map(({ cells, rowNumber }) => {
+      const cell = (field: ManifestField) => {
+        const column = mapping[field]
+        return column === undefined ? "" : (cells[column] ?? "").trim()
+      }
+      const converted = (field: ManifestField, factor: number) => {
+        const value = parseNumber(cell(field))
+        return value === undefined || Number.isNaN(value) ? value : roundTo(value * factor, 3)
+      }
+      const orientations = cell("allowedOrientations")
+
+      const raw: Record<string, unknown> = {
+        name: cell("name"),
+        width: converted("width", lengthFactor),
+        height: converted("height", lengthFactor),
+        length: converted("length", lengthFactor),
+        weight: converted("weight", weightFactor),
+        // Manifests without a zone column hold dry goods
+        temperatureZone: mapping.temperatureZone === undefined ? "regular" : cell("temperatureZone").toLowerCase(),
+        isFragile: TRUE_VALUES.includes(cell("isFragile").toLowerCase()),
+        thisSideUp: TRUE_VALUES.includes(cell("thisSideUp").toLowerCase()),
+        destination: cell("destination"),
+        ...(orientations && {
+          allowedOrientations: orientations.split(/[\s,;|]+/).filter(Boolean) as BoxOrientation[],
+        }),
+      }
+
+      const errors: string[] = []
+      const quantity = parseNumber(cell("quantity")) ?? 1
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        errors.push("quantity must be a whole number of at least 1")
+      } else if (quantity > MAX_ROW_QUANTITY) {
+        errors.push(`quantity must be at most ${MAX_ROW_QUANTITY}`)
+      }
+
+      try {
+        const { payload, warnings } = validateBoxPayload(raw, availableDestinations)
+        return { rowNumber, quantity, payload: errors.length ? null : payload, errors, warnings }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error))
+        return { rowNumber, quantity, payload: null, errors, warnings: [] }
+      }
+    })
+}
+
+// One payload per box to add: a row with quantity 12 becomes 12 numbered boxes
+export function expandManifestRows(rows: ManifestRow[]): BoxPayload[] {
+  return rows.flatMap(({ payload, quantity }) => {
+    if (!payload) return []
+    if (quantity === 1) return [payload]
+    return Array.from({ length: quantity }, (_, index) => ({ ...payload, name: `${payload.name} #${index + 1}` }))
+  })
+}
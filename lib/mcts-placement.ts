@@ -1,6 +1,9 @@
 
-import type { Box } from '@/types/box'
+import type { Box, VehicleModel } from '@/types/box'
 import { GraphStateEncoder, type GraphNode } from './graph-state'
+import { computeStackLoads, wouldOverloadStack, type StackLoad } from '@/lib/stacking-rules'
+import { isSpanInAcceptingCompartments, type ResolvedCompartment } from '@/lib/temperature-zones'
+import { computeAxleLoads, wouldExceedAxleLimits, type AxleLoad } from '@/lib/axle-loads'
 
 interface MCTSNode {
   graph: GraphStateEncoder
@@ -14,6 +17,13 @@ interface MCTSNode {
   isFullyExpanded: boolean
 }
 
+export interface MCTSPlacementRules {
+  compartments?: ResolvedCompartment[] // the resolved zone layout; none means zones are ignored
+  strictTemperatureZones?: boolean // reject positions outside the box's zone instead of scoring them down
+  vehicle?: VehicleModel // reject positions that would overload an axle
+  maxWeight?: number // payload in lbs, counting boxes already in the truck
+}
+
 export class MCTSPlacementOptimizer {
   private explorationConstant = Math.sqrt(2)
   private maxIterations = 150 // Reduced for performance
@@ -21,7 +31,7 @@ export class MCTSPlacementOptimizer {
 
   constructor(
     private truckDimensions: { width: number; length: number; height: number },
-    private constraints: any = {}
+    private rules: MCTSPlacementRules = {}
   ) {}
 
   findOptimalPlacement(boxes: Box[], existingBoxes: Box[] = []): Box[] {
@@ -124,6 +134,11 @@ export class MCTSPlacementOptimizer {
   }
 
   private generateCandidatePositions(node: MCTSNode, box: Box): { x: number; y: number; z: number }[] {
+    // A box that would take the load past the payload has nowhere to go
+    const { maxWeight = Infinity } = this.rules
+    const loadedWeight = node.stateBoxes.reduce((sum, placedBox) => sum + placedBox.weight, 0)
+    if (loadedWeight + box.weight > maxWeight) return []
+
     const positions: { x: number; y: number; z: number }[] = []
     const gridSize = 0.5 // Coarser grid for performance
     
@@ -138,9 +153,10 @@ export class MCTSPlacementOptimizer {
       }
     }
     
-    // Stack positions (only on boxes that can support)
+    // Stack positions (only on boxes that can support), resting right on the box
+    // below so the stacking rules see the contact
     for (const placedBox of node.stateBoxes) {
-      const stackY = placedBox.position.y + placedBox.height/2 + box.height/2 + 0.05
+      const stackY = placedBox.position.y + placedBox.height/2 + box.height/2
       
       if (stackY + box.height/2 <= this.truckDimensions.height) {
         // Check if the placed box can support this box (weight and size)
@@ -158,19 +174,28 @@ export class MCTSPlacementOptimizer {
     }
     
     // Filter and sort positions by quality
+    const stackLoads = computeStackLoads(node.stateBoxes)
+    const { vehicle } = this.rules
+    const axleLoads = vehicle ? computeAxleLoads(node.stateBoxes, vehicle, this.truckDimensions) : null
     return positions
-      .filter(pos => this.isValidPosition(node, box, pos))
+      .filter(pos => this.isValidPosition(node, box, pos, stackLoads, axleLoads))
       .sort((a, b) => this.evaluatePosition(node, box, b) - this.evaluatePosition(node, box, a))
       .slice(0, 12) // Limit to top 12 positions
   }
 
-  private isValidPosition(node: MCTSNode, box: Box, position: { x: number; y: number; z: number }): boolean {
+  private isValidPosition(
+    node: MCTSNode,
+    box: Box,
+    position: { x: number; y: number; z: number },
+    stackLoads: Map<string, StackLoad>,
+    axleLoads: AxleLoad[] | null
+  ): boolean {
     const tolerance = 0.05
     
     // Check bounds
     if (position.x - box.width/2 < -this.truckDimensions.width/2 + tolerance ||
         position.x + box.width/2 > this.truckDimensions.width/2 - tolerance ||
-        position.y - box.height/2 < tolerance ||
+        position.y - box.height/2 < -tolerance || // boxes may rest directly on the floor
         position.y + box.height/2 > this.truckDimensions.height - tolerance ||
         position.z - box.length/2 < -this.truckDimensions.length/2 + tolerance ||
         position.z + box.length/2 > this.truckDimensions.length/2 - tolerance) {
@@ -179,19 +204,13 @@ export class MCTSPlacementOptimizer {
 
     // Check collisions with existing boxes
     for (const existingBox of node.stateBoxes) {
-      if (this.boxesOverlap(box, position, existingBox, existingBox.position, tolerance)) {
+      if (this.boxesOverlap(box, position, existingBox, existingBox.position)) {
         return false
       }
     }
 
     // Check zone constraints
-    if (box.temperatureRequirement === 'frozen') {
-      const inFrozenZone = position.x >= 2 && position.x <= 5 && position.z >= -4 && position.z <= -2
-      if (!inFrozenZone) return false
-    } else if (box.temperatureRequirement === 'cold') {
-      const inColdZone = position.x >= -5 && position.x <= -2 && position.z >= -4 && position.z <= -2
-      if (!inColdZone) return false
-    }
+    if (this.rules.strictTemperatureZones && !this.isInAcceptingCompartment(box, position)) return false
 
     // Support check for stacked positions
     if (position.y > box.height/2 + 0.2) {
@@ -200,17 +219,28 @@ export class MCTSPlacementOptimizer {
       if (supportArea < minSupport) return false
     }
 
+    // Crush ratings and stack limits of everything below, as the other packers check
+    if (wouldOverloadStack({ ...box, position }, node.stateBoxes, stackLoads)) return false
+
+    // Steer and drive axle limits and the gross weight limit
+    const { vehicle } = this.rules
+    if (vehicle && axleLoads && wouldExceedAxleLimits({ ...box, position }, axleLoads, vehicle, this.truckDimensions)) {
+      return false
+    }
+
     return true
   }
 
+  // Faces may touch; the epsilon absorbs rounding where they do
   private boxesOverlap(box1: Box, pos1: { x: number; y: number; z: number }, 
-                      box2: Box, pos2: { x: number; y: number; z: number }, tolerance: number = 0): boolean {
-    return !(pos1.x + box1.width/2 + tolerance <= pos2.x - box2.width/2 ||
-             pos1.x - box1.width/2 >= pos2.x + box2.width/2 + tolerance ||
-             pos1.y + box1.height/2 + tolerance <= pos2.y - box2.height/2 ||
-             pos1.y - box1.height/2 >= pos2.y + box2.height/2 + tolerance ||
-             pos1.z + box1.length/2 + tolerance <= pos2.z - box2.length/2 ||
-             pos1.z - box1.length/2 >= pos2.z + box2.length/2 + tolerance)
+                      box2: Box, pos2: { x: number; y: number; z: number }): boolean {
+    const epsilon = 0.001
+    return !(pos1.x + box1.width/2 - epsilon <= pos2.x - box2.width/2 ||
+             pos1.x - box1.width/2 + epsilon >= pos2.x + box2.width/2 ||
+             pos1.y + box1.height/2 - epsilon <= pos2.y - box2.height/2 ||
+             pos1.y - box1.height/2 + epsilon >= pos2.y + box2.height/2 ||
+             pos1.z + box1.length/2 - epsilon <= pos2.z - box2.length/2 ||
+             pos1.z - box1.length/2 + epsilon >= pos2.z + box2.length/2)
   }
 
   private evaluatePosition(node: MCTSNode, box: Box, position: { x: number; y: number; z: number }): number {
@@ -232,11 +262,7 @@ export class MCTSPlacementOptimizer {
     score += (15 - Math.min(accessDistance, 15)) * 3
     
     // Temperature zone bonus
-    if (box.temperatureRequirement === 'frozen' && 
-        position.x >= 2 && position.x <= 5 && position.z >= -4 && position.z <= -2) {
-      score += 40
-    } else if (box.temperatureRequirement === 'cold' && 
-               position.x >= -5 && position.x <= -2 && position.z >= -4 && position.z <= -2) {
+    if (this.hasZones() && this.isInAcceptingCompartment(box, position)) {
       score += 40
     }
     
@@ -246,6 +272,20 @@ export class MCTSPlacementOptimizer {
     return score
   }
 
+  private hasZones(): boolean {
+    return (this.rules.compartments?.length ?? 0) > 0
+  }
+
+  // The box's whole length has to lie in compartments that take its zone
+  private isInAcceptingCompartment(box: Box, position: { x: number; y: number; z: number }): boolean {
+    return isSpanInAcceptingCompartments(
+      this.rules.compartments ?? [],
+      box.temperatureZone,
+      position.z - box.length/2,
+      position.z + box.length/2
+    )
+  }
+
   private calculateSupportArea(node: MCTSNode, box: Box, position: { x: number; y: number; z: number }): number {
     let supportArea = 0
     
@@ -363,15 +403,9 @@ export class MCTSPlacementOptimizer {
     }
     
     // Zone compliance bonus
-    for (const box of boxes) {
-      if (box.temperatureRequirement === 'frozen' && 
-          box.position.x >= 2 && box.position.x <= 5 && 
-          box.position.z >= -4 && box.position.z <= -2) {
-        score += 50
-      } else if (box.temperatureRequirement === 'cold' && 
-                 box.position.x >= -5 && box.position.x <= -2 && 
-                 box.position.z >= -4 && box.position.z <= -2) {
-        score += 50
+    if (this.hasZones()) {
+      for (const box of boxes) {
+        if (this.isInAcceptingCompartment(box, box.position)) score += 50
       }
     }
     
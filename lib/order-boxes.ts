@@ -0,0 +1,80 @@
+// order-boxes.ts
+// Turns orders into the cases that go on the truck. An order's quantity is in
+// units, so it fills ceil(quantity / unitsPerCase) cases of the product's case
+// size; the last case may be part full and weighs only what it holds. Box ids
+// carry the order id, which is how an order already on the load is recognised.
+
+import type { Box } from "@/types/box"
+import type { Order } from "@/types/orders"
+
+// Above this an order is almost certainly a data-entry slip, and it would stall the packer
+export const MAX_CASES_PER_ORDER = 1000
+
+export interface SkippedOrder {
+  order: Order
+  reason: string
+}
+
+export function getCaseCount(order: Pick<Order, "quantity" | "product">): number {
+  return Math.ceil(order.quantity / order.product.case.unitsPerCase)
+}
+
+function orderBoxIdPrefix(orderId: number): string {
+  return `order-${orderId}-`
+}
+
+export function isOrderLoaded(orderId: number, boxes: Pick<Box, "id">[]): boolean {
+  const prefix = orderBoxIdPrefix(orderId)
+  return boxes.some((box) => box.id.startsWith(prefix))
+}
+
+// New boxes wait at the door like any other added box, for the next placement run
+export function orderToBoxes(order: Order, destination: string): Box[] {
+  const { product } = order
+  const caseCount = getCaseCount(order)
+  return Array.from({ length: caseCount }, (_, index) => {
+    const units = Math.min(product.case.unitsPerCase, order.quantity - index * product.case.unitsPerCase)
+    return {
+      id: `${orderBoxIdPrefix(order.id)}${index + 1}`,
+      name: caseCount > 1 ? `${product.name} #${order.id} (${index + 1}/${caseCount})` : `${product.name} #${order.id}`,
+      width: product.case.width,
+      height: product.case.height,
+      length: product.case.length,
+      weight: Math.round(units * product.weight * 10) / 10,
+      position: { x: 0, y: 0.5, z: 0 },
+      temperatureZone: product.temperatureZone,
+      isFragile: product.isFragile,
+      destination,
+      isNew: true,
+      ...(product.thisSideUp && { thisSideUp: true }),
+      ...(product.crushFactor !== null && { crushFactor: product.crushFactor }),
+      ...(product.stackLimit !== null && { stackLimit: product.stackLimit }),
+    }
+  })
+}
+
+/**
+ * Boxes for every order not already on the load. `getDestination` names the
+ * delivery stop for an order's retailer, adding one to the route if needed.
+ */
+export function ordersToBoxes(
+  orders: Order[],
+  loadedBoxes: Pick<Box, "id">[],
+  getDestination: (order: Order) => string,
+): { boxes: Box[]; addedOrders: Order[]; skipped: SkippedOrder[] } {
+  const boxes: Box[] = []
+  const addedOrders: Order[] = []
+  const skipped: SkippedOrder[] = []
+
+  for (const order of orders) {
+    if (isOrderLoaded(order.id, loadedBoxes)) {
+      skipped.push({ order, reason: "already on the load" })
+    } else if (getCaseCount(order) > MAX_CASES_PER_ORDER) {
+      skipped.push({ order, reason: `more than ${MAX_CASES_PER_ORDER} cases` })
+    } else {
+      boxes.push(...orderToBoxes(order, getDestination(order)))
+      addedOrders.push(order)
+    }
+  }
+  return { boxes, addedOrders, skipped }
+}
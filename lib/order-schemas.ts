@@ -0,0 +1,174 @@
+// order-schemas.ts
+// Request validation for the orders, products, warehouses, shortage-alerts
+// and retailers APIs (inventory, sales and replenishment included), and the
+// status, priority and severity values they accept. The UIs import the lists
+// from here so filters and selects stay in step with the server.
+
+import { z } from "zod"
+import type { OrderPriority, OrderStatus, ShortageSeverity } from "@/types/orders"
+import type { ReplenishmentStrategy } from "@/types/replenishment"
+import type { UserRole } from "@/types/auth"
+import { REPLENISHMENT_STRATEGIES } from "@/lib/replenishment"
+
+export const ORDER_STATUSES: OrderStatus[] = ["pending", "confirmed", "in_transit", "delivered", "rejected"]
+export const ORDER_PRIORITIES: OrderPriority[] = ["low", "normal", "high"]
+export const SHORTAGE_SEVERITIES: ShortageSeverity[] = ["low", "medium", "high", "critical"]
+
+// What retailers and the approval queue call each status
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Approved",
+  in_transit: "In transit",
+  delivered: "Fulfilled",
+  rejected: "Rejected",
+}
+
+// The warehouse approves or rejects a pending order; an approved one can be
+// sent back for review until it ships, and a rejected one reopened
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "rejected"],
+  confirmed: ["in_transit", "pending", "rejected"],
+  in_transit: ["delivered"],
+  delivered: [],
+  rejected: ["pending"],
+}
+
+export function canChangeOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+// Who may move an order into each status: approvals stay with the admin,
+// loaders ship, drivers ship and deliver
+export const ORDER_STATUS_ROLES: Record<OrderStatus, UserRole[]> = {
+  pending: ["warehouse_admin"],
+  confirmed: ["warehouse_admin"],
+  rejected: ["warehouse_admin"],
+  in_transit: ["warehouse_admin", "loader", "driver"],
+  delivered: ["warehouse_admin", "driver"],
+}
+
+const orderStatusSchema = z.enum(ORDER_STATUSES as [OrderStatus, ...OrderStatus[]])
+const orderPrioritySchema = z.enum(ORDER_PRIORITIES as [OrderPriority, ...OrderPriority[]])
+const severitySchema = z.enum(SHORTAGE_SEVERITIES as [ShortageSeverity, ...ShortageSeverity[]])
+const idSchema = z.number().int().positive()
+
+export const createOrderSchema = z.object({
+  retailId: idSchema,
+  productId: idSchema,
+  warehouseId: idSchema.nullable().optional(),
+  quantity: z.number().int().positive(),
+  // Defaults to DEFAULT_DELIVERY_LEAD_DAYS after the order is placed
+  deliveryDate: z.string().datetime().optional(),
+  priority: orderPrioritySchema.optional(),
+  sourceAlertId: z.string().min(1).optional(),
+})
+
+// A batch is saved whole or not at all, so a retailer never half-submits a cart
+export const createOrdersSchema = z.object({
+  orders: z.array(createOrderSchema).min(1).max(100),
+})
+
+export const orderStatusUpdateSchema = z.object({
+  status: orderStatusSchema,
+  // Shown to the retailer, e.g. why the order was rejected
+  note: z.string().trim().min(1).max(500).optional(),
+  // The warehouse that will ship it, usually picked on approval
+  warehouseId: idSchema.optional(),
+})
+
+export const orderFiltersSchema = z.object({
+  status: orderStatusSchema.optional(),
+  retailId: z.coerce.number().int().positive().optional(),
+})
+
+export const productSchema = z.object({
+  sku: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  category: z.string().trim().min(1),
+  weight: z.number().positive(),
+  price: z.number().nonnegative(),
+  image: z.string().min(1).nullable().optional(),
+  case: z.object({
+    width: z.number().positive(),
+    height: z.number().positive(),
+    length: z.number().positive(),
+    unitsPerCase: z.number().int().positive(),
+  }),
+  temperatureZone: z.enum(["regular", "cold", "frozen"]),
+  isFragile: z.boolean(),
+  thisSideUp: z.boolean(),
+  crushFactor: z.number().min(0).max(1).nullable().optional(),
+  stackLimit: z.number().int().nonnegative().nullable().optional(),
+})
+
+export const createWarehouseSchema = z.object({
+  name: z.string().trim().min(1),
+  address: z.string().trim().min(1),
+  coordinates: z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }),
+  capacity: z.number().int().nonnegative(),
+})
+
+export const createShortageAlertSchema = z.object({
+  retailId: idSchema,
+  productId: idSchema,
+  severity: severitySchema,
+  currentStock: z.number().int().nonnegative(),
+  minStock: z.number().int().nonnegative(),
+  suggestedQuantity: z.number().int().positive(),
+})
+
+export const shortageAlertUpdateSchema = z.object({
+  resolved: z.boolean(),
+})
+
+export const shortageAlertFiltersSchema = z.object({
+  resolved: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  retailId: z.coerce.number().int().positive().optional(),
+})
+
+export const notificationFiltersSchema = z.object({
+  unread: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+})
+
+// Without ids every notification of the retailer is marked read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).optional(),
+})
+
+// One row per product and day; sending a day again replaces its total
+export const recordSalesSchema = z.object({
+  sales: z
+    .array(
+      z.object({
+        productId: idSchema,
+        day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date"),
+        unitsSold: z.number().int().nonnegative(),
+      }),
+    )
+    .min(1)
+    .max(5000),
+})
+
+const strategySchema = z
+  .enum(REPLENISHMENT_STRATEGIES as [ReplenishmentStrategy, ...ReplenishmentStrategy[]])
+  .default("balanced")
+
+export const replenishmentQuerySchema = z.object({
+  strategy: strategySchema,
+})
+
+export const backtestQuerySchema = z.object({
+  strategy: strategySchema,
+  days: z.coerce.number().int().min(7).max(365).default(60),
+})
+
+export type CreateOrderInput = z.infer<typeof createOrderSchema>
+export type OrderStatusUpdate = z.infer<typeof orderStatusUpdateSchema>
+export type ProductInput = z.infer<typeof productSchema>
+export type CreateWarehouseInput = z.infer<typeof createWarehouseSchema>
+export type CreateShortageAlertInput = z.infer<typeof createShortageAlertSchema>
+export type OrderFilters = z.infer<typeof orderFiltersSchema>
+export type ShortageAlertFilters = z.infer<typeof shortageAlertFiltersSchema>
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>
+export type RecordSalesInput = z.infer<typeof recordSalesSchema>
+export type BacktestQuery = z.infer<typeof backtestQuerySchema>
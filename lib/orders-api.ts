@@ -0,0 +1,129 @@
+// orders-api.ts
+// Browser-side calls to the orders, warehouses, shortage-alerts and retailers
+// routes.
+// Paths are relative, so the dashboards talk to whichever server rendered
+// them. Every call throws an OrdersApiError on failure; status 0 means the
+// server couldn't be reached.
+
+import type {
+  InventoryItem,
+  Order,
+  OrderNotification,
+  Retailer,
+  ShortageAlert,
+  Warehouse,
+} from "@/types/orders"
+import type {
+  CreateOrderInput,
+  NotificationFilters,
+  OrderFilters,
+  OrderStatusUpdate,
+  ShortageAlertFilters,
+} from "@/lib/order-schemas"
+import type { ProductBacktest, ReplenishmentStrategy, ReplenishmentSuggestion } from "@/types/replenishment"
+
+export class OrdersApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "OrdersApiError"
+  }
+
+  get isOffline(): boolean {
+    return this.status === 0
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(`/api${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    })
+  } catch (error) {
+    throw new OrdersApiError(0, error instanceof Error ? error.message : "Network request failed")
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new OrdersApiError(response.status, body?.error ?? response.statusText)
+  }
+  return (await response.json()) as T
+}
+
+function toQueryString(params: Record<string, string | number | boolean | undefined>): string {
+  const search = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) search.set(key, String(value))
+  })
+  const query = search.toString()
+  return query ? `?${query}` : ""
+}
+
+export async function fetchOrders(filters: OrderFilters = {}): Promise<Order[]> {
+  return (await request<{ orders: Order[] }>(`/orders${toQueryString(filters)}`)).orders
+}
+
+export async function createOrder(input: CreateOrderInput): Promise<Order> {
+  return (await request<{ order: Order }>("/orders", { method: "POST", body: JSON.stringify(input) })).order
+}
+
+export async function createOrders(inputs: CreateOrderInput[]): Promise<Order[]> {
+  const init = { method: "POST", body: JSON.stringify({ orders: inputs }) }
+  return (await request<{ orders: Order[] }>("/orders/batch", init)).orders
+}
+
+export async function updateOrderStatus(id: number, update: OrderStatusUpdate): Promise<Order> {
+  const init = { method: "PATCH", body: JSON.stringify(update) }
+  return (await request<{ order: Order }>(`/orders/${id}`, init)).order
+}
+
+export async function fetchWarehouses(): Promise<Warehouse[]> {
+  return (await request<{ warehouses: Warehouse[] }>("/warehouses")).warehouses
+}
+
+export async function fetchShortageAlerts(filters: ShortageAlertFilters = {}): Promise<ShortageAlert[]> {
+  return (await request<{ alerts: ShortageAlert[] }>(`/shortage-alerts${toQueryString(filters)}`)).alerts
+}
+
+export async function fetchRetailers(): Promise<Retailer[]> {
+  return (await request<{ retailers: Retailer[] }>("/retailers")).retailers
+}
+
+export async function fetchInventory(retailId: number): Promise<InventoryItem[]> {
+  return (await request<{ inventory: InventoryItem[] }>(`/retailers/${retailId}/inventory`)).inventory
+}
+
+export async function fetchNotifications(
+  retailId: number,
+  filters: NotificationFilters = {},
+): Promise<OrderNotification[]> {
+  const path = `/retailers/${retailId}/notifications${toQueryString(filters)}`
+  return (await request<{ notifications: OrderNotification[] }>(path)).notifications
+}
+
+export async function markNotificationsRead(retailId: number, ids?: string[]): Promise<OrderNotification[]> {
+  const init = { method: "PATCH", body: JSON.stringify({ ids }) }
+  const path = `/retailers/${retailId}/notifications`
+  return (await request<{ notifications: OrderNotification[] }>(path, init)).notifications
+}
+
+export async function fetchReplenishment(
+  retailId: number,
+  strategy: ReplenishmentStrategy,
+): Promise<ReplenishmentSuggestion[]> {
+  const path = `/retailers/${retailId}/replenishment${toQueryString({ strategy })}`
+  return (await request<{ suggestions: ReplenishmentSuggestion[] }>(path)).suggestions
+}
+
+export async function fetchReplenishmentBacktest(
+  retailId: number,
+  strategy: ReplenishmentStrategy,
+  days?: number,
+): Promise<ProductBacktest[]> {
+  const path = `/retailers/${retailId}/replenishment/backtest${toQueryString({ strategy, days })}`
+  return (await request<{ backtests: ProductBacktest[] }>(path)).backtests
+}
@@ -0,0 +1,546 @@
+// orders-db.ts
+// Reads and writes orders, products, warehouses, shortage alerts and each
+// retailer's inventory and notifications through Prisma for the app/api
+// route handlers. Everything handed back uses the
+// shapes in types/orders.ts, with related retailer, product and warehouse
+// inlined so the dashboards can render a row without a second request.
+// Server-side only.
+
+import { prisma } from "@/lib/prisma"
+import { ApiError, notFound } from "@/lib/api-route"
+import { ORDER_STATUS_LABELS, canChangeOrderStatus } from "@/lib/order-schemas"
+import { FORECAST_WINDOW_DAYS, backtestReplenishment, planReplenishment } from "@/lib/replenishment"
+import type {
+  InventoryItem,
+  Order,
+  OrderNotification,
+  OrderPriority,
+  OrderStatus,
+  Product,
+  Retailer,
+  ShortageAlert,
+  ShortageSeverity,
+  Warehouse,
+} from "@/types/orders"
+import type { TemperatureZone } from "@/types/box"
+import type { ProductBacktest, ReplenishmentStrategy, ReplenishmentSuggestion } from "@/types/replenishment"
+import type {
+  CreateOrderInput,
+  CreateShortageAlertInput,
+  CreateWarehouseInput,
+  NotificationFilters,
+  OrderFilters,
+  OrderStatusUpdate,
+  ProductInput,
+  RecordSalesInput,
+  ShortageAlertFilters,
+} from "@/lib/order-schemas"
+
+type RetailerRow = Awaited<ReturnType<typeof prisma.retailer.findUniqueOrThrow>>
+type WarehouseRow = Awaited<ReturnType<typeof prisma.warehouse.findUniqueOrThrow>>
+type ProductRow = Awaited<ReturnType<typeof prisma.product.findUniqueOrThrow>>
+type OrderRow = Awaited<ReturnType<typeof prisma.order.findUniqueOrThrow>>
+type ShortageAlertRow = Awaited<ReturnType<typeof prisma.shortageAlert.findUniqueOrThrow>>
+type InventoryItemRow = Awaited<ReturnType<typeof prisma.inventoryItem.findUniqueOrThrow>>
+type NotificationRow = Awaited<ReturnType<typeof prisma.orderNotification.findUniqueOrThrow>>
+// The transaction client passed to prisma.$transaction callbacks
+type Db = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// When an order doesn't say, it is due this many days after it is placed
+export const DEFAULT_DELIVERY_LEAD_DAYS = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Orders whose units are coming but haven't reached the shelf
+const OPEN_ORDER_STATUSES: OrderStatus[] = ["pending", "confirmed", "in_transit"]
+
+const orderInclude = { retail: true, product: true, warehouse: true }
+const alertInclude = { retail: true, product: true }
+
+/* -------------------------------------------------------------------------- */
+/*                                 ROW MAPPING                                */
+/* -------------------------------------------------------------------------- */
+
+function toRetailer(row: RetailerRow): Retailer {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    phone: row.phone,
+    location: row.location,
+    coordinates: row.latitude !== null && row.longitude !== null ? { lat: row.latitude, lng: row.longitude } : null,
+  }
+}
+
+function toWarehouse(row: WarehouseRow): Warehouse {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    coordinates: { lat: row.latitude, lng: row.longitude },
+    capacity: row.capacity,
+  }
+}
+
+function toProduct(row: ProductRow): Product {
+  return {
+    id: row.id,
+    sku: row.sku,
+    name: row.name,
+    category: row.category,
+    weight: row.weight,
+    price: row.price,
+    image: row.image,
+    case: { width: row.caseWidth, height: row.caseHeight, length: row.caseLength, unitsPerCase: row.unitsPerCase },
+    temperatureZone: row.temperatureZone as TemperatureZone,
+    isFragile: row.isFragile,
+    thisSideUp: row.thisSideUp,
+    crushFactor: row.crushFactor,
+    stackLimit: row.stackLimit,
+  }
+}
+
+function toProductColumns(input: Partial<ProductInput>) {
+  const { case: productCase, ...rest } = input
+  return {
+    ...rest,
+    ...(productCase && {
+      caseWidth: productCase.width,
+      caseHeight: productCase.height,
+      caseLength: productCase.length,
+      unitsPerCase: productCase.unitsPerCase,
+    }),
+  }
+}
+
+function toOrder(row: OrderRow & { retail: RetailerRow; product: ProductRow; warehouse: WarehouseRow | null }): Order {
+  return {
+    id: row.id,
+    retailId: row.retailId,
+    productId: row.productId,
+    warehouseId: row.warehouseId,
+    quantity: row.quantity,
+    totalWeight: row.totalWeight,
+    deliveryDate: row.deliveryDate.toISOString(),
+    status: row.status as OrderStatus,
+    statusNote: row.statusNote,
+    priority: row.priority as OrderPriority,
+    sourceAlertId: row.sourceAlertId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    retail: toRetailer(row.retail),
+    product: toProduct(row.product),
+    warehouse: row.warehouse ? toWarehouse(row.warehouse) : null,
+  }
+}
+
+function toShortageAlert(row: ShortageAlertRow & { retail: RetailerRow; product: ProductRow }): ShortageAlert {
+  return {
+    id: row.id,
+    retailId: row.retailId,
+    productId: row.productId,
+    severity: row.severity as ShortageSeverity,
+    currentStock: row.currentStock,
+    minStock: row.minStock,
+    suggestedQuantity: row.suggestedQuantity,
+    resolved: row.resolved,
+    triggeredAt: row.triggeredAt.toISOString(),
+    resolvedAt: row.resolvedAt ? row.resolvedAt.toISOString() : null,
+    retail: toRetailer(row.retail),
+    product: toProduct(row.product),
+  }
+}
+
+function toInventoryItem(row: InventoryItemRow & { product: ProductRow }): InventoryItem {
+  return {
+    id: row.id,
+    retailId: row.retailId,
+    currentStock: row.currentStock,
+    minStock: row.minStock,
+    maxStock: row.maxStock,
+    leadTimeDays: row.leadTimeDays,
+    supplierReliability: row.supplierReliability,
+    product: toProduct(row.product),
+  }
+}
+
+function toNotification(row: NotificationRow): OrderNotification {
+  return {
+    id: row.id,
+    retailId: row.retailId,
+    orderId: row.orderId,
+    status: row.status as OrderStatus,
+    message: row.message,
+    read: row.read,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   ORDERS                                   */
+/* -------------------------------------------------------------------------- */
+
+export async function listOrders(filters: OrderFilters = {}): Promise<Order[]> {
+  const rows = await prisma.order.findMany({
+    where: {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.retailId && { retailId: filters.retailId }),
+    },
+    orderBy: { createdAt: "desc" },
+    include: orderInclude,
+  })
+  return rows.map(toOrder)
+}
+
+export async function getOrder(id: number): Promise<Order | null> {
+  const row = await prisma.order.findUnique({ where: { id }, include: orderInclude })
+  return row ? toOrder(row) : null
+}
+
+// Placing an order raised from a shortage alert resolves the alert with it
+async function placeOrder(db: Db, input: CreateOrderInput): Promise<OrderRow> {
+  const [retailer, product] = await Promise.all([
+    db.retailer.findUnique({ where: { id: input.retailId } }),
+    db.product.findUnique({ where: { id: input.productId } }),
+  ])
+  if (!retailer) throw notFound("Retailer")
+  if (!product) throw notFound("Product")
+  if (input.warehouseId && !(await db.warehouse.findUnique({ where: { id: input.warehouseId } }))) {
+    throw notFound("Warehouse")
+  }
+
+  if (input.sourceAlertId) {
+    const alert = await db.shortageAlert.findUnique({ where: { id: input.sourceAlertId }, include: { order: true } })
+    if (!alert) throw notFound("Shortage alert")
+    if (alert.retailId !== input.retailId) throw new ApiError(400, "Shortage alert belongs to another retailer")
+    if (alert.order) throw new ApiError(409, `Shortage alert already has order #${alert.order.id}`)
+    await db.shortageAlert.update({
+      where: { id: alert.id },
+      data: { resolved: true, resolvedAt: new Date() },
+    })
+  }
+
+  const placedAt = new Date()
+  return db.order.create({
+    include: orderInclude,
+    data: {
+      retailId: input.retailId,
+      productId: input.productId,
+      warehouseId: input.warehouseId ?? null,
+      quantity: input.quantity,
+      totalWeight: Math.round(input.quantity * product.weight * 10) / 10,
+      deliveryDate: input.deliveryDate
+        ? new Date(input.deliveryDate)
+        : new Date(placedAt.getTime() + DEFAULT_DELIVERY_LEAD_DAYS * DAY_MS),
+      ...(input.priority && { priority: input.priority }),
+      sourceAlertId: input.sourceAlertId ?? null,
+      createdAt: placedAt,
+    },
+  })
+}
+
+export async function createOrder(input: CreateOrderInput): Promise<Order> {
+  return toOrder(await prisma.$transaction((db: Db) => placeOrder(db, input)))
+}
+
+// All or nothing: one bad line fails the whole batch
+export async function createOrders(inputs: CreateOrderInput[]): Promise<Order[]> {
+  const rows = await prisma.$transaction(async (db: Db) => {
+    const created: OrderRow[] = []
+    for (const input of inputs) created.push(await placeOrder(db, input))
+    return created
+  })
+  return rows.map(toOrder)
+}
+
+function statusMessage(order: Order, status: OrderStatus, note: string | null): string {
+  const message = `Order #${order.id} (${order.quantity} × ${order.product.name}) is now ${ORDER_STATUS_LABELS[status].toLowerCase()}`
+  return note ? `${message}: ${note}` : message
+}
+
+/**
+ * Moves an order along ORDER_STATUS_TRANSITIONS, tells its retailer with a
+ * notification, and on delivery adds the quantity to the retailer's stock.
+ * Setting the status it already has only updates the note or warehouse.
+ * The write only goes through while the order still has the status checked,
+ * so two requests racing to deliver it can't both add the stock.
+ */
+export async function updateOrderStatus(id: number, update: OrderStatusUpdate): Promise<Order | null> {
+  const row = await prisma.$transaction(async (db: Db) => {
+    const currentRow = await db.order.findUnique({ where: { id }, include: orderInclude })
+    if (!currentRow) return null
+    const current = toOrder(currentRow)
+    const { status } = update
+    const changed = status !== current.status
+    if (changed && !canChangeOrderStatus(current.status, status)) {
+      throw new ApiError(
+        409,
+        `Order #${id} is ${ORDER_STATUS_LABELS[current.status].toLowerCase()} and can't be marked ${ORDER_STATUS_LABELS[status].toLowerCase()}`,
+      )
+    }
+    if (update.warehouseId && !(await db.warehouse.findUnique({ where: { id: update.warehouseId } }))) {
+      throw notFound("Warehouse")
+    }
+
+    const note = update.note ?? (changed ? null : current.statusNote)
+    const { count } = await db.order.updateMany({
+      where: { id, status: current.status },
+      data: { status, statusNote: note, ...(update.warehouseId && { warehouseId: update.warehouseId }) },
+    })
+    if (count === 0) throw new ApiError(409, `Order #${id} was just updated by someone else; reload and try again`)
+    const updated = await db.order.findUniqueOrThrow({ where: { id }, include: orderInclude })
+    if (!changed) return updated
+
+    await db.orderNotification.create({
+      data: { retailId: current.retailId, orderId: id, status, message: statusMessage(current, status, note) },
+    })
+    if (status === "delivered") {
+      await db.inventoryItem.updateMany({
+        where: { retailId: current.retailId, productId: current.productId },
+        data: { currentStock: { increment: current.quantity } },
+      })
+    }
+    return updated
+  })
+  return row ? toOrder(row) : null
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  PRODUCTS                                  */
+/* -------------------------------------------------------------------------- */
+
+export async function listProducts(): Promise<Product[]> {
+  const rows = await prisma.product.findMany({ orderBy: [{ category: "asc" }, { name: "asc" }] })
+  return rows.map(toProduct)
+}
+
+export async function createProduct(input: ProductInput): Promise<Product> {
+  if ((await prisma.product.count({ where: { sku: input.sku } })) > 0) {
+    throw new ApiError(409, `A product with SKU ${input.sku} already exists`)
+  }
+  return toProduct(await prisma.product.create({ data: toProductColumns(input) }))
+}
+
+// Existing orders keep the weight they were placed with; new ones use the edited product
+export async function updateProduct(id: number, input: Partial<ProductInput>): Promise<Product | null> {
+  if ((await prisma.product.count({ where: { id } })) === 0) return null
+  if (input.sku && (await prisma.product.count({ where: { sku: input.sku, NOT: { id } } })) > 0) {
+    throw new ApiError(409, `A product with SKU ${input.sku} already exists`)
+  }
+  return toProduct(await prisma.product.update({ where: { id }, data: toProductColumns(input) }))
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 WAREHOUSES                                 */
+/* -------------------------------------------------------------------------- */
+
+export async function listWarehouses(): Promise<Warehouse[]> {
+  const rows = await prisma.warehouse.findMany({ orderBy: { id: "asc" } })
+  return rows.map(toWarehouse)
+}
+
+export async function createWarehouse(input: CreateWarehouseInput): Promise<Warehouse> {
+  const row = await prisma.warehouse.create({
+    data: {
+      name: input.name,
+      address: input.address,
+      latitude: input.coordinates.lat,
+      longitude: input.coordinates.lng,
+      capacity: input.capacity,
+    },
+  })
+  return toWarehouse(row)
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               SHORTAGE ALERTS                              */
+/* -------------------------------------------------------------------------- */
+
+export async function listShortageAlerts(filters: ShortageAlertFilters = {}): Promise<ShortageAlert[]> {
+  const rows = await prisma.shortageAlert.findMany({
+    where: {
+      ...(filters.resolved !== undefined && { resolved: filters.resolved }),
+      ...(filters.retailId && { retailId: filters.retailId }),
+    },
+    orderBy: { triggeredAt: "desc" },
+    include: alertInclude,
+  })
+  return rows.map(toShortageAlert)
+}
+
+export async function createShortageAlert(input: CreateShortageAlertInput): Promise<ShortageAlert> {
+  const [retailer, product] = await Promise.all([
+    prisma.retailer.count({ where: { id: input.retailId } }),
+    prisma.product.count({ where: { id: input.productId } }),
+  ])
+  if (!retailer) throw notFound("Retailer")
+  if (!product) throw notFound("Product")
+
+  return toShortageAlert(await prisma.shortageAlert.create({ data: input, include: alertInclude }))
+}
+
+export async function getShortageAlert(id: string): Promise<ShortageAlert | null> {
+  const row = await prisma.shortageAlert.findUnique({ where: { id }, include: alertInclude })
+  return row ? toShortageAlert(row) : null
+}
+
+export async function setShortageAlertResolved(id: string, resolved: boolean): Promise<ShortageAlert | null> {
+  if ((await prisma.shortageAlert.count({ where: { id } })) === 0) return null
+  const row = await prisma.shortageAlert.update({
+    where: { id },
+    data: { resolved, resolvedAt: resolved ? new Date() : null },
+    include: alertInclude,
+  })
+  return toShortageAlert(row)
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  RETAILERS                                 */
+/* -------------------------------------------------------------------------- */
+
+// Every store, or just the one a retailer account belongs to
+export async function listRetailers(retailId?: number): Promise<Retailer[]> {
+  const rows = await prisma.retailer.findMany({ where: retailId ? { id: retailId } : {}, orderBy: { id: "asc" } })
+  return rows.map(toRetailer)
+}
+
+async function assertRetailerExists(retailId: number): Promise<void> {
+  if ((await prisma.retailer.count({ where: { id: retailId } })) === 0) throw notFound("Retailer")
+}
+
+export async function listInventory(retailId: number): Promise<InventoryItem[]> {
+  await assertRetailerExists(retailId)
+  const rows = await prisma.inventoryItem.findMany({
+    where: { retailId },
+    include: { product: true },
+    orderBy: { productId: "asc" },
+  })
+  return rows.map(toInventoryItem)
+}
+
+export async function listNotifications(retailId: number, filters: NotificationFilters = {}): Promise<OrderNotification[]> {
+  await assertRetailerExists(retailId)
+  const rows = await prisma.orderNotification.findMany({
+    where: { retailId, ...(filters.unread && { read: false }) },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+  })
+  return rows.map(toNotification)
+}
+
+// Ids that aren't this retailer's are ignored rather than marked
+export async function markNotificationsRead(retailId: number, ids?: string[]): Promise<OrderNotification[]> {
+  await assertRetailerExists(retailId)
+  await prisma.orderNotification.updateMany({
+    where: { retailId, read: false, ...(ids && { id: { in: ids } }) },
+    data: { read: true },
+  })
+  return listNotifications(retailId)
+}
+
+/* -------------------------------------------------------------------------- */
+/*                          SALES AND REPLENISHMENT                           */
+/* -------------------------------------------------------------------------- */
+
+// Sales are recorded separately from stock counts, so this leaves currentStock alone
+export async function recordDailySales(retailId: number, { sales }: RecordSalesInput): Promise<number> {
+  await assertRetailerExists(retailId)
+  const productIds = [...new Set(sales.map((sale) => sale.productId))]
+  if ((await prisma.product.count({ where: { id: { in: productIds } } })) !== productIds.length) {
+    throw notFound("Product")
+  }
+
+  await prisma.$transaction(async (db: Db) => {
+    for (const sale of sales) {
+      const day = new Date(`${sale.day}T00:00:00.000Z`)
+      await db.dailySale.upsert({
+        where: { retailId_productId_day: { retailId, productId: sale.productId, day } },
+        create: { retailId, productId: sale.productId, day, unitsSold: sale.unitsSold },
+        update: { unitsSold: sale.unitsSold },
+      })
+    }
+  })
+  return sales.length
+}
+
+// Units sold per product per day for the `days` days up to and including
+// yesterday, oldest first, with 0 for days that have no row
+async function loadSalesHistory(retailId: number, days: number): Promise<Map<number, number[]>> {
+  const today = new Date()
+  today.setUTCHours(0, 0, 0, 0)
+  const from = new Date(today.getTime() - days * DAY_MS)
+  const rows = await prisma.dailySale.findMany({ where: { retailId, day: { gte: from, lt: today } } })
+
+  const history = new Map<number, number[]>()
+  for (const row of rows as { productId: number; day: Date; unitsSold: number }[]) {
+    const series = history.get(row.productId) ?? new Array<number>(days).fill(0)
+    series[Math.round((row.day.getTime() - from.getTime()) / DAY_MS)] = row.unitsSold
+    history.set(row.productId, series)
+  }
+  return history
+}
+
+// Units per product the retailer has ordered and not yet received
+async function loadOpenOrderQuantities(retailId: number): Promise<Map<number, number>> {
+  const groups: { productId: number; _sum: { quantity: number | null } }[] = await prisma.order.groupBy({
+    by: ["productId"],
+    where: { retailId, status: { in: OPEN_ORDER_STATUSES } },
+    _sum: { quantity: true },
+  })
+  return new Map(groups.map((group) => [group.productId, group._sum.quantity ?? 0]))
+}
+
+export async function getReplenishmentSuggestions(
+  retailId: number,
+  strategy: ReplenishmentStrategy,
+): Promise<ReplenishmentSuggestion[]> {
+  const [inventory, history, onOrder] = await Promise.all([
+    listInventory(retailId),
+    loadSalesHistory(retailId, FORECAST_WINDOW_DAYS),
+    loadOpenOrderQuantities(retailId),
+  ])
+
+  return inventory.map((item) => ({
+    productId: item.product.id,
+    inventoryItemId: item.id,
+    plan: planReplenishment(
+      {
+        currentStock: item.currentStock,
+        minStock: item.minStock,
+        maxStock: item.maxStock,
+        leadTimeDays: item.leadTimeDays,
+        supplierReliability: item.supplierReliability,
+        onOrder: onOrder.get(item.product.id) ?? 0,
+        // A retailer with no sales recorded at all has no history, not a month of zeros
+        sales: history.get(item.product.id) ?? (history.size > 0 ? new Array<number>(FORECAST_WINDOW_DAYS).fill(0) : []),
+      },
+      strategy,
+    ),
+  }))
+}
+
+// Each product's last `days` of sales, with a forecast window before them to warm up
+export async function backtestRetailer(
+  retailId: number,
+  strategy: ReplenishmentStrategy,
+  days: number,
+): Promise<ProductBacktest[]> {
+  const [inventory, history] = await Promise.all([
+    listInventory(retailId),
+    loadSalesHistory(retailId, days + FORECAST_WINDOW_DAYS),
+  ])
+  return inventory.map((item) => ({
+    productId: item.product.id,
+    result: backtestReplenishment(
+      {
+        minStock: item.minStock,
+        maxStock: item.maxStock,
+        leadTimeDays: item.leadTimeDays,
+        supplierReliability: item.supplierReliability,
+        sales: history.get(item.product.id) ?? new Array<number>(days + FORECAST_WINDOW_DAYS).fill(0),
+      },
+      strategy,
+      days,
+    ),
+  }))
+}
@@ -0,0 +1,369 @@
+// packing-solvers.ts
+// Registry of packing strategies behind the common PackingSolver interface.
+// The store and the physics worker only ever look solvers up by id, so a new
+// strategy just needs a registerPackingSolver() call here.
+
+import type { Box, OptimizationConstraints, TemperatureZoneLayout, TruckDimensions, VehicleModel } from "@/types/box"
+import type { PackingDiagnostics, PackingSolver, PackingSolverInfo, PackingSolverInput, PackingSolverResult } from "@/types/packing"
+import { packBoxesIncrementally, type PackableBox } from "@/lib/void-packer"
+import { DEFAULT_ORIENTATION, getOrientedDimensions } from "@/lib/box-orientation"
+import { DEFAULT_VEHICLE_MODEL, computeAxleLoads, findAxleOverloads, getGrossWeight } from "@/lib/axle-loads"
+import { findUnloadBlockers } from "@/lib/route-order"
+import { findStackingViolations } from "@/lib/stacking-rules"
+import { DEFAULT_SUPPORT_RULES, findUnsupportedBoxes } from "@/lib/support-rules"
+import { findZoneMismatches, resolveTemperatureCompartments, type ResolvedCompartment } from "@/lib/temperature-zones"
+import { diagnoseUnplacedBox, noZoneCapacityReason } from "@/lib/unplaced-reasons"
+import { MCTSPlacementOptimizer } from "@/lib/mcts-placement"
+import { Advanced3DPlacementEngine, type PlacementConstraints } from "@/store/advanced-3d-placement-engine"
+
+export const DEFAULT_PACKING_SOLVER_ID = "void-fill"
+
+const solvers = new Map<string, PackingSolver>()
+
+export function registerPackingSolver(solver: PackingSolver) {
+  if (solvers.has(solver.id)) {
+    console.warn(`⚠️ Replacing packing solver "${solver.id}"`)
+  }
+  solvers.set(solver.id, solver)
+}
+
+export function getPackingSolver(id: string): PackingSolver {
+  const solver = solvers.get(id)
+  if (!solver) {
+    throw new Error(`Unknown packing solver: ${id}`)
+  }
+  return solver
+}
+
+export function listPackingSolvers(): PackingSolverInfo[] {
+  return Array.from(solvers.values()).map(({ id, name, description }) => ({ id, name, description }))
+}
+
+export function getDefaultPackingConstraints(
+  truckDimensions: TruckDimensions,
+  vehicle: VehicleModel = DEFAULT_VEHICLE_MODEL,
+): OptimizationConstraints {
+  return {
+    maxWeight: vehicle.maxPayload,
+    maxVolume: truckDimensions.width * truckDimensions.length * truckDimensions.height,
+    temperatureZones: true,
+    fragileHandling: true,
+    multiStopRouting: true,
+    ...DEFAULT_SUPPORT_RULES,
+    strictTemperatureZones: false,
+  }
+}
+
+// Runs a solver to completion on the current thread
+export function runPackingSolverSync(solverId: string, input: PackingSolverInput): PackingSolverResult {
+  const run = getPackingSolver(solverId).solve(input)
+  let step = run.next()
+  while (!step.done) step = run.next()
+  return step.value
+}
+
+// Shared bookkeeping so every solver reports diagnostics the same way
+export function buildPackingDiagnostics(
+  solverId: string,
+  input: PackingSolverInput,
+  placedBoxes: Box[],
+  unplacedBoxes: Box[],
+  startTime: number,
+  warnings: string[] = [],
+): PackingDiagnostics {
+  const { width, length, height } = input.truckDimensions
+  const truckVolume = width * length * height
+  const placedVolume = placedBoxes.reduce((sum, box) => sum + box.width * box.height * box.length, 0)
+  const totalWeight = placedBoxes.reduce((sum, box) => sum + box.weight, 0)
+
+  const unsupportedBoxes = findUnsupportedBoxes(placedBoxes, input.constraints)
+  const unloadBlockers = input.constraints.multiStopRouting ? findUnloadBlockers(placedBoxes, input.stopOrder) : []
+
+  const allWarnings = [...warnings]
+  if (totalWeight > input.constraints.maxWeight) {
+    allWarnings.push(`Placed weight ${totalWeight.toFixed(0)} lbs exceeds the ${input.constraints.maxWeight} lbs limit`)
+  }
+  if (placedVolume > input.constraints.maxVolume) {
+    allWarnings.push(`Placed volume ${placedVolume.toFixed(1)} ft³ exceeds the ${input.constraints.maxVolume.toFixed(1)} ft³ limit`)
+  }
+  for (const violation of findStackingViolations(placedBoxes)) {
+    allWarnings.push(
+      violation.type === "crush"
+        ? `Box ${violation.boxId} carries ${violation.actual.toFixed(0)} lbs, over its ${violation.limit.toFixed(0)} lbs crush rating`
+        : `Box ${violation.boxId} has ${violation.actual} boxes stacked on it, over its limit of ${violation.limit}`,
+    )
+  }
+  const axleLoads = computeAxleLoads(placedBoxes, input.vehicle, input.truckDimensions)
+  for (const axle of findAxleOverloads(axleLoads)) {
+    allWarnings.push(`${axle.name} axle carries ${axle.load.toFixed(0)} lbs, over its ${axle.limit} lbs legal limit`)
+  }
+  const grossWeight = getGrossWeight(axleLoads)
+  if (grossWeight > input.vehicle.grossWeightLimit) {
+    allWarnings.push(`Gross weight ${grossWeight.toFixed(0)} lbs exceeds the ${input.vehicle.grossWeightLimit} lbs limit`)
+  }
+  if (input.constraints.temperatureZones) {
+    const mismatches = findZoneMismatches(placedBoxes, resolveTemperatureCompartments(input.zoneLayout, input.truckDimensions))
+    if (mismatches.length > 0) {
+      allWarnings.push(`${mismatches.length} ${mismatches.length === 1 ? "box sits" : "boxes sit"} outside a compartment accepting its temperature zone`)
+    }
+  }
+  if (unsupportedBoxes.length > 0) {
+    allWarnings.push(
+      `${unsupportedBoxes.length} stacked ${unsupportedBoxes.length === 1 ? "box rests" : "boxes rest"} on less than ${(input.constraints.minSupportRatio * 100).toFixed(0)}% base support`,
+    )
+  }
+
+  if (unloadBlockers.length > 0) {
+    allWarnings.push(
+      `${unloadBlockers.length} ${unloadBlockers.length === 1 ? "box is" : "boxes are"} buried behind freight for a later stop`,
+    )
+  }
+
+  return {
+    solverId,
+    durationMs: performance.now() - startTime,
+    placedCount: placedBoxes.length,
+    unplacedCount: unplacedBoxes.length,
+    volumeUtilization: truckVolume > 0 ? (placedVolume / truckVolume) * 100 : 0,
+    totalWeight,
+    unsupportedBoxes,
+    unloadBlockers,
+    warnings: allWarnings,
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              BUILT-IN SOLVERS                              */
+/* -------------------------------------------------------------------------- */
+
+interface PackingZones {
+  zoneLayout: TemperatureZoneLayout
+  compartments: ResolvedCompartment[]
+  strict: boolean
+}
+
+// The zones every solver packs to: with zones switched off there are no
+// compartments, and so nothing to be strict about
+function resolvePackingZones(input: Omit<PackingSolverInput, "boxes">): PackingZones {
+  const enabled = input.constraints.temperatureZones
+  const zoneLayout = enabled ? input.zoneLayout : { compartments: [] }
+  return {
+    zoneLayout,
+    compartments: resolveTemperatureCompartments(zoneLayout, input.truckDimensions),
+    strict: enabled && input.constraints.strictTemperatureZones,
+  }
+}
+
+// Full-width, full-height region for every compartment, listed under each zone it accepts
+function buildTemperatureZoneRegions(
+  compartments: ResolvedCompartment[],
+  truckDimensions: TruckDimensions,
+): PlacementConstraints["temperatureZones"] {
+  const { width, height } = truckDimensions
+  const regions: PlacementConstraints["temperatureZones"] = { cold: [], frozen: [], regular: [] }
+
+  for (const compartment of compartments) {
+    const region = {
+      x: 0,
+      y: height / 2,
+      z: (compartment.startZ + compartment.endZ) / 2,
+      width,
+      height,
+      length: compartment.length,
+    }
+    compartment.accepts.forEach((zone) => regions[zone].push(region))
+  }
+  return regions
+}
+
+// The advanced and MCTS engines don't rotate boxes, so they get each box's
+// current oriented extents and the labelled dimensions are restored afterwards
+export function withOrientedExtents(box: Box): Box {
+  return { ...box, ...getOrientedDimensions(box), orientation: DEFAULT_ORIENTATION }
+}
+
+export function restoreLabelledBox(originals: Map<string, Box>, box: Box): Box {
+  const original = originals.get(box.id) ?? box
+  return { ...original, position: box.position, isNew: false, unplacedReason: undefined }
+}
+
+// Support-aware engine configured for one truck; also used to slot single boxes in
+export function createPlacementEngine(input: Omit<PackingSolverInput, "boxes">): Advanced3DPlacementEngine {
+  const zones = resolvePackingZones(input)
+  return new Advanced3DPlacementEngine({
+    truckDimensions: input.truckDimensions,
+    maxWeight: input.constraints.maxWeight,
+    temperatureZones: buildTemperatureZoneRegions(zones.compartments, input.truckDimensions),
+    fragileZones: [],
+    lifoOrder: input.constraints.multiStopRouting,
+    stopOrder: input.stopOrder,
+    strictTemperatureZones: zones.strict,
+    vehicle: input.vehicle,
+    perishableAreas: [],
+  })
+}
+
+// Locked boxes keep their position and orientation; the packers only pack around them
+function splitLockedBoxes(boxes: Box[]): { lockedBoxes: Box[]; freeBoxes: Box[] } {
+  return {
+    lockedBoxes: boxes.filter((box) => box.locked),
+    freeBoxes: boxes.filter((box) => !box.locked),
+  }
+}
+
+// These engines don't say why they gave up on a box, so work it out from the final layout
+function explainUnplaced(box: Box, placedBoxes: Box[], input: PackingSolverInput): Box {
+  return { ...box, unplacedReason: diagnoseUnplacedBox(box, placedBoxes, input) }
+}
+
+const voidFillSolver: PackingSolver = {
+  id: "void-fill",
+  name: "Void Filling",
+  description: "Greedy placement into the tightest free space, heaviest and last stop first",
+  *solve(input) {
+    const startTime = performance.now()
+    const originals = new Map(input.boxes.map((box) => [box.id, box]))
+    const { lockedBoxes, freeBoxes } = splitLockedBoxes(input.boxes)
+    // The packer chooses a fresh orientation, starting from the labelled dimensions
+    const packableBoxes: PackableBox[] = freeBoxes.map(({ orientation, ...box }) => ({
+      ...box,
+      position: { ...box.position },
+      originalId: box.id,
+    }))
+    const fixedBoxes: PackableBox[] = lockedBoxes.map(({ orientation, ...box }) => ({
+      ...box,
+      ...getOrientedDimensions({ ...box, orientation }),
+      position: { ...box.position },
+      originalId: box.id,
+      rotation: orientation,
+    }))
+
+    const zones = resolvePackingZones(input)
+    const { placedBoxes, unplacedBoxes } = yield* packBoxesIncrementally(
+      packableBoxes,
+      input.truckDimensions,
+      {
+        ...input.constraints,
+        strictTemperatureZones: zones.strict,
+        stopOrder: input.constraints.multiStopRouting ? input.stopOrder : [],
+      },
+      zones.zoneLayout,
+      input.vehicle,
+      fixedBoxes,
+    )
+
+    const placed = [
+      ...lockedBoxes,
+      ...placedBoxes.map((box): Box => ({
+        ...originals.get(box.originalId)!,
+        position: box.position,
+        orientation: box.rotation ?? "xy",
+        isNew: false,
+        unplacedReason: undefined,
+      })),
+    ]
+    const unplaced = unplacedBoxes.map((box): Box => ({
+      ...originals.get(box.originalId)!,
+      isNew: false,
+      unplacedReason: box.unplacedReason,
+    }))
+    return {
+      placedBoxes: placed,
+      unplacedBoxes: unplaced,
+      diagnostics: buildPackingDiagnostics("void-fill", input, placed, unplaced, startTime),
+    }
+  },
+}
+
+const advanced3DSolver: PackingSolver = {
+  id: "advanced-3d",
+  name: "Support-Aware 3D",
+  description: "Floor, stacked and adjacent candidates scored for support, stability and zones",
+  *solve(input) {
+    const startTime = performance.now()
+    const originals = new Map(input.boxes.map((box) => [box.id, box]))
+    const engine = createPlacementEngine(input)
+    const { lockedBoxes, freeBoxes } = splitLockedBoxes(input.boxes)
+
+    const { placedBoxes, unplacedBoxes } = yield* engine.packLayout(
+      freeBoxes.map(withOrientedExtents),
+      lockedBoxes.map(withOrientedExtents),
+    )
+    const placed = [...lockedBoxes, ...placedBoxes.map((box) => restoreLabelledBox(originals, box))]
+    const unplaced = unplacedBoxes.map((box) => explainUnplaced(restoreLabelledBox(originals, box), placed, input))
+    return {
+      placedBoxes: placed,
+      unplacedBoxes: unplaced,
+      diagnostics: buildPackingDiagnostics("advanced-3d", input, placed, unplaced, startTime),
+    }
+  },
+}
+
+const mctsSolver: PackingSolver = {
+  id: "mcts",
+  name: "Monte Carlo Tree Search",
+  description: "Explores placement sequences a few boxes deep per round; slow on large loads",
+  *solve(input) {
+    const startTime = performance.now()
+    const originals = new Map(input.boxes.map((box) => [box.id, box]))
+    const { compartments, strict: strictZones } = resolvePackingZones(input)
+    const optimizer = new MCTSPlacementOptimizer(input.truckDimensions, {
+      compartments,
+      strictTemperatureZones: strictZones,
+      vehicle: input.vehicle,
+      maxWeight: input.constraints.maxWeight,
+    })
+    const { lockedBoxes, freeBoxes } = splitLockedBoxes(input.boxes)
+    // Locked boxes go in first so every search treats them as existing boxes
+    const placed: Box[] = lockedBoxes.map(withOrientedExtents)
+    // In strict mode a box whose zone no compartment takes can't go anywhere, so don't search for it
+    const hasCompartmentFor = (box: Box) =>
+      compartments.some((compartment) => compartment.length > 0 && compartment.accepts.includes(box.temperatureZone))
+    const zoneless = strictZones ? freeBoxes.filter((box) => !hasCompartmentFor(box)) : []
+    const unplaced: Box[] = []
+    let remaining = freeBoxes.filter((box) => !zoneless.includes(box)).map(withOrientedExtents)
+
+    // Each search only commits a handful of boxes and always starts from the
+    // first remaining one, so a box that won't fit is set aside before retrying
+    while (remaining.length > 0) {
+      const solution = optimizer.findOptimalPlacement(remaining, placed)
+      // When no move is found the optimizer hands back the input boxes untouched,
+      // whereas placed boxes come back as new objects
+      const newlyPlaced = solution.slice(placed.length).filter((box) => !remaining.includes(box))
+
+      if (newlyPlaced.length === 0) {
+        unplaced.push(remaining[0])
+        remaining = remaining.slice(1)
+      } else {
+        const placedIds = new Set(newlyPlaced.map((box) => box.id))
+        placed.push(...newlyPlaced)
+        remaining = remaining.filter((box) => !placedIds.has(box.id))
+      }
+
+      yield {
+        placed: placed.length - lockedBoxes.length,
+        unplaced: zoneless.length + unplaced.length,
+        total: freeBoxes.length,
+        currentBoxId: (newlyPlaced[newlyPlaced.length - 1] ?? unplaced[unplaced.length - 1]).id,
+      }
+    }
+
+    const placedBoxes = [
+      ...lockedBoxes,
+      ...placed.slice(lockedBoxes.length).map((box) => restoreLabelledBox(originals, box)),
+    ]
+    const unplacedBoxes = [
+      ...zoneless.map((box): Box => ({ ...box, isNew: false, unplacedReason: noZoneCapacityReason(box, false) })),
+      ...unplaced.map((box) => explainUnplaced(restoreLabelledBox(originals, box), placedBoxes, input)),
+    ]
+    return {
+      placedBoxes,
+      unplacedBoxes,
+      diagnostics: buildPackingDiagnostics("mcts", input, placedBoxes, unplacedBoxes, startTime),
+    }
+  },
+}
+
+registerPackingSolver(voidFillSolver)
+registerPackingSolver(advanced3DSolver)
+registerPackingSolver(mctsSolver)
@@ -115,11 +115,17 @@ export class PhysicsEngine {
     let contacts = 0
     let totalForce = 0
 
-    this.world.forEachContactPair((collider1, collider2, manifold) => {
-      contacts++
-      if (manifold.numContacts() > 0) {
-        collisions++
-      }
+    // Rapier 0.12 has no global pair iterator, so walk pairs per box collider
+    const world = this.world
+    this.colliders.forEach(collider => {
+      world.contactPairsWith(collider, other => {
+        world.contactPair(collider, other, manifold => {
+          contacts++
+          if (manifold.numContacts() > 0) {
+            collisions++
+          }
+        })
+      })
     })
 
     this.bodies.forEach(body => {
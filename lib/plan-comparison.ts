@@ -0,0 +1,62 @@
+// plan-comparison.ts
+// Saved load plans and the metrics the comparison view lines up side by side.
+// A plan is a frozen copy of one truck's layout, so the same boxes can be
+// packed by different solvers or into different trucks and compared before
+// one of them is put back in the store.
+
+import type { PlanSnapshot } from "@/types/workspace"
+import { computeAxleLoads, getGrossWeight, type AxleLoad } from "@/lib/axle-loads"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+
+export interface PlanMetrics {
+  volumeUtilization: number // % of the cargo space
+  payloadUtilization: number // % of the vehicle's payload
+  totalWeight: number
+  placedCount: number
+  unplacedCount: number
+  centerOfGravity: { x: number; y: number; z: number }
+  lateralOffset: number // COG distance from the centerline, % of half the width
+  longitudinalOffset: number // COG distance from mid-length, % of half the length
+  axleLoads: AxleLoad[]
+  grossWeight: number
+}
+
+export function computePlanMetrics(plan: PlanSnapshot): PlanMetrics {
+  const { boxes, truckDimensions, vehicleModel } = plan
+  const truckVolume = truckDimensions.width * truckDimensions.length * truckDimensions.height
+  const placedVolume = boxes.reduce((sum, box) => {
+    const { width, height, length } = getOrientedDimensions(box)
+    return sum + width * height * length
+  }, 0)
+  const totalWeight = boxes.reduce((sum, box) => sum + box.weight, 0)
+
+  const centerOfGravity =
+    totalWeight > 0
+      ? {
+          x: boxes.reduce((sum, box) => sum + box.position.x * box.weight, 0) / totalWeight,
+          y: boxes.reduce((sum, box) => sum + box.position.y * box.weight, 0) / totalWeight,
+          z: boxes.reduce((sum, box) => sum + box.position.z * box.weight, 0) / totalWeight,
+        }
+      : { x: 0, y: 0, z: 0 }
+  const axleLoads = computeAxleLoads(boxes, vehicleModel, truckDimensions)
+
+  return {
+    volumeUtilization: truckVolume > 0 ? (placedVolume / truckVolume) * 100 : 0,
+    payloadUtilization: vehicleModel.maxPayload > 0 ? (totalWeight / vehicleModel.maxPayload) * 100 : 0,
+    totalWeight,
+    placedCount: boxes.length,
+    unplacedCount: plan.unplaceableBoxes.length,
+    centerOfGravity,
+    lateralOffset: (Math.abs(centerOfGravity.x) / (truckDimensions.width / 2)) * 100,
+    longitudinalOffset: (Math.abs(centerOfGravity.z) / (truckDimensions.length / 2)) * 100,
+    axleLoads,
+    grossWeight: getGrossWeight(axleLoads),
+  }
+}
+
+// Index of the plan with the best value, or -1 when every plan ties
+export function findBestPlanIndex(values: number[], better: "higher" | "lower"): number {
+  if (values.length < 2 || values.every((value) => value === values[0])) return -1
+  const best = better === "higher" ? Math.max(...values) : Math.min(...values)
+  return values.indexOf(best)
+}
@@ -0,0 +1,426 @@
+// plan-interchange.ts
+// The packed load as a file other systems can read: a versioned JSON document
+// with the truck, zone layout, route and every box (position, orientation,
+// stop and load order), and a flat CSV of the same boxes for spreadsheets and
+// the WMS. Both import back into the optimization store; the CSV carries boxes
+// only, so the truck on screen is kept.
+//
+// Units are feet and pounds. Positions are box centres: x across the truck
+// (0 on the centerline), y up from the floor, z along it (0 at mid-length,
+// + towards the doors).
+
+import { z } from "zod"
+import type {
+  Box,
+  BoxOrientation,
+  TemperatureZone,
+  TemperatureZoneLayout,
+  TruckDimensions,
+  UnplacedReasonCode,
+  VehicleModel,
+} from "@/types/box"
+import type { WorkspaceScores } from "@/types/workspace"
+import { ALL_ORIENTATIONS, getOrientedDimensions, type BoxDimensions } from "@/lib/box-orientation"
+import { getVehicleModel } from "@/lib/axle-loads"
+import { getStopIndex, resolveStopOrder } from "@/lib/route-order"
+import { UNPLACED_REASON_LABELS } from "@/lib/unplaced-reasons"
+import { parseCsv } from "@/lib/manifest-import"
+
+export const LOAD_PLAN_FORMAT = "packpilot.load-plan"
+// Bump when a field changes meaning or goes away; adding optional fields doesn't need it
+export const LOAD_PLAN_FORMAT_VERSION = 1
+
+export interface LoadPlanBox {
+  id: string
+  name: string
+  loadOrder: number | null // 1 goes in first; null when the box isn't on the truck
+  destination: string
+  stopIndex: number | null // 0 for the first stop on the route; null when the box has no stop
+  temperatureZone: TemperatureZone
+  position: Box["position"]
+  orientation: BoxOrientation
+  placedDimensions: BoxDimensions // width × height × length as it sits in the truck
+  width: number // as labelled
+  height: number
+  length: number
+  weight: number
+  isFragile: boolean
+  thisSideUp: boolean
+  locked: boolean
+  crushFactor?: number
+  stackLimit?: number
+  allowedOrientations?: BoxOrientation[]
+  unplacedReason?: Box["unplacedReason"]
+}
+
+export interface LoadPlanDocument {
+  format: typeof LOAD_PLAN_FORMAT
+  version: number
+  exportedAt: string
+  units: { length: "ft"; weight: "lb" }
+  truck: { dimensions: TruckDimensions; vehicleModelId: string; vehicleModelName: string }
+  zoneLayout: TemperatureZoneLayout
+  stopOrder: string[]
+  solverId: string | null
+  scores: WorkspaceScores
+  boxes: LoadPlanBox[] // in load order
+  unplacedBoxes: LoadPlanBox[]
+}
+
+export interface LoadPlanExportInput {
+  boxes: Box[]
+  unplaceableBoxes: Box[]
+  loadingSequence: Box[]
+  truckDimensions: TruckDimensions
+  vehicleModel: VehicleModel
+  zoneLayout: TemperatureZoneLayout
+  stopOrder: string[]
+  solverId: string | null
+  scores: WorkspaceScores
+}
+
+// What an import hands to the store; the CSV leaves the truck fields out
+export interface ImportedLoadPlan {
+  boxes: Box[]
+  unplaceableBoxes: Box[]
+  truckDimensions?: TruckDimensions
+  vehicleModel?: VehicleModel
+  zoneLayout?: TemperatureZoneLayout
+  stopOrder?: string[]
+  loadingOrder?: string[] // ids of the placed boxes in the order they go on the truck
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   EXPORT                                   */
+/* -------------------------------------------------------------------------- */
+
+function toLoadPlanBox(box: Box, loadOrder: number | null, stopOrder: string[]): LoadPlanBox {
+  return {
+    id: box.id,
+    name: box.name,
+    loadOrder,
+    destination: box.destination,
+    stopIndex: box.destination ? getStopIndex(stopOrder, box.destination) : null,
+    temperatureZone: box.temperatureZone,
+    position: box.position,
+    orientation: box.orientation ?? "xy",
+    placedDimensions: getOrientedDimensions(box),
+    width: box.width,
+    height: box.height,
+    length: box.length,
+    weight: box.weight,
+    isFragile: box.isFragile,
+    thisSideUp: box.thisSideUp ?? false,
+    locked: box.locked ?? false,
+    ...(box.crushFactor !== undefined && { crushFactor: box.crushFactor }),
+    ...(box.stackLimit !== undefined && { stackLimit: box.stackLimit }),
+    ...(box.allowedOrientations && { allowedOrientations: box.allowedOrientations }),
+    ...(box.unplacedReason && { unplacedReason: box.unplacedReason }),
+  }
+}
+
+export function exportLoadPlan(input: LoadPlanExportInput): LoadPlanDocument {
+  const stopOrder = resolveStopOrder(input.stopOrder, [...input.boxes, ...input.unplaceableBoxes])
+  // The loading sequence can lag a just-finished packing run, so anything it misses goes last
+  const sequenced = input.loadingSequence.filter((box) => input.boxes.some((placed) => placed.id === box.id))
+  const ordered = [...sequenced, ...input.boxes.filter((box) => !sequenced.some((seen) => seen.id === box.id))]
+
+  return {
+    format: LOAD_PLAN_FORMAT,
+    version: LOAD_PLAN_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    units: { length: "ft", weight: "lb" },
+    truck: {
+      dimensions: input.truckDimensions,
+      vehicleModelId: input.vehicleModel.id,
+      vehicleModelName: input.vehicleModel.name,
+    },
+    zoneLayout: input.zoneLayout,
+    stopOrder,
+    solverId: input.solverId,
+    scores: input.scores,
+    boxes: ordered.map((box, index) => toLoadPlanBox(box, index + 1, stopOrder)),
+    unplacedBoxes: input.unplaceableBoxes.map((box) => toLoadPlanBox(box, null, stopOrder)),
+  }
+}
+
+const CSV_COLUMNS = [
+  "load_order",
+  "box_id",
+  "name",
+  "status",
+  "destination",
+  "stop_index",
+  "temperature_zone",
+  "x",
+  "y",
+  "z",
+  "orientation",
+  "placed_width",
+  "placed_height",
+  "placed_length",
+  "width",
+  "height",
+  "length",
+  "weight",
+  "fragile",
+  "this_side_up",
+  "locked",
+  "crush_factor",
+  "stack_limit",
+  "allowed_orientations",
+  "unplaced_reason",
+] as const
+
+type CsvColumn = (typeof CSV_COLUMNS)[number]
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsvRecord(box: LoadPlanBox, status: "placed" | "unplaced"): Record<CsvColumn, string | number | boolean | null> {
+  return {
+    load_order: box.loadOrder,
+    box_id: box.id,
+    name: box.name,
+    status,
+    destination: box.destination,
+    stop_index: box.stopIndex,
+    temperature_zone: box.temperatureZone,
+    x: box.position.x,
+    y: box.position.y,
+    z: box.position.z,
+    orientation: box.orientation,
+    placed_width: box.placedDimensions.width,
+    placed_height: box.placedDimensions.height,
+    placed_length: box.placedDimensions.length,
+    width: box.width,
+    height: box.height,
+    length: box.length,
+    weight: box.weight,
+    fragile: box.isFragile,
+    this_side_up: box.thisSideUp,
+    locked: box.locked,
+    crush_factor: box.crushFactor ?? null,
+    stack_limit: box.stackLimit ?? null,
+    // Space-separated so the list stays one cell whatever delimiter a spreadsheet saves with
+    allowed_orientations: box.allowedOrientations?.join(" ") ?? null,
+    unplaced_reason: box.unplacedReason?.code ?? null,
+  }
+}
+
+// One row per box, placed boxes in load order then the ones left off
+export function loadPlanToCsv(document: LoadPlanDocument): string {
+  const records = [
+    ...document.boxes.map((box) => toCsvRecord(box, "placed")),
+    ...document.unplacedBoxes.map((box) => toCsvRecord(box, "unplaced")),
+  ]
+  return [
+    CSV_COLUMNS.join(","),
+    ...records.map((record) => CSV_COLUMNS.map((column) => csvCell(record[column])).join(",")),
+  ].join("\r\n")
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   IMPORT                                   */
+/* -------------------------------------------------------------------------- */
+
+const positionSchema = z.object({ x: z.number(), y: z.number(), z: z.number() })
+const dimensionsSchema = z.object({ width: z.number().positive(), length: z.number().positive(), height: z.number().positive() })
+const orientationSchema = z.enum(ALL_ORIENTATIONS as [BoxOrientation, ...BoxOrientation[]])
+const temperatureZoneSchema = z.enum(["regular", "cold", "frozen"])
+
+// Mirrors TemperatureCompartment in types/box.ts
+const compartmentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  length: z.number().positive().optional(),
+  setpoint: z.number().nullable(),
+  accepts: z.array(temperatureZoneSchema),
+})
+
+// Columns a hand-edited CSV may drop: they are derived again on import
+const OPTIONAL_CSV_COLUMNS: CsvColumn[] = [
+  "load_order",
+  "stop_index",
+  "placed_width",
+  "placed_height",
+  "placed_length",
+  "crush_factor",
+  "stack_limit",
+  "allowed_orientations",
+  "unplaced_reason",
+]
+
+const loadPlanBoxSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  loadOrder: z.number().int().positive().nullable().optional(),
+  destination: z.string(),
+  temperatureZone: temperatureZoneSchema,
+  position: positionSchema,
+  orientation: orientationSchema,
+  width: z.number().positive(),
+  height: z.number().positive(),
+  length: z.number().positive(),
+  weight: z.number().nonnegative(),
+  isFragile: z.boolean(),
+  thisSideUp: z.boolean(),
+  locked: z.boolean(),
+  crushFactor: z.number().min(0).max(1).optional(),
+  stackLimit: z.number().int().nonnegative().optional(),
+  allowedOrientations: z.array(orientationSchema).optional(),
+  unplacedReason: z
+    .object({
+      code: z.enum(Object.keys(UNPLACED_REASON_LABELS) as [UnplacedReasonCode, ...UnplacedReasonCode[]]),
+      message: z.string(),
+    })
+    .optional(),
+})
+
+const loadPlanDocumentSchema = z.object({
+  format: z.literal(LOAD_PLAN_FORMAT),
+  version: z.number().int().positive(),
+  truck: z.object({ dimensions: dimensionsSchema, vehicleModelId: z.string() }),
+  zoneLayout: z.object({ compartments: z.array(compartmentSchema) }),
+  stopOrder: z.array(z.string()),
+  boxes: z.array(loadPlanBoxSchema),
+  unplacedBoxes: z.array(loadPlanBoxSchema),
+})
+
+function toBox(box: z.infer<typeof loadPlanBoxSchema>, placed: boolean): Box {
+  return {
+    id: box.id,
+    name: box.name,
+    width: box.width,
+    height: box.height,
+    length: box.length,
+    weight: box.weight,
+    position: box.position,
+    temperatureZone: box.temperatureZone,
+    isFragile: box.isFragile,
+    destination: box.destination,
+    orientation: box.orientation,
+    thisSideUp: box.thisSideUp,
+    ...(box.locked && { locked: true }),
+    ...(box.crushFactor !== undefined && { crushFactor: box.crushFactor }),
+    ...(box.stackLimit !== undefined && { stackLimit: box.stackLimit }),
+    ...(box.allowedOrientations && { allowedOrientations: box.allowedOrientations }),
+    ...(!placed && box.unplacedReason && { unplacedReason: box.unplacedReason }),
+  }
+}
+
+// Placed boxes by their load order; none when the file carries no load order
+function toLoadingOrder(boxes: z.infer<typeof loadPlanBoxSchema>[]): string[] | undefined {
+  const ordered = boxes.filter((box) => typeof box.loadOrder === "number")
+  if (ordered.length === 0) return undefined
+  return ordered.sort((a, b) => (a.loadOrder ?? 0) - (b.loadOrder ?? 0)).map((box) => box.id)
+}
+
+// Two boxes with one id would make every later edit of either hit both
+function assertUniqueBoxIds(ids: string[]): void {
+  const seen = new Set<string>()
+  for (const id of ids) {
+    if (seen.has(id)) throw new Error(`Box ${id} appears more than once in the load plan`)
+    seen.add(id)
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join(".") || "document"}: ${issue.message}`)
+    .join("; ")
+}
+
+export function parseLoadPlanJson(text: string): ImportedLoadPlan {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  const header = z.object({ format: z.string(), version: z.number() }).safeParse(raw)
+  if (!header.success || header.data.format !== LOAD_PLAN_FORMAT) {
+    throw new Error(`Not a load plan export (expected format "${LOAD_PLAN_FORMAT}")`)
+  }
+  if (header.data.version > LOAD_PLAN_FORMAT_VERSION) {
+    throw new Error(`This load plan is format version ${header.data.version}; update PackPilot to open it`)
+  }
+
+  const parsed = loadPlanDocumentSchema.safeParse(raw)
+  if (!parsed.success) throw new Error(`Invalid load plan: ${describeIssues(parsed.error)}`)
+  const document = parsed.data
+  assertUniqueBoxIds([...document.boxes, ...document.unplacedBoxes].map((box) => box.id))
+
+  return {
+    boxes: document.boxes.map((box) => toBox(box, true)),
+    unplaceableBoxes: document.unplacedBoxes.map((box) => toBox(box, false)),
+    truckDimensions: document.truck.dimensions,
+    vehicleModel: getVehicleModel(document.truck.vehicleModelId),
+    zoneLayout: document.zoneLayout,
+    stopOrder: document.stopOrder,
+    loadingOrder: toLoadingOrder(document.boxes),
+  }
+}
+
+const TRUE_VALUES = ["true", "yes", "1"]
+
+export function parseLoadPlanCsv(text: string): ImportedLoadPlan {
+  // Blank lines are skipped but still counted, so errors name the line a spreadsheet shows
+  const [header, ...rows] = parseCsv(text)
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""))
+  const headers = header?.cells ?? []
+  const missing = CSV_COLUMNS.filter((column) => !OPTIONAL_CSV_COLUMNS.includes(column) && !headers.includes(column))
+  if (missing.length > 0) throw new Error(`Not a load plan CSV: missing columns ${missing.join(", ")}`)
+
+  const boxes: Box[] = []
+  const unplaceableBoxes: Box[] = []
+  const placedRows: z.infer<typeof loadPlanBoxSchema>[] = []
+  rows.forEach(({ cells, line }) => {
+    const cell = (column: CsvColumn) => (cells[headers.indexOf(column)] ?? "").trim()
+    const unplacedCode = cell("unplaced_reason") as UnplacedReasonCode
+    const crushFactor = cell("crush_factor")
+    const stackLimit = cell("stack_limit")
+    const orientations = cell("allowed_orientations")
+    const loadOrder = cell("load_order")
+    const candidate = {
+      id: cell("box_id"),
+      name: cell("name"),
+      ...(loadOrder && { loadOrder: Number(loadOrder) }),
+      destination: cell("destination"),
+      temperatureZone: cell("temperature_zone"),
+      position: { x: Number(cell("x")), y: Number(cell("y")), z: Number(cell("z")) },
+      orientation: cell("orientation") || "xy",
+      width: Number(cell("width")),
+      height: Number(cell("height")),
+      length: Number(cell("length")),
+      weight: Number(cell("weight")),
+      isFragile: TRUE_VALUES.includes(cell("fragile").toLowerCase()),
+      thisSideUp: TRUE_VALUES.includes(cell("this_side_up").toLowerCase()),
+      locked: TRUE_VALUES.includes(cell("locked").toLowerCase()),
+      ...(crushFactor && { crushFactor: Number(crushFactor) }),
+      ...(stackLimit && { stackLimit: Number(stackLimit) }),
+      ...(orientations && { allowedOrientations: orientations.split(/[\s,;|]+/).filter(Boolean) }),
+      ...(UNPLACED_REASON_LABELS[unplacedCode] && {
+        unplacedReason: { code: unplacedCode, message: UNPLACED_REASON_LABELS[unplacedCode] },
+      }),
+    }
+
+    const parsed = loadPlanBoxSchema.safeParse(candidate)
+    if (!parsed.success) throw new Error(`Row ${line}: ${describeIssues(parsed.error)}`)
+    const placed = cell("status") !== "unplaced"
+    if (placed) placedRows.push(parsed.data)
+    ;(placed ? boxes : unplaceableBoxes).push(toBox(parsed.data, placed))
+  })
+  assertUniqueBoxIds([...boxes, ...unplaceableBoxes].map((box) => box.id))
+
+  return { boxes, unplaceableBoxes, loadingOrder: toLoadingOrder(placedRows) }
+}
+
+export function parseLoadPlanFile(fileName: string, text: string): ImportedLoadPlan {
+  return /\.csv$/i.test(fileName) ? parseLoadPlanCsv(text) : parseLoadPlanJson(text)
+}
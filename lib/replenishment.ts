@@ -0,0 +1,199 @@
+// replenishment.ts
+// Reorder points for a retailer's shelf from its own sales. Daily demand is
+// the mean and spread of the last few weeks; the supplier's lead time is
+// stretched by how often they deliver late; safety stock covers demand swings
+// during that lead time at the strategy's service level. When the stock on
+// hand plus what is already on order falls to the reorder point, the
+// suggestion tops it up to cover the lead time and one more review period.
+// Pure functions, so the API and the back-test share them.
+
+import type {
+  BacktestResult,
+  DemandForecast,
+  ReplenishmentInput,
+  ReplenishmentPlan,
+  ReplenishmentStrategy,
+  StockUrgency,
+} from "@/types/replenishment"
+
+// z is the standard normal quantile of the service level
+export const SERVICE_LEVELS: Record<ReplenishmentStrategy, { serviceLevel: number; z: number }> = {
+  conservative: { serviceLevel: 0.9, z: 1.28 },
+  balanced: { serviceLevel: 0.95, z: 1.65 },
+  aggressive: { serviceLevel: 0.98, z: 2.05 },
+}
+
+export const REPLENISHMENT_STRATEGIES = Object.keys(SERVICE_LEVELS) as ReplenishmentStrategy[]
+
+// Recent enough to follow a trend, long enough to see every weekday a few times
+export const FORECAST_WINDOW_DAYS = 28
+
+// Days of sales an order covers on top of the lead time, roughly a week between orders
+export const REVIEW_PERIOD_DAYS = 7
+
+// Below this the stated reliability is more likely a data problem than a supplier
+const MIN_SUPPLIER_RELIABILITY = 50
+
+export function forecastDemand(sales: number[], windowDays = FORECAST_WINDOW_DAYS): DemandForecast {
+  const window = sales.slice(-windowDays)
+  if (window.length === 0) return { averageDaily: 0, stdDevDaily: 0, daysOfHistory: 0 }
+
+  const averageDaily = window.reduce((sum, units) => sum + units, 0) / window.length
+  const variance =
+    window.length > 1
+      ? window.reduce((sum, units) => sum + (units - averageDaily) ** 2, 0) / (window.length - 1)
+      : 0
+  return { averageDaily, stdDevDaily: Math.sqrt(variance), daysOfHistory: window.length }
+}
+
+// A supplier on time 80% of the time effectively takes 1.25× as long
+export function getEffectiveLeadTime(leadTimeDays: number, supplierReliability: number): number {
+  const reliability = Math.min(100, Math.max(MIN_SUPPLIER_RELIABILITY, supplierReliability)) / 100
+  return leadTimeDays / reliability
+}
+
+function getUrgency(currentStock: number, reorderPoint: number, daysOfCover: number | null, leadTime: number): StockUrgency {
+  // Out before a delivery ordered today could arrive
+  if (currentStock === 0 || (daysOfCover !== null && daysOfCover < leadTime)) return "critical"
+  if (currentStock <= reorderPoint) return "low"
+  return "moderate"
+}
+
+function formatUnits(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
+
+export function planReplenishment(input: ReplenishmentInput, strategy: ReplenishmentStrategy): ReplenishmentPlan {
+  const { serviceLevel, z } = SERVICE_LEVELS[strategy]
+  const forecast = forecastDemand(input.sales)
+  const effectiveLeadTimeDays = getEffectiveLeadTime(input.leadTimeDays, input.supplierReliability)
+  const leadTimeDemand = forecast.averageDaily * effectiveLeadTimeDays
+  const safetyStock = Math.ceil(z * forecast.stdDevDaily * Math.sqrt(effectiveLeadTimeDays))
+  const forecastReorderPoint = Math.ceil(leadTimeDemand + safetyStock)
+  // The store's own minimum still applies when sales are slow or unknown
+  const reorderPoint = Math.max(forecastReorderPoint, input.minStock)
+  const target = Math.ceil(reorderPoint + forecast.averageDaily * REVIEW_PERIOD_DAYS)
+  const orderUpToLevel = Math.max(reorderPoint, Math.min(input.maxStock, target))
+  const stockPosition = input.currentStock + input.onOrder
+  const needsReorder = stockPosition <= reorderPoint
+  const suggestedQuantity = needsReorder ? Math.max(0, orderUpToLevel - stockPosition) : 0
+  const daysOfCover = forecast.averageDaily > 0 ? input.currentStock / forecast.averageDaily : null
+
+  const explanation: string[] = []
+  if (forecast.daysOfHistory === 0) {
+    explanation.push("No sales recorded yet, so there is no demand forecast.")
+  } else {
+    explanation.push(
+      `Sold ${formatUnits(forecast.averageDaily)} a day on average over the last ${forecast.daysOfHistory} days, ` +
+        `give or take ${formatUnits(forecast.stdDevDaily)}.`,
+    )
+  }
+  explanation.push(
+    effectiveLeadTimeDays > input.leadTimeDays
+      ? `Lead time ${input.leadTimeDays} days, planned as ${formatUnits(effectiveLeadTimeDays)} because the supplier ` +
+          `delivers on time ${input.supplierReliability}% of the time.`
+      : `Lead time ${input.leadTimeDays} days.`,
+  )
+  explanation.push(
+    `Safety stock of ${safetyStock} covers ${Math.round(serviceLevel * 100)}% of demand swings during the lead time ` +
+      `(${strategy} strategy).`,
+  )
+  explanation.push(
+    reorderPoint > forecastReorderPoint
+      ? `Reorder point ${reorderPoint}, the store minimum; the forecast alone would reorder at ${forecastReorderPoint}.`
+      : `Reorder point ${reorderPoint}: ${Math.ceil(leadTimeDemand)} expected sales before a delivery arrives plus safety stock.`,
+  )
+  const onOrderText = input.onOrder > 0 ? ` plus ${input.onOrder} already on order` : ""
+  explanation.push(
+    needsReorder
+      ? `${input.currentStock} on hand${onOrderText} is at or below the reorder point.`
+      : `${input.currentStock} on hand${onOrderText} is above the reorder point, so nothing needs ordering yet.`,
+  )
+  if (needsReorder && forecast.averageDaily === 0) {
+    explanation.push(`Order ${suggestedQuantity} to bring stock back up to the reorder point.`)
+  } else if (needsReorder) {
+    const capped = target > input.maxStock ? `, capped at the shelf maximum of ${input.maxStock}` : ""
+    explanation.push(
+      `Order ${suggestedQuantity} to bring stock up to ${orderUpToLevel}: the reorder point plus ` +
+        `${REVIEW_PERIOD_DAYS} more days of sales${capped}.`,
+    )
+  }
+
+  return {
+    forecast,
+    serviceLevel,
+    effectiveLeadTimeDays,
+    safetyStock,
+    reorderPoint,
+    orderUpToLevel,
+    stockPosition,
+    daysOfCover,
+    needsReorder,
+    suggestedQuantity,
+    urgency: getUrgency(input.currentStock, reorderPoint, daysOfCover, effectiveLeadTimeDays),
+    explanation,
+  }
+}
+
+/**
+ * Replays the last `testDays` of `input.sales` as if the strategy had been
+ * ordering all along. Each morning deliveries due that day arrive, the plan
+ * is made from the sales before that day, and any suggested order arrives
+ * after the nominal lead time; then the day's real demand is served from the
+ * shelf and whatever it can't cover is lost. The shelf starts at the plan's
+ * order-up-to level. Earlier days only feed the forecast.
+ */
+export function backtestReplenishment(
+  input: Omit<ReplenishmentInput, "currentStock" | "onOrder">,
+  strategy: ReplenishmentStrategy,
+  testDays: number,
+): BacktestResult {
+  const start = Math.max(0, input.sales.length - testDays)
+  const leadTime = Math.max(1, Math.ceil(input.leadTimeDays))
+  const arrivals = new Map<number, number>()
+
+  let onHand = planReplenishment({ ...input, sales: input.sales.slice(0, start), currentStock: 0, onOrder: 0 }, strategy)
+    .orderUpToLevel
+  let onOrder = 0
+  let unitsDemanded = 0
+  let unitsSold = 0
+  let stockoutDays = 0
+  let onHandTotal = 0
+  let ordersPlaced = 0
+  let unitsOrdered = 0
+
+  for (let day = start; day < input.sales.length; day++) {
+    const arriving = arrivals.get(day) ?? 0
+    onHand += arriving
+    onOrder -= arriving
+
+    const plan = planReplenishment({ ...input, sales: input.sales.slice(0, day), currentStock: onHand, onOrder }, strategy)
+    if (plan.suggestedQuantity > 0) {
+      arrivals.set(day + leadTime, (arrivals.get(day + leadTime) ?? 0) + plan.suggestedQuantity)
+      onOrder += plan.suggestedQuantity
+      ordersPlaced++
+      unitsOrdered += plan.suggestedQuantity
+    }
+
+    const demand = input.sales[day]
+    const sold = Math.min(onHand, demand)
+    if (sold < demand) stockoutDays++
+    unitsDemanded += demand
+    unitsSold += sold
+    onHand -= sold
+    onHandTotal += onHand
+  }
+
+  const days = input.sales.length - start
+  return {
+    days,
+    unitsDemanded,
+    unitsSold,
+    lostSales: unitsDemanded - unitsSold,
+    fillRate: unitsDemanded > 0 ? unitsSold / unitsDemanded : 1,
+    stockoutDays,
+    averageOnHand: days > 0 ? onHandTotal / days : onHand,
+    ordersPlaced,
+    unitsOrdered,
+  }
+}
@@ -0,0 +1,98 @@
+// route-order.ts
+// LIFO loading order derived from the delivery route. Freight for the first
+// stop goes in last, by the doors (+z); freight for the last stop goes in
+// first, at the nose. Boxes without a known stop are treated as coming off
+// after every stop, so they belong at the nose too.
+
+import type { Box } from "@/types/box"
+import type { UnloadBlocker } from "@/types/packing"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+
+const CONTACT_TOLERANCE = 0.02
+
+export type RoutedBox = Pick<Box, "id" | "destination" | "position" | "width" | "height" | "length" | "orientation">
+
+/**
+ * The route's stops followed by any destination the boxes use that the route
+ * doesn't list, in natural order ("Stop 2" before "Stop 10"), so loads with
+ * no route configured still unload in a sensible order.
+ */
+export function resolveStopOrder(stopOrder: string[], boxes: Pick<Box, "destination">[]): string[] {
+  const extra = new Set<string>()
+  for (const box of boxes) {
+    if (box.destination && !stopOrder.includes(box.destination)) extra.add(box.destination)
+  }
+  const sortedExtra = Array.from(extra).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  return [...stopOrder, ...sortedExtra]
+}
+
+// 0 for the first stop; unknown and unassigned destinations come after the last
+export function getStopIndex(stopOrder: string[], destination: string): number {
+  const index = stopOrder.indexOf(destination)
+  return index === -1 ? stopOrder.length : index
+}
+
+// Where along the cargo length a box belongs: 0 at the nose, 1 at the doors
+export function getLifoDepthRatio(stopOrder: string[], destination: string): number {
+  if (stopOrder.length < 2) return 0
+  const index = getStopIndex(stopOrder, destination)
+  return Math.max(0, 1 - index / (stopOrder.length - 1))
+}
+
+// Sorts boxes into loading order: last stop first, first stop last
+export function compareByLoadingOrder(stopOrder: string[]) {
+  return (a: Pick<Box, "destination">, b: Pick<Box, "destination">) =>
+    getStopIndex(stopOrder, b.destination) - getStopIndex(stopOrder, a.destination)
+}
+
+function getBounds(box: RoutedBox) {
+  const { width, height, length } = getOrientedDimensions(box)
+  return {
+    minX: box.position.x - width / 2,
+    maxX: box.position.x + width / 2,
+    minY: box.position.y - height / 2,
+    maxY: box.position.y + height / 2,
+    minZ: box.position.z - length / 2,
+    maxZ: box.position.z + length / 2,
+  }
+}
+
+function overlaps(minA: number, maxA: number, minB: number, maxB: number): boolean {
+  return minA < maxB - CONTACT_TOLERANCE && maxA > minB + CONTACT_TOLERANCE
+}
+
+// Whether `other` has to come out before `box` can: it's stacked on top of
+// the box, or stands between it and the doors in the same lane
+export function isInUnloadPath(other: RoutedBox, box: RoutedBox): boolean {
+  const bounds = getBounds(box)
+  const otherBounds = getBounds(other)
+  if (!overlaps(bounds.minX, bounds.maxX, otherBounds.minX, otherBounds.maxX)) return false
+
+  const isOnTop =
+    overlaps(bounds.minZ, bounds.maxZ, otherBounds.minZ, otherBounds.maxZ) &&
+    otherBounds.minY >= bounds.maxY - CONTACT_TOLERANCE
+  const isInFront =
+    overlaps(bounds.minY, bounds.maxY, otherBounds.minY, otherBounds.maxY) &&
+    otherBounds.minZ >= bounds.maxZ - CONTACT_TOLERANCE
+  return isOnTop || isInFront
+}
+
+// Boxes that can't come off at their stop without first moving freight for a later stop
+export function findUnloadBlockers(boxes: RoutedBox[], stopOrder: string[]): UnloadBlocker[] {
+  const blockers: UnloadBlocker[] = []
+
+  for (const box of boxes) {
+    const stopIndex = stopOrder.indexOf(box.destination)
+    if (stopIndex === -1) continue
+
+    const blockedBy = boxes.filter(
+      (other) => other !== box && getStopIndex(stopOrder, other.destination) > stopIndex && isInUnloadPath(other, box),
+    )
+
+    if (blockedBy.length > 0) {
+      blockers.push({ boxId: box.id, stop: box.destination, blockedBy: blockedBy.map((other) => other.id) })
+    }
+  }
+
+  return blockers.sort((a, b) => getStopIndex(stopOrder, a.stop) - getStopIndex(stopOrder, b.stop))
+}
@@ -0,0 +1,170 @@
+// stacking-rules.ts
+// Load bearing for crushFactor / stackLimit. A box's weight plus everything
+// resting on it is shared between the boxes underneath in proportion to the
+// footprint overlap, so the load on a box is the cumulative weight above it.
+
+import type { Box } from "@/types/box"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+
+// crushFactor 1.0 bears this many lbs per square foot of top face
+export const MAX_LOAD_PER_SQ_FT = 200
+
+const CONTACT_TOLERANCE = 0.05
+
+type StackableBox = Pick<Box, "id" | "weight" | "position" | "width" | "height" | "length" | "orientation" | "crushFactor" | "stackLimit">
+
+export interface StackLoad {
+  load: number // lbs bearing on the box's top face
+  boxesAbove: number // distinct boxes resting on it directly or indirectly
+}
+
+export interface StackingViolation {
+  boxId: string
+  type: "crush" | "stack-limit"
+  actual: number
+  limit: number
+}
+
+// Max weight the box may carry; undefined crushFactor means no rating
+export function getMaxSupportedLoad(box: StackableBox): number {
+  if (box.crushFactor === undefined || box.crushFactor === null) return Infinity
+  const { width, length } = getOrientedDimensions(box)
+  return Math.max(0, box.crushFactor) * MAX_LOAD_PER_SQ_FT * width * length
+}
+
+function getFootprintOverlap(a: StackableBox, b: StackableBox): number {
+  const da = getOrientedDimensions(a)
+  const db = getOrientedDimensions(b)
+  const xOverlap = Math.max(0, Math.min(a.position.x + da.width / 2, b.position.x + db.width / 2) - Math.max(a.position.x - da.width / 2, b.position.x - db.width / 2))
+  const zOverlap = Math.max(0, Math.min(a.position.z + da.length / 2, b.position.z + db.length / 2) - Math.max(a.position.z - da.length / 2, b.position.z - db.length / 2))
+  return xOverlap * zOverlap
+}
+
+// Boxes whose top face touches the bottom of `box`, with the share of its weight each one takes
+export function getSupports<T extends StackableBox>(box: StackableBox, candidates: T[]): Array<{ box: T; share: number }> {
+  const bottom = box.position.y - getOrientedDimensions(box).height / 2
+  if (bottom <= CONTACT_TOLERANCE) return [] // resting on the truck floor
+
+  const contacts = candidates
+    .filter((other) => other.id !== box.id)
+    .filter((other) => Math.abs(other.position.y + getOrientedDimensions(other).height / 2 - bottom) < CONTACT_TOLERANCE)
+    .map((other) => ({ box: other, area: getFootprintOverlap(box, other) }))
+    .filter((contact) => contact.area > 0)
+
+  const totalArea = contacts.reduce((sum, contact) => sum + contact.area, 0)
+  return contacts.map((contact) => ({ box: contact.box, share: contact.area / totalArea }))
+}
+
+export function computeStackLoads(boxes: StackableBox[]): Map<string, StackLoad> {
+  const loads = new Map<string, StackLoad>(boxes.map((box) => [box.id, { load: 0, boxesAbove: 0 }]))
+  const above = new Map<string, Set<string>>(boxes.map((box) => [box.id, new Set<string>()]))
+
+  // Top-down so each box has received everything above it before passing it on
+  const topDown = [...boxes].sort((a, b) => b.position.y - a.position.y)
+  for (const box of topDown) {
+    const carried = box.weight + loads.get(box.id)!.load
+    for (const { box: support, share } of getSupports(box, boxes)) {
+      loads.get(support.id)!.load += carried * share
+      const supportAbove = above.get(support.id)!
+      supportAbove.add(box.id)
+      above.get(box.id)!.forEach((id) => supportAbove.add(id))
+    }
+  }
+
+  above.forEach((ids, id) => {
+    loads.get(id)!.boxesAbove = ids.size
+  })
+  return loads
+}
+
+export function findStackingViolations(boxes: StackableBox[]): StackingViolation[] {
+  const loads = computeStackLoads(boxes)
+  const violations: StackingViolation[] = []
+
+  for (const box of boxes) {
+    const { load, boxesAbove } = loads.get(box.id)!
+    const maxLoad = getMaxSupportedLoad(box)
+    if (load > maxLoad) {
+      violations.push({ boxId: box.id, type: "crush", actual: load, limit: maxLoad })
+    }
+    if (box.stackLimit !== undefined && boxesAbove > box.stackLimit) {
+      violations.push({ boxId: box.id, type: "stack-limit", actual: boxesAbove, limit: box.stackLimit })
+    }
+  }
+  return violations
+}
+
+// Load `box` would pick up from boxes already resting where its top face
+// will be, e.g. when it slides in under an overhang. Their weight is split
+// with `box` taking its footprint share, which can only overstate the result.
+function getIncomingLoad(box: StackableBox, placedBoxes: StackableBox[], loads: Map<string, StackLoad>): StackLoad {
+  const top = box.position.y + getOrientedDimensions(box).height / 2
+  const incoming: StackLoad = { load: 0, boxesAbove: 0 }
+
+  for (const other of placedBoxes) {
+    if (Math.abs(other.position.y - getOrientedDimensions(other).height / 2 - top) >= CONTACT_TOLERANCE) continue
+    const share = getSupports(other, [...placedBoxes, box]).find((support) => support.box === box)?.share ?? 0
+    if (share === 0) continue
+    const otherLoad = loads.get(other.id) ?? { load: 0, boxesAbove: 0 }
+    incoming.load += (other.weight + otherLoad.load) * share
+    incoming.boxesAbove += 1 + otherLoad.boxesAbove
+  }
+  return incoming
+}
+
+// Extra weight each box below would carry if `box` were added on top of `placedBoxes`
+function distributeLoad(box: StackableBox, placedBoxes: StackableBox[], weight: number): Map<string, { box: StackableBox; added: number }> {
+  const affected = new Map<string, { box: StackableBox; added: number }>()
+
+  const distribute = (current: StackableBox, currentWeight: number) => {
+    for (const { box: support, share } of getSupports(current, placedBoxes)) {
+      const entry = affected.get(support.id) ?? { box: support, added: 0 }
+      entry.added += currentWeight * share
+      affected.set(support.id, entry)
+      distribute(support, currentWeight * share)
+    }
+  }
+  distribute(box, weight)
+  return affected
+}
+
+// Highest share of a crush rating used below `box` once it is added, 0 when nothing below is rated
+export function getPeakCrushUtilization(box: StackableBox, placedBoxes: StackableBox[], loads: Map<string, StackLoad>): number {
+  const incoming = getIncomingLoad(box, placedBoxes, loads)
+  let peak = 0
+  distributeLoad(box, placedBoxes, box.weight + incoming.load).forEach(({ box: support, added }) => {
+    const maxLoad = getMaxSupportedLoad(support)
+    if (!isFinite(maxLoad)) return
+    const load = (loads.get(support.id)?.load ?? 0) + added
+    peak = Math.max(peak, maxLoad > 0 ? load / maxLoad : Infinity)
+  })
+  return peak
+}
+
+/**
+ * Whether placing `box` on top of `placedBoxes` would push anything below it
+ * past its crush rating or stack limit. `loads` must match `placedBoxes`,
+ * either from computeStackLoads or kept current with addToStackLoads.
+ */
+export function wouldOverloadStack(box: StackableBox, placedBoxes: StackableBox[], loads: Map<string, StackLoad>): boolean {
+  const incoming = getIncomingLoad(box, placedBoxes, loads)
+  if (incoming.load > getMaxSupportedLoad(box)) return true
+  if (box.stackLimit !== undefined && incoming.boxesAbove > box.stackLimit) return true
+
+  for (const { box: support, added } of distributeLoad(box, placedBoxes, box.weight + incoming.load).values()) {
+    const current = loads.get(support.id) ?? { load: 0, boxesAbove: 0 }
+    if (current.load + added > getMaxSupportedLoad(support)) return true
+    if (support.stackLimit !== undefined && current.boxesAbove + 1 + incoming.boxesAbove > support.stackLimit) return true
+  }
+  return false
+}
+
+// Records `box` as placed on top of `placedBoxes` without recomputing the whole load
+export function addToStackLoads(box: StackableBox, placedBoxes: StackableBox[], loads: Map<string, StackLoad>) {
+  const incoming = getIncomingLoad(box, placedBoxes, loads)
+  distributeLoad(box, placedBoxes, box.weight + incoming.load).forEach(({ box: support, added }) => {
+    const current = loads.get(support.id) ?? { load: 0, boxesAbove: 0 }
+    loads.set(support.id, { load: current.load + added, boxesAbove: current.boxesAbove + 1 + incoming.boxesAbove })
+  })
+  loads.set(box.id, incoming)
+}
@@ -0,0 +1,110 @@
+// support-rules.ts
+// How much of a stacked box's base actually rests on the boxes below it.
+// The void packer enforces these rules while placing; findUnsupportedBoxes
+// re-checks a finished layout from any solver.
+
+import type { Box, OptimizationConstraints } from "@/types/box"
+import type { SupportIssue } from "@/types/packing"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+
+export type SupportRules = Pick<OptimizationConstraints, "minSupportRatio" | "requireCornerSupport">
+
+export const DEFAULT_SUPPORT_RULES: SupportRules = {
+  minSupportRatio: 0.6,
+  requireCornerSupport: false,
+}
+
+const CONTACT_TOLERANCE = 0.02
+const FLOOR_TOLERANCE = 0.02
+
+type SupportableBox = Pick<Box, "id" | "position" | "width" | "height" | "length" | "orientation">
+
+function getBase(box: SupportableBox) {
+  const { width, height, length } = getOrientedDimensions(box)
+  return {
+    minX: box.position.x - width / 2,
+    maxX: box.position.x + width / 2,
+    minZ: box.position.z - length / 2,
+    maxZ: box.position.z + length / 2,
+    bottom: box.position.y - height / 2,
+  }
+}
+
+export function isOnFloor(box: SupportableBox): boolean {
+  return getBase(box).bottom < FLOOR_TOLERANCE
+}
+
+// Boxes whose top face is level with the bottom of `box`
+function getBoxesDirectlyBelow<T extends SupportableBox>(box: SupportableBox, others: T[]): T[] {
+  const { bottom } = getBase(box)
+  return others.filter((other) => {
+    if (other.id === box.id) return false
+    const top = other.position.y + getOrientedDimensions(other).height / 2
+    return Math.abs(top - bottom) < CONTACT_TOLERANCE
+  })
+}
+
+// Share of the base area (0-1) resting on boxes below; 1 on the floor
+export function getSupportedBaseRatio(box: SupportableBox, others: SupportableBox[]): number {
+  if (isOnFloor(box)) return 1
+
+  const base = getBase(box)
+  const baseArea = (base.maxX - base.minX) * (base.maxZ - base.minZ)
+  if (baseArea <= 0) return 0
+
+  // Boxes can't overlap each other, so their top faces never double count
+  const supportedArea = getBoxesDirectlyBelow(box, others).reduce((sum, other) => {
+    const below = getBase(other)
+    const xOverlap = Math.max(0, Math.min(base.maxX, below.maxX) - Math.max(base.minX, below.minX))
+    const zOverlap = Math.max(0, Math.min(base.maxZ, below.maxZ) - Math.max(base.minZ, below.minZ))
+    return sum + xOverlap * zOverlap
+  }, 0)
+
+  return Math.min(1, supportedArea / baseArea)
+}
+
+// Whether each of the four bottom corners sits on a box below
+export function areCornersSupported(box: SupportableBox, others: SupportableBox[]): boolean {
+  if (isOnFloor(box)) return true
+
+  const base = getBase(box)
+  const corners = [
+    { x: base.minX, z: base.minZ },
+    { x: base.minX, z: base.maxZ },
+    { x: base.maxX, z: base.minZ },
+    { x: base.maxX, z: base.maxZ },
+  ]
+  const below = getBoxesDirectlyBelow(box, others).map(getBase)
+
+  return corners.every((corner) =>
+    below.some(
+      (support) =>
+        corner.x >= support.minX - CONTACT_TOLERANCE &&
+        corner.x <= support.maxX + CONTACT_TOLERANCE &&
+        corner.z >= support.minZ - CONTACT_TOLERANCE &&
+        corner.z <= support.maxZ + CONTACT_TOLERANCE,
+    ),
+  )
+}
+
+export function isAdequatelySupported(box: SupportableBox, others: SupportableBox[], rules: SupportRules): boolean {
+  if (isOnFloor(box)) return true
+  if (getSupportedBaseRatio(box, others) < rules.minSupportRatio) return false
+  return !rules.requireCornerSupport || areCornersSupported(box, others)
+}
+
+// Post-pack check: every box resting on less than the required base support
+export function findUnsupportedBoxes(boxes: SupportableBox[], rules: SupportRules): SupportIssue[] {
+  const issues: SupportIssue[] = []
+
+  for (const box of boxes) {
+    if (isOnFloor(box)) continue
+
+    const supportRatio = getSupportedBaseRatio(box, boxes)
+    const cornersSupported = areCornersSupported(box, boxes)
+    if (supportRatio < rules.minSupportRatio || (rules.requireCornerSupport && !cornersSupported)) {
+      issues.push({ boxId: box.id, supportRatio, cornersSupported })
+    }
+  }
+  return issues
+}
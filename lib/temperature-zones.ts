@@ -0,0 +1,109 @@
+// temperature-zones.ts
+// Resolves a TemperatureZoneLayout against the truck length. The packers, the
+// 3D overlay, the 2D renderers and the report all read compartments from here
+// so a moved bulkhead shows up everywhere at once.
+
+import type { Box, TemperatureCompartment, TemperatureZone, TemperatureZoneLayout, TruckDimensions } from "@/types/box"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+
+// Ambient up front, then 4ft chilled and 4ft frozen at the doors
+export const DEFAULT_TEMPERATURE_ZONE_LAYOUT: TemperatureZoneLayout = {
+  compartments: [
+    { id: "ambient", name: "Ambient", setpoint: null, accepts: ["regular"] },
+    { id: "chilled", name: "Chilled", length: 4, setpoint: 36, accepts: ["cold"] },
+    { id: "frozen", name: "Frozen", length: 4, setpoint: 0, accepts: ["frozen"] },
+  ],
+}
+
+export const TEMPERATURE_ZONES: TemperatureZone[] = ["regular", "cold", "frozen"]
+
+export const ZONE_COLORS: Record<TemperatureZone, string> = {
+  frozen: "#00bcd4",
+  cold: "#2196f3",
+  regular: "#666666",
+}
+
+export interface ResolvedCompartment extends TemperatureCompartment {
+  length: number
+  startZ: number // nose-side edge
+  endZ: number // door-side edge
+}
+
+/**
+ * Lays the compartments out nose to doors. Flexible compartments split the
+ * length the fixed ones leave; with none, the last compartment runs to the
+ * doors. Anything past the truck length is clipped.
+ */
+export function resolveTemperatureCompartments(
+  layout: TemperatureZoneLayout,
+  truckDimensions: Pick<TruckDimensions, "length">,
+): ResolvedCompartment[] {
+  const { compartments } = layout
+  if (compartments.length === 0) return []
+
+  const truckLength = truckDimensions.length
+  const fixedLength = compartments.reduce((sum, compartment) => sum + Math.max(0, compartment.length ?? 0), 0)
+  const flexibleCount = compartments.filter((compartment) => compartment.length === undefined).length
+  const flexibleLength = flexibleCount > 0 ? Math.max(0, truckLength - fixedLength) / flexibleCount : 0
+
+  const resolved: ResolvedCompartment[] = []
+  let startZ = -truckLength / 2
+  compartments.forEach((compartment, index) => {
+    const isLast = index === compartments.length - 1
+    let length = compartment.length === undefined ? flexibleLength : Math.max(0, compartment.length)
+    if (isLast && flexibleCount === 0) length = truckLength / 2 - startZ
+    length = Math.max(0, Math.min(length, truckLength / 2 - startZ))
+
+    resolved.push({ ...compartment, length, startZ, endZ: startZ + length })
+    startZ += length
+  })
+  return resolved
+}
+
+export function findCompartmentAt(compartments: ResolvedCompartment[], z: number): ResolvedCompartment | undefined {
+  return compartments.find((compartment, index) =>
+    // The door-side edge belongs to the last compartment so boxes against the doors still count
+    z >= compartment.startZ && (z < compartment.endZ || (index === compartments.length - 1 && z <= compartment.endZ)),
+  )
+}
+
+// Whether the whole z-span of a box lies in compartments that accept its zone; a box can't straddle a bulkhead into the wrong one
+export function isSpanInAcceptingCompartments(
+  compartments: ResolvedCompartment[],
+  zone: TemperatureZone,
+  minZ: number,
+  maxZ: number,
+): boolean {
+  const tolerance = 0.01
+  const overlapping = compartments.filter(
+    (compartment) => compartment.length > 0 && compartment.startZ < maxZ - tolerance && compartment.endZ > minZ + tolerance,
+  )
+  if (overlapping.length === 0) return false
+  return overlapping.every((compartment) => compartment.accepts.includes(zone))
+}
+
+// Placed boxes sitting outside the compartments their zone allows
+export function findZoneMismatches<T extends Pick<Box, "id" | "position" | "width" | "height" | "length" | "orientation" | "temperatureZone">>(
+  boxes: T[],
+  compartments: ResolvedCompartment[],
+): T[] {
+  return boxes.filter((box) => {
+    const { length } = getOrientedDimensions(box)
+    return !isSpanInAcceptingCompartments(compartments, box.temperatureZone, box.position.z - length / 2, box.position.z + length / 2)
+  })
+}
+
+export function compartmentAccepts(compartment: ResolvedCompartment | undefined, zone: TemperatureZone): boolean {
+  return !!compartment && compartment.accepts.includes(zone)
+}
+
+// Coldest zone a compartment takes decides how it is drawn
+export function getCompartmentColor(compartment: TemperatureCompartment): string {
+  if (compartment.accepts.includes("frozen")) return ZONE_COLORS.frozen
+  if (compartment.accepts.includes("cold")) return ZONE_COLORS.cold
+  return ZONE_COLORS.regular
+}
+
+export function formatSetpoint(setpoint: number | null): string {
+  return setpoint === null ? "Ambient" : `${setpoint}°F`
+}
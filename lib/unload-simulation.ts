@@ -0,0 +1,78 @@
+// unload-simulation.ts
+// Walks a packed load through its route. At each stop the stop's boxes come
+// out through the rear doors; anything in their way is shifted and put back.
+// After each stop the freight left on board is re-checked for base support
+// and axle limits, since taking weight out can leave stacks hanging or move
+// load onto the steer axle.
+
+import type { Box, TruckDimensions, VehicleModel } from "@/types/box"
+import { computeAxleLoads, findAxleOverloads } from "@/lib/axle-loads"
+import { isInUnloadPath } from "@/lib/route-order"
+import { findUnsupportedBoxes, type SupportRules } from "@/lib/support-rules"
+
+export interface UnloadStep {
+  stop: string
+  unloadedBoxIds: string[]
+  shiftedBoxIds: string[] // other stops' boxes moved out of the way and back
+  remainingBoxIds: string[] // still on board after this stop
+  unsupportedBoxIds: string[] // left resting on too little once the stop's boxes are gone
+  overloadedAxles: string[]
+  stable: boolean
+}
+
+// Everything that has to come out before `targets` can, including whatever blocks the blockers
+function findBoxesToShift(targets: Box[], onBoard: Box[]): Box[] {
+  const moving = new Set(targets)
+  const queue = [...targets]
+  while (queue.length > 0) {
+    const box = queue.pop()!
+    for (const other of onBoard) {
+      if (!moving.has(other) && isInUnloadPath(other, box)) {
+        moving.add(other)
+        queue.push(other)
+      }
+    }
+  }
+  return onBoard.filter((box) => moving.has(box) && !targets.includes(box))
+}
+
+/**
+ * One step per stop that has freight on the truck, in route order. Boxes for
+ * destinations the route doesn't list stay on board to the end.
+ */
+export function simulateUnloading(
+  boxes: Box[],
+  stopOrder: string[],
+  vehicle: VehicleModel,
+  truckDimensions: TruckDimensions,
+  supportRules: SupportRules,
+): UnloadStep[] {
+  const steps: UnloadStep[] = []
+  let onBoard = [...boxes]
+
+  for (const stop of stopOrder) {
+    const unloaded = onBoard.filter((box) => box.destination === stop)
+    if (unloaded.length === 0) continue
+
+    const shifted = findBoxesToShift(unloaded, onBoard)
+    const alreadyUnsupported = new Set(findUnsupportedBoxes(onBoard, supportRules).map((issue) => issue.boxId))
+    onBoard = onBoard.filter((box) => box.destination !== stop)
+
+    const unsupportedBoxIds = findUnsupportedBoxes(onBoard, supportRules)
+      .map((issue) => issue.boxId)
+      .filter((id) => !alreadyUnsupported.has(id))
+    const overloadedAxles = findAxleOverloads(computeAxleLoads(onBoard, vehicle, truckDimensions)).map((axle) => axle.name)
+
+    steps.push({
+      stop,
+      unloadedBoxIds: unloaded.map((box) => box.id),
+      shiftedBoxIds: shifted.map((box) => box.id),
+      remainingBoxIds: onBoard.map((box) => box.id),
+      unsupportedBoxIds,
+      overloadedAxles,
+      stable: unsupportedBoxIds.length === 0 && overloadedAxles.length === 0,
+    })
+  }
+
+  return steps
+}
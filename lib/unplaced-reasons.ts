@@ -0,0 +1,112 @@
+// unplaced-reasons.ts
+// Structured explanations for boxes a packer leaves in unplaceableBoxes.
+// The void packer works out the precise reason while it packs; the other
+// solvers fall back to diagnoseUnplacedBox once they're done.
+
+import type { Box, TruckDimensions, UnplacedReason, UnplacedReasonCode } from "@/types/box"
+import type { PackingSolverInput } from "@/types/packing"
+import { getAllowedOrientations, orientDimensions } from "@/lib/box-orientation"
+import { resolveTemperatureCompartments } from "@/lib/temperature-zones"
+
+export const UNPLACED_REASON_LABELS: Record<UnplacedReasonCode, string> = {
+  "too-large": "Too large",
+  "over-weight-limit": "Over weight limit",
+  "axle-limit": "Axle limit",
+  "no-zone-capacity": "No zone capacity",
+  "stacking-rules": "Stacking rules",
+  "no-space": "No space",
+  "needs-repack": "Needs repack",
+}
+
+export function tooLargeReason(box: Pick<Box, "width" | "height" | "length">, truckDimensions: TruckDimensions): UnplacedReason {
+  return {
+    code: "too-large",
+    message: `${box.width}×${box.height}×${box.length} ft doesn't fit a ${truckDimensions.width}×${truckDimensions.height}×${truckDimensions.length} ft truck in any allowed orientation`,
+  }
+}
+
+export function overWeightReason(box: Pick<Box, "weight">, remainingWeight: number): UnplacedReason {
+  return {
+    code: "over-weight-limit",
+    message: `${box.weight} lbs exceeds the ${Math.max(0, remainingWeight).toFixed(0)} lbs of payload left`,
+  }
+}
+
+export function axleLimitReason(axleNames: string[]): UnplacedReason {
+  return {
+    code: "axle-limit",
+    message: axleNames.length > 0
+      ? `Every spot left would put the ${axleNames.join(" and ")} over its legal limit`
+      : "Every spot left would put the vehicle over its gross weight limit",
+  }
+}
+
+export function noZoneCapacityReason(box: Pick<Box, "temperatureZone">, hasAcceptingCompartment: boolean): UnplacedReason {
+  return {
+    code: "no-zone-capacity",
+    message: hasAcceptingCompartment
+      ? `No space left in ${box.temperatureZone} compartments`
+      : `No compartment accepts ${box.temperatureZone} boxes`,
+  }
+}
+
+export function stackingRulesReason(): UnplacedReason {
+  return {
+    code: "stacking-rules",
+    message: "Remaining spots would overload a box below or leave this one without enough support",
+  }
+}
+
+export function noSpaceReason(): UnplacedReason {
+  return { code: "no-space", message: "No free space large enough is left" }
+}
+
+// Incremental placement found no slot that leaves loaded and locked boxes where they are
+export function needsRepackReason(): UnplacedReason {
+  return { code: "needs-repack", message: "Could not fit without repacking boxes that are already loaded or locked" }
+}
+
+// Fleet planning ran out of trucks before reaching this box
+export function noTruckLeftReason(): UnplacedReason {
+  return { code: "no-space", message: "Every available truck in the fleet is already full" }
+}
+
+// Whether the box fits the empty truck in at least one orientation it may be loaded in
+export function fitsTruckInAnyOrientation(
+  box: Pick<Box, "width" | "height" | "length" | "thisSideUp" | "allowedOrientations">,
+  truckDimensions: TruckDimensions,
+): boolean {
+  return getAllowedOrientations(box).some((orientation) => {
+    const dims = orientDimensions(box, orientation)
+    return (
+      dims.width <= truckDimensions.width &&
+      dims.height <= truckDimensions.height &&
+      dims.length <= truckDimensions.length
+    )
+  })
+}
+
+/**
+ * Best-effort reason for solvers that don't report one. Checked in order:
+ * size, payload left after `placedBoxes`, a compartment for the box's zone
+ * in strict mode, and otherwise the truck simply ran out of room.
+ */
+export function diagnoseUnplacedBox(box: Box, placedBoxes: Box[], input: PackingSolverInput): UnplacedReason {
+  if (!fitsTruckInAnyOrientation(box, input.truckDimensions)) {
+    return tooLargeReason(box, input.truckDimensions)
+  }
+
+  const remainingWeight = input.constraints.maxWeight - placedBoxes.reduce((sum, placed) => sum + placed.weight, 0)
+  if (box.weight > remainingWeight) {
+    return overWeightReason(box, remainingWeight)
+  }
+
+  if (input.constraints.temperatureZones && input.constraints.strictTemperatureZones) {
+    const hasAcceptingCompartment = resolveTemperatureCompartments(input.zoneLayout, input.truckDimensions).some(
+      (compartment) => compartment.length > 0 && compartment.accepts.includes(box.temperatureZone),
+    )
+    return noZoneCapacityReason(box, hasAcceptingCompartment)
+  }
+
+  return noSpaceReason()
+}
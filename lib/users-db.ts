@@ -0,0 +1,98 @@
+// users-db.ts
+// Accounts and sessions through Prisma for lib/auth.ts and the auth and users
+// route handlers. Password hashes never leave this module and lib/auth.ts.
+// Server-side only.
+
+import { randomBytes } from "node:crypto"
+import { prisma } from "@/lib/prisma"
+import { ApiError, notFound } from "@/lib/api-route"
+import type { SessionUser, UserRole } from "@/types/auth"
+
+type UserRow = Awaited<ReturnType<typeof prisma.user.findUniqueOrThrow>>
+type Db = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+export function toSessionUser(row: UserRow): SessionUser {
+  return {
+    id: row.id,
+    username: row.username,
+    name: row.name,
+    role: row.role as UserRole,
+    retailId: row.retailId,
+  }
+}
+
+export async function findUserForLogin(username: string): Promise<{ user: SessionUser; passwordHash: string } | null> {
+  const row = await prisma.user.findUnique({ where: { username } })
+  return row ? { user: toSessionUser(row), passwordHash: row.passwordHash } : null
+}
+
+async function assertUsernameFree(db: Db, username: string): Promise<void> {
+  if ((await db.user.count({ where: { username } })) > 0) {
+    throw new ApiError(409, `The username ${username} is taken`)
+  }
+}
+
+export async function listUsers(): Promise<SessionUser[]> {
+  const rows = await prisma.user.findMany({ orderBy: [{ role: "asc" }, { username: "asc" }] })
+  return rows.map(toSessionUser)
+}
+
+export async function createUser(input: {
+  username: string
+  passwordHash: string
+  name: string
+  role: UserRole
+  retailId?: number
+}): Promise<SessionUser> {
+  const row = await prisma.$transaction(async (db: Db) => {
+    await assertUsernameFree(db, input.username)
+    if (input.retailId && (await db.retailer.count({ where: { id: input.retailId } })) === 0) {
+      throw notFound("Retailer")
+    }
+    return db.user.create({ data: { ...input, retailId: input.retailId ?? null } })
+  })
+  return toSessionUser(row)
+}
+
+// A new shop: the store and its first account in one go
+export async function createRetailerAccount(input: {
+  shopName: string
+  address: string
+  phone?: string
+  username: string
+  passwordHash: string
+}): Promise<SessionUser> {
+  const row = await prisma.$transaction(async (db: Db) => {
+    await assertUsernameFree(db, input.username)
+    const retailer = await db.retailer.create({
+      data: { name: input.shopName, address: input.address, phone: input.phone ?? null },
+    })
+    return db.user.create({
+      data: {
+        username: input.username,
+        passwordHash: input.passwordHash,
+        name: input.shopName,
+        role: "retailer",
+        retailId: retailer.id,
+      },
+    })
+  })
+  return toSessionUser(row)
+}
+
+export async function createSession(userId: number, expiresAt: Date): Promise<string> {
+  const id = randomBytes(32).toString("base64url")
+  await prisma.session.create({ data: { id, userId, expiresAt } })
+  return id
+}
+
+// The session's user as stored now, so a changed role applies straight away
+export async function findSessionUser(sessionId: string): Promise<SessionUser | null> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, include: { user: true } })
+  if (!session || session.expiresAt.getTime() <= Date.now()) return null
+  return toSessionUser(session.user)
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { id: sessionId } })
+}
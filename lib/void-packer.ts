@@ -0,0 +1,821 @@
+// void-packer.ts
+// Void-filling packing strategy shared by the optimization store and the physics worker.
+// Kept free of React/zustand imports so it can run inside a Web Worker.
+
+import type { Box, BoxOrientation, OptimizationConstraints, TemperatureZoneLayout, UnplacedReason, VehicleModel } from "@/types/box"
+import type { OptimizationProgress } from "@/types/worker-messages"
+import { getAllowedOrientations, getOrientedDimensions, orientDimensions } from "@/lib/box-orientation"
+import {
+  DEFAULT_VEHICLE_MODEL,
+  addToAxleLoads,
+  computeAxleLoads,
+  getAxlesOverloadedBy,
+  wouldExceedAxleLimits,
+  type AxleLoad,
+} from "@/lib/axle-loads"
+import { compareByLoadingOrder, getLifoDepthRatio } from "@/lib/route-order"
+import { addToStackLoads, getPeakCrushUtilization, wouldOverloadStack, type StackLoad } from "@/lib/stacking-rules"
+import { DEFAULT_SUPPORT_RULES, isAdequatelySupported, type SupportRules } from "@/lib/support-rules"
+import {
+  DEFAULT_TEMPERATURE_ZONE_LAYOUT,
+  compartmentAccepts,
+  findCompartmentAt,
+  isSpanInAcceptingCompartments,
+  resolveTemperatureCompartments,
+  type ResolvedCompartment,
+} from "@/lib/temperature-zones"
+import {
+  axleLimitReason,
+  fitsTruckInAnyOrientation,
+  noSpaceReason,
+  noZoneCapacityReason,
+  overWeightReason,
+  stackingRulesReason,
+  tooLargeReason,
+} from "@/lib/unplaced-reasons"
+
+// Define a simpler Box type for the packing algorithm to avoid circular dependencies if Box has Three.Vector3
+// width/height/length start as the labelled dimensions and become the oriented
+// extents once placed, with `rotation` recording which orientation was chosen
+export interface PackableBox extends Omit<Box, 'position' | 'orientation'> {
+  // Position is managed by the packing algorithm, not directly stored as Vector3 here
+  // We will store simple x, y, z coordinates
+  position: { x: number; y: number; z: number };
+  originalId: string; // Keep track of original ID for score updates
+  rotation?: BoxOrientation; // For rotation awareness
+}
+
+export type VoidPackerRules = SupportRules & Pick<OptimizationConstraints, "strictTemperatureZones" | "maxWeight"> & {
+  stopOrder: string[]; // delivery stops, first stop first; empty skips LIFO
+};
+
+export const DEFAULT_VOID_PACKER_RULES: VoidPackerRules = {
+  ...DEFAULT_SUPPORT_RULES,
+  strictTemperatureZones: false,
+  maxWeight: Infinity,
+  stopOrder: [],
+};
+
+// Running axle loads of the vehicle being packed
+interface AxleLimits {
+  vehicle: VehicleModel;
+  loads: AxleLoad[];
+}
+
+// Interface for an empty space (void) in the truck
+export interface Void {
+  id: string; // Unique ID for the void
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  length: number;
+  volume: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/* HELPER FUNCTIONS FOR BOX ARRANGEMENT (Void-filling Strategy)              */
+/* -------------------------------------------------------------------------- */
+
+// Type for a potential placement, including its dimensions in that orientation
+interface PlacementCandidate {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  length: number;
+  rotation: BoxOrientation;
+}
+
+// Function to get all unique orientations for a box, limited to the ones it allows
+function getOrientations(box: PackableBox): PlacementCandidate[] {
+  const uniqueOrientations: PlacementCandidate[] = [];
+  const seenDimensions = new Set<string>();
+
+  for (const rotation of getAllowedOrientations(box)) {
+    const { width, height, length } = orientDimensions(box, rotation);
+    // Cubes and square faces give identical extents for several rotations
+    const dimKey = [width, height, length].join(',');
+    if (!seenDimensions.has(dimKey)) {
+      uniqueOrientations.push({ x: 0, y: 0, z: 0, width, height, length, rotation });
+      seenDimensions.add(dimKey);
+    }
+  }
+
+  return uniqueOrientations;
+}
+
+
+export interface PackingResult {
+  placedBoxes: PackableBox[];
+  unplacedBoxes: PackableBox[];
+}
+
+// --- Main Optimization Function ---
+// Packs one box per iteration and yields after each, so callers (the physics
+// worker) can report progress and stop between boxes. `fixedBoxes` (locked
+// boxes, already at their oriented extents) are in the truck from the start
+// and are never moved; they aren't part of the returned placedBoxes.
+export function* packBoxesIncrementally(
+  boxes: PackableBox[],
+  truckDimensions: { width: number; length: number; height: number },
+  rules: VoidPackerRules = DEFAULT_VOID_PACKER_RULES,
+  zoneLayout: TemperatureZoneLayout = DEFAULT_TEMPERATURE_ZONE_LAYOUT,
+  vehicle: VehicleModel = DEFAULT_VEHICLE_MODEL,
+  fixedBoxes: PackableBox[] = []
+): Generator<OptimizationProgress, PackingResult, void> {
+  console.log('📦 Optimizing placement for', boxes.length, 'boxes with improved void-filling strategy.');
+
+  if (boxes.length === 0) return { placedBoxes: [], unplacedBoxes: [] };
+
+  const placedBoxes: PackableBox[] = [];
+  const unplacedBoxes: PackableBox[] = [];
+  // Cumulative weight resting on each placed box, for crushFactor / stackLimit
+  const stackLoads = new Map<string, StackLoad>();
+  const compartments = resolveTemperatureCompartments(zoneLayout, truckDimensions);
+  let loadedWeight = 0;
+  // Steer/drive/trailer loads, so no placement pushes an axle past its legal limit
+  const axleLimits: AxleLimits = { vehicle, loads: computeAxleLoads([], vehicle, truckDimensions) };
+
+  // Initial available space is the entire truck volume
+  let voids: Void[] = [
+    {
+      id: 'truck-initial-void',
+      x: -truckDimensions.width / 2,
+      y: 0,
+      z: -truckDimensions.length / 2,
+      width: truckDimensions.width,
+      height: truckDimensions.height,
+      length: truckDimensions.length,
+      volume: truckDimensions.width * truckDimensions.height * truckDimensions.length,
+    },
+  ];
+
+  for (const fixedBox of fixedBoxes) {
+    addToStackLoads(fixedBox, placedBoxes, stackLoads);
+    addToAxleLoads(fixedBox, axleLimits.loads, vehicle, truckDimensions);
+    placedBoxes.push(fixedBox);
+    loadedWeight += fixedBox.weight;
+    voids = voids.flatMap((v) => (isVoidIntersectingBox(v, fixedBox) ? splitVoidTightly(v, fixedBox) : [v]));
+  }
+  if (fixedBoxes.length > 0) {
+    voids = cleanAndMergeVoids(voids, placedBoxes);
+  }
+
+  // Sort boxes by priority: LIFO destination first, then HEAVIEST first for stability
+  const byLoadingOrder = compareByLoadingOrder(rules.stopOrder);
+  const boxesToPlace = [...boxes].sort((a, b) => byLoadingOrder(a, b) || b.weight - a.weight);
+
+  for (const box of boxesToPlace) {
+    // Over the payload left: no point searching for a spot
+    const remainingWeight = rules.maxWeight - loadedWeight;
+    const bestPlacement = box.weight > remainingWeight
+      ? null
+      : findBestPlacement(box, voids, placedBoxes, stackLoads, axleLimits, rules, compartments, truckDimensions);
+
+    if (bestPlacement) {
+      const placedBox = bestPlacement.box;
+      placedBox.position = bestPlacement.position;
+      addToStackLoads(placedBox, placedBoxes, stackLoads);
+      addToAxleLoads(placedBox, axleLimits.loads, vehicle, truckDimensions);
+      placedBoxes.push(placedBox);
+      loadedWeight += placedBox.weight;
+
+      // Update voids after placement
+      const originalVoid = voids[bestPlacement.voidIndex];
+      const newVoids = splitVoidTightly(originalVoid, placedBox);
+      voids.splice(bestPlacement.voidIndex, 1);
+      voids.push(...newVoids);
+      voids = cleanAndMergeVoids(voids, placedBoxes);
+
+    } else {
+      console.warn(`❌ Could not find a suitable position for box ${box.id}`);
+      const unplacedReason = box.weight > remainingWeight
+        ? overWeightReason(box, remainingWeight)
+        : explainUnplacedBox(box, voids, placedBoxes, stackLoads, axleLimits, rules, compartments, truckDimensions);
+      unplacedBoxes.push({ ...box, unplacedReason });
+    }
+
+    yield {
+      placed: placedBoxes.length - fixedBoxes.length,
+      unplaced: unplacedBoxes.length,
+      total: boxesToPlace.length,
+      currentBoxId: box.originalId,
+    };
+  }
+
+  const packedBoxes = placedBoxes.slice(fixedBoxes.length);
+  console.log(`✅ Placement complete. Placed: ${packedBoxes.length}, Unplaced: ${unplacedBoxes.length}`);
+  return { placedBoxes: packedBoxes, unplacedBoxes };
+}
+
+function findBestPlacement(
+  box: PackableBox,
+  voids: Void[],
+  placedBoxes: PackableBox[],
+  stackLoads: Map<string, StackLoad>,
+  axleLimits: AxleLimits | null,
+  rules: VoidPackerRules,
+  compartments: ResolvedCompartment[],
+  truckDimensions: { width: number; length: number; height: number },
+  enforceStackLimits = true
+): {
+  box: PackableBox;
+  position: { x: number; y: number; z: number };
+  score: number;
+  voidIndex: number;
+} | null {
+
+  let bestPlacement: {
+    box: PackableBox;
+    position: { x: number; y: number; z: number };
+    score: number;
+    voidIndex: number;
+  } | null = null;
+
+  const orientations = getOrientations(box);
+
+  // Sort voids by placement priority
+  const sortedVoids = [...voids].sort((a, b) => {
+    if (Math.abs(a.y - b.y) > 0.01) return a.y - b.y; // Lower first
+    if (Math.abs(a.volume - b.volume) > 0.01) return a.volume - b.volume; // Smaller first
+    return b.z - a.z; // Closer to rear first
+  });
+
+  // Try multiple placement positions within each void
+  for (let i = 0; i < sortedVoids.length; i++) {
+    const currentVoid = sortedVoids[i];
+    const originalIndex = voids.indexOf(currentVoid);
+
+    for (const orientation of orientations) {
+      // Try multiple positions within the void, not just bottom-left-rear
+      const positions = generatePositionsInVoid(currentVoid, orientation);
+
+      for (const pos of positions) {
+        const testBox: PackableBox = {
+          ...box,
+          ...orientation,
+          position: pos,
+          rotation: orientation.rotation
+        };
+
+        if (
+          isValidPlacement(testBox, placedBoxes, enforceStackLimits ? stackLoads : null, rules, truckDimensions) &&
+          (!rules.strictTemperatureZones || isInAcceptingCompartment(testBox, compartments)) &&
+          (!axleLimits || !wouldExceedAxleLimits(testBox, axleLimits.loads, axleLimits.vehicle, truckDimensions))
+        ) {
+          const score = evaluatePlacement(testBox, placedBoxes, stackLoads, compartments, rules.stopOrder, truckDimensions);
+
+          if (!bestPlacement || score > bestPlacement.score) {
+            bestPlacement = {
+              box: testBox,
+              position: pos,
+              score,
+              voidIndex: originalIndex
+            };
+          }
+        }
+      }
+    }
+  }
+
+  return bestPlacement;
+}
+
+function isInAcceptingCompartment(box: PackableBox, compartments: ResolvedCompartment[]): boolean {
+  return isSpanInAcceptingCompartments(compartments, box.temperatureZone, box.position.z - box.length / 2, box.position.z + box.length / 2);
+}
+
+// Works out why findBestPlacement came back empty
+function explainUnplacedBox(
+  box: PackableBox,
+  voids: Void[],
+  placedBoxes: PackableBox[],
+  stackLoads: Map<string, StackLoad>,
+  axleLimits: AxleLimits,
+  rules: VoidPackerRules,
+  compartments: ResolvedCompartment[],
+  truckDimensions: { width: number; length: number; height: number }
+): UnplacedReason {
+  if (!fitsTruckInAnyOrientation(box, truckDimensions)) {
+    return tooLargeReason(box, truckDimensions);
+  }
+
+  if (rules.strictTemperatureZones) {
+    const hasCompartment = compartments.some((compartment) => compartment.length > 0 && compartment.accepts.includes(box.temperatureZone));
+    if (!hasCompartment) {
+      return noZoneCapacityReason(box, false);
+    }
+    // Space exists somewhere, just not in an accepting compartment
+    if (findBestPlacement(box, voids, placedBoxes, stackLoads, axleLimits, { ...rules, strictTemperatureZones: false }, compartments, truckDimensions)) {
+      return noZoneCapacityReason(box, true);
+    }
+  }
+
+  // A spot exists if crush ratings, stack limits and base support are ignored
+  const relaxedRules = { ...rules, minSupportRatio: 0, requireCornerSupport: false };
+  if (findBestPlacement(box, voids, placedBoxes, stackLoads, axleLimits, relaxedRules, compartments, truckDimensions, false)) {
+    return stackingRulesReason();
+  }
+
+  // A spot exists, but only by overloading an axle or the gross weight
+  const overAxle = findBestPlacement(box, voids, placedBoxes, stackLoads, null, rules, compartments, truckDimensions);
+  if (overAxle) {
+    const overloaded = getAxlesOverloadedBy(overAxle.box, axleLimits.loads, axleLimits.vehicle, truckDimensions);
+    return axleLimitReason(overloaded.map((axle) => axle.name));
+  }
+  return noSpaceReason();
+}
+
+function generatePositionsInVoid(
+  void_: Void,
+  orientation: PlacementCandidate
+): { x: number; y: number; z: number }[] {
+  const positions: { x: number; y: number; z: number }[] = [];
+
+  // Calculate how many positions we can try in each dimension
+  const maxXPositions = Math.max(1, Math.floor((void_.width - orientation.width) / 0.5) + 1);
+  const maxYPositions = Math.max(1, Math.floor((void_.height - orientation.height) / 0.5) + 1);
+  const maxZPositions = Math.max(1, Math.floor((void_.length - orientation.length) / 0.5) + 1);
+
+  // Limit to reasonable number of positions to avoid performance issues
+  const xPositions = Math.min(maxXPositions, 3);
+  const yPositions = Math.min(maxYPositions, 2);
+  const zPositions = Math.min(maxZPositions, 3);
+
+  for (let xi = 0; xi < xPositions; xi++) {
+    for (let yi = 0; yi < yPositions; yi++) {
+      for (let zi = 0; zi < zPositions; zi++) {
+        const xOffset = xPositions > 1 ? (xi / (xPositions - 1)) * (void_.width - orientation.width) : 0;
+        const yOffset = yPositions > 1 ? (yi / (yPositions - 1)) * (void_.height - orientation.height) : 0;
+        const zOffset = zPositions > 1 ? (zi / (zPositions - 1)) * (void_.length - orientation.length) : 0;
+
+        positions.push({
+          x: void_.x + xOffset + orientation.width / 2,
+          y: void_.y + yOffset + orientation.height / 2,
+          z: void_.z + zOffset + orientation.length / 2
+        });
+      }
+    }
+  }
+
+  return positions;
+}
+// --- Helper for splitting a void after a box is placed ---
+function splitVoid(originalVoid: Void, placedBox: PackableBox): Void[] {
+  const newVoids: Void[] = [];
+
+  const boxMinX = placedBox.position.x - placedBox.width / 2;
+  const boxMaxX = placedBox.position.x + placedBox.width / 2;
+  const boxMinY = placedBox.position.y - placedBox.height / 2;
+  const boxMaxY = placedBox.position.y + placedBox.height / 2;
+  const boxMinZ = placedBox.position.z - placedBox.length / 2;
+  const boxMaxZ = placedBox.position.z + placedBox.length / 2;
+
+  const voidMinX = originalVoid.x;
+  const voidMaxX = originalVoid.x + originalVoid.width;
+  const voidMinY = originalVoid.y;
+  const voidMaxY = originalVoid.y + originalVoid.height;
+  const voidMinZ = originalVoid.z;
+  const voidMaxZ = originalVoid.z + originalVoid.length;
+
+  let voidCounter = 0; // Simple counter for void IDs
+
+  // Create voids for spaces left in X, Y, Z directions around the placed box
+  // 1. Void to the left of the box
+  if (boxMinX > voidMinX) {
+    newVoids.push({
+      id: `${originalVoid.id}-lx-${voidCounter++}`,
+      x: voidMinX, y: voidMinY, z: voidMinZ,
+      width: boxMinX - voidMinX, height: originalVoid.height, length: originalVoid.length,
+      volume: (boxMinX - voidMinX) * originalVoid.height * originalVoid.length,
+    });
+  }
+  // 2. Void to the right of the box
+  if (boxMaxX < voidMaxX) {
+    newVoids.push({
+      id: `${originalVoid.id}-rx-${voidCounter++}`,
+      x: boxMaxX, y: voidMinY, z: voidMinZ,
+      width: voidMaxX - boxMaxX, height: originalVoid.height, length: originalVoid.length,
+      volume: (voidMaxX - boxMaxX) * originalVoid.height * originalVoid.length,
+    });
+  }
+  // 3. Void below the box (this should ideally not happen if box is placed at bottom)
+  if (boxMinY > voidMinY) {
+    newVoids.push({
+      id: `${originalVoid.id}-rx-${voidCounter++}`,
+      x: voidMinX, y: voidMinY, z: voidMinZ,
+      width: originalVoid.width, height: boxMinY - voidMinY, length: originalVoid.length,
+      volume: originalVoid.width * (boxMinY - voidMinY) * originalVoid.length,
+    });
+  }
+  // 4. Void above the box
+  if (boxMaxY < voidMaxY) {
+    newVoids.push({
+      id: `${originalVoid.id}-rx-${voidCounter++}`,
+      x: voidMinX, y: boxMaxY, z: voidMinZ,
+      width: originalVoid.width, height: voidMaxY - boxMaxY, length: originalVoid.length,
+      volume: originalVoid.width * (voidMaxY - boxMaxY) * originalVoid.length,
+    });
+  }
+  // 5. Void in front of the box (smaller Z)
+  if (boxMinZ > voidMinZ) {
+    newVoids.push({
+      id: `${originalVoid.id}-rx-${voidCounter++}`,
+      x: voidMinX, y: voidMinY, z: voidMinZ,
+      width: originalVoid.width, height: originalVoid.height, length: boxMinZ - voidMinZ,
+      volume: originalVoid.width * originalVoid.height * (boxMinZ - voidMinZ),
+    });
+  }
+  // 6. Void behind the box (larger Z)
+  if (boxMaxZ < voidMaxZ) {
+    newVoids.push({
+      id: `${originalVoid.id}-rx-${voidCounter++}`,
+      x: voidMinX, y: voidMinY, z: boxMaxZ,
+      width: originalVoid.width, height: originalVoid.height, length: voidMaxZ - boxMaxZ,
+      volume: originalVoid.width * originalVoid.height * (voidMaxZ - boxMaxZ),
+    });
+  }
+
+  // Filter out voids with zero or negative dimensions (might happen from float errors or tight fits)
+  return newVoids.filter(v => v.width > 0.01 && v.height > 0.01 && v.length > 0.01);
+}
+function splitVoidTightly(originalVoid: Void, placedBox: PackableBox): Void[] {
+  const newVoids: Void[] = [];
+
+  const boxMinX = placedBox.position.x - placedBox.width / 2;
+  const boxMaxX = placedBox.position.x + placedBox.width / 2;
+  const boxMinY = placedBox.position.y - placedBox.height / 2;
+  const boxMaxY = placedBox.position.y + placedBox.height / 2;
+  const boxMinZ = placedBox.position.z - placedBox.length / 2;
+  const boxMaxZ = placedBox.position.z + placedBox.length / 2;
+
+  const voidMinX = originalVoid.x;
+  const voidMaxX = originalVoid.x + originalVoid.width;
+  const voidMinY = originalVoid.y;
+  const voidMaxY = originalVoid.y + originalVoid.height;
+  const voidMinZ = originalVoid.z;
+  const voidMaxZ = originalVoid.z + originalVoid.length;
+
+  let voidCounter = 0;
+
+  // Create tighter voids that start immediately adjacent to the placed box
+
+  // 1. Void to the LEFT of the box (X- direction)
+  if (boxMinX > voidMinX) {
+    const width = boxMinX - voidMinX;
+    if (width > 0.01) {
+      newVoids.push({
+        id: `${originalVoid.id}-left-${voidCounter++}`,
+        x: voidMinX,
+        y: voidMinY,
+        z: voidMinZ,
+        width: width,
+        height: originalVoid.height,
+        length: originalVoid.length,
+        volume: width * originalVoid.height * originalVoid.length,
+      });
+    }
+  }
+
+  // 2. Void to the RIGHT of the box (X+ direction)  
+  if (boxMaxX < voidMaxX) {
+    const width = voidMaxX - boxMaxX;
+    if (width > 0.001) {
+      newVoids.push({
+        id: `${originalVoid.id}-right-${voidCounter++}`,
+        x: boxMaxX, // Start immediately after the box
+        y: voidMinY,
+        z: voidMinZ,
+        width: width,
+        height: originalVoid.height,
+        length: originalVoid.length,
+        volume: width * originalVoid.height * originalVoid.length,
+      });
+    }
+  }
+
+  // 3. Void ABOVE the box (Y+ direction) - constrained to box's X/Z footprint
+  if (boxMaxY < voidMaxY) {
+    const height = voidMaxY - boxMaxY;
+    if (height > 0.01) {
+      newVoids.push({
+        id: `${originalVoid.id}-above-${voidCounter++}`,
+        x: Math.max(voidMinX, boxMinX), // Constrain to box footprint
+        y: boxMaxY, // Start immediately above the box
+        z: Math.max(voidMinZ, boxMinZ), // Constrain to box footprint
+        width: Math.min(voidMaxX, boxMaxX) - Math.max(voidMinX, boxMinX),
+        height: height,
+        length: Math.min(voidMaxZ, boxMaxZ) - Math.max(voidMinZ, boxMinZ),
+        volume: 0, // Will be calculated below
+      });
+      // Calculate volume for the constrained void
+      const lastVoid = newVoids[newVoids.length - 1];
+      lastVoid.volume = lastVoid.width * lastVoid.height * lastVoid.length;
+    }
+  }
+
+  // 4. Void in FRONT of the box (Z- direction)
+  if (boxMinZ > voidMinZ) {
+    const length = boxMinZ - voidMinZ;
+    if (length > 0.01) {
+      newVoids.push({
+        id: `${originalVoid.id}-front-${voidCounter++}`,
+        x: voidMinX,
+        y: voidMinY,
+        z: voidMinZ,
+        width: originalVoid.width,
+        height: originalVoid.height,
+        length: length,
+        volume: originalVoid.width * originalVoid.height * length,
+      });
+    }
+  }
+
+  // 5. Void BEHIND the box (Z+ direction)
+  if (boxMaxZ < voidMaxZ) {
+    const length = voidMaxZ - boxMaxZ;
+    if (length > 0.01) {
+      newVoids.push({
+        id: `${originalVoid.id}-behind-${voidCounter++}`,
+        x: voidMinX,
+        y: voidMinY,
+        z: boxMaxZ, // Start immediately behind the box
+        width: originalVoid.width,
+        height: originalVoid.height,
+        length: length,
+        volume: originalVoid.width * originalVoid.height * length,
+      });
+    }
+  }
+
+  // Filter out invalid voids
+  return newVoids.filter(v => v.width > 0.01 && v.height > 0.01 && v.length > 0.01 && v.volume > 0.001);
+}
+// --- Simplified void cleaning and merging (critical for performance in real apps) ---
+function cleanAndMergeVoids(voids: Void[], placedBoxes: PackableBox[]): Void[] {
+  const minVoidDimension = 0.02; // Reduced from 0.05 to allow smaller voids
+
+  // Remove voids that are too small
+  let cleanedVoids = voids.filter(v =>
+    v.width > minVoidDimension &&
+    v.height > minVoidDimension &&
+    v.length > minVoidDimension &&
+    v.volume > minVoidDimension * minVoidDimension * minVoidDimension
+  );
+
+  // Less aggressive void blocking check
+  cleanedVoids = cleanedVoids.filter(v => {
+    for (const pBox of placedBoxes) {
+      // Check if void significantly overlaps with any placed box
+      const xOverlap = Math.max(0,
+        Math.min(v.x + v.width, pBox.position.x + pBox.width / 2) -
+        Math.max(v.x, pBox.position.x - pBox.width / 2)
+      );
+      const yOverlap = Math.max(0,
+        Math.min(v.y + v.height, pBox.position.y + pBox.height / 2) -
+        Math.max(v.y, pBox.position.y - pBox.height / 2)
+      );
+      const zOverlap = Math.max(0,
+        Math.min(v.z + v.length, pBox.position.z + pBox.length / 2) -
+        Math.max(v.z, pBox.position.z - pBox.length / 2)
+      );
+
+      const overlapVolume = xOverlap * yOverlap * zOverlap;
+      const voidVolume = v.width * v.height * v.length;
+
+      // If more than 80% of void is occupied, remove it
+      if (overlapVolume > voidVolume * 0.8) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  // Sort by priority
+  cleanedVoids.sort((a, b) => {
+    if (Math.abs(a.y - b.y) > 0.01) return a.y - b.y;
+    return a.volume - b.volume;
+  });
+
+  // Increased limit for more placement opportunities
+  return cleanedVoids.slice(0, 100); // Increased from 50
+}
+
+function isVoidIntersectingBox(v: Void, box: PackableBox): boolean {
+  return (
+    v.x < box.position.x + box.width / 2 && v.x + v.width > box.position.x - box.width / 2 &&
+    v.y < box.position.y + box.height / 2 && v.y + v.height > box.position.y - box.height / 2 &&
+    v.z < box.position.z + box.length / 2 && v.z + v.length > box.position.z - box.length / 2
+  );
+}
+
+// Helper to check if box1 is fully contained within box2
+function isBoxFullyContained(box1: Box, box2: Box): boolean {
+  const box1MinX = box1.position.x - box1.width / 2;
+  const box1MaxX = box1.position.x + box1.width / 2;
+  const box1MinY = box1.position.y - box1.height / 2;
+  const box1MaxY = box1.position.y + box1.height / 2;
+  const box1MinZ = box1.position.z - box1.length / 2;
+  const box1MaxZ = box1.position.z + box1.length / 2;
+
+  const box2MinX = box2.position.x - box2.width / 2;
+  const box2MaxX = box2.position.x + box2.width / 2;
+  const box2MinY = box2.position.y - box2.height / 2;
+  const box2MaxY = box2.position.y + box2.height / 2;
+  const box2MinZ = box2.position.z - box2.length / 2;
+  const box2MaxZ = box2.position.z + box2.length / 2;
+
+  return (
+    box1MinX >= box2MinX && box1MaxX <= box2MaxX &&
+    box1MinY >= box2MinY && box1MaxY <= box2MaxY &&
+    box1MinZ >= box2MinZ && box1MaxZ <= box2MaxZ
+  );
+}
+
+
+// --- Checks if a box can be placed at a given position ---
+function isValidPlacement(
+  testBox: PackableBox,
+  placedBoxes: PackableBox[],
+  stackLoads: Map<string, StackLoad> | null,
+  supportRules: SupportRules,
+  truckDimensions: { width: number; length: number; height: number }
+): boolean {
+  // Check truck boundaries with small tolerance
+  const tolerance = 0.01; // Slightly more tolerant
+  if (
+    testBox.position.x - testBox.width / 2 < -truckDimensions.width / 2 - tolerance ||
+    testBox.position.x + testBox.width / 2 > truckDimensions.width / 2 + tolerance ||
+    testBox.position.y - testBox.height / 2 < -tolerance ||
+    testBox.position.y + testBox.height / 2 > truckDimensions.height + tolerance ||
+    testBox.position.z - testBox.length / 2 < -truckDimensions.length / 2 - tolerance ||
+    testBox.position.z + testBox.length / 2 > truckDimensions.length / 2 + tolerance
+  ) {
+    return false;
+  }
+
+  // Check collisions with placed boxes
+  for (const placedBox of placedBoxes) {
+    if (isBoxColliding(testBox, placedBox)) {
+      return false;
+    }
+  }
+
+  // Nothing underneath or resting on top may end up past its crush rating or stack limit
+  if (stackLoads && wouldOverloadStack(testBox, placedBoxes, stackLoads)) {
+    return false;
+  }
+
+  // Stacked boxes need enough of their base (and optionally every corner) resting on boxes below
+  return isAdequatelySupported(testBox, placedBoxes, supportRules);
+}
+
+function calculateHorizontalOverlap(box1: PackableBox, box2: PackableBox): number {
+  const xOverlap = Math.max(0, Math.min(box1.position.x + box1.width / 2, box2.position.x + box2.width / 2) -
+    Math.max(box1.position.x - box1.width / 2, box2.position.x - box2.width / 2));
+  const zOverlap = Math.max(0, Math.min(box1.position.z + box1.length / 2, box2.position.z + box2.length / 2) -
+    Math.max(box1.position.z - box1.length / 2, box2.position.z - box2.length / 2));
+
+  const box1Area = box1.width * box1.length;
+  const overlapArea = xOverlap * zOverlap;
+
+  return box1Area > 0 ? overlapArea / box1Area : 0;
+}
+function evaluatePlacement(
+  box: PackableBox,
+  placedBoxes: PackableBox[],
+  stackLoads: Map<string, StackLoad>,
+  compartments: ResolvedCompartment[],
+  stopOrder: string[],
+  truckDimensions: { width: number; length: number; height: number }
+): number {
+  let score = 0;
+
+  // 1. STABILITY - Much higher weight for lower placement and heavier boxes at bottom
+  const heightPenalty = (box.position.y / truckDimensions.height) * 100;
+  score -= heightPenalty;
+
+  // Heavy boxes get huge bonus for being low
+  const weightStabilityBonus = (box.weight / 100) * (truckDimensions.height - box.position.y) * 2;
+  score += weightStabilityBonus;
+
+  // Center of mass preference
+  score += (truckDimensions.width / 2 - Math.abs(box.position.x)) * 3;
+  score += (truckDimensions.length / 2 - Math.abs(box.position.z)) * 2;
+
+  // 2. TIGHT PACKING - Massive bonus for contact with other boxes or walls
+  let contactScore = 0;
+  const tolerance = 0.00002; // Tighter tolerance for contact detection
+
+  const boxMinX = box.position.x - box.width / 2;
+  const boxMaxX = box.position.x + box.width / 2;
+  const boxMinY = box.position.y - box.height / 2;
+  const boxMaxY = box.position.y + box.height / 2;
+  const boxMinZ = box.position.z - box.length / 2;
+  const boxMaxZ = box.position.z + box.length / 2;
+
+  // Contact with truck walls (high bonus)
+  if (Math.abs(boxMinX - (-truckDimensions.width / 2)) < tolerance) contactScore += 50;
+  if (Math.abs(boxMaxX - (truckDimensions.width / 2)) < tolerance) contactScore += 50;
+  if (Math.abs(boxMinY - 0) < tolerance) contactScore += 100; // Floor contact is critical
+  if (Math.abs(boxMinZ - (-truckDimensions.length / 2)) < tolerance) contactScore += 30;
+  if (Math.abs(boxMaxZ - (truckDimensions.length / 2)) < tolerance) contactScore += 30;
+
+  // Contact with other boxes (very high bonus for tight packing)
+  for (const pBox of placedBoxes) {
+    const pBoxMinX = pBox.position.x - pBox.width / 2;
+    const pBoxMaxX = pBox.position.x + pBox.width / 2;
+    const pBoxMinY = pBox.position.y - pBox.height / 2;
+    const pBoxMaxY = pBox.position.y + pBox.height / 2;
+    const pBoxMinZ = pBox.position.z - pBox.length / 2;
+    const pBoxMaxZ = pBox.position.z + pBox.length / 2;
+
+    // Check for face-to-face contact (no gaps)
+    if (Math.abs(boxMaxX - pBoxMinX) < tolerance) contactScore += 200; // Increase from 80
+    if (Math.abs(boxMinX - pBoxMaxX) < tolerance) contactScore += 200; // Left face touching right face
+    if (Math.abs(boxMaxY - pBoxMinY) < tolerance) contactScore += 120; // Top touching bottom (stacking)
+    if (Math.abs(boxMinY - pBoxMaxY) < tolerance) contactScore += 60; // Bottom touching top
+    if (Math.abs(boxMaxZ - pBoxMinZ) < tolerance) contactScore += 80; // Back touching front
+    if (Math.abs(boxMinZ - pBoxMaxZ) < tolerance) contactScore += 80; // Front touching back
+  }
+  score += contactScore;
+
+  // 3. Temperature Zone Compliance
+  const zoneScore = getTemperatureZoneScore(box, box.position, compartments);
+  score += zoneScore * 200; // Higher bonus for correct temperature zone
+
+  // 4. Fragile Item Protection
+  if (box.isFragile) {
+    score += (truckDimensions.height - box.position.y) * 20; // Lower placement for fragile
+    // Penalty if heavy boxes are above fragile boxes
+    for (const pBox of placedBoxes) {
+      if (pBox.weight > box.weight * 1.5 && pBox.position.y > box.position.y) {
+        const overlap = calculateHorizontalOverlap(box, pBox);
+        if (overlap > 0.3) { // 30% overlap threshold
+          score -= overlap * 100; // Penalty for heavy items above fragile
+        }
+      }
+    }
+  }
+
+  // Prefer stacking on boxes with crush capacity to spare
+  const crushUtilization = getPeakCrushUtilization(box, placedBoxes, stackLoads);
+  if (crushUtilization > 0.5) {
+    score -= (crushUtilization - 0.5) * 300;
+  }
+
+  // 5. LIFO Accessibility - earlier stops toward the doors
+  if (stopOrder.length > 1) {
+    const targetZRatio = getLifoDepthRatio(stopOrder, box.destination);
+    const actualZRatio = (box.position.z + truckDimensions.length / 2) / truckDimensions.length;
+    score -= Math.abs(targetZRatio - actualZRatio) * 150;
+  }
+
+  // 6. CORNER AND EDGE PREFERENCE - Prioritize corners and edges for structural support
+  let structuralBonus = 0;
+
+  // Corner bonuses (box touching two walls)
+  const touchingLeftWall = Math.abs(boxMinX - (-truckDimensions.width / 2)) < tolerance;
+  const touchingRightWall = Math.abs(boxMaxX - (truckDimensions.width / 2)) < tolerance;
+  const touchingFrontWall = Math.abs(boxMinZ - (-truckDimensions.length / 2)) < tolerance;
+  const touchingBackWall = Math.abs(boxMaxZ - (truckDimensions.length / 2)) < tolerance;
+  const touchingFloor = Math.abs(boxMinY - 0) < tolerance;
+
+  const wallContacts = [touchingLeftWall, touchingRightWall, touchingFrontWall, touchingBackWall].filter(Boolean).length;
+
+  if (touchingFloor && wallContacts >= 2) {
+    structuralBonus += 200; // Corner placement bonus
+  } else if (touchingFloor && wallContacts >= 1) {
+    structuralBonus += 100; // Edge placement bonus
+  } else if (touchingFloor) {
+    structuralBonus += 50; // Floor contact bonus
+  }
+
+  score += structuralBonus;
+
+  return Math.max(0, score);
+}
+
+// Bounding Box Collision Detection
+// Placed Box objects carry an orientation; PackableBoxes already hold oriented extents
+export function isBoxColliding(box1: Box | PackableBox, box2: Box | PackableBox): boolean {
+  const a = getOrientedDimensions(box1);
+  const b = getOrientedDimensions(box2);
+  const xOverlap = Math.max(0, Math.min(box1.position.x + a.width / 2, box2.position.x + b.width / 2) - Math.max(box1.position.x - a.width / 2, box2.position.x - b.width / 2));
+  const yOverlap = Math.max(0, Math.min(box1.position.y + a.height / 2, box2.position.y + b.height / 2) - Math.max(box1.position.y - a.height / 2, box2.position.y - b.height / 2));
+  const zOverlap = Math.max(0, Math.min(box1.position.z + a.length / 2, box2.position.z + b.length / 2) - Math.max(box1.position.z - a.length / 2, box2.position.z - b.length / 2));
+
+  return xOverlap > 0 && yOverlap > 0 && zOverlap > 0;
+}
+
+// 1 when the box center sits in a compartment that accepts its zone
+function getTemperatureZoneScore(
+  box: PackableBox,
+  position: { x: number; y: number; z: number },
+  compartments: ResolvedCompartment[],
+): number {
+  return compartmentAccepts(findCompartmentAt(compartments, position.z), box.temperatureZone) ? 1 : 0;
+}
@@ -0,0 +1,68 @@
+// workspace-api.ts
+// Browser-side calls to the app/api/workspaces routes. Every call throws a
+// WorkspaceApiError on failure; status 0 means the server couldn't be reached,
+// which the workspace store treats as "offline, retry later".
+
+import type { Workspace, WorkspaceSummary, WorkspaceVersion, WorkspaceVersionSummary } from "@/types/workspace"
+
+export class WorkspaceApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "WorkspaceApiError"
+  }
+
+  get isOffline(): boolean {
+    return this.status === 0
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(`/api/workspaces${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    })
+  } catch (error) {
+    throw new WorkspaceApiError(0, error instanceof Error ? error.message : "Network request failed")
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new WorkspaceApiError(response.status, body?.error ?? response.statusText)
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T
+}
+
+export async function fetchWorkspaces(): Promise<WorkspaceSummary[]> {
+  return (await request<{ workspaces: WorkspaceSummary[] }>("")).workspaces
+}
+
+export async function fetchWorkspace(id: string): Promise<Workspace> {
+  return (await request<{ workspace: Workspace }>(`/${id}`)).workspace
+}
+
+export async function putWorkspace(workspace: Workspace): Promise<Workspace> {
+  const { id, ...body } = workspace
+  return (await request<{ workspace: Workspace }>(`/${id}`, { method: "PUT", body: JSON.stringify(body) })).workspace
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await request<void>(`/${id}`, { method: "DELETE" })
+}
+
+export async function fetchWorkspaceVersions(workspaceId: string): Promise<WorkspaceVersionSummary[]> {
+  return (await request<{ versions: WorkspaceVersionSummary[] }>(`/${workspaceId}/versions`)).versions
+}
+
+export async function fetchWorkspaceVersion(workspaceId: string, versionId: string): Promise<WorkspaceVersion> {
+  return (await request<{ version: WorkspaceVersion }>(`/${workspaceId}/versions/${versionId}`)).version
+}
+
+export async function restoreWorkspaceVersion(workspaceId: string, versionId: string): Promise<Workspace> {
+  const path = `/${workspaceId}/versions/${versionId}/restore`
+  return (await request<{ workspace: Workspace }>(path, { method: "POST" })).workspace
+}
@@ -0,0 +1,436 @@
+// workspace-db.ts
+// Reads and writes workspaces through Prisma for the app/api route handlers.
+// Rows are flat columns; everything handed back uses the same shapes as the
+// client stores (see types/workspace.ts). Server-side only.
+
+import { prisma } from "@/lib/prisma"
+import { getVehicleModel } from "@/lib/axle-loads"
+import type { Box, BoxOrientation, UnplacedReason } from "@/types/box"
+import type { FleetTruckType } from "@/types/fleet"
+import type { PackingDiagnostics } from "@/types/packing"
+import type {
+  PlanSnapshot,
+  Workspace,
+  WorkspaceSummary,
+  WorkspaceType,
+  WorkspaceVersion,
+  WorkspaceVersionContents,
+  WorkspaceVersionSummary,
+} from "@/types/workspace"
+import type {
+  BoxInput,
+  FleetTruckInput,
+  PlanSnapshotInput,
+  WorkspaceInput,
+  WorkspaceMetadataInput,
+} from "@/lib/workspace-schemas"
+
+type WorkspaceRow = Awaited<ReturnType<typeof prisma.workspace.findUniqueOrThrow>>
+type WorkspaceBoxRow = Awaited<ReturnType<typeof prisma.workspaceBox.findUniqueOrThrow>>
+type FleetTruckRow = Awaited<ReturnType<typeof prisma.fleetTruck.findUniqueOrThrow>>
+type LoadPlanRow = Awaited<ReturnType<typeof prisma.loadPlan.findUniqueOrThrow>>
+type WorkspaceVersionRow = Awaited<ReturnType<typeof prisma.workspaceVersion.findUniqueOrThrow>>
+// The transaction client passed to prisma.$transaction callbacks
+type Db = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+// Same shape as Prisma's JSON input type, which interfaces don't satisfy without a cast
+type JsonDocument = string | number | boolean | { [key: string]: JsonDocument | null } | (JsonDocument | null)[]
+
+const DEFAULT_TRUCK_DIMENSIONS = { width: 8, length: 28, height: 9 }
+
+/* -------------------------------------------------------------------------- */
+/*                                 ROW MAPPING                                */
+/* -------------------------------------------------------------------------- */
+
+function toBox(row: WorkspaceBoxRow): Box {
+  return {
+    id: row.boxId,
+    name: row.name,
+    width: row.width,
+    height: row.height,
+    length: row.length,
+    weight: row.weight,
+    position: { x: row.positionX, y: row.positionY, z: row.positionZ },
+    temperatureZone: row.temperatureZone as Box["temperatureZone"],
+    isFragile: row.isFragile,
+    destination: row.destination,
+    ...(row.isNew && { isNew: true }),
+    ...(row.locked && { locked: true }),
+    ...(row.crushFactor !== null && { crushFactor: row.crushFactor }),
+    ...(row.stackLimit !== null && { stackLimit: row.stackLimit }),
+    ...(row.orientation !== null && { orientation: row.orientation as BoxOrientation }),
+    ...(row.thisSideUp && { thisSideUp: true }),
+    ...(row.allowedOrientations !== null && { allowedOrientations: row.allowedOrientations as BoxOrientation[] }),
+    ...(row.unplacedReason !== null && { unplacedReason: row.unplacedReason as unknown as UnplacedReason }),
+  }
+}
+
+function toBoxLists(rows: WorkspaceBoxRow[]): { boxes: Box[]; unplaceableBoxes: Box[] } {
+  return {
+    boxes: rows.filter((row) => !row.unplaced).map(toBox),
+    unplaceableBoxes: rows.filter((row) => row.unplaced).map(toBox),
+  }
+}
+
+function toBoxRow(workspaceId: string, box: BoxInput, sortIndex: number, unplaced: boolean) {
+  return {
+    workspaceId,
+    boxId: box.id,
+    sortIndex,
+    name: box.name,
+    width: box.width,
+    height: box.height,
+    length: box.length,
+    weight: box.weight,
+    positionX: box.position.x,
+    positionY: box.position.y,
+    positionZ: box.position.z,
+    temperatureZone: box.temperatureZone,
+    isFragile: box.isFragile,
+    destination: box.destination,
+    orientation: box.orientation ?? null,
+    thisSideUp: box.thisSideUp ?? false,
+    allowedOrientations: box.allowedOrientations,
+    crushFactor: box.crushFactor ?? null,
+    stackLimit: box.stackLimit ?? null,
+    locked: box.locked ?? false,
+    isNew: box.isNew ?? false,
+    unplaced,
+    unplacedReason: unplaced ? box.unplacedReason : undefined,
+  }
+}
+
+function toFleetTruck(row: FleetTruckRow): FleetTruckType {
+  return {
+    id: row.truckTypeId,
+    name: row.name,
+    dimensions: { width: row.width, length: row.length, height: row.height },
+    vehicle: getVehicleModel(row.vehicleModelId),
+    available: row.available,
+  }
+}
+
+function toFleetTruckRow(workspaceId: string, truck: FleetTruckInput, sortIndex: number) {
+  return {
+    workspaceId,
+    truckTypeId: truck.id,
+    sortIndex,
+    name: truck.name,
+    width: truck.dimensions.width,
+    length: truck.dimensions.length,
+    height: truck.dimensions.height,
+    vehicleModelId: truck.vehicle.id,
+    available: truck.available,
+  }
+}
+
+function toPlanSnapshot(row: LoadPlanRow): PlanSnapshot {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.createdAt.getTime(),
+    solverId: row.solverId,
+    truckDimensions: { width: row.truckWidth, length: row.truckLength, height: row.truckHeight },
+    vehicleModel: getVehicleModel(row.vehicleModelId),
+    boxes: row.boxes as unknown as Box[],
+    unplaceableBoxes: row.unplaceableBoxes as unknown as Box[],
+    scores: { stability: row.stabilityScore, safety: row.safetyScore, optimization: row.optimizationScore },
+    diagnostics: row.diagnostics as unknown as PackingDiagnostics | null,
+  }
+}
+
+function toLoadPlanRow(workspaceId: string, plan: PlanSnapshotInput) {
+  return {
+    id: plan.id,
+    workspaceId,
+    name: plan.name,
+    solverId: plan.solverId,
+    truckWidth: plan.truckDimensions.width,
+    truckLength: plan.truckDimensions.length,
+    truckHeight: plan.truckDimensions.height,
+    vehicleModelId: plan.vehicleModel.id,
+    boxes: plan.boxes,
+    unplaceableBoxes: plan.unplaceableBoxes,
+    stabilityScore: plan.scores.stability,
+    safetyScore: plan.scores.safety,
+    optimizationScore: plan.scores.optimization,
+    diagnostics: plan.diagnostics ? (plan.diagnostics as unknown as JsonDocument) : undefined,
+    createdAt: new Date(plan.createdAt),
+  }
+}
+
+function toWorkspaceFields(row: WorkspaceRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as WorkspaceType,
+    truckDimensions: { width: row.truckWidth, length: row.truckLength, height: row.truckHeight },
+    createdAt: row.createdAt.toISOString(),
+    lastModified: row.updatedAt.toISOString(),
+    ...(row.description !== null && { description: row.description }),
+    ...(row.stabilityScore !== null && {
+      scores: { stability: row.stabilityScore, safety: row.safetyScore ?? 0, optimization: row.optimizationScore ?? 0 },
+    }),
+  }
+}
+
+function toWorkspaceColumns(input: WorkspaceMetadataInput) {
+  const truckDimensions = input.truckDimensions ?? DEFAULT_TRUCK_DIMENSIONS
+  return {
+    name: input.name,
+    type: input.type,
+    description: input.description ?? null,
+    truckWidth: truckDimensions.width,
+    truckLength: truckDimensions.length,
+    truckHeight: truckDimensions.height,
+  }
+}
+
+function toVersionSummary(row: Omit<WorkspaceVersionRow, "contents">): WorkspaceVersionSummary {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    number: row.number,
+    boxCount: row.boxCount,
+    createdAt: row.createdAt.toISOString(),
+    ...(row.label !== null && { label: row.label }),
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 WORKSPACES                                 */
+/* -------------------------------------------------------------------------- */
+
+const summaryInclude = { _count: { select: { boxes: true, plans: true } } } as const
+
+function toWorkspaceSummary(row: WorkspaceRow & { _count: { boxes: number; plans: number } }): WorkspaceSummary {
+  return { ...toWorkspaceFields(row), boxCount: row._count.boxes, planCount: row._count.plans }
+}
+
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const rows = await prisma.workspace.findMany({ orderBy: { updatedAt: "desc" }, include: summaryInclude })
+  return rows.map(toWorkspaceSummary)
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  const row = await prisma.workspace.findUnique({
+    where: { id },
+    include: {
+      boxes: { orderBy: { sortIndex: "asc" } },
+      trucks: { orderBy: { sortIndex: "asc" } },
+      plans: { orderBy: { createdAt: "asc" } },
+    },
+  })
+  if (!row) return null
+
+  return {
+    ...toWorkspaceFields(row),
+    ...toBoxLists(row.boxes),
+    fleet: row.trucks.map(toFleetTruck),
+    plans: row.plans.map(toPlanSnapshot),
+  }
+}
+
+export async function workspaceExists(id: string): Promise<boolean> {
+  return (await prisma.workspace.count({ where: { id } })) > 0
+}
+
+// Creates the workspace or overwrites it whole, recording the result as a new
+// version. Fleet and plans are only replaced when sent, so a client that
+// doesn't know about them can't wipe them.
+export async function saveWorkspace(id: string, input: WorkspaceInput, versionLabel?: string): Promise<Workspace> {
+  const columns = {
+    ...toWorkspaceColumns(input),
+    ...(input.scores && {
+      stabilityScore: input.scores.stability,
+      safetyScore: input.scores.safety,
+      optimizationScore: input.scores.optimization,
+    }),
+    updatedAt: input.lastModified ? new Date(input.lastModified) : new Date(),
+  }
+
+  await prisma.$transaction(async (db: Db) => {
+    await db.workspace.upsert({
+      where: { id },
+      create: { id, ...columns, ...(input.createdAt && { createdAt: new Date(input.createdAt) }) },
+      update: columns,
+    })
+    await writeBoxes(db, id, input.boxes, input.unplaceableBoxes)
+    if (input.fleet) await writeFleet(db, id, input.fleet)
+    if (input.plans) await writePlans(db, id, input.plans)
+    await recordVersion(db, id, versionLabel)
+  })
+
+  return (await getWorkspace(id))!
+}
+
+export async function updateWorkspaceMetadata(
+  id: string,
+  input: Partial<WorkspaceMetadataInput>,
+): Promise<WorkspaceSummary> {
+  const { truckDimensions, ...rest } = input
+  const row = await prisma.$transaction(async (db: Db) => {
+    const updated = await db.workspace.update({
+      where: { id },
+      include: summaryInclude,
+      data: {
+        ...rest,
+        ...(truckDimensions && {
+          truckWidth: truckDimensions.width,
+          truckLength: truckDimensions.length,
+          truckHeight: truckDimensions.height,
+        }),
+      },
+    })
+    await recordVersion(db, id)
+    return updated
+  })
+  return toWorkspaceSummary(row)
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await prisma.workspace.delete({ where: { id } })
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           BOXES, TRUCKS AND PLANS                          */
+/* -------------------------------------------------------------------------- */
+
+async function writeBoxes(db: Db, workspaceId: string, boxes: BoxInput[], unplaceableBoxes: BoxInput[]) {
+  await db.workspaceBox.deleteMany({ where: { workspaceId } })
+  await db.workspaceBox.createMany({
+    data: [
+      ...boxes.map((box, index) => toBoxRow(workspaceId, box, index, false)),
+      ...unplaceableBoxes.map((box, index) => toBoxRow(workspaceId, box, boxes.length + index, true)),
+    ],
+  })
+}
+
+async function writeFleet(db: Db, workspaceId: string, fleet: FleetTruckInput[]) {
+  await db.fleetTruck.deleteMany({ where: { workspaceId } })
+  await db.fleetTruck.createMany({ data: fleet.map((truck, index) => toFleetTruckRow(workspaceId, truck, index)) })
+}
+
+async function writePlans(db: Db, workspaceId: string, plans: PlanSnapshotInput[]) {
+  await db.loadPlan.deleteMany({ where: { workspaceId } })
+  await db.loadPlan.createMany({ data: plans.map((plan) => toLoadPlanRow(workspaceId, plan)) })
+}
+
+// Any change to a workspace's contents counts as a change to the workspace
+async function touchWorkspace(db: Db, workspaceId: string) {
+  await db.workspace.update({ where: { id: workspaceId }, data: { updatedAt: new Date() } })
+}
+
+export async function listBoxes(workspaceId: string): Promise<{ boxes: Box[]; unplaceableBoxes: Box[] }> {
+  const rows = await prisma.workspaceBox.findMany({ where: { workspaceId }, orderBy: { sortIndex: "asc" } })
+  return toBoxLists(rows)
+}
+
+export async function replaceBoxes(workspaceId: string, boxes: BoxInput[], unplaceableBoxes: BoxInput[]) {
+  await prisma.$transaction(async (db: Db) => {
+    await writeBoxes(db, workspaceId, boxes, unplaceableBoxes)
+    await touchWorkspace(db, workspaceId)
+    await recordVersion(db, workspaceId)
+  })
+  return listBoxes(workspaceId)
+}
+
+export async function listFleet(workspaceId: string): Promise<FleetTruckType[]> {
+  const rows = await prisma.fleetTruck.findMany({ where: { workspaceId }, orderBy: { sortIndex: "asc" } })
+  return rows.map(toFleetTruck)
+}
+
+export async function replaceFleet(workspaceId: string, fleet: FleetTruckInput[]): Promise<FleetTruckType[]> {
+  await prisma.$transaction(async (db: Db) => {
+    await writeFleet(db, workspaceId, fleet)
+    await touchWorkspace(db, workspaceId)
+    await recordVersion(db, workspaceId)
+  })
+  return listFleet(workspaceId)
+}
+
+export async function listPlans(workspaceId: string): Promise<PlanSnapshot[]> {
+  const rows = await prisma.loadPlan.findMany({ where: { workspaceId }, orderBy: { createdAt: "asc" } })
+  return rows.map(toPlanSnapshot)
+}
+
+export async function getPlan(workspaceId: string, planId: string): Promise<PlanSnapshot | null> {
+  const row = await prisma.loadPlan.findFirst({ where: { id: planId, workspaceId } })
+  return row ? toPlanSnapshot(row) : null
+}
+
+// Saving a plan under an id that already exists replaces it
+export async function savePlan(workspaceId: string, plan: PlanSnapshotInput): Promise<PlanSnapshot> {
+  const data = toLoadPlanRow(workspaceId, plan)
+  const row = await prisma.$transaction(async (db: Db) => {
+    const saved = await db.loadPlan.upsert({ where: { id: plan.id }, create: data, update: data })
+    await touchWorkspace(db, workspaceId)
+    return saved
+  })
+  return toPlanSnapshot(row)
+}
+
+export async function deletePlan(workspaceId: string, planId: string): Promise<boolean> {
+  const { count } = await prisma.loadPlan.deleteMany({ where: { id: planId, workspaceId } })
+  if (count > 0) await touchWorkspace(prisma, workspaceId)
+  return count > 0
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  VERSIONS                                  */
+/* -------------------------------------------------------------------------- */
+
+// Snapshots the workspace as it now stands in the transaction
+async function recordVersion(db: Db, workspaceId: string, label?: string) {
+  const row = await db.workspace.findUniqueOrThrow({
+    where: { id: workspaceId },
+    include: { boxes: { orderBy: { sortIndex: "asc" } }, trucks: { orderBy: { sortIndex: "asc" } } },
+  })
+  const { id, createdAt, lastModified, ...fields } = toWorkspaceFields(row)
+  const contents: WorkspaceVersionContents = {
+    ...fields,
+    ...toBoxLists(row.boxes),
+    fleet: row.trucks.map(toFleetTruck),
+  }
+  const latest = await db.workspaceVersion.findFirst({ where: { workspaceId }, orderBy: { number: "desc" } })
+
+  await db.workspaceVersion.create({
+    data: {
+      workspaceId,
+      number: (latest?.number ?? 0) + 1,
+      label,
+      boxCount: contents.boxes.length + contents.unplaceableBoxes.length,
+      contents: contents as unknown as JsonDocument,
+    },
+  })
+}
+
+export async function listVersions(workspaceId: string): Promise<WorkspaceVersionSummary[]> {
+  const rows = await prisma.workspaceVersion.findMany({
+    where: { workspaceId },
+    orderBy: { number: "desc" },
+    omit: { contents: true },
+  })
+  return rows.map(toVersionSummary)
+}
+
+export async function getVersion(workspaceId: string, versionId: string): Promise<WorkspaceVersion | null> {
+  const row = await prisma.workspaceVersion.findFirst({ where: { id: versionId, workspaceId } })
+  if (!row) return null
+  return { ...toVersionSummary(row), contents: row.contents as unknown as WorkspaceVersionContents }
+}
+
+// Saves the version's contents over the workspace; the restore becomes the newest version
+export async function restoreVersion(workspaceId: string, versionId: string): Promise<Workspace | null> {
+  const version = await getVersion(workspaceId, versionId)
+  if (!version) return null
+
+  const { contents } = version
+  return saveWorkspace(
+    workspaceId,
+    {
+      ...contents,
+      fleet: contents.fleet.map(({ vehicle, ...truck }) => ({ ...truck, vehicle: { id: vehicle.id } })),
+    },
+    `Restored version ${version.number}`,
+  )
+}
@@ -0,0 +1,143 @@
+// workspace-diff.ts
+// What changed between two saved versions of a workspace: boxes added,
+// removed or moved (including in and out of the truck), changes to the truck
+// and fleet, and how the layout scores moved. Boxes are matched by id.
+
+import type { Box, TruckDimensions } from "@/types/box"
+import type { FleetTruckType } from "@/types/fleet"
+import type { WorkspaceScores, WorkspaceVersionContents } from "@/types/workspace"
+
+type Position = Box["position"]
+
+// Smaller shifts are rounding from the physics settle, not a real move
+const MOVE_TOLERANCE = 0.01 // ft
+
+export interface MovedBox {
+  box: Box // as it is in the newer version
+  from: Position | null // null when the box was left off the truck
+  to: Position | null
+  distance: number | null // ft, when on the truck in both versions
+  reoriented: boolean
+}
+
+export interface FieldChange {
+  label: string
+  from: string
+  to: string
+}
+
+export interface ScoreDelta {
+  key: keyof WorkspaceScores
+  label: string
+  from: number | null
+  to: number | null
+  delta: number | null
+}
+
+export interface WorkspaceDiff {
+  added: Box[]
+  removed: Box[]
+  moved: MovedBox[]
+  truckChanges: FieldChange[]
+  scoreDeltas: ScoreDelta[]
+}
+
+const SCORE_LABELS: Record<keyof WorkspaceScores, string> = {
+  stability: "Stability",
+  safety: "Safety",
+  optimization: "Optimization",
+}
+
+export function diffWorkspaceVersions(from: WorkspaceVersionContents, to: WorkspaceVersionContents): WorkspaceDiff {
+  const before = indexBoxes(from)
+  const after = indexBoxes(to)
+
+  const added = [...after.values()].filter(({ box }) => !before.has(box.id)).map(({ box }) => box)
+  const removed = [...before.values()].filter(({ box }) => !after.has(box.id)).map(({ box }) => box)
+  const moved: MovedBox[] = []
+  for (const { box, placed } of after.values()) {
+    const previous = before.get(box.id)
+    if (!previous) continue
+
+    const fromPosition = previous.placed ? previous.box.position : null
+    const toPosition = placed ? box.position : null
+    const distance = fromPosition && toPosition ? getDistance(fromPosition, toPosition) : null
+    const reoriented = (previous.box.orientation ?? "xy") !== (box.orientation ?? "xy")
+    if (previous.placed !== placed || (distance !== null && distance > MOVE_TOLERANCE) || reoriented) {
+      moved.push({ box, from: fromPosition, to: toPosition, distance, reoriented })
+    }
+  }
+
+  return {
+    added,
+    removed,
+    moved,
+    truckChanges: [...diffTruckDimensions(from.truckDimensions, to.truckDimensions), ...diffFleet(from.fleet, to.fleet)],
+    scoreDeltas: diffScores(from.scores, to.scores),
+  }
+}
+
+export function hasChanges(diff: WorkspaceDiff): boolean {
+  return (
+    diff.added.length + diff.removed.length + diff.moved.length + diff.truckChanges.length > 0 ||
+    diff.scoreDeltas.some((score) => score.delta !== 0)
+  )
+}
+
+export function formatPosition(position: Position | null): string {
+  if (!position) return "off truck"
+  return `(${position.x.toFixed(1)}, ${position.y.toFixed(1)}, ${position.z.toFixed(1)})`
+}
+
+function indexBoxes(contents: WorkspaceVersionContents): Map<string, { box: Box; placed: boolean }> {
+  const index = new Map<string, { box: Box; placed: boolean }>()
+  contents.boxes.forEach((box) => index.set(box.id, { box, placed: true }))
+  contents.unplaceableBoxes.forEach((box) => index.set(box.id, { box, placed: false }))
+  return index
+}
+
+function getDistance(a: Position, b: Position): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+}
+
+function formatDimensions(dimensions: TruckDimensions | undefined): string {
+  return dimensions ? `${dimensions.width} × ${dimensions.length} × ${dimensions.height} ft` : "—"
+}
+
+function diffTruckDimensions(from: TruckDimensions | undefined, to: TruckDimensions | undefined): FieldChange[] {
+  const unchanged =
+    from?.width === to?.width && from?.length === to?.length && from?.height === to?.height
+  return unchanged ? [] : [{ label: "Truck (W × L × H)", from: formatDimensions(from), to: formatDimensions(to) }]
+}
+
+function describeFleetTruck(truck: FleetTruckType | undefined): string {
+  if (!truck) return "—"
+  return `${truck.available} × ${truck.vehicle.name}, ${formatDimensions(truck.dimensions)}`
+}
+
+function diffFleet(from: FleetTruckType[], to: FleetTruckType[]): FieldChange[] {
+  const ids = [...new Set([...from.map((truck) => truck.id), ...to.map((truck) => truck.id)])]
+  return ids.flatMap((id) => {
+    const previous = from.find((truck) => truck.id === id)
+    const next = to.find((truck) => truck.id === id)
+    const before = describeFleetTruck(previous)
+    const after = describeFleetTruck(next)
+    if (before === after) return []
+    return [{ label: `Fleet: ${(next ?? previous)!.name}`, from: before, to: after }]
+  })
+}
+
+function diffScores(from: WorkspaceScores | undefined, to: WorkspaceScores | undefined): ScoreDelta[] {
+  if (!from && !to) return []
+  return (Object.keys(SCORE_LABELS) as (keyof WorkspaceScores)[]).map((key) => {
+    const before = from?.[key] ?? null
+    const after = to?.[key] ?? null
+    return {
+      key,
+      label: SCORE_LABELS[key],
+      from: before,
+      to: after,
+      delta: before !== null && after !== null ? after - before : null,
+    }
+  })
+}
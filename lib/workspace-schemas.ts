@@ -0,0 +1,100 @@
+// workspace-schemas.ts
+// Request body validation for the workspace API. The shapes mirror the
+// client-side types so the stores can send what they already hold; vehicle
+// models travel whole but only their id is stored.
+
+import { z } from "zod"
+import type { BoxOrientation, UnplacedReasonCode } from "@/types/box"
+import type { PackingDiagnostics } from "@/types/packing"
+import { ALL_ORIENTATIONS } from "@/lib/box-orientation"
+import { UNPLACED_REASON_LABELS } from "@/lib/unplaced-reasons"
+
+const orientationSchema = z.enum(ALL_ORIENTATIONS as [BoxOrientation, ...BoxOrientation[]])
+const unplacedReasonCodeSchema = z.enum(
+  Object.keys(UNPLACED_REASON_LABELS) as [UnplacedReasonCode, ...UnplacedReasonCode[]],
+)
+
+export const truckDimensionsSchema = z.object({
+  width: z.number().positive(),
+  length: z.number().positive(),
+  height: z.number().positive(),
+})
+
+const vehicleRefSchema = z.object({ id: z.string().min(1) }).passthrough()
+
+export const boxSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  length: z.number().positive(),
+  weight: z.number().nonnegative(),
+  position: z.object({ x: z.number(), y: z.number(), z: z.number() }),
+  temperatureZone: z.enum(["regular", "cold", "frozen"]),
+  isFragile: z.boolean(),
+  destination: z.string(),
+  isNew: z.boolean().optional(),
+  locked: z.boolean().optional(),
+  crushFactor: z.number().min(0).max(1).optional(),
+  stackLimit: z.number().int().nonnegative().optional(),
+  orientation: orientationSchema.optional(),
+  thisSideUp: z.boolean().optional(),
+  allowedOrientations: z.array(orientationSchema).optional(),
+  unplacedReason: z.object({ code: unplacedReasonCodeSchema, message: z.string() }).optional(),
+})
+
+export const boxListSchema = z.object({
+  boxes: z.array(boxSchema),
+  unplaceableBoxes: z.array(boxSchema).default([]),
+})
+
+const scoresSchema = z.object({ stability: z.number(), safety: z.number(), optimization: z.number() })
+
+export const fleetTruckSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  dimensions: truckDimensionsSchema,
+  vehicle: vehicleRefSchema,
+  available: z.number().int().nonnegative(),
+})
+
+export const fleetSchema = z.object({ fleet: z.array(fleetTruckSchema) })
+
+export const planSnapshotSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: z.number(),
+  solverId: z.string().nullable(),
+  truckDimensions: truckDimensionsSchema,
+  vehicleModel: vehicleRefSchema,
+  boxes: z.array(boxSchema),
+  unplaceableBoxes: z.array(boxSchema),
+  scores: scoresSchema,
+  // Produced by our own solvers, so it's stored as sent
+  diagnostics: z.custom<PackingDiagnostics>((value) => typeof value === "object").nullable(),
+})
+
+export const workspaceMetadataSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(["sample", "empty", "custom"]),
+  description: z.string().optional(),
+  truckDimensions: truckDimensionsSchema.optional(),
+})
+
+// Everything a workspace holds, as sent by the workspace store when it syncs
+export const workspaceSchema = workspaceMetadataSchema.extend({
+  id: z.string().min(1).optional(),
+  createdAt: z.string().datetime().optional(),
+  lastModified: z.string().datetime().optional(), // kept as sent so devices agree on which copy is newer
+  boxes: z.array(boxSchema).default([]),
+  unplaceableBoxes: z.array(boxSchema).default([]),
+  fleet: z.array(fleetTruckSchema).optional(),
+  plans: z.array(planSnapshotSchema).optional(),
+  scores: scoresSchema.optional(),
+})
+
+export type BoxInput = z.infer<typeof boxSchema>
+export type FleetTruckInput = z.infer<typeof fleetTruckSchema>
+export type PlanSnapshotInput = z.infer<typeof planSnapshotSchema>
+export type WorkspaceMetadataInput = z.infer<typeof workspaceMetadataSchema>
+export type WorkspaceInput = z.infer<typeof workspaceSchema>
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { canAccess, getAllowedRoles, getHomePath } from "@/lib/access-control"
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session-token"
+
+// Signed-out visitors go to the sign-in page (or get a 401 from the API);
+// signed-in users outside a page's roles go to their own home page
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  if (getAllowedRoles(pathname) === "public") return NextResponse.next()
+
+  const isApi = pathname.startsWith("/api/")
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+
+  if (!session) {
+    if (isApi) return NextResponse.json({ error: "Sign in required" }, { status: 401 })
+    const signIn = new URL("/", request.url)
+    signIn.searchParams.set("next", pathname)
+    return NextResponse.redirect(signIn)
+  }
+
+  if (!canAccess(pathname, session.user.role)) {
+    if (isApi) return NextResponse.json({ error: "Not allowed for your role" }, { status: 403 })
+    return NextResponse.redirect(new URL(getHomePath(session.user.role), request.url))
+  }
+  return NextResponse.next()
+}
+
+// The sign-in page itself stays open
+export const config = {
+  matcher: ["/api/:path*", "/truck/:path*", "/warehouse/:path*", "/retailer/:path*", "/new/:path*", "/sample/:path*"],
+}
@@ -4,6 +4,7 @@
 import { useFrame } from "@react-three/fiber"
 import { useBox, usePlane } from "@react-three/cannon"
 import { useOptimizationStore } from "@/store/optimization-store"
+import { getOrientedDimensions } from "@/lib/box-orientation"
 import { useRef, useEffect, useState } from "react"
 import * as THREE from "three"
 import { useRouteStore } from "@/components/truck-visualization"
@@ -112,11 +113,12 @@ interface PhysicsBoxProps {
 
 export function PhysicsBox({ box, children }: PhysicsBoxProps) {
   const { simulationForces, isSimulationRunning, simulationSpeed } = useOptimizationStore()
+  const dims = getOrientedDimensions(box)
 
   const [ref, api] = useBox(() => ({
     mass: box.weight/10, // Convert to reasonable physics mass
     position: [box.position.x, box.position.y, box.position.z],
-    args: [box.width, box.height, box.length],
+    args: [dims.width, dims.height, dims.length],
     material: {
       friction: box.isFragile ? 0.8 : PHYSICS_CONSTANTS.FRICTION,
       restitution: box.isFragile ? 0.1 : PHYSICS_CONSTANTS.RESTITUTION,
@@ -347,9 +349,11 @@ export function EnhancedBoxRenderer({ box }: { box: any }) {
     return box.isNew ? 0.7 : 1.0
   }
 
+  const dims = getOrientedDimensions(box)
+
   return (
     <PhysicsBox box={box}>
-      <boxGeometry args={[box.width, box.height, box.length]} />
+      <boxGeometry args={[dims.width, dims.height, dims.length]} />
       <meshStandardMaterial
         color={getBoxColor(box)}
         transparent={box.isNew}
@@ -360,7 +364,7 @@ export function EnhancedBoxRenderer({ box }: { box: any }) {
 
       {/* ONLY BLACK BORDERS - Same as InteractiveBoxRenderer */}
       <lineSegments>
-        <edgesGeometry args={[new THREE.BoxGeometry(box.width, box.height, box.length), 1]} />
+        <edgesGeometry args={[new THREE.BoxGeometry(dims.width, dims.height, dims.length), 1]} />
         <lineBasicMaterial 
           color="#000000"
           transparent={false}
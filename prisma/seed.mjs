@@ -0,0 +1,202 @@
+// seed.mjs
+// Demo data so the order dashboards have something to show on a fresh
+// database: `npm run db:push && npm run db:seed`. Products are upserted by
+// SKU; warehouses, retailers, inventory, sales history, orders and alerts are
+// only added to empty tables.
+// Accounts are only added when there are none: a warehouse admin, a loader, a
+// driver and one retailer login per store ("retail-<id>"). Their passwords are
+// SEED_PASSWORD if set, otherwise random, and printed once.
+// Plain JavaScript so it runs with node alone.
+
+import { randomBytes, scryptSync } from "node:crypto"
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+const DAY = 24 * 60 * 60 * 1000
+
+const WAREHOUSES = [
+  { name: "Distribution Center", address: "123 Main St, Dallas, TX", latitude: 32.7767, longitude: -96.797, capacity: 10000 },
+  { name: "North Depot", address: "900 Preston Rd, Plano, TX", latitude: 33.0198, longitude: -96.6989, capacity: 6000 },
+]
+
+const RETAILERS = [
+  { name: "Store #4532", address: "456 Oak Ave, Dallas, TX", location: "Oak Lawn", latitude: 32.7867, longitude: -96.787 },
+  { name: "Store #2901", address: "789 Pine St, Dallas, TX", location: "Deep Ellum", latitude: 32.7967, longitude: -96.777 },
+  { name: "Store #7834", address: "321 Elm Dr, Dallas, TX", location: "Lakewood", latitude: 32.8067, longitude: -96.767 },
+]
+
+// weight is lb and price USD per unit (one pack as the retailer orders it);
+// cases are in ft
+const PRODUCTS = [
+  { sku: "BEV-COKE-12", name: "Coca Cola 12-Pack", category: "Beverages", weight: 10.2, price: 4.99, image: "/assets/1.png", caseWidth: 1.3, caseHeight: 0.8, caseLength: 1, unitsPerCase: 2, crushFactor: 0.8 },
+  { sku: "SNK-LAYS-10", name: "Lay's Potato Chips", category: "Snacks", weight: 0.6, price: 2.49, image: "/assets/2.png", caseWidth: 1.5, caseHeight: 1.2, caseLength: 2, unitsPerCase: 12, isFragile: true, crushFactor: 0.2 },
+  { sku: "BAK-WNDR-20", name: "Wonder Bread", category: "Bakery", weight: 1.3, price: 1.99, image: "/assets/3.png", caseWidth: 1.5, caseHeight: 1, caseLength: 2, unitsPerCase: 10, isFragile: true, crushFactor: 0.3 },
+  { sku: "DAI-MILK-GAL", name: "Milk Gallon", category: "Dairy", weight: 8.6, price: 3.49, image: "/assets/4.png", caseWidth: 1.1, caseHeight: 1, caseLength: 1.1, unitsPerCase: 4, temperatureZone: "cold", thisSideUp: true, crushFactor: 0.6 },
+  { sku: "PRO-BAN-LB", name: "Bananas (lb)", category: "Produce", weight: 1, price: 0.68, image: "/assets/5.png", caseWidth: 1.3, caseHeight: 0.8, caseLength: 1.7, unitsPerCase: 40, temperatureZone: "cold", isFragile: true, crushFactor: 0.4 },
+  { sku: "HOU-TIDE-92", name: "Tide Detergent", category: "Household", weight: 12.5, price: 12.99, image: "/assets/7.png", caseWidth: 1.2, caseHeight: 1, caseLength: 1.4, unitsPerCase: 4, thisSideUp: true, crushFactor: 0.9 },
+  { sku: "HOU-CHAR-12", name: "Charmin Toilet Paper", category: "Household", weight: 4.1, price: 8.99, image: "/assets/8.png", caseWidth: 1.5, caseHeight: 1.4, caseLength: 2, unitsPerCase: 4, crushFactor: 0.3 },
+  { sku: "BRK-CHRS-18", name: "Cheerios Cereal", category: "Breakfast", weight: 1.3, price: 4.49, image: "/assets/9.png", caseWidth: 1, caseHeight: 1, caseLength: 1.6, unitsPerCase: 12, crushFactor: 0.5 },
+  { sku: "FRZ-PIZZA-12", name: "Frozen Pizza", category: "Frozen", weight: 1.7, price: 3.99, image: "/assets/10.png", caseWidth: 1.1, caseHeight: 0.9, caseLength: 1.1, unitsPerCase: 12, temperatureZone: "frozen", crushFactor: 0.6 },
+  { sku: "MED-CRATE-1", name: "Medical Crate", category: "Medical", weight: 22, price: 30.99, caseWidth: 2, caseHeight: 1.5, caseLength: 2, unitsPerCase: 1, isFragile: true, thisSideUp: true, crushFactor: 0.5 },
+]
+
+// Shelf levels of the first store; the others start comfortably stocked.
+// dailySales is the average units sold a day, for the generated history.
+const SALES_HISTORY_DAYS = 120
+
+// Repeatable noise, so every fresh database forecasts the same numbers
+function createRandom(seed) {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+const INVENTORY = {
+  "BEV-COKE-12": { currentStock: 15, minStock: 20, maxStock: 80, leadTimeDays: 2, supplierReliability: 95, dailySales: 6 },
+  "SNK-LAYS-10": { currentStock: 8, minStock: 25, maxStock: 100, leadTimeDays: 1, supplierReliability: 98, dailySales: 9 },
+  "BAK-WNDR-20": { currentStock: 45, minStock: 30, maxStock: 60, leadTimeDays: 1, supplierReliability: 92, dailySales: 7 },
+  "DAI-MILK-GAL": { currentStock: 3, minStock: 15, maxStock: 40, leadTimeDays: 1, supplierReliability: 90, dailySales: 5 },
+  "PRO-BAN-LB": { currentStock: 12, minStock: 20, maxStock: 50, leadTimeDays: 2, supplierReliability: 85, dailySales: 8 },
+  "HOU-TIDE-92": { currentStock: 22, minStock: 15, maxStock: 40, leadTimeDays: 3, supplierReliability: 96, dailySales: 2 },
+  "HOU-CHAR-12": { currentStock: 18, minStock: 20, maxStock: 60, leadTimeDays: 2, supplierReliability: 94, dailySales: 4 },
+  "BRK-CHRS-18": { currentStock: 5, minStock: 12, maxStock: 50, leadTimeDays: 2, supplierReliability: 97, dailySales: 3 },
+  "FRZ-PIZZA-12": { currentStock: 28, minStock: 25, maxStock: 80, leadTimeDays: 3, supplierReliability: 93, dailySales: 4 },
+  "MED-CRATE-1": { currentStock: 28, minStock: 25, maxStock: 80, leadTimeDays: 3, supplierReliability: 93, dailySales: 1 },
+}
+
+// Same "scrypt$N$r$p$salt$key" format and cost as hashPassword in lib/auth.ts
+function hashPassword(password) {
+  const [N, r, p] = [32768, 8, 1]
+  const salt = randomBytes(16)
+  const key = scryptSync(password, salt, 64, { N, r, p, maxmem: 64 * 1024 * 1024 })
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$")
+}
+
+async function seedUsers(retailers) {
+  const accounts = [
+    { username: "admin", name: "Warehouse Admin", role: "warehouse_admin", retailId: null },
+    { username: "loader", name: "Loading Dock", role: "loader", retailId: null },
+    { username: "driver", name: "Delivery Driver", role: "driver", retailId: null },
+    ...retailers.map((retailer) => ({
+      username: `retail-${retailer.id}`,
+      name: retailer.name,
+      role: "retailer",
+      retailId: retailer.id,
+    })),
+  ]
+  console.log("🔑 Seeded accounts (shown once):")
+  for (const account of accounts) {
+    const password = process.env.SEED_PASSWORD || randomBytes(9).toString("base64url")
+    await prisma.user.create({ data: { ...account, passwordHash: hashPassword(password) } })
+    console.log(`   ${account.username.padEnd(12)} ${password}`)
+  }
+}
+
+async function main() {
+  for (const product of PRODUCTS) {
+    await prisma.product.upsert({ where: { sku: product.sku }, create: product, update: product })
+  }
+  if ((await prisma.warehouse.count()) === 0) await prisma.warehouse.createMany({ data: WAREHOUSES })
+  if ((await prisma.retailer.count()) === 0) await prisma.retailer.createMany({ data: RETAILERS })
+
+  const products = await prisma.product.findMany({ orderBy: { id: "asc" } })
+  const warehouses = await prisma.warehouse.findMany({ orderBy: { id: "asc" } })
+  const retailers = await prisma.retailer.findMany({ orderBy: { id: "asc" } })
+  const bySku = Object.fromEntries(products.map((product) => [product.sku, product]))
+
+  if ((await prisma.user.count()) === 0) await seedUsers(retailers)
+
+  if ((await prisma.inventoryItem.count()) === 0) {
+    await prisma.inventoryItem.createMany({
+      data: retailers.flatMap((retailer, index) =>
+        Object.entries(INVENTORY).map(([sku, level]) => ({
+          retailId: retailer.id,
+          productId: bySku[sku].id,
+          currentStock: index === 0 ? level.currentStock : Math.round(level.maxStock * 0.6),
+          minStock: level.minStock,
+          maxStock: level.maxStock,
+          leadTimeDays: level.leadTimeDays,
+          supplierReliability: level.supplierReliability,
+        })),
+      ),
+    })
+  }
+
+  if ((await prisma.dailySale.count()) === 0) {
+    const random = createRandom(42)
+    const today = new Date()
+    today.setUTCHours(0, 0, 0, 0)
+    const sales = []
+    for (const retailer of retailers) {
+      for (const [sku, level] of Object.entries(INVENTORY)) {
+        for (let daysAgo = SALES_HISTORY_DAYS; daysAgo >= 1; daysAgo--) {
+          const day = new Date(today.getTime() - daysAgo * DAY)
+          // Weekends sell more; each day swings up to 50% either way
+          const weekday = day.getUTCDay()
+          const season = weekday === 0 || weekday === 6 ? 1.4 : 0.85
+          const unitsSold = Math.round(level.dailySales * season * (0.5 + random()))
+          if (unitsSold > 0) sales.push({ retailId: retailer.id, productId: bySku[sku].id, day, unitsSold })
+        }
+      }
+    }
+    await prisma.dailySale.createMany({ data: sales })
+  }
+
+  if ((await prisma.order.count()) === 0) {
+    const orders = [
+      { retailer: 0, sku: "BEV-COKE-12", quantity: 40, status: "pending", priority: "high", inDays: 1 },
+      { retailer: 0, sku: "DAI-MILK-GAL", quantity: 24, status: "confirmed", priority: "high", inDays: 1 },
+      { retailer: 1, sku: "HOU-TIDE-92", quantity: 12, status: "in_transit", priority: "normal", inDays: 0 },
+      { retailer: 1, sku: "FRZ-PIZZA-12", quantity: 60, status: "confirmed", priority: "normal", inDays: 2 },
+      { retailer: 2, sku: "BRK-CHRS-18", quantity: 30, status: "delivered", priority: "low", inDays: -1 },
+    ]
+    for (const order of orders) {
+      const product = bySku[order.sku]
+      await prisma.order.create({
+        data: {
+          retailId: retailers[order.retailer].id,
+          productId: product.id,
+          warehouseId: order.status === "pending" ? null : warehouses[0].id,
+          quantity: order.quantity,
+          totalWeight: Math.round(order.quantity * product.weight * 10) / 10,
+          deliveryDate: new Date(Date.now() + order.inDays * DAY),
+          status: order.status,
+          priority: order.priority,
+        },
+      })
+    }
+  }
+
+  if ((await prisma.shortageAlert.count()) === 0) {
+    await prisma.shortageAlert.createMany({
+      data: [
+        {
+          retailId: retailers[0].id,
+          productId: bySku["SNK-LAYS-10"].id,
+          severity: "high",
+          currentStock: 8,
+          minStock: 25,
+          suggestedQuantity: 40,
+        },
+        {
+          retailId: retailers[2].id,
+          productId: bySku["PRO-BAN-LB"].id,
+          severity: "medium",
+          currentStock: 12,
+          minStock: 20,
+          suggestedQuantity: 17,
+        },
+      ],
+    })
+  }
+}
+
+main()
+  .then(() => console.log("✅ Seeded order data"))
+  .catch((error) => {
+    console.error("❌ Seeding failed:", error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
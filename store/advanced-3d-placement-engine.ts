@@ -1,7 +1,11 @@
 // Enhanced 3D Box Placement Algorithm
 "use client"
 
-import type { Box } from "@/types/box"
+import type { Box, VehicleModel } from "@/types/box"
+import type { OptimizationProgress } from "@/types/worker-messages"
+import { computeStackLoads, getMaxSupportedLoad, wouldOverloadStack, type StackLoad } from "@/lib/stacking-rules"
+import { computeAxleLoads, wouldExceedAxleLimits, type AxleLoad } from "@/lib/axle-loads"
+import { compareByLoadingOrder, getLifoDepthRatio } from "@/lib/route-order"
 
 // Position candidate for box placement
 interface PlacementCandidate {
@@ -12,7 +16,7 @@ interface PlacementCandidate {
 }
 
 // Placement constraints and preferences
-interface PlacementConstraints {
+export interface PlacementConstraints {
   truckDimensions: { width: number; length: number; height: number }
   maxWeight: number
   temperatureZones: {
@@ -22,6 +26,9 @@ interface PlacementConstraints {
   }
   fragileZones: Array<{ x: number; y: number; z: number; width: number; height: number; length: number }>
   lifoOrder: boolean
+  stopOrder: string[] // delivery stops, first stop first
+  strictTemperatureZones?: boolean // reject positions outside the box's zone instead of scoring them down
+  vehicle?: VehicleModel // reject positions that would overload an axle
   perishableAreas: Array<{ x: number; y: number; z: number; width: number; height: number; length: number }>
 }
 
@@ -29,6 +36,8 @@ interface PlacementConstraints {
 export class Advanced3DPlacementEngine {
   private constraints: PlacementConstraints
   private placementGrid: Map<string, boolean> = new Map()
+  private stackLoads: Map<string, StackLoad> = new Map()
+  private axleLoads: AxleLoad[] = []
   private readonly PLACEMENT_PRECISION = 0.25 // 25cm grid precision
   private readonly MIN_SUPPORT_OVERLAP = 0.7 // 70% overlap required for stacking
   private readonly STABILITY_FACTOR = 0.8 // Weight distribution factor
@@ -80,6 +89,10 @@ export class Advanced3DPlacementEngine {
     // Update grid with existing boxes
     this.initializeGrid()
     existingBoxes.forEach(box => this.markBoxOccupied(box, true))
+    this.stackLoads = computeStackLoads(existingBoxes)
+    if (this.constraints.vehicle) {
+      this.axleLoads = computeAxleLoads(existingBoxes, this.constraints.vehicle, this.constraints.truckDimensions)
+    }
 
     const candidates = this.generatePlacementCandidates(newBox, existingBoxes)
     if (candidates.length === 0) {
@@ -259,6 +272,11 @@ export class Advanced3DPlacementEngine {
     
     // Fragility constraint
     if (bottomBox.isFragile && topBox.weight > bottomBox.weight * 0.5) return false
+
+    // Crush rating and stack limit of the box underneath
+    const bottomLoad = this.stackLoads.get(bottomBox.id) ?? { load: 0, boxesAbove: 0 }
+    if (bottomLoad.load + topBox.weight > getMaxSupportedLoad(bottomBox)) return false
+    if (bottomBox.stackLimit !== undefined && bottomLoad.boxesAbove >= bottomBox.stackLimit) return false
     
     // Size constraint (top box shouldn't be much larger)
     const topArea = topBox.width * topBox.length
@@ -420,13 +438,11 @@ export class Advanced3DPlacementEngine {
    * Get destination-based score for LIFO order
    */
   private getDestinationScore(box: Box, position: { x: number; y: number; z: number }): number {
-    if (!this.constraints.lifoOrder) return 0
+    if (!this.constraints.lifoOrder || this.constraints.stopOrder.length < 2) return 0
 
-    const stopOrder = { "Stop 4": 0, "Stop 3": 1, "Stop 2": 2, "Stop 1": 3 }
-    const boxStopOrder = stopOrder[box.destination as keyof typeof stopOrder] || 4
-    
     // Earlier stops should be closer to the back (positive z)
-    const idealZ = (boxStopOrder / 3) * this.constraints.truckDimensions.length - this.constraints.truckDimensions.length/2
+    const depthRatio = getLifoDepthRatio(this.constraints.stopOrder, box.destination)
+    const idealZ = depthRatio * this.constraints.truckDimensions.length - this.constraints.truckDimensions.length/2
     const distanceFromIdeal = Math.abs(position.z - idealZ)
     
     return Math.max(0, 100 - distanceFromIdeal * 10)
@@ -450,6 +466,22 @@ export class Advanced3DPlacementEngine {
     return -100
   }
 
+  /**
+   * Check the box's whole length lies inside regions of its own temperature zone
+   */
+  private isWithinTemperatureZone(box: Box, position: { x: number; y: number; z: number }): boolean {
+    const zones = this.constraints.temperatureZones[box.temperatureZone as keyof typeof this.constraints.temperatureZones] ?? []
+    const tolerance = 0.01
+    let coveredTo = position.z - box.length/2
+
+    // Sweep the regions front to back, extending coverage while they stay contiguous
+    for (const zone of [...zones].sort((a, b) => (a.z - a.length/2) - (b.z - b.length/2))) {
+      if (zone.z - zone.length/2 > coveredTo + tolerance) break
+      coveredTo = Math.max(coveredTo, zone.z + zone.length/2)
+    }
+    return coveredTo >= position.z + box.length/2 - tolerance
+  }
+
   /**
    * Check if position is within a zone
    */
@@ -492,6 +524,14 @@ export class Advanced3DPlacementEngine {
       if (!hasSupport) return false
     }
 
+    if (this.constraints.strictTemperatureZones && !this.isWithinTemperatureZone(box, position)) return false
+
+    // Crush ratings and stack limits of everything below, and of this box if it slides under an overhang
+    if (wouldOverloadStack({ ...box, position }, existingBoxes, this.stackLoads)) return false
+
+    const { vehicle, truckDimensions } = this.constraints
+    if (vehicle && wouldExceedAxleLimits({ ...box, position }, this.axleLoads, vehicle, truckDimensions)) return false
+
     return true
   }
 
@@ -506,6 +546,8 @@ export class Advanced3DPlacementEngine {
     for (let x = -width/2 + box.width/2; x <= width/2 - box.width/2; x += step) {
       for (let z = -length/2 + box.length/2; z <= length/2 - box.length/2; z += step) {
         const position = { x, y: box.height/2, z }
+        if (this.constraints.strictTemperatureZones && !this.isWithinTemperatureZone(box, position)) continue
+        if (this.constraints.vehicle && wouldExceedAxleLimits({ ...box, position }, this.axleLoads, this.constraints.vehicle, this.constraints.truckDimensions)) continue
         if (this.isPositionFree(box, position, existingBoxes)) {
           return position
         }
@@ -520,38 +562,58 @@ export class Advanced3DPlacementEngine {
    * Optimize entire truck layout using advanced algorithms
    */
   public optimizeCompleteLayout(boxes: Box[]): Box[] {
-    if (boxes.length === 0) return []
+    const layout = this.packLayout(boxes)
+    let step = layout.next()
+    while (!step.done) step = layout.next()
+
+    // Keep original position for boxes where no placement was found
+    return [...step.value.placedBoxes, ...step.value.unplacedBoxes]
+  }
 
+  /**
+   * Place boxes one at a time, yielding progress after each box. `fixedBoxes`
+   * stay where they are and are only packed around, never returned.
+   */
+  public *packLayout(
+    boxes: Box[],
+    fixedBoxes: Box[] = [],
+  ): Generator<OptimizationProgress, { placedBoxes: Box[]; unplacedBoxes: Box[] }, void> {
     // Sort boxes for optimal placement order
     const sortedBoxes = this.sortBoxesForOptimalPlacement([...boxes])
-    const optimizedBoxes: Box[] = []
+    const placedBoxes: Box[] = [...fixedBoxes]
+    const unplacedBoxes: Box[] = []
 
     // Place each box using the optimal algorithm
     for (const box of sortedBoxes) {
-      const optimalPosition = this.findOptimalPlacement(box, optimizedBoxes)
+      const optimalPosition = this.findOptimalPlacement(box, placedBoxes)
       if (optimalPosition) {
         const placedBox = { ...box, position: optimalPosition }
-        optimizedBoxes.push(placedBox)
+        placedBoxes.push(placedBox)
         this.markBoxOccupied(placedBox, true)
       } else {
-        // Keep original position if no better placement found
-        optimizedBoxes.push(box)
+        unplacedBoxes.push(box)
+      }
+
+      yield {
+        placed: placedBoxes.length - fixedBoxes.length,
+        unplaced: unplacedBoxes.length,
+        total: sortedBoxes.length,
+        currentBoxId: box.id,
       }
     }
 
-    return optimizedBoxes
+    return { placedBoxes: placedBoxes.slice(fixedBoxes.length), unplacedBoxes }
   }
 
   /**
    * Sort boxes for optimal placement order
    */
   private sortBoxesForOptimalPlacement(boxes: Box[]): Box[] {
+    const byLoadingOrder = compareByLoadingOrder(this.constraints.stopOrder)
     return boxes.sort((a, b) => {
       // 1. LIFO order (destination priority)
-      const stopOrder = { "Stop 4": 0, "Stop 3": 1, "Stop 2": 2, "Stop 1": 3 }
-      const aStop = stopOrder[a.destination as keyof typeof stopOrder] || 4
-      const bStop = stopOrder[b.destination as keyof typeof stopOrder] || 4
-      if (aStop !== bStop) return aStop - bStop
+      const stopRank = byLoadingOrder(a, b)
+      if (stopRank !== 0) return stopRank
 
       // 2. Heavy before light (stability)
       if (Math.abs(a.weight - b.weight) > 50) return b.weight - a.weight
@@ -2,8 +2,35 @@
 "use client"
 
 import { create } from "zustand"
-import type { Box } from "@/types/box"
+import type { Box, TemperatureZoneLayout, VehicleModel } from "@/types/box"
+import type { IncrementalPlacementInput, PackingDiagnostics, PackingSolverInput } from "@/types/packing"
+import type { FleetPlan, FleetPlanInput, FleetTruckType } from "@/types/fleet"
+import type { PlanSnapshot, Workspace } from "@/types/workspace"
+import type { OptimizationProgress, PhysicsWorkerRequest, PhysicsWorkerResponse } from "@/types/worker-messages"
 import { sampleBoxes } from "@/data/sample-boxes"
+import { isBoxColliding } from "@/lib/void-packer"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import { findStackingViolations } from "@/lib/stacking-rules"
+import { DEFAULT_VEHICLE_MODEL, computeAxleLoads, findAxleOverloads } from "@/lib/axle-loads"
+import { DEFAULT_SUPPORT_RULES, type SupportRules } from "@/lib/support-rules"
+import { DEFAULT_TEMPERATURE_ZONE_LAYOUT } from "@/lib/temperature-zones"
+import { DEFAULT_PACKING_SOLVER_ID, getDefaultPackingConstraints, runPackingSolverSync } from "@/lib/packing-solvers"
+import { TRUCK_PRESETS, getFleetPlanBoxes, planFleet } from "@/lib/fleet-planner"
+import { placeNewBoxes } from "@/lib/incremental-placement"
+import { compareByLoadingOrder, resolveStopOrder } from "@/lib/route-order"
+import type { ImportedLoadPlan } from "@/lib/plan-interchange"
+import {
+  EMPTY_LAYOUT_HISTORY,
+  recordEdit,
+  redoEdit,
+  renameBoxDestinations,
+  renameHistoryDestinations,
+  renameSnapshotDestinations,
+  takeLayoutSnapshot,
+  undoEdit,
+  type LayoutHistory,
+  type LayoutSnapshot,
+} from "@/lib/layout-history"
 
 // Define interfaces for better type safety
 interface PhysicsStats {
@@ -19,30 +46,10 @@ interface SimulationForces {
   gravity: number
 }
 
-// Define a simpler Box type for the packing algorithm to avoid circular dependencies if Box has Three.Vector3
-interface PackableBox extends Omit<Box, 'position'> {
-  // Position is managed by the packing algorithm, not directly stored as Vector3 here
-  // We will store simple x, y, z coordinates
-  position: { x: number; y: number; z: number };
-  originalId: string; // Keep track of original ID for score updates
-  rotation?: 'xy' | 'xz' | 'yz' | 'yx' | 'zx' | 'zy' | undefined; // For rotation awareness
-}
-
-// Interface for an empty space (void) in the truck
-interface Void {
-  id: string; // Unique ID for the void
-  x: number;
-  y: number;
-  z: number;
-  width: number;
-  height: number;
-  length: number;
-  volume: number;
-}
-
 interface OptimizationState {
   // Truck and Boxes
   truckDimensions: { width: number; length: number; height: number }
+  vehicleModel: VehicleModel
   boxes: Box[]
   unplaceableBoxes: Box[]
   // Physics
@@ -62,15 +69,35 @@ interface OptimizationState {
   // Loading
   loadingSequence: Box[]
   currentLoadStep: number
+  stopOrder: string[] // delivery stop names in route order, kept in sync by the route store
 
   // Temperature Zones
+  temperatureZoneLayout: TemperatureZoneLayout
+  strictTemperatureZones: boolean
   temperatureZones: {
     regular: string[]
     cold: string[]
     frozen: string[]
   }
 
+  // Layout optimization (runs in workers/physics-worker.ts when available)
+  packingSolverId: string
+  supportRules: SupportRules
+  isOptimizing: boolean
+  optimizationProgress: OptimizationProgress | null
+  packingDiagnostics: PackingDiagnostics | null
+  incrementalPlacement: boolean // slot added boxes in around the loaded ones instead of waiting for a repack
 
+  // Fleet planning; while a plan is active, boxes/truckDimensions show one of its loads
+  fleet: FleetTruckType[]
+  fleetPlan: FleetPlan | null
+  activeTruckLoadId: string | null
+
+  // Undo/redo for box edits, truck and zone changes and packing runs, plus named checkpoints
+  history: LayoutHistory
+
+  // Alternative plans saved for side-by-side comparison
+  planSnapshots: PlanSnapshot[]
 
   // Actions
   loadSampleData: () => void
@@ -84,18 +111,44 @@ interface OptimizationState {
   setSimulationSpeed: (speed: number) => void
   setSimulationForces: (forces: SimulationForces) => void
   addBox: (box: Box) => void
+  addBoxes: (boxes: Box[], label: string) => void
   removeBox: (id: string) => void
   updateBox: (id: string, updates: Partial<Box>) => void
   updateBoxPosition: (id: string, position: { x: number; y: number; z: number }) => void
   setTruckDimensions: (dimensions: { width: number; length: number; height: number }) => void
+  setVehicleModel: (vehicle: VehicleModel) => void
+  setTemperatureZoneLayout: (layout: TemperatureZoneLayout) => void
+  setStrictTemperatureZones: (strict: boolean) => void
   setPhysicsEnabled: (enabled: boolean) => void
+  setPackingSolverId: (solverId: string) => void
+  setSupportRules: (rules: Partial<SupportRules>) => void
+  setStopOrder: (stopOrder: string[]) => void
+  renameDestinations: (renames: Map<string, string>) => void
+  setIncrementalPlacement: (enabled: boolean) => void
+  setFleet: (fleet: FleetTruckType[]) => void
+  planFleet: () => void
+  selectTruckLoad: (loadId: string) => void
+  clearFleetPlan: () => void
   optimizeLayout: () => void
+  placeNewBoxes: () => void
+  cancelOptimization: () => void
   resetLayout: () => void
   checkCollisions: (boxId: string) => string[]
   calculateScores: () => void
   generateLoadingSequence: () => void
   nextLoadStep: () => void
   previousLoadStep: () => void
+  undo: () => void
+  redo: () => void
+  historyTransaction: (label: string, edit: () => void) => void
+  saveCheckpoint: (name: string) => void
+  restoreCheckpoint: (id: string) => void
+  deleteCheckpoint: (id: string) => void
+  savePlanSnapshot: (name: string) => void
+  removePlanSnapshot: (id: string) => void
+  applyPlanSnapshot: (id: string) => void
+  loadWorkspaceLayout: (workspace: Workspace) => void
+  importLoadPlan: (plan: ImportedLoadPlan) => void
 }
 
 export const useOptimizationStore = create<OptimizationState>((set, get) => ({
@@ -106,6 +159,7 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
     length: 28,
     height: 9,
   },
+  vehicleModel: DEFAULT_VEHICLE_MODEL,
   physicsEnabled: true,
   physicsStats: null,
   isSimulationRunning: false,
@@ -121,34 +175,38 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
   optimizationScore: 0,
   loadingSequence: [],
   currentLoadStep: 0,
+  stopOrder: [],
+  temperatureZoneLayout: DEFAULT_TEMPERATURE_ZONE_LAYOUT,
+  strictTemperatureZones: false,
   temperatureZones: {
     regular: [],
     cold: [],
     frozen: [],
   },
+  packingSolverId: DEFAULT_PACKING_SOLVER_ID,
+  supportRules: DEFAULT_SUPPORT_RULES,
+  isOptimizing: false,
+  optimizationProgress: null,
+  packingDiagnostics: null,
+  incrementalPlacement: false,
+  fleet: TRUCK_PRESETS,
+  fleetPlan: null,
+  activeTruckLoadId: null,
+  history: EMPTY_LAYOUT_HISTORY,
+  planSnapshots: [],
 
   loadSampleData: () => {
-    //@ts-ignore
-    const { placedBoxes, unplacedBoxes } = optimizeBoxPlacement(sampleBoxes, get().truckDimensions)
-    const scores = calculateAllScores(placedBoxes, get().truckDimensions)
-    const sequence = generateOptimalLoadingSequence(placedBoxes)
-    const zones = categorizeTemperatureZones(placedBoxes)
-
-    set({
-      boxes: placedBoxes,
-      unplaceableBoxes: unplacedBoxes,
-      stabilityScore: scores.stability,
-      safetyScore: scores.safety,
-      optimizationScore: scores.optimization,
-      loadingSequence: sequence,
-      temperatureZones: zones,
-    })
+    set({ fleetPlan: null, activeTruckLoadId: null })
+    runLayoutOptimization(set, get, sampleBoxes)
   },
 
   resetToEmpty: () => {
+    recordHistory(set, get, 'Clear all boxes')
     set({
       boxes: [],
       unplaceableBoxes: [],
+      fleetPlan: null,
+      activeTruckLoadId: null,
       stabilityScore: 0,
       safetyScore: 0,
       optimizationScore: 0,
@@ -164,15 +222,14 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
   initializePhysics: () => {
     const state = get()
     if (state.boxes.length > 0) {
-      const scores = calculateAllScores(state.boxes, state.truckDimensions)
-      const sequence = generateOptimalLoadingSequence(state.boxes)
+      const scores = calculateAllScores(state.boxes, state.truckDimensions, state.vehicleModel)
       const zones = categorizeTemperatureZones(state.boxes)
 
       set({
         stabilityScore: scores.stability,
         safetyScore: scores.safety,
         optimizationScore: scores.optimization,
-        loadingSequence: sequence,
+        ...sequenceKeepingLoadedBoxes(state.boxes, getLoadedBoxIds(state), state.stopOrder),
         temperatureZones: zones,
       })
     }
@@ -180,7 +237,7 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
 
   updatePhysics: () => {
     const state = get()
-    const scores = calculateAllScores(state.boxes, state.truckDimensions)
+    const scores = calculateAllScores(state.boxes, state.truckDimensions, state.vehicleModel)
 
     set({
       stabilityScore: scores.stability,
@@ -197,6 +254,8 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
   // In your optimization-store.ts, update runSimulation:
   runSimulation: () => {
     console.log('🚀 Starting physics simulation with react-three/cannon')
+    // The simulation moves boxes every frame; undo takes them back to where they started
+    recordHistory(set, get, 'Physics simulation')
     set({ isSimulationRunning: true })
 
     // Add debug logging
@@ -231,15 +290,14 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
     // Wait a moment for physics to settle, then update all scores
     setTimeout(() => {
       const state = get()
-      const scores = calculateAllScores(state.boxes, state.truckDimensions)
-      const sequence = generateOptimalLoadingSequence(state.boxes)
+      const scores = calculateAllScores(state.boxes, state.truckDimensions, state.vehicleModel)
       const zones = categorizeTemperatureZones(state.boxes)
 
       set({
         stabilityScore: scores.stability,
         safetyScore: scores.safety,
         optimizationScore: scores.optimization,
-        loadingSequence: sequence,
+        ...sequenceKeepingLoadedBoxes(state.boxes, getLoadedBoxIds(state), state.stopOrder),
         temperatureZones: zones,
         physicsStats: {
           collisions: detectCollisions(state.boxes).length,
@@ -257,17 +315,8 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
     console.log('🔄 Resetting simulation to optimized positions')
     set({ isSimulationRunning: false })
 
-    // Reset to optimized positions
-    const state = get()
-    //@ts-ignore
-    const optimizedBoxes = optimizeBoxPlacement(state.boxes, state.truckDimensions)
-    //@ts-ignore
-    set({ boxes: optimizedBoxes })
-
-    // Recalculate scores after reset
-    setTimeout(() => {
-      get().updatePhysics()
-    }, 100)
+    // Reset to optimized positions; scores are recalculated once the layout resolves
+    get().optimizeLayout()
   },
 
   setSimulationSpeed: (speed) => {
@@ -280,10 +329,16 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
 
 
   addBox: (box) => {
+    get().addBoxes([box], 'Add box')
+  },
+
+  // One history entry, one rescore and one placement run for the whole batch
+  addBoxes: (addedBoxes, label) => {
+    if (addedBoxes.length === 0) return
+    recordHistory(set, get, label)
     set((state) => {
-      const newBoxes = [...state.boxes, box]
-      const scores = calculateAllScores(newBoxes, state.truckDimensions)
-      const sequence = generateOptimalLoadingSequence(newBoxes)
+      const newBoxes = [...state.boxes, ...addedBoxes]
+      const scores = calculateAllScores(newBoxes, state.truckDimensions, state.vehicleModel)
       const zones = categorizeTemperatureZones(newBoxes)
 
       return {
@@ -291,35 +346,38 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
         stabilityScore: scores.stability,
         safetyScore: scores.safety,
         optimizationScore: scores.optimization,
-        loadingSequence: sequence,
+        ...sequenceKeepingLoadedBoxes(newBoxes, getLoadedBoxIds(state), state.stopOrder),
         temperatureZones: zones,
       }
     })
+
+    if (get().incrementalPlacement) get().placeNewBoxes()
   },
 
   removeBox: (id) => {
+    recordHistory(set, get, 'Remove box')
     set((state) => {
       const newBoxes = state.boxes.filter((box) => box.id !== id)
-      const scores = calculateAllScores(newBoxes, state.truckDimensions)
-      const sequence = generateOptimalLoadingSequence(newBoxes)
+      const scores = calculateAllScores(newBoxes, state.truckDimensions, state.vehicleModel)
       const zones = categorizeTemperatureZones(newBoxes)
 
       return {
         boxes: newBoxes,
+        unplaceableBoxes: state.unplaceableBoxes.filter((box) => box.id !== id),
         stabilityScore: scores.stability,
         safetyScore: scores.safety,
         optimizationScore: scores.optimization,
-        loadingSequence: sequence,
+        ...sequenceKeepingLoadedBoxes(newBoxes, getLoadedBoxIds(state), state.stopOrder),
         temperatureZones: zones,
       }
     })
   },
 
   updateBox: (id, updates) => {
+    recordHistory(set, get, 'Edit box')
     set((state) => {
       const newBoxes = state.boxes.map((box) => (box.id === id ? { ...box, ...updates } : box))
-      const scores = calculateAllScores(newBoxes, state.truckDimensions)
-      const sequence = generateOptimalLoadingSequence(newBoxes)
+      const scores = calculateAllScores(newBoxes, state.truckDimensions, state.vehicleModel)
       const zones = categorizeTemperatureZones(newBoxes)
 
       return {
@@ -327,7 +385,7 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
         stabilityScore: scores.stability,
         safetyScore: scores.safety,
         optimizationScore: scores.optimization,
-        loadingSequence: sequence,
+        ...sequenceKeepingLoadedBoxes(newBoxes, getLoadedBoxIds(state), state.stopOrder),
         temperatureZones: zones,
       }
     })
@@ -359,11 +417,12 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
       get().updateBoxPositionPhysics(id, position)
     } else {
       // When not simulating, update normally and recalculate scores
+      recordHistory(set, get, 'Move box', `move:${id}`)
       set((state) => {
         const newBoxes = state.boxes.map((box) =>
           box.id === id ? { ...box, position, isNew: false } : box
         )
-        const scores = calculateAllScores(newBoxes, state.truckDimensions)
+        const scores = calculateAllScores(newBoxes, state.truckDimensions, state.vehicleModel)
 
         return {
           boxes: newBoxes,
@@ -376,8 +435,9 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
   },
 
   setTruckDimensions: (dimensions) => {
+    recordHistory(set, get, 'Change truck dimensions', 'truck-dimensions')
     set((state) => {
-      const scores = calculateAllScores(state.boxes, dimensions)
+      const scores = calculateAllScores(state.boxes, dimensions, state.vehicleModel)
       return {
         truckDimensions: dimensions,
         stabilityScore: scores.stability,
@@ -387,98 +447,129 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
     })
   },
 
+  setVehicleModel: (vehicle) => {
+    recordHistory(set, get, 'Change vehicle')
+    set((state) => {
+      const scores = calculateAllScores(state.boxes, state.truckDimensions, vehicle)
+      return {
+        vehicleModel: vehicle,
+        stabilityScore: scores.stability,
+        safetyScore: scores.safety,
+        optimizationScore: scores.optimization,
+      }
+    })
+  },
+
+  setTemperatureZoneLayout: (layout) => {
+    recordHistory(set, get, 'Change temperature zones', 'temperature-zones')
+    set({ temperatureZoneLayout: layout })
+  },
+
+  setStrictTemperatureZones: (strict) => {
+    set({ strictTemperatureZones: strict })
+  },
+
   setPhysicsEnabled: (enabled) => {
     set({ physicsEnabled: enabled })
   },
 
-  optimizeLayout: () => {
-    const state = get();
-    if (state.boxes.length === 0 && state.unplaceableBoxes.length === 0) {
-      console.log('❌ No boxes to optimize');
-      return;
-    }
+  setPackingSolverId: (solverId) => {
+    set({ packingSolverId: solverId })
+  },
 
-    // Combine both placed and unplaced boxes for re-optimization
-    const allBoxes = [...state.boxes, ...state.unplaceableBoxes];
-    console.log('🚛 Starting layout optimization (void-filling strategy)...', allBoxes.length, 'boxes');
-    const startTime = performance.now();
+  setSupportRules: (rules) => {
+    set((state) => ({ supportRules: { ...state.supportRules, ...rules } }))
+  },
 
-    try {
-      const boxesToOptimize: PackableBox[] = allBoxes.map(box => ({
-        ...box,
-        position: { ...box.position },
-        originalId: box.id,
-      }));
-
-      // Get the updated return structure with separate arrays
-      const { placedBoxes, unplacedBoxes } = optimizeBoxPlacement(boxesToOptimize, state.truckDimensions);
-      const endTime = performance.now();
-
-      console.log('📦 Optimization results:', {
-        placed: placedBoxes.length,
-        unplaced: unplacedBoxes.length,
-        total: allBoxes.length
-      });
-
-      if (placedBoxes.length > 0) {
-        console.log('📦 Sample placed box:', placedBoxes.slice(0, 1).map(b => ({
-          id: b.originalId,
-          pos: b.position
-        })));
-      }
+  setStopOrder: (stopOrder) => {
+    set((state) => ({
+      stopOrder,
+      loadingSequence: generateOptimalLoadingSequence(state.boxes, stopOrder),
+      currentLoadStep: 0,
+    }))
+  },
 
-      // Update state with separated arrays
-      set({
-        boxes: placedBoxes.map(box => ({
-          ...box,
-          id: box.originalId,
-          isNew: false
+  // Follows the route store renaming its stops; not an edit of its own, so there is nothing to undo
+  renameDestinations: (renames) => {
+    if (renames.size === 0) return
+    set((state) => {
+      const layout = renameSnapshotDestinations(takeLayoutSnapshot(state), renames)
+      return {
+        ...layout,
+        ...sequenceKeepingLoadedBoxes(layout.boxes, getLoadedBoxIds(state), state.stopOrder),
+        planSnapshots: state.planSnapshots.map((plan) => ({
+          ...plan,
+          boxes: renameBoxDestinations(plan.boxes, renames),
+          unplaceableBoxes: renameBoxDestinations(plan.unplaceableBoxes, renames),
         })),
-        unplaceableBoxes: unplacedBoxes.map(box => ({
-          ...box,
-          id: box.originalId,
-          isNew: false
-        }))
-      });
+        history: renameHistoryDestinations(state.history, renames),
+      }
+    })
+  },
 
-      console.log(`✅ Layout optimization completed in ${(endTime - startTime).toFixed(2)}ms`);
+  setIncrementalPlacement: (enabled) => {
+    set({ incrementalPlacement: enabled })
+  },
 
-      // Recalculate everything after optimization in next tick
-      requestAnimationFrame(() => {
-        const currentState = get()
-        // Only calculate scores for placed boxes
-        const scores = calculateAllScores(currentState.boxes, currentState.truckDimensions)
-        const sequence = generateOptimalLoadingSequence(currentState.boxes)
-        const zones = categorizeTemperatureZones(currentState.boxes)
+  setFleet: (fleet) => {
+    set({ fleet })
+  },
 
-        set({
-          stabilityScore: scores.stability,
-          safetyScore: scores.safety,
-          optimizationScore: scores.optimization,
-          loadingSequence: sequence,
-          temperatureZones: zones,
-        })
+  planFleet: () => {
+    const state = get()
+    const plan = syncActiveTruckLoad(state)
+    // Replanning starts over from every box in the current plan
+    const allBoxes = plan ? getFleetPlanBoxes(plan) : [...state.boxes, ...state.unplaceableBoxes]
+    runFleetPlanning(set, get, allBoxes)
+  },
 
-        console.log('📊 Scores updated:', scores)
-        console.log('📊 Final state:', {
-          placedBoxes: currentState.boxes.length,
-          unplaceableBoxes: currentState.unplaceableBoxes.length
-        })
-      })
+  selectTruckLoad: (loadId) => {
+    const plan = syncActiveTruckLoad(get())
+    if (!plan) return
+    showTruckLoad(set, get, plan, loadId)
+  },
 
-    } catch (error) {
-      console.error('❌ Layout optimization failed:', error)
-    }
+  clearFleetPlan: () => {
+    const state = get()
+    const plan = syncActiveTruckLoad(state)
+    if (!plan) return
+
+    // Back to a single truck: the load on screen stays, everything else waits to be placed
+    const onScreen = new Set(state.boxes.map((box) => box.id))
+    recordHistory(set, get, 'Back to single truck')
+    set({
+      fleetPlan: null,
+      activeTruckLoadId: null,
+      unplaceableBoxes: getFleetPlanBoxes(plan).filter((box) => !onScreen.has(box.id)),
+    })
+  },
+
+  optimizeLayout: () => {
+    const state = get();
+    // Combine both placed and unplaced boxes for re-optimization
+    runLayoutOptimization(set, get, [...state.boxes, ...state.unplaceableBoxes]);
+  },
+
+  placeNewBoxes: () => {
+    runIncrementalPlacement(set, get);
+  },
+
+  cancelOptimization: () => {
+    const worker = getPackingWorker();
+    if (!worker || !activeOptimizationRequestId) return;
+
+    postToPackingWorker(worker, { type: 'CANCEL_OPTIMIZATION', payload: {}, id: activeOptimizationRequestId });
   },
 
   resetLayout: () => {
+    recordHistory(set, get, 'Reset layout')
     set((state) => {
       const resetBoxes = state.boxes.map((box) => ({
         ...box,
-        position: { x: 0, y: box.height / 2, z: 0 },
+        position: { x: 0, y: getOrientedDimensions(box).height / 2, z: 0 },
       }))
 
-      const scores = calculateAllScores(resetBoxes, state.truckDimensions)
+      const scores = calculateAllScores(resetBoxes, state.truckDimensions, state.vehicleModel)
 
       return {
         boxes: resetBoxes,
@@ -502,7 +593,7 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
 
   calculateScores: () => {
     const state = get()
-    const scores = calculateAllScores(state.boxes, state.truckDimensions)
+    const scores = calculateAllScores(state.boxes, state.truckDimensions, state.vehicleModel)
     set({
       stabilityScore: scores.stability,
       safetyScore: scores.safety,
@@ -512,7 +603,7 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
 
   generateLoadingSequence: () => {
     const state = get()
-    const sequence = generateOptimalLoadingSequence(state.boxes)
+    const sequence = generateOptimalLoadingSequence(state.boxes, state.stopOrder)
     set({ loadingSequence: sequence, currentLoadStep: 0 })
   },
 
@@ -527,668 +618,538 @@ export const useOptimizationStore = create<OptimizationState>((set, get) => ({
       currentLoadStep: Math.max(state.currentLoadStep - 1, 0),
     }))
   },
-}))
-
-/* -------------------------------------------------------------------------- */
-/* HELPER FUNCTIONS FOR BOX ARRANGEMENT (Void-filling Strategy)              */
-/* -------------------------------------------------------------------------- */
 
-// Type for a potential placement, including its dimensions in that orientation
-interface PlacementCandidate {
-  x: number;
-  y: number;
-  z: number;
-  width: number;
-  height: number;
-  length: number;
-  rotation: 'xy' | 'xz' | 'yz' | 'yx' | 'zx' | 'zy';
-}
+  // Undo, redo and restoring a checkpoint wait for a packing run: its result would overwrite them
+  undo: () => {
+    const state = get()
+    if (state.isOptimizing) return
+    const step = undoEdit(state.history, takeLayoutSnapshot(state))
+    if (!step) return
+    restoreLayoutSnapshot(set, get, step.snapshot)
+    set({ history: step.history })
+  },
 
-// Function to get all unique orientations for a box
-function getOrientations(box: PackableBox): PlacementCandidate[] {
-  const { width, height, length } = box;
-  const orientations: PlacementCandidate[] = [];
+  redo: () => {
+    const state = get()
+    if (state.isOptimizing) return
+    const step = redoEdit(state.history, takeLayoutSnapshot(state))
+    if (!step) return
+    restoreLayoutSnapshot(set, get, step.snapshot)
+    set({ history: step.history })
+  },
 
-  // Create all 6 permutations, then filter for unique dimensions
-  const dims = [width, height, length].sort((a, b) => a - b); // Sorted dimensions for canonical representation
+  historyTransaction: (label, edit) => {
+    recordHistory(set, get, label)
+    historyTransactionDepth++
+    try {
+      edit()
+    } finally {
+      historyTransactionDepth--
+    }
+  },
 
-  // Permutations and rotations
-  orientations.push({ x: 0, y: 0, z: 0, width: width, height: height, length: length, rotation: 'xy' });
-  orientations.push({ x: 0, y: 0, z: 0, width: width, height: length, length: height, rotation: 'xz' });
-  orientations.push({ x: 0, y: 0, z: 0, width: length, height: height, length: width, rotation: 'yz' });
-  // Add other permutations if truly unique for non-cuboid boxes
-  orientations.push({ x: 0, y: 0, z: 0, width: height, height: width, length: length, rotation: 'yx' });
-  orientations.push({ x: 0, y: 0, z: 0, width: height, height: length, length: width, rotation: 'zx' });
-  orientations.push({ x: 0, y: 0, z: 0, width: length, height: width, length: height, rotation: 'zy' });
+  saveCheckpoint: (name) => {
+    const state = get()
+    const checkpoint = {
+      id: `checkpoint_${Date.now()}`,
+      name: name.trim() || `Checkpoint ${state.history.checkpoints.length + 1}`,
+      createdAt: Date.now(),
+      snapshot: takeLayoutSnapshot(state),
+    }
+    set({ history: { ...state.history, checkpoints: [...state.history.checkpoints, checkpoint] } })
+  },
 
+  restoreCheckpoint: (id) => {
+    if (get().isOptimizing) return
+    const checkpoint = get().history.checkpoints.find((candidate) => candidate.id === id)
+    if (!checkpoint) return
+    recordHistory(set, get, `Restore "${checkpoint.name}"`)
+    restoreLayoutSnapshot(set, get, checkpoint.snapshot)
+  },
 
-  const uniqueOrientations: PlacementCandidate[] = [];
-  const seenDimensions = new Set<string>();
+  deleteCheckpoint: (id) => {
+    set((state) => ({
+      history: { ...state.history, checkpoints: state.history.checkpoints.filter((checkpoint) => checkpoint.id !== id) },
+    }))
+  },
 
-  for (const o of orientations) {
-    const dimKey = [o.width, o.height, o.length].sort().join(',');
-    if (!seenDimensions.has(dimKey)) {
-      uniqueOrientations.push(o);
-      seenDimensions.add(dimKey);
+  savePlanSnapshot: (name) => {
+    const state = get()
+    const solverId = state.packingDiagnostics?.solverId ?? null
+    const plan: PlanSnapshot = {
+      id: `plan_${Date.now()}`,
+      name: name.trim() || `Plan ${state.planSnapshots.length + 1}${solverId ? ` (${solverId})` : ''}`,
+      createdAt: Date.now(),
+      solverId,
+      truckDimensions: state.truckDimensions,
+      vehicleModel: state.vehicleModel,
+      boxes: state.boxes,
+      unplaceableBoxes: state.unplaceableBoxes,
+      scores: { stability: state.stabilityScore, safety: state.safetyScore, optimization: state.optimizationScore },
+      diagnostics: state.packingDiagnostics,
     }
-  }
+    set({ planSnapshots: [...state.planSnapshots, plan] })
+  },
 
-  return uniqueOrientations;
-}
+  removePlanSnapshot: (id) => {
+    set((state) => ({ planSnapshots: state.planSnapshots.filter((plan) => plan.id !== id) }))
+  },
 
+  applyPlanSnapshot: (id) => {
+    const plan = get().planSnapshots.find((candidate) => candidate.id === id)
+    if (!plan) return
+    recordHistory(set, get, `Use plan "${plan.name}"`)
+    // A saved plan is a single truck, so any fleet plan on screen is left behind
+    restoreLayoutSnapshot(set, get, {
+      boxes: plan.boxes,
+      unplaceableBoxes: plan.unplaceableBoxes,
+      truckDimensions: plan.truckDimensions,
+      vehicleModel: plan.vehicleModel,
+      temperatureZoneLayout: get().temperatureZoneLayout,
+      packingDiagnostics: plan.diagnostics,
+      fleetPlan: null,
+      activeTruckLoadId: null,
+    })
+  },
 
-// --- Main Optimization Function ---
-function optimizeBoxPlacement(
-  boxes: PackableBox[],
-  truckDimensions: { width: number; length: number; height: number }
-): { placedBoxes: PackableBox[], unplacedBoxes: PackableBox[] } {
-  console.log('📦 Optimizing placement for', boxes.length, 'boxes with improved void-filling strategy.');
-
-  if (boxes.length === 0) return { placedBoxes: [], unplacedBoxes: [] };
-
-  const placedBoxes: PackableBox[] = [];
-  const unplacedBoxes: PackableBox[] = [];
-
-  // Initial available space is the entire truck volume
-  let voids: Void[] = [
-    {
-      id: 'truck-initial-void',
-      x: -truckDimensions.width / 2,
-      y: 0,
-      z: -truckDimensions.length / 2,
-      width: truckDimensions.width,
-      height: truckDimensions.height,
-      length: truckDimensions.length,
-      volume: truckDimensions.width * truckDimensions.height * truckDimensions.length,
-    },
-  ];
+  // Opening a workspace starts a fresh history: undo never crosses into another workspace
+  loadWorkspaceLayout: (workspace) => {
+    restoreLayoutSnapshot(set, get, {
+      boxes: workspace.boxes ?? [],
+      unplaceableBoxes: workspace.unplaceableBoxes ?? [],
+      truckDimensions: workspace.truckDimensions ?? get().truckDimensions,
+      vehicleModel: get().vehicleModel,
+      temperatureZoneLayout: get().temperatureZoneLayout,
+      packingDiagnostics: null,
+      fleetPlan: null,
+      activeTruckLoadId: null,
+    })
+    set({ fleet: workspace.fleet ?? TRUCK_PRESETS, planSnapshots: workspace.plans ?? [], history: EMPTY_LAYOUT_HISTORY })
+  },
 
-  // Sort boxes by priority: LIFO destination first, then HEAVIEST first for stability
-  const boxesToPlace = [...boxes].sort((a, b) => {
-    const stopOrder = { "Stop 4": 0, "Stop 3": 1, "Stop 2": 2, "Stop 1": 3 };
-    const aStopRank = stopOrder[a.destination as keyof typeof stopOrder] ?? 4;
-    const bStopRank = stopOrder[b.destination as keyof typeof stopOrder] ?? 4;
+  // Positions are taken as exported, not repacked; a CSV carries no truck, so the current one stays.
+  // The file's route goes through setStopOrder beforehand, outside undo like every route change.
+  importLoadPlan: (plan) => {
+    recordHistory(set, get, 'Import load plan')
+    restoreLayoutSnapshot(set, get, {
+      boxes: plan.boxes,
+      unplaceableBoxes: plan.unplaceableBoxes,
+      truckDimensions: plan.truckDimensions ?? get().truckDimensions,
+      vehicleModel: plan.vehicleModel ?? get().vehicleModel,
+      temperatureZoneLayout: plan.zoneLayout ?? get().temperatureZoneLayout,
+      packingDiagnostics: null,
+      fleetPlan: null,
+      activeTruckLoadId: null,
+    })
+    // Boxes go on in the file's load order; any it leaves out follow in the usual order
+    if (plan.loadingOrder) {
+      const { boxes, stopOrder } = get()
+      set({ loadingSequence: sequenceKeepingLoadedBoxes(boxes, plan.loadingOrder, stopOrder).loadingSequence })
+    }
+  },
+}))
 
-    if (aStopRank !== bStopRank) return aStopRank - bStopRank;
-    return b.weight - a.weight;
-  });
+/* -------------------------------------------------------------------------- */
+/*                                  HISTORY                                   */
+/* -------------------------------------------------------------------------- */
 
-  // Try multiple placement strategies for each box
-  boxesToPlace.forEach((box, index) => {
-    console.log(`📍 Attempting to place box ${index + 1}/${boxesToPlace.length}: ${box.id} (${box.weight}kg)`);
+// Edits made inside historyTransaction() undo together with the transaction
+let historyTransactionDepth = 0
 
-    let bestPlacement = findBestPlacement(box, voids, placedBoxes, truckDimensions);
+// Saves the layout as it is now, so the edit about to be made can be undone
+function recordHistory(set: StoreSet, get: StoreGet, label: string, coalesceKey?: string) {
+  if (historyTransactionDepth > 0) return
+  const state = get()
+  set({ history: recordEdit(state.history, takeLayoutSnapshot(state), label, coalesceKey) })
+}
 
-    if (bestPlacement) {
-      const placedBox = bestPlacement.box;
-      placedBox.position = bestPlacement.position;
-      placedBoxes.push(placedBox);
+function restoreLayoutSnapshot(set: StoreSet, get: StoreGet, snapshot: LayoutSnapshot) {
+  const scores = calculateAllScores(snapshot.boxes, snapshot.truckDimensions, snapshot.vehicleModel)
+  set({
+    ...snapshot,
+    stabilityScore: scores.stability,
+    safetyScore: scores.safety,
+    optimizationScore: scores.optimization,
+    loadingSequence: generateOptimalLoadingSequence(snapshot.boxes, get().stopOrder),
+    currentLoadStep: 0,
+    temperatureZones: categorizeTemperatureZones(snapshot.boxes),
+  })
+}
 
-      console.log(`✅ Placed ${placedBox.id} at position:`, placedBox.position);
+/* -------------------------------------------------------------------------- */
+/*                        LAYOUT OPTIMIZATION WORKER                          */
+/* -------------------------------------------------------------------------- */
 
-      // Update voids after placement
-      const originalVoid = voids[bestPlacement.voidIndex];
-      const newVoids = splitVoidTightly(originalVoid, placedBox);
-      voids.splice(bestPlacement.voidIndex, 1);
-      voids.push(...newVoids);
-      voids = cleanAndMergeVoids(voids, placedBoxes);
+type StoreSet = (partial: Partial<OptimizationState>) => void
+type StoreGet = () => OptimizationState
 
-    } else {
-      console.warn(`❌ Could not find a suitable position for box ${box.id}`);
-      unplacedBoxes.push(box);
+let packingWorker: Worker | null = null
+// Set once the worker script has failed; every later run stays on the main thread
+let packingWorkerFailed = false
+let optimizationRequestCounter = 0
+let activeOptimizationRequestId: string | null = null
+// Incremental placement keeps the crew's loading progress; a full repack starts it over
+const INCREMENTAL_REQUEST_PREFIX = 'place_'
+
+// Created on first use so importing the store stays safe during SSR
+function getPackingWorker(): Worker | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined' || packingWorkerFailed) return null
+
+  if (!packingWorker) {
+    try {
+      packingWorker = new Worker(new URL('../workers/physics-worker.ts', import.meta.url))
+    } catch (error) {
+      console.warn('⚠️ Physics worker unavailable, optimizing on the main thread:', error)
+      return null
     }
-  });
+  }
+  return packingWorker
+}
 
-  console.log(`✅ Placement complete. Placed: ${placedBoxes.length}, Unplaced: ${unplacedBoxes.length}`);
-  return { placedBoxes, unplacedBoxes };
+function postToPackingWorker(worker: Worker, message: PhysicsWorkerRequest) {
+  worker.postMessage(message)
 }
-function findBestPlacement(
-  box: PackableBox,
-  voids: Void[],
-  placedBoxes: PackableBox[],
-  truckDimensions: { width: number; length: number; height: number }
-): {
-  box: PackableBox;
-  position: { x: number; y: number; z: number };
-  score: number;
-  voidIndex: number;
-} | null {
-
-  let bestPlacement: {
-    box: PackableBox;
-    position: { x: number; y: number; z: number };
-    score: number;
-    voidIndex: number;
-  } | null = null;
-
-  const orientations = getOrientations(box);
-
-  // Sort voids by placement priority
-  const sortedVoids = [...voids].sort((a, b) => {
-    if (Math.abs(a.y - b.y) > 0.01) return a.y - b.y; // Lower first
-    if (Math.abs(a.volume - b.volume) > 0.01) return a.volume - b.volume; // Smaller first
-    return b.z - a.z; // Closer to rear first
-  });
 
-  // Try multiple placement positions within each void
-  for (let i = 0; i < sortedVoids.length; i++) {
-    const currentVoid = sortedVoids[i];
-    const originalIndex = voids.indexOf(currentVoid);
+function runLayoutOptimization(set: StoreSet, get: StoreGet, allBoxes: Box[]) {
+  const state = get();
+  if (allBoxes.length === 0) {
+    console.log('❌ No boxes to optimize');
+    return;
+  }
 
-    for (const orientation of orientations) {
-      // Try multiple positions within the void, not just bottom-left-rear
-      const positions = generatePositionsInVoid(currentVoid, orientation);
+  const solverId = state.packingSolverId;
+  const input = buildPackingInput(state, allBoxes);
+  console.log(`🚛 Starting layout optimization (${solverId})...`, allBoxes.length, 'boxes');
 
-      for (const pos of positions) {
-        const testBox: PackableBox = {
-          ...box,
-          ...orientation,
-          position: pos,
-          rotation: orientation.rotation
-        };
-
-        if (isValidPlacement(testBox, placedBoxes, truckDimensions)) {
-          const score = evaluatePlacement(testBox, placedBoxes, truckDimensions);
-
-          if (!bestPlacement || score > bestPlacement.score) {
-            bestPlacement = {
-              box: testBox,
-              position: pos,
-              score,
-              voidIndex: originalIndex
-            };
-          }
-        }
-      }
-    }
+  const worker = getPackingWorker();
+  if (!worker) {
+    // No Worker support (SSR or old browser): pack synchronously on this thread
+    optimizeLayoutOnMainThread(set, get, solverId, input);
+    return;
   }
 
-  return bestPlacement;
+  const id = `optimize_${++optimizationRequestCounter}`;
+  activeOptimizationRequestId = id;
+  set({
+    isOptimizing: true,
+    optimizationProgress: { placed: 0, unplaced: 0, total: allBoxes.length, currentBoxId: '' },
+  });
+
+  listenForPackingResults(set, get, worker, () => optimizeLayoutOnMainThread(set, get, solverId, input));
+
+  postToPackingWorker(worker, {
+    type: 'OPTIMIZE_LAYOUT',
+    payload: { ...input, solverId },
+    id,
+  });
 }
 
-function generatePositionsInVoid(
-  void_: Void,
-  orientation: PlacementCandidate
-): { x: number; y: number; z: number }[] {
-  const positions: { x: number; y: number; z: number }[] = [];
-
-  // Calculate how many positions we can try in each dimension
-  const maxXPositions = Math.max(1, Math.floor((void_.width - orientation.width) / 0.5) + 1);
-  const maxYPositions = Math.max(1, Math.floor((void_.height - orientation.height) / 0.5) + 1);
-  const maxZPositions = Math.max(1, Math.floor((void_.length - orientation.length) / 0.5) + 1);
-
-  // Limit to reasonable number of positions to avoid performance issues
-  const xPositions = Math.min(maxXPositions, 3);
-  const yPositions = Math.min(maxYPositions, 2);
-  const zPositions = Math.min(maxZPositions, 3);
-
-  for (let xi = 0; xi < xPositions; xi++) {
-    for (let yi = 0; yi < yPositions; yi++) {
-      for (let zi = 0; zi < zPositions; zi++) {
-        const xOffset = xPositions > 1 ? (xi / (xPositions - 1)) * (void_.width - orientation.width) : 0;
-        const yOffset = yPositions > 1 ? (yi / (yPositions - 1)) * (void_.height - orientation.height) : 0;
-        const zOffset = zPositions > 1 ? (zi / (zPositions - 1)) * (void_.length - orientation.length) : 0;
-
-        positions.push({
-          x: void_.x + xOffset + orientation.width / 2,
-          y: void_.y + yOffset + orientation.height / 2,
-          z: void_.z + zOffset + orientation.length / 2
-        });
-      }
-    }
+function optimizeLayoutOnMainThread(set: StoreSet, get: StoreGet, solverId: string, input: PackingSolverInput) {
+  try {
+    const { placedBoxes, unplacedBoxes, diagnostics } = runPackingSolverSync(solverId, input);
+    applyOptimizedLayout(set, get, placedBoxes, unplacedBoxes, diagnostics);
+  } catch (error) {
+    console.error('❌ Layout optimization failed:', error)
   }
+}
+
+// Truck, route and rules for packing `boxes` the way the store is configured
+function buildPackingInput(state: OptimizationState, boxes: Box[]): PackingSolverInput {
+  return {
+    boxes,
+    truckDimensions: state.truckDimensions,
+    zoneLayout: state.temperatureZoneLayout,
+    vehicle: state.vehicleModel,
+    stopOrder: resolveStopOrder(state.stopOrder, boxes),
+    constraints: {
+      ...getDefaultPackingConstraints(state.truckDimensions, state.vehicleModel),
+      ...state.supportRules,
+      strictTemperatureZones: state.strictTemperatureZones,
+    },
+  };
+}
 
-  return positions;
+// Boxes the crew has loaded so far: everything before the current load step
+function getLoadedBoxIds(state: OptimizationState): string[] {
+  return state.loadingSequence.slice(0, state.currentLoadStep).map((box) => box.id);
 }
-// --- Helper for splitting a void after a box is placed ---
-function splitVoid(originalVoid: Void, placedBox: PackableBox): Void[] {
-  const newVoids: Void[] = [];
-
-  const boxMinX = placedBox.position.x - placedBox.width / 2;
-  const boxMaxX = placedBox.position.x + placedBox.width / 2;
-  const boxMinY = placedBox.position.y - placedBox.height / 2;
-  const boxMaxY = placedBox.position.y + placedBox.height / 2;
-  const boxMinZ = placedBox.position.z - placedBox.length / 2;
-  const boxMaxZ = placedBox.position.z + placedBox.length / 2;
-
-  const voidMinX = originalVoid.x;
-  const voidMaxX = originalVoid.x + originalVoid.width;
-  const voidMinY = originalVoid.y;
-  const voidMaxY = originalVoid.y + originalVoid.height;
-  const voidMinZ = originalVoid.z;
-  const voidMaxZ = originalVoid.z + originalVoid.length;
-
-  let voidCounter = 0; // Simple counter for void IDs
-
-  // Create voids for spaces left in X, Y, Z directions around the placed box
-  // 1. Void to the left of the box
-  if (boxMinX > voidMinX) {
-    newVoids.push({
-      id: `${originalVoid.id}-lx-${voidCounter++}`,
-      x: voidMinX, y: voidMinY, z: voidMinZ,
-      width: boxMinX - voidMinX, height: originalVoid.height, length: originalVoid.length,
-      volume: (boxMinX - voidMinX) * originalVoid.height * originalVoid.length,
-    });
-  }
-  // 2. Void to the right of the box
-  if (boxMaxX < voidMaxX) {
-    newVoids.push({
-      id: `${originalVoid.id}-rx-${voidCounter++}`,
-      x: boxMaxX, y: voidMinY, z: voidMinZ,
-      width: voidMaxX - boxMaxX, height: originalVoid.height, length: originalVoid.length,
-      volume: (voidMaxX - boxMaxX) * originalVoid.height * originalVoid.length,
-    });
-  }
-  // 3. Void below the box (this should ideally not happen if box is placed at bottom)
-  if (boxMinY > voidMinY) {
-    newVoids.push({
-      id: `${originalVoid.id}-rx-${voidCounter++}`,
-      x: voidMinX, y: voidMinY, z: voidMinZ,
-      width: originalVoid.width, height: boxMinY - voidMinY, length: originalVoid.length,
-      volume: originalVoid.width * (boxMinY - voidMinY) * originalVoid.length,
-    });
-  }
-  // 4. Void above the box
-  if (boxMaxY < voidMaxY) {
-    newVoids.push({
-      id: `${originalVoid.id}-rx-${voidCounter++}`,
-      x: voidMinX, y: boxMaxY, z: voidMinZ,
-      width: originalVoid.width, height: voidMaxY - boxMaxY, length: originalVoid.length,
-      volume: originalVoid.width * (voidMaxY - boxMaxY) * originalVoid.length,
-    });
-  }
-  // 5. Void in front of the box (smaller Z)
-  if (boxMinZ > voidMinZ) {
-    newVoids.push({
-      id: `${originalVoid.id}-rx-${voidCounter++}`,
-      x: voidMinX, y: voidMinY, z: voidMinZ,
-      width: originalVoid.width, height: originalVoid.height, length: boxMinZ - voidMinZ,
-      volume: originalVoid.width * originalVoid.height * (boxMinZ - voidMinZ),
-    });
-  }
-  // 6. Void behind the box (larger Z)
-  if (boxMaxZ < voidMaxZ) {
-    newVoids.push({
-      id: `${originalVoid.id}-rx-${voidCounter++}`,
-      x: voidMinX, y: voidMinY, z: boxMaxZ,
-      width: originalVoid.width, height: originalVoid.height, length: voidMaxZ - boxMaxZ,
-      volume: originalVoid.width * originalVoid.height * (voidMaxZ - boxMaxZ),
-    });
-  }
 
-  // Filter out voids with zero or negative dimensions (might happen from float errors or tight fits)
-  return newVoids.filter(v => v.width > 0.01 && v.height > 0.01 && v.length > 0.01);
+// Boxes already loaded stay at the head of the sequence, in the order they went on,
+// so an edit mid-load never changes which boxes count as on board
+function sequenceKeepingLoadedBoxes(
+  boxes: Box[],
+  loadedIds: string[],
+  stopOrder: string[],
+): Pick<OptimizationState, 'loadingSequence' | 'currentLoadStep'> {
+  const loadedBoxes = loadedIds
+    .map((id) => boxes.find((box) => box.id === id))
+    .filter((box): box is Box => box !== undefined);
+  const toLoad = boxes.filter((box) => !loadedIds.includes(box.id));
+  return {
+    loadingSequence: [...loadedBoxes, ...generateOptimalLoadingSequence(toLoad, stopOrder)],
+    currentLoadStep: loadedBoxes.length,
+  };
 }
-function splitVoidTightly(originalVoid: Void, placedBox: PackableBox): Void[] {
-  const newVoids: Void[] = [];
-
-  const boxMinX = placedBox.position.x - placedBox.width / 2;
-  const boxMaxX = placedBox.position.x + placedBox.width / 2;
-  const boxMinY = placedBox.position.y - placedBox.height / 2;
-  const boxMaxY = placedBox.position.y + placedBox.height / 2;
-  const boxMinZ = placedBox.position.z - placedBox.length / 2;
-  const boxMaxZ = placedBox.position.z + placedBox.length / 2;
-
-  const voidMinX = originalVoid.x;
-  const voidMaxX = originalVoid.x + originalVoid.width;
-  const voidMinY = originalVoid.y;
-  const voidMaxY = originalVoid.y + originalVoid.height;
-  const voidMinZ = originalVoid.z;
-  const voidMaxZ = originalVoid.z + originalVoid.length;
-
-  let voidCounter = 0;
-
-  // Create tighter voids that start immediately adjacent to the placed box
-
-  // 1. Void to the LEFT of the box (X- direction)
-  if (boxMinX > voidMinX) {
-    const width = boxMinX - voidMinX;
-    if (width > 0.01) {
-      newVoids.push({
-        id: `${originalVoid.id}-left-${voidCounter++}`,
-        x: voidMinX,
-        y: voidMinY,
-        z: voidMinZ,
-        width: width,
-        height: originalVoid.height,
-        length: originalVoid.length,
-        volume: width * originalVoid.height * originalVoid.length,
-      });
-    }
+
+function runIncrementalPlacement(set: StoreSet, get: StoreGet) {
+  const state = get();
+  // Boxes added since the last packing run, plus whatever it couldn't place
+  const newBoxes = [...state.boxes.filter((box) => box.isNew), ...state.unplaceableBoxes];
+  if (newBoxes.length === 0) {
+    console.log('❌ No new boxes to place');
+    return;
   }
 
-  // 2. Void to the RIGHT of the box (X+ direction)  
-  if (boxMaxX < voidMaxX) {
-    const width = voidMaxX - boxMaxX;
-    if (width > 0.001) {
-      newVoids.push({
-        id: `${originalVoid.id}-right-${voidCounter++}`,
-        x: boxMaxX, // Start immediately after the box
-        y: voidMinY,
-        z: voidMinZ,
-        width: width,
-        height: originalVoid.height,
-        length: originalVoid.length,
-        volume: width * originalVoid.height * originalVoid.length,
-      });
-    }
+  const placedBoxes = state.boxes.filter((box) => !box.isNew);
+  const { boxes: _allBoxes, ...packingContext } = buildPackingInput(state, [...placedBoxes, ...newBoxes]);
+  const input: IncrementalPlacementInput = {
+    ...packingContext,
+    placedBoxes,
+    newBoxes,
+    frozenBoxIds: [...getLoadedBoxIds(state), ...placedBoxes.filter((box) => box.locked).map((box) => box.id)],
+  };
+  console.log('🧩 Placing', newBoxes.length, 'new boxes around', input.frozenBoxIds.length, 'loaded or locked boxes');
+
+  const worker = getPackingWorker();
+  if (!worker) {
+    placeNewBoxesOnMainThread(set, get, input);
+    return;
   }
 
-  // 3. Void ABOVE the box (Y+ direction) - constrained to box's X/Z footprint
-  if (boxMaxY < voidMaxY) {
-    const height = voidMaxY - boxMaxY;
-    if (height > 0.01) {
-      newVoids.push({
-        id: `${originalVoid.id}-above-${voidCounter++}`,
-        x: Math.max(voidMinX, boxMinX), // Constrain to box footprint
-        y: boxMaxY, // Start immediately above the box
-        z: Math.max(voidMinZ, boxMinZ), // Constrain to box footprint
-        width: Math.min(voidMaxX, boxMaxX) - Math.max(voidMinX, boxMinX),
-        height: height,
-        length: Math.min(voidMaxZ, boxMaxZ) - Math.max(voidMinZ, boxMinZ),
-        volume: 0, // Will be calculated below
-      });
-      // Calculate volume for the constrained void
-      const lastVoid = newVoids[newVoids.length - 1];
-      lastVoid.volume = lastVoid.width * lastVoid.height * lastVoid.length;
-    }
+  const id = `${INCREMENTAL_REQUEST_PREFIX}${++optimizationRequestCounter}`;
+  activeOptimizationRequestId = id;
+  set({
+    isOptimizing: true,
+    optimizationProgress: { placed: 0, unplaced: 0, total: newBoxes.length, currentBoxId: '' },
+  });
+
+  listenForPackingResults(set, get, worker, () => placeNewBoxesOnMainThread(set, get, input));
+
+  postToPackingWorker(worker, { type: 'PLACE_NEW_BOXES', payload: input, id });
+}
+
+function placeNewBoxesOnMainThread(set: StoreSet, get: StoreGet, input: IncrementalPlacementInput) {
+  try {
+    const run = placeNewBoxes(input);
+    let step = run.next();
+    while (!step.done) step = run.next();
+    applyOptimizedLayout(set, get, step.value.placedBoxes, step.value.unplacedBoxes, step.value.diagnostics, true);
+  } catch (error) {
+    console.error('❌ Incremental placement failed:', error)
   }
+}
 
-  // 4. Void in FRONT of the box (Z- direction)
-  if (boxMinZ > voidMinZ) {
-    const length = boxMinZ - voidMinZ;
-    if (length > 0.01) {
-      newVoids.push({
-        id: `${originalVoid.id}-front-${voidCounter++}`,
-        x: voidMinX,
-        y: voidMinY,
-        z: voidMinZ,
-        width: originalVoid.width,
-        height: originalVoid.height,
-        length: length,
-        volume: originalVoid.width * originalVoid.height * length,
-      });
+// Layout optimization and fleet planning report back the same way. If the
+// worker itself breaks, the request is finished on the main thread with
+// `runOnMainThread` instead.
+function listenForPackingResults(set: StoreSet, get: StoreGet, worker: Worker, runOnMainThread: () => void) {
+  const handleWorkerFailure = (error: unknown) => {
+    console.error('❌ Physics worker failed, optimizing on the main thread:', error);
+    worker.terminate();
+    if (packingWorker === worker) packingWorker = null;
+    packingWorkerFailed = true;
+
+    const interrupted = activeOptimizationRequestId !== null;
+    activeOptimizationRequestId = null;
+    set({ isOptimizing: false, optimizationProgress: null });
+    if (interrupted) runOnMainThread();
+  };
+  worker.onerror = (event: ErrorEvent) => handleWorkerFailure(event.message || event);
+  worker.onmessageerror = (event: MessageEvent) => handleWorkerFailure(event);
+
+  worker.onmessage = (event: MessageEvent<PhysicsWorkerResponse>) => {
+    const message = event.data;
+    // Ignore stragglers from a request that has since been superseded
+    if (message.id !== activeOptimizationRequestId) return;
+
+    switch (message.type) {
+      case 'OPTIMIZATION_PROGRESS':
+        set({ optimizationProgress: message.payload });
+        break;
+      case 'OPTIMIZATION_COMPLETE':
+        activeOptimizationRequestId = null;
+        applyOptimizedLayout(
+          set,
+          get,
+          message.payload.placedBoxes,
+          message.payload.unplacedBoxes,
+          message.payload.diagnostics,
+          message.id.startsWith(INCREMENTAL_REQUEST_PREFIX),
+        );
+        break;
+      case 'FLEET_PLAN_COMPLETE':
+        activeOptimizationRequestId = null;
+        applyFleetPlan(set, get, message.payload);
+        break;
+      case 'OPTIMIZATION_CANCELLED':
+        activeOptimizationRequestId = null;
+        console.log('⏹️ Layout optimization cancelled');
+        set({ isOptimizing: false, optimizationProgress: null });
+        break;
+      case 'ERROR':
+        activeOptimizationRequestId = null;
+        console.error('❌ Layout optimization failed:', message.payload.message);
+        set({ isOptimizing: false, optimizationProgress: null });
+        break;
     }
+  };
+}
+
+function runFleetPlanning(set: StoreSet, get: StoreGet, allBoxes: Box[]) {
+  const state = get();
+  if (allBoxes.length === 0) {
+    console.log('❌ No boxes to plan');
+    return;
   }
 
-  // 5. Void BEHIND the box (Z+ direction)
-  if (boxMaxZ < voidMaxZ) {
-    const length = voidMaxZ - boxMaxZ;
-    if (length > 0.01) {
-      newVoids.push({
-        id: `${originalVoid.id}-behind-${voidCounter++}`,
-        x: voidMinX,
-        y: voidMinY,
-        z: boxMaxZ, // Start immediately behind the box
-        width: originalVoid.width,
-        height: originalVoid.height,
-        length: length,
-        volume: originalVoid.width * originalVoid.height * length,
-      });
-    }
+  const input: FleetPlanInput = {
+    boxes: allBoxes,
+    fleet: state.fleet,
+    stopOrder: state.stopOrder,
+    zoneLayout: state.temperatureZoneLayout,
+    solverId: state.packingSolverId,
+    constraints: { ...state.supportRules, strictTemperatureZones: state.strictTemperatureZones },
+  };
+  console.log(`🚚 Planning fleet across ${state.fleet.length} truck types...`, allBoxes.length, 'boxes');
+
+  const worker = getPackingWorker();
+  if (!worker) {
+    planFleetOnMainThread(set, get, input);
+    return;
   }
 
-  // Filter out invalid voids
-  return newVoids.filter(v => v.width > 0.01 && v.height > 0.01 && v.length > 0.01 && v.volume > 0.001);
-}
-// --- Simplified void cleaning and merging (critical for performance in real apps) ---
-function cleanAndMergeVoids(voids: Void[], placedBoxes: PackableBox[]): Void[] {
-  const minVoidDimension = 0.02; // Reduced from 0.05 to allow smaller voids
-
-  // Remove voids that are too small
-  let cleanedVoids = voids.filter(v =>
-    v.width > minVoidDimension &&
-    v.height > minVoidDimension &&
-    v.length > minVoidDimension &&
-    v.volume > minVoidDimension * minVoidDimension * minVoidDimension
-  );
-
-  // Less aggressive void blocking check
-  cleanedVoids = cleanedVoids.filter(v => {
-    for (const pBox of placedBoxes) {
-      // Check if void significantly overlaps with any placed box
-      const xOverlap = Math.max(0,
-        Math.min(v.x + v.width, pBox.position.x + pBox.width / 2) -
-        Math.max(v.x, pBox.position.x - pBox.width / 2)
-      );
-      const yOverlap = Math.max(0,
-        Math.min(v.y + v.height, pBox.position.y + pBox.height / 2) -
-        Math.max(v.y, pBox.position.y - pBox.height / 2)
-      );
-      const zOverlap = Math.max(0,
-        Math.min(v.z + v.length, pBox.position.z + pBox.length / 2) -
-        Math.max(v.z, pBox.position.z - pBox.length / 2)
-      );
-
-      const overlapVolume = xOverlap * yOverlap * zOverlap;
-      const voidVolume = v.width * v.height * v.length;
-
-      // If more than 80% of void is occupied, remove it
-      if (overlapVolume > voidVolume * 0.8) {
-        return false;
-      }
-    }
-    return true;
+  const id = `fleet_${++optimizationRequestCounter}`;
+  activeOptimizationRequestId = id;
+  set({
+    isOptimizing: true,
+    optimizationProgress: { placed: 0, unplaced: 0, total: allBoxes.length, currentBoxId: '' },
   });
 
-  // Sort by priority
-  cleanedVoids.sort((a, b) => {
-    if (Math.abs(a.y - b.y) > 0.01) return a.y - b.y;
-    return a.volume - b.volume;
-  });
+  listenForPackingResults(set, get, worker, () => planFleetOnMainThread(set, get, input));
 
-  // Increased limit for more placement opportunities
-  return cleanedVoids.slice(0, 100); // Increased from 50
+  postToPackingWorker(worker, { type: 'PLAN_FLEET', payload: input, id });
 }
 
-// Helper to check if box1 is fully contained within box2
-function isBoxFullyContained(box1: Box, box2: Box): boolean {
-  const box1MinX = box1.position.x - box1.width / 2;
-  const box1MaxX = box1.position.x + box1.width / 2;
-  const box1MinY = box1.position.y - box1.height / 2;
-  const box1MaxY = box1.position.y + box1.height / 2;
-  const box1MinZ = box1.position.z - box1.length / 2;
-  const box1MaxZ = box1.position.z + box1.length / 2;
-
-  const box2MinX = box2.position.x - box2.width / 2;
-  const box2MaxX = box2.position.x + box2.width / 2;
-  const box2MinY = box2.position.y - box2.height / 2;
-  const box2MaxY = box2.position.y + box2.height / 2;
-  const box2MinZ = box2.position.z - box2.length / 2;
-  const box2MaxZ = box2.position.z + box2.length / 2;
-
-  return (
-    box1MinX >= box2MinX && box1MaxX <= box2MaxX &&
-    box1MinY >= box2MinY && box1MaxY <= box2MaxY &&
-    box1MinZ >= box2MinZ && box1MaxZ <= box2MaxZ
-  );
+function planFleetOnMainThread(set: StoreSet, get: StoreGet, input: FleetPlanInput) {
+  try {
+    const run = planFleet(input);
+    let step = run.next();
+    while (!step.done) step = run.next();
+    applyFleetPlan(set, get, step.value);
+  } catch (error) {
+    console.error('❌ Fleet planning failed:', error)
+  }
 }
 
+function applyFleetPlan(set: StoreSet, get: StoreGet, plan: FleetPlan) {
+  console.log(`✅ Fleet plan: ${plan.loads.length} trucks, ${plan.unplacedBoxes.length} boxes left over in ${plan.durationMs.toFixed(0)}ms`)
+  recordHistory(set, get, 'Plan fleet')
+  set({ isOptimizing: false, optimizationProgress: null })
 
-// --- Checks if a box can be placed at a given position ---
-function isValidPlacement(
-  testBox: PackableBox,
-  placedBoxes: PackableBox[],
-  truckDimensions: { width: number; length: number; height: number }
-): boolean {
-  // Check truck boundaries with small tolerance
-  const tolerance = 0.01; // Slightly more tolerant
-  if (
-    testBox.position.x - testBox.width / 2 < -truckDimensions.width / 2 - tolerance ||
-    testBox.position.x + testBox.width / 2 > truckDimensions.width / 2 + tolerance ||
-    testBox.position.y - testBox.height / 2 < -tolerance ||
-    testBox.position.y + testBox.height / 2 > truckDimensions.height + tolerance ||
-    testBox.position.z - testBox.length / 2 < -truckDimensions.length / 2 - tolerance ||
-    testBox.position.z + testBox.length / 2 > truckDimensions.length / 2 + tolerance
-  ) {
-    return false;
-  }
-
-  // Check collisions with placed boxes
-  for (const placedBox of placedBoxes) {
-    if (isBoxColliding(testBox, placedBox)) {
-      return false;
-    }
+  if (plan.loads.length > 0) {
+    showTruckLoad(set, get, plan, plan.loads[0].id)
+  } else {
+    set({ fleetPlan: plan, activeTruckLoadId: null, boxes: [], unplaceableBoxes: plan.unplacedBoxes })
   }
+}
 
-  // Relaxed support checking
-  const isOnFloor = Math.abs(testBox.position.y - testBox.height / 2) < 0.02;
-  if (isOnFloor) {
-    return true;
+// Folds edits made to the load on screen back into the fleet plan
+function syncActiveTruckLoad(state: OptimizationState): FleetPlan | null {
+  const { fleetPlan, activeTruckLoadId } = state
+  if (!fleetPlan) return null
+  if (!activeTruckLoadId) {
+    return { ...fleetPlan, unplacedBoxes: [...state.boxes, ...state.unplaceableBoxes] }
   }
 
-  // Reduced support requirement for better space utilization
-  const SUPPORT_OVERLAP_THRESHOLD = 0.3; // Reduced from 0.7 to 0.3
-  let totalSupportArea = 0;
-  const testBoxArea = testBox.width * testBox.length;
-
-  for (const placedBox of placedBoxes) {
-    const verticalGap = Math.abs((testBox.position.y - testBox.height / 2) - (placedBox.position.y + placedBox.height / 2));
-    const isSupportingFromBelow = verticalGap < 0.02;
-
-    if (isSupportingFromBelow) {
-      const xOverlap = Math.max(0,
-        Math.min(testBox.position.x + testBox.width / 2, placedBox.position.x + placedBox.width / 2) -
-        Math.max(testBox.position.x - testBox.width / 2, placedBox.position.x - placedBox.width / 2)
-      );
-      const zOverlap = Math.max(0,
-        Math.min(testBox.position.z + testBox.length / 2, placedBox.position.z + placedBox.length / 2) -
-        Math.max(testBox.position.z - testBox.length / 2, placedBox.position.z - placedBox.length / 2)
-      );
-
-      totalSupportArea += xOverlap * zOverlap;
-    }
+  return {
+    ...fleetPlan,
+    loads: fleetPlan.loads.map((load) =>
+      load.id === activeTruckLoadId
+        ? { ...load, boxes: state.boxes, truckDimensions: state.truckDimensions, vehicle: state.vehicleModel }
+        : load,
+    ),
+    unplacedBoxes: state.unplaceableBoxes,
   }
+}
 
-  const supportRatio = totalSupportArea / testBoxArea;
-  return supportRatio >= SUPPORT_OVERLAP_THRESHOLD;
+function showTruckLoad(set: StoreSet, get: StoreGet, plan: FleetPlan, loadId: string) {
+  const load = plan.loads.find((candidate) => candidate.id === loadId)
+  if (!load) return
+
+  const scores = calculateAllScores(load.boxes, load.truckDimensions, load.vehicle)
+  set({
+    fleetPlan: plan,
+    activeTruckLoadId: load.id,
+    truckDimensions: load.truckDimensions,
+    vehicleModel: load.vehicle,
+    boxes: load.boxes,
+    // Leftovers stay visible whichever truck is on screen, so optimizing any load can pick them up
+    unplaceableBoxes: plan.unplacedBoxes,
+    packingDiagnostics: load.diagnostics,
+    stabilityScore: scores.stability,
+    safetyScore: scores.safety,
+    optimizationScore: scores.optimization,
+    loadingSequence: generateOptimalLoadingSequence(load.boxes, get().stopOrder),
+    currentLoadStep: 0,
+    temperatureZones: categorizeTemperatureZones(load.boxes),
+  })
 }
 
-function calculateHorizontalOverlap(box1: PackableBox, box2: PackableBox): number {
-  const xOverlap = Math.max(0, Math.min(box1.position.x + box1.width / 2, box2.position.x + box2.width / 2) -
-    Math.max(box1.position.x - box1.width / 2, box2.position.x - box2.width / 2));
-  const zOverlap = Math.max(0, Math.min(box1.position.z + box1.length / 2, box2.position.z + box2.length / 2) -
-    Math.max(box1.position.z - box1.length / 2, box2.position.z - box2.length / 2));
+function applyOptimizedLayout(
+  set: StoreSet,
+  get: StoreGet,
+  placedBoxes: Box[],
+  unplacedBoxes: Box[],
+  diagnostics: PackingDiagnostics,
+  keepLoadProgress = false,
+) {
+  const loadedIds = keepLoadProgress ? getLoadedBoxIds(get()) : []
+  recordHistory(set, get, keepLoadProgress ? 'Place new boxes' : `Optimize layout (${diagnostics.solverId})`)
+  console.log('📦 Optimization results:', {
+    placed: placedBoxes.length,
+    unplaced: unplacedBoxes.length,
+    total: placedBoxes.length + unplacedBoxes.length
+  })
 
-  const box1Area = box1.width * box1.length;
-  const overlapArea = xOverlap * zOverlap;
+  set({
+    boxes: placedBoxes,
+    unplaceableBoxes: unplacedBoxes,
+    isOptimizing: false,
+    optimizationProgress: null,
+    packingDiagnostics: diagnostics,
+  })
 
-  return box1Area > 0 ? overlapArea / box1Area : 0;
-}
-function evaluatePlacement(
-  box: PackableBox,
-  placedBoxes: PackableBox[],
-  truckDimensions: { width: number; length: number; height: number }
-): number {
-  let score = 0;
-
-  // 1. STABILITY - Much higher weight for lower placement and heavier boxes at bottom
-  const heightPenalty = (box.position.y / truckDimensions.height) * 100;
-  score -= heightPenalty;
-
-  // Heavy boxes get huge bonus for being low
-  const weightStabilityBonus = (box.weight / 100) * (truckDimensions.height - box.position.y) * 2;
-  score += weightStabilityBonus;
-
-  // Center of mass preference
-  score += (truckDimensions.width / 2 - Math.abs(box.position.x)) * 3;
-  score += (truckDimensions.length / 2 - Math.abs(box.position.z)) * 2;
-
-  // 2. TIGHT PACKING - Massive bonus for contact with other boxes or walls
-  let contactScore = 0;
-  const tolerance = 0.00002; // Tighter tolerance for contact detection
-
-  const boxMinX = box.position.x - box.width / 2;
-  const boxMaxX = box.position.x + box.width / 2;
-  const boxMinY = box.position.y - box.height / 2;
-  const boxMaxY = box.position.y + box.height / 2;
-  const boxMinZ = box.position.z - box.length / 2;
-  const boxMaxZ = box.position.z + box.length / 2;
-
-  // Contact with truck walls (high bonus)
-  if (Math.abs(boxMinX - (-truckDimensions.width / 2)) < tolerance) contactScore += 50;
-  if (Math.abs(boxMaxX - (truckDimensions.width / 2)) < tolerance) contactScore += 50;
-  if (Math.abs(boxMinY - 0) < tolerance) contactScore += 100; // Floor contact is critical
-  if (Math.abs(boxMinZ - (-truckDimensions.length / 2)) < tolerance) contactScore += 30;
-  if (Math.abs(boxMaxZ - (truckDimensions.length / 2)) < tolerance) contactScore += 30;
-
-  // Contact with other boxes (very high bonus for tight packing)
-  for (const pBox of placedBoxes) {
-    const pBoxMinX = pBox.position.x - pBox.width / 2;
-    const pBoxMaxX = pBox.position.x + pBox.width / 2;
-    const pBoxMinY = pBox.position.y - pBox.height / 2;
-    const pBoxMaxY = pBox.position.y + pBox.height / 2;
-    const pBoxMinZ = pBox.position.z - pBox.length / 2;
-    const pBoxMaxZ = pBox.position.z + pBox.length / 2;
-
-    // Check for face-to-face contact (no gaps)
-    if (Math.abs(boxMaxX - pBoxMinX) < tolerance) contactScore += 200; // Increase from 80
-    if (Math.abs(boxMinX - pBoxMaxX) < tolerance) contactScore += 200; // Left face touching right face
-    if (Math.abs(boxMaxY - pBoxMinY) < tolerance) contactScore += 120; // Top touching bottom (stacking)
-    if (Math.abs(boxMinY - pBoxMaxY) < tolerance) contactScore += 60; // Bottom touching top
-    if (Math.abs(boxMaxZ - pBoxMinZ) < tolerance) contactScore += 80; // Back touching front
-    if (Math.abs(boxMinZ - pBoxMaxZ) < tolerance) contactScore += 80; // Front touching back
-  }
-  score += contactScore;
-
-  // 3. Temperature Zone Compliance
-  const zoneScore = getTemperatureZoneScore(box, box.position, truckDimensions);
-  score += zoneScore * 200; // Higher bonus for correct temperature zone
-
-  // 4. Fragile Item Protection
-  if (box.isFragile) {
-    score += (truckDimensions.height - box.position.y) * 20; // Lower placement for fragile
-    // Penalty if heavy boxes are above fragile boxes
-    for (const pBox of placedBoxes) {
-      if (pBox.weight > box.weight * 1.5 && pBox.position.y > box.position.y) {
-        const overlap = calculateHorizontalOverlap(box, pBox);
-        if (overlap > 0.3) { // 30% overlap threshold
-          score -= overlap * 100; // Penalty for heavy items above fragile
-        }
-      }
-    }
-  }
+  console.log(`✅ Layout optimization (${diagnostics.solverId}) completed in ${diagnostics.durationMs.toFixed(2)}ms`)
+  diagnostics.warnings.forEach((warning) => console.warn('⚠️', warning))
 
-  // 5. LIFO Accessibility
-  const stopOrder = { "Stop 4": 0, "Stop 3": 1, "Stop 2": 2, "Stop 1": 3 };
-  const targetZRatio = (stopOrder[box.destination as keyof typeof stopOrder] ?? 0) / 3;
-  const actualZRatio = (box.position.z + truckDimensions.length / 2) / truckDimensions.length;
-  score -= Math.abs(targetZRatio - actualZRatio) * 150;
-
-  // 6. CORNER AND EDGE PREFERENCE - Prioritize corners and edges for structural support
-  let structuralBonus = 0;
-
-  // Corner bonuses (box touching two walls)
-  const touchingLeftWall = Math.abs(boxMinX - (-truckDimensions.width / 2)) < tolerance;
-  const touchingRightWall = Math.abs(boxMaxX - (truckDimensions.width / 2)) < tolerance;
-  const touchingFrontWall = Math.abs(boxMinZ - (-truckDimensions.length / 2)) < tolerance;
-  const touchingBackWall = Math.abs(boxMaxZ - (truckDimensions.length / 2)) < tolerance;
-  const touchingFloor = Math.abs(boxMinY - 0) < tolerance;
-
-  const wallContacts = [touchingLeftWall, touchingRightWall, touchingFrontWall, touchingBackWall].filter(Boolean).length;
-
-  if (touchingFloor && wallContacts >= 2) {
-    structuralBonus += 200; // Corner placement bonus
-  } else if (touchingFloor && wallContacts >= 1) {
-    structuralBonus += 100; // Edge placement bonus
-  } else if (touchingFloor) {
-    structuralBonus += 50; // Floor contact bonus
-  }
+  // Only calculate scores for placed boxes
+  const currentState = get()
+  const scores = calculateAllScores(currentState.boxes, currentState.truckDimensions, currentState.vehicleModel)
+  const zones = categorizeTemperatureZones(currentState.boxes)
 
-  score += structuralBonus;
+  set({
+    stabilityScore: scores.stability,
+    safetyScore: scores.safety,
+    optimizationScore: scores.optimization,
+    ...sequenceKeepingLoadedBoxes(currentState.boxes, loadedIds, currentState.stopOrder),
+    temperatureZones: zones,
+  })
 
-  return Math.max(0, score);
+  console.log('📊 Scores updated:', scores)
 }
 
-
 /* -------------------------------------------------------------------------- */
 /*                           EXISTING HELPER FUNCTIONS                              */
 /* -------------------------------------------------------------------------- */
 
-function calculateAllScores(boxes: Box[], truckDimensions: { width: number; length: number; height: number }) {
-  const stability = calculateStabilityScore(boxes, truckDimensions)
-  const safety = calculateSafetyScore(boxes, truckDimensions)
-  const optimization = calculateOptimizationScore(boxes, truckDimensions)
+function calculateAllScores(
+  boxes: Box[],
+  truckDimensions: { width: number; length: number; height: number },
+  vehicle: VehicleModel,
+) {
+  const stability = calculateStabilityScore(boxes, truckDimensions, vehicle)
+  const safety = calculateSafetyScore(boxes, truckDimensions, vehicle)
+  const optimization = calculateOptimizationScore(boxes, truckDimensions, vehicle)
 
   return { stability, safety, optimization }
 }
@@ -1196,6 +1157,7 @@ function calculateAllScores(boxes: Box[], truckDimensions: { width: number; leng
 function calculateStabilityScore(
   boxes: Box[],
   truckDimensions: { width: number; length: number; height: number },
+  vehicle: VehicleModel,
 ): number {
   if (boxes.length === 0) return 100
 
@@ -1220,19 +1182,25 @@ function calculateStabilityScore(
   const longitudinalOffset = Math.abs(centerOfGravity.z) / (truckDimensions.length / 2)
   score -= longitudinalOffset * 15
 
+  // An overloaded axle is both illegal and unstable, however centered the load
+  for (const axle of findAxleOverloads(computeAxleLoads(boxes, vehicle, truckDimensions))) {
+    score -= Math.min(30, 10 + (axle.load / axle.limit - 1) * 100)
+  }
+
   return Math.max(0, Math.min(100, score))
 }
 
 function calculateSafetyScore(
   boxes: Box[],
   truckDimensions: { width: number; length: number; height: number },
+  vehicle: VehicleModel,
 ): number {
   if (boxes.length === 0) return 100
 
   let score = 100
 
   const totalWeight = boxes.reduce((sum, box) => sum + box.weight, 0)
-  if (totalWeight > 34000) {
+  if (totalWeight > vehicle.maxPayload) {
     score -= 25
   }
 
@@ -1248,12 +1216,17 @@ function calculateSafetyScore(
   const collisions = detectCollisions(boxes)
   score -= collisions.length * 0.2
 
+  // Crushed or over-stacked boxes are a load-securing failure
+  const stackingViolations = findStackingViolations(boxes)
+  score -= stackingViolations.length * 5
+
   return Math.max(0, Math.min(100, score))
 }
 
 function calculateOptimizationScore(
   boxes: Box[],
   truckDimensions: { width: number; length: number; height: number },
+  vehicle: VehicleModel,
 ): number {
   if (boxes.length === 0) return 0
 
@@ -1262,21 +1235,11 @@ function calculateOptimizationScore(
   const volumeUtilization = (totalBoxVolume / totalTruckVolume) * 100
 
   const totalWeight = boxes.reduce((sum, box) => sum + box.weight, 0)
-  const weightUtilization = Math.min((totalWeight / 34000) * 100, 100)
+  const weightUtilization = Math.min((totalWeight / vehicle.maxPayload) * 100, 100)
 
   return Math.max(0, Math.min(100, volumeUtilization * 0.6 + weightUtilization * 0.4))
 }
 
-// Bounding Box Collision Detection
-function isBoxColliding(box1: Box | PackableBox, box2: Box | PackableBox): boolean {
-  const xOverlap = Math.max(0, Math.min(box1.position.x + box1.width / 2, box2.position.x + box2.width / 2) - Math.max(box1.position.x - box1.width / 2, box2.position.x - box2.width / 2));
-  const yOverlap = Math.max(0, Math.min(box1.position.y + box1.height / 2, box2.position.y + box2.height / 2) - Math.max(box1.position.y - box1.height / 2, box2.position.y - box2.height / 2));
-  const zOverlap = Math.max(0, Math.min(box1.position.z + box1.length / 2, box2.position.z + box2.length / 2) - Math.max(box1.position.z - box1.length / 2, box2.position.z - box2.length / 2));
-
-  return xOverlap > 0 && yOverlap > 0 && zOverlap > 0;
-}
-
-
 function detectCollisions(boxes: Box[]): Array<{ box1: string; box2: string }> {
   const collisions: Array<{ box1: string; box2: string }> = []
 
@@ -1301,10 +1264,12 @@ function calculateContacts(boxes: Box[]): number {
     for (let j = i + 1; j < boxes.length; j++) {
       const box1 = boxes[i];
       const box2 = boxes[j];
+      const dims1 = getOrientedDimensions(box1);
+      const dims2 = getOrientedDimensions(box2);
 
-      const minDx = (box1.width + box2.width) / 2;
-      const minDy = (box1.height + box2.height) / 2;
-      const minDz = (box1.length + box2.length) / 2;
+      const minDx = (dims1.width + dims2.width) / 2;
+      const minDy = (dims1.height + dims2.height) / 2;
+      const minDz = (dims1.length + dims2.length) / 2;
 
       const actualDx = Math.abs(box1.position.x - box2.position.x);
       const actualDy = Math.abs(box1.position.y - box2.position.y);
@@ -1344,40 +1309,11 @@ function getDistance(pos1: { x: number; y: number; z: number }, pos2: { x: numbe
   return Math.sqrt(dx * dx + dy * dy + dz * dz)
 }
 
-function getTemperatureZoneScore(
-  box: PackableBox,
-  position: { x: number; y: number; z: number },
-  truckDimensions: { width: number; length: number; height: number },
-): number {
-  const truckRearZ = truckDimensions.length / 2;
-  const frozenZoneEnd = truckRearZ; // Back of the truck
-  const coldZoneEnd = truckRearZ - 4; // 4 units from the back
-  const regularZoneEnd = truckRearZ - 8; // 8 units from the back
-
-  const boxCenterZ = position.z;
-
-  switch (box.temperatureZone) {
-    case "frozen":
-      // Box center must be within the frozen zone (e.g., last 4 units of length)
-      return (boxCenterZ > coldZoneEnd && boxCenterZ <= frozenZoneEnd) ? 1 : 0;
-    case "cold":
-      // Box center must be within the cold zone (e.g., next 4 units)
-      return (boxCenterZ > regularZoneEnd && boxCenterZ <= coldZoneEnd) ? 1 : 0;
-    case "regular":
-      // Box center must be within the regular zone (everything before cold zone)
-      return (boxCenterZ <= regularZoneEnd) ? 1 : 0;
-    default:
-      return 0.5;
-  }
-}
-
-function generateOptimalLoadingSequence(boxes: Box[]): Box[] {
+function generateOptimalLoadingSequence(boxes: Box[], stopOrder: string[]): Box[] {
+  const byLoadingOrder = compareByLoadingOrder(resolveStopOrder(stopOrder, boxes));
   const sorted = [...boxes].sort((a, b) => {
-    const stopOrder = { "Stop 4": 0, "Stop 3": 1, "Stop 2": 2, "Stop 1": 3 };
-    const aStop = stopOrder[a.destination as keyof typeof stopOrder] || 4;
-    const bStop = stopOrder[b.destination as keyof typeof stopOrder] || 4;
-
-    if (aStop !== bStop) return aStop - bStop;
+    const stopRank = byLoadingOrder(a, b);
+    if (stopRank !== 0) return stopRank;
     if (a.isFragile && !b.isFragile) return 1;
     if (!a.isFragile && b.isFragile) return -1;
     return b.weight - a.weight;
@@ -2,40 +2,46 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
-import type { Box } from "@/types/box"
-
-export interface Workspace {
-  id: string
-  name: string
-  type: "sample" | "empty" | "custom"
-  boxes?: Box[]
-  truckDimensions?: {
-    width: number
-    length: number
-    height: number
-  }
-  createdAt: string
-  lastModified: string
-  description?: string
-}
+import type { PlanSnapshot, Workspace, WorkspaceType } from "@/types/workspace"
+import * as workspaceApi from "@/lib/workspace-api"
+
+export type { Workspace } from "@/types/workspace"
+
+// "offline" keeps working from localStorage and retries on the next sync
+export type WorkspaceSyncStatus = "idle" | "syncing" | "offline" | "error"
 
 interface WorkspaceState {
   workspaces: Workspace[]
   currentWorkspace: Workspace | null
+  syncStatus: WorkspaceSyncStatus
+  lastSyncedAt: string | null
+  unsyncedIds: string[] // changed here but not yet saved to the server
+  deletedIds: string[] // deleted here but not yet on the server
 
   // Actions
-  createWorkspace: (name: string, type: "sample" | "empty" | "custom") => Workspace
+  createWorkspace: (name: string, type: WorkspaceType) => Workspace
   loadWorkspace: (id: string) => void
   saveWorkspace: (id: string, updates: Partial<Workspace>) => void
   deleteWorkspace: (id: string) => void
   setCurrentWorkspace: (workspace: Workspace | null) => void
+  savePlan: (plan: PlanSnapshot) => void
+  removePlan: (planId: string) => void
+  restoreVersion: (workspaceId: string, versionId: string) => Promise<Workspace | null>
+  syncWithServer: () => Promise<void>
 }
 
+type StoreSet = (partial: Partial<WorkspaceState> | ((state: WorkspaceState) => Partial<WorkspaceState>)) => void
+type StoreGet = () => WorkspaceState
+
 export const useWorkspaceStore = create<WorkspaceState>()(
   persist(
     (set, get) => ({
       workspaces: [],
       currentWorkspace: null,
+      syncStatus: "idle",
+      lastSyncedAt: null,
+      unsyncedIds: [],
+      deletedIds: [],
 
       createWorkspace: (name, type) => {
         const workspace: Workspace = {
@@ -55,7 +61,9 @@ export const useWorkspaceStore = create<WorkspaceState>()(
         set((state) => ({
           workspaces: [...state.workspaces, workspace],
           currentWorkspace: workspace,
+          unsyncedIds: [...state.unsyncedIds, workspace.id],
         }))
+        void pushWorkspace(set, get, workspace.id)
 
         return workspace
       },
@@ -68,33 +76,179 @@ export const useWorkspaceStore = create<WorkspaceState>()(
       },
 
       saveWorkspace: (id, updates) => {
-        set((state) => ({
-          workspaces: state.workspaces.map((workspace) =>
-            workspace.id === id ? { ...workspace, ...updates, lastModified: new Date().toISOString() } : workspace,
-          ),
-          currentWorkspace:
-            state.currentWorkspace?.id === id
-              ? { ...state.currentWorkspace, ...updates, lastModified: new Date().toISOString() }
-              : state.currentWorkspace,
-        }))
+        updateWorkspace(set, id, updates)
+        void pushWorkspace(set, get, id)
       },
 
       deleteWorkspace: (id) => {
         set((state) => ({
           workspaces: state.workspaces.filter((workspace) => workspace.id !== id),
           currentWorkspace: state.currentWorkspace?.id === id ? null : state.currentWorkspace,
+          unsyncedIds: state.unsyncedIds.filter((unsyncedId) => unsyncedId !== id),
+          deletedIds: [...state.deletedIds, id],
         }))
+        void pushDeletes(set, get).catch((error) => reportSyncError(set, error))
       },
 
       setCurrentWorkspace: (workspace) => {
         set({ currentWorkspace: workspace })
       },
+
+      // Plans go to the server as soon as they're saved, so the office sees
+      // them without waiting for the workspace itself to be saved
+      savePlan: (plan) => {
+        const workspace = get().currentWorkspace
+        if (!workspace) return
+        updateWorkspace(set, workspace.id, { plans: [...(workspace.plans ?? []), plan] })
+        void pushWorkspace(set, get, workspace.id)
+      },
+
+      removePlan: (planId) => {
+        const workspace = get().currentWorkspace
+        if (!workspace?.plans?.some((plan) => plan.id === planId)) return
+        updateWorkspace(set, workspace.id, { plans: workspace.plans.filter((plan) => plan.id !== planId) })
+        void pushWorkspace(set, get, workspace.id)
+      },
+
+      // Needs the server: versions only exist there. Unsynced edits here are
+      // replaced by the restored copy.
+      restoreVersion: async (workspaceId, versionId) => {
+        try {
+          const workspace = await workspaceApi.restoreWorkspaceVersion(workspaceId, versionId)
+          set((state) => ({
+            workspaces: state.workspaces.map((candidate) => (candidate.id === workspaceId ? workspace : candidate)),
+            currentWorkspace: state.currentWorkspace?.id === workspaceId ? workspace : state.currentWorkspace,
+            unsyncedIds: state.unsyncedIds.filter((unsyncedId) => unsyncedId !== workspaceId),
+          }))
+          return workspace
+        } catch (error) {
+          reportSyncError(set, error)
+          return null
+        }
+      },
+
+      // Pushes what changed here, then pulls whatever another device saved since
+      syncWithServer: async () => {
+        if (get().syncStatus === "syncing") return
+        set({ syncStatus: "syncing" })
+
+        try {
+          await pushDeletes(set, get)
+          for (const id of get().unsyncedIds) {
+            await pushWorkspaceOrThrow(set, get, id)
+          }
+
+          const summaries = await workspaceApi.fetchWorkspaces()
+          const local = get().workspaces
+          const stale = summaries.filter((summary) => {
+            const workspace = local.find((candidate) => candidate.id === summary.id)
+            return !workspace || Date.parse(summary.lastModified) > Date.parse(workspace.lastModified)
+          })
+          const fetched = await Promise.all(stale.map((summary) => workspaceApi.fetchWorkspace(summary.id)))
+
+          set((state) => {
+            const onServer = new Set(summaries.map((summary) => summary.id))
+            // Anything edited here while the pull was in flight keeps the local copy
+            const pulled = new Map(
+              fetched
+                .filter((workspace) => !state.unsyncedIds.includes(workspace.id))
+                .map((workspace) => [workspace.id, workspace]),
+            )
+            // Gone from the server and not pending here means another device deleted it
+            const kept = state.workspaces
+              .filter((workspace) => onServer.has(workspace.id) || state.unsyncedIds.includes(workspace.id))
+              .map((workspace) => pulled.get(workspace.id) ?? workspace)
+            const added = [...pulled.values()].filter((workspace) => !kept.some((existing) => existing.id === workspace.id))
+            const current = state.currentWorkspace
+
+            return {
+              workspaces: [...kept, ...added],
+              currentWorkspace: (current && pulled.get(current.id)) ?? current,
+              syncStatus: "idle",
+              lastSyncedAt: new Date().toISOString(),
+            }
+          })
+        } catch (error) {
+          reportSyncError(set, error)
+        }
+      },
     }),
     {
       name: "walmart-workspaces",
+      version: 1,
       partialize: (state) => ({
         workspaces: state.workspaces,
+        unsyncedIds: state.unsyncedIds,
+        deletedIds: state.deletedIds,
+        lastSyncedAt: state.lastSyncedAt,
       }),
+      // Workspaces saved before the server existed only live in this browser
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<WorkspaceState, "workspaces">
+        if (version === 0) {
+          return { ...state, unsyncedIds: state.workspaces.map((workspace) => workspace.id), deletedIds: [] }
+        }
+        return state
+      },
     },
   ),
 )
+
+/* -------------------------------------------------------------------------- */
+/*                                SERVER SYNC                                 */
+/* -------------------------------------------------------------------------- */
+
+function updateWorkspace(set: StoreSet, id: string, updates: Partial<Workspace>) {
+  const lastModified = new Date().toISOString()
+  set((state) => ({
+    workspaces: state.workspaces.map((workspace) =>
+      workspace.id === id ? { ...workspace, ...updates, lastModified } : workspace,
+    ),
+    currentWorkspace:
+      state.currentWorkspace?.id === id
+        ? { ...state.currentWorkspace, ...updates, lastModified }
+        : state.currentWorkspace,
+    unsyncedIds: state.unsyncedIds.includes(id) ? state.unsyncedIds : [...state.unsyncedIds, id],
+  }))
+}
+
+async function pushWorkspace(set: StoreSet, get: StoreGet, id: string) {
+  try {
+    await pushWorkspaceOrThrow(set, get, id)
+    if (get().syncStatus !== "syncing") set({ syncStatus: "idle" })
+  } catch (error) {
+    reportSyncError(set, error)
+  }
+}
+
+async function pushWorkspaceOrThrow(set: StoreSet, get: StoreGet, id: string) {
+  const workspace = get().workspaces.find((candidate) => candidate.id === id)
+  if (!workspace) return
+  await workspaceApi.putWorkspace(workspace)
+
+  // Edits made while the request was in flight still need their own push
+  set((state) => ({
+    unsyncedIds:
+      state.workspaces.find((candidate) => candidate.id === id)?.lastModified === workspace.lastModified
+        ? state.unsyncedIds.filter((unsyncedId) => unsyncedId !== id)
+        : state.unsyncedIds,
+  }))
+}
+
+async function pushDeletes(set: StoreSet, get: StoreGet) {
+  for (const id of get().deletedIds) {
+    try {
+      await workspaceApi.deleteWorkspace(id)
+    } catch (error) {
+      // Never reached the server, so there's nothing to delete there
+      if (!(error instanceof workspaceApi.WorkspaceApiError && error.status === 404)) throw error
+    }
+    set((state) => ({ deletedIds: state.deletedIds.filter((deletedId) => deletedId !== id) }))
+  }
+}
+
+function reportSyncError(set: StoreSet, error: unknown) {
+  const offline = error instanceof workspaceApi.WorkspaceApiError && error.isOffline
+  if (!offline) console.warn("⚠️ Workspace sync failed:", error)
+  set({ syncStatus: offline ? "offline" : "error" })
+}
@@ -0,0 +1,13 @@
+// Accounts and sessions, see lib/auth.ts. What each role may open is in
+// lib/access-control.ts.
+
+export type UserRole = "retailer" | "warehouse_admin" | "loader" | "driver"
+
+// The signed-in user as the pages and route handlers see it
+export interface SessionUser {
+  id: number
+  username: string
+  name: string
+  role: UserRole
+  retailId: number | null // set for retailers only: the store whose data they see
+}
@@ -1,3 +1,23 @@
+// Which nominal dimension lies along each truck axis, see lib/box-orientation.ts
+export type BoxOrientation = "xy" | "xz" | "yz" | "yx" | "zx" | "zy"
+
+export type TemperatureZone = "regular" | "cold" | "frozen"
+
+// Why the last optimization left a box in unplaceableBoxes
+export type UnplacedReasonCode =
+  | "too-large" // doesn't fit the empty truck in any allowed orientation
+  | "over-weight-limit" // would push the load past the truck's payload
+  | "axle-limit" // every spot left would overload an axle or the gross weight limit
+  | "no-zone-capacity" // strict zones: no room in a compartment accepting it
+  | "stacking-rules" // only spots left would break crush, stack-limit or support rules
+  | "no-space" // no free space large enough
+  | "needs-repack" // incremental placement: only fits if loaded or locked boxes move
+
+export interface UnplacedReason {
+  code: UnplacedReasonCode
+  message: string
+}
+
 export interface Box {
   id: string
   name: string
@@ -10,12 +30,17 @@ export interface Box {
     y: number
     z: number
   }
-  temperatureZone: "regular" | "cold" | "frozen"
+  temperatureZone: TemperatureZone
   isFragile: boolean
   destination: string
   isNew?: boolean
+  locked?: boolean // Pinned at its position and orientation: packers treat it as a fixed obstacle
   crushFactor?: number // 0-1, resistance to crushing
   stackLimit?: number // Maximum number of boxes that can be stacked on top
+  orientation?: BoxOrientation // Defaults to "xy" (as labelled: width × height × length)
+  thisSideUp?: boolean // Height must stay vertical; only turning about the vertical axis is allowed
+  allowedOrientations?: BoxOrientation[] // Explicit whitelist, intersected with thisSideUp
+  unplacedReason?: UnplacedReason // Only set while the box sits in unplaceableBoxes
 }
 
 export interface TruckDimensions {
@@ -24,6 +49,40 @@ export interface TruckDimensions {
   height: number
 }
 
+// One bulkhead-separated section of a reefer, see lib/temperature-zones.ts
+export interface TemperatureCompartment {
+  id: string
+  name: string
+  length?: number // ft along the truck; omitted to share whatever the fixed compartments leave
+  setpoint: number | null // °F, null for ambient
+  accepts: TemperatureZone[]
+}
+
+// Compartments ordered from the nose of the truck to the rear doors
+export interface TemperatureZoneLayout {
+  compartments: TemperatureCompartment[]
+}
+
+export type AxleGroupId = "steer" | "drive" | "trailer"
+
+// One axle or tandem and what it may legally carry, see lib/axle-loads.ts
+export interface AxleGroup {
+  id: AxleGroupId
+  name: string
+  position: number // ft from the nose of the cargo area; negative when ahead of it
+  legalLimit: number // lbs
+  tareWeight: number // lbs the empty vehicle already puts on it
+}
+
+export interface VehicleModel {
+  id: string
+  name: string
+  maxPayload: number // lbs of cargo
+  grossWeightLimit: number // lbs, vehicle plus cargo
+  kingpinPosition?: number // ft from the nose; tractor-trailers only, where the front of the trailer rides on the fifth wheel
+  axles: AxleGroup[]
+}
+
 export interface PhysicsForces {
   acceleration: number
   braking: number
@@ -37,6 +96,9 @@ export interface OptimizationConstraints {
   temperatureZones: boolean
   fragileHandling: boolean
   multiStopRouting: boolean
+  minSupportRatio: number // 0-1 share of a stacked box's base that must rest on boxes below
+  requireCornerSupport: boolean // all four bottom corners of a stacked box must be supported
+  strictTemperatureZones: boolean // boxes may only sit in compartments that accept their zone
 }
 
 export interface LoadingSequenceItem {
@@ -0,0 +1,38 @@
+import type { Box, OptimizationConstraints, TemperatureZoneLayout, TruckDimensions, VehicleModel } from "./box"
+import type { PackingDiagnostics } from "./packing"
+
+// A kind of truck the fleet planner may dispatch, see lib/fleet-planner.ts
+export interface FleetTruckType {
+  id: string
+  name: string
+  dimensions: TruckDimensions
+  vehicle: VehicleModel
+  available: number // trucks of this type on hand
+}
+
+// One dispatched truck and what was packed onto it
+export interface TruckLoad {
+  id: string
+  truckTypeId: string
+  name: string
+  truckDimensions: TruckDimensions
+  vehicle: VehicleModel
+  boxes: Box[]
+  stops: string[] // destinations on board, in route order
+  diagnostics: PackingDiagnostics
+}
+
+export interface FleetPlan {
+  loads: TruckLoad[]
+  unplacedBoxes: Box[] // left over once every available truck was used, or fitting none
+  durationMs: number
+}
+
+export interface FleetPlanInput {
+  boxes: Box[]
+  fleet: FleetTruckType[]
+  stopOrder: string[] // destinations in route order; boxes for other destinations go last
+  zoneLayout: TemperatureZoneLayout
+  solverId: string
+  constraints: Partial<OptimizationConstraints> // applied over each truck's own defaults
+}
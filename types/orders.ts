@@ -0,0 +1,108 @@
+// What the orders, products, warehouses, shortage-alerts and retailers APIs
+// return, see lib/orders-db.ts.
+// Dates travel as ISO strings and weights are in pounds.
+
+import type { TemperatureZone } from "./box"
+
+export type OrderStatus = "pending" | "confirmed" | "in_transit" | "delivered" | "rejected"
+
+export type OrderPriority = "low" | "normal" | "high"
+
+export type ShortageSeverity = "low" | "medium" | "high" | "critical"
+
+export interface Retailer {
+  id: number
+  name: string
+  address: string
+  phone: string | null
+  location: string | null
+  coordinates: { lat: number; lng: number } | null
+}
+
+export interface Warehouse {
+  id: number
+  name: string
+  address: string
+  coordinates: { lat: number; lng: number }
+  capacity: number
+}
+
+// One case of a product as it goes on the truck, see lib/order-boxes.ts
+export interface ProductCase {
+  width: number // ft
+  height: number
+  length: number
+  unitsPerCase: number
+}
+
+export interface Product {
+  id: number
+  sku: string
+  name: string
+  category: string
+  weight: number // per unit
+  price: number // USD per unit
+  image: string | null
+  case: ProductCase
+  temperatureZone: TemperatureZone
+  isFragile: boolean
+  thisSideUp: boolean
+  crushFactor: number | null
+  stackLimit: number | null
+}
+
+export interface Order {
+  id: number
+  retailId: number
+  productId: number
+  warehouseId: number | null // null until a warehouse is assigned
+  quantity: number
+  totalWeight: number
+  deliveryDate: string
+  status: OrderStatus
+  statusNote: string | null // e.g. why it was rejected
+  priority: OrderPriority
+  sourceAlertId: string | null
+  createdAt: string
+  updatedAt: string
+  retail: Retailer
+  product: Product
+  warehouse: Warehouse | null
+}
+
+export interface ShortageAlert {
+  id: string
+  retailId: number
+  productId: number
+  severity: ShortageSeverity
+  currentStock: number
+  minStock: number
+  suggestedQuantity: number
+  resolved: boolean
+  triggeredAt: string
+  resolvedAt: string | null
+  retail: Retailer
+  product: Product
+}
+
+// A retailer's stock of one product
+export interface InventoryItem {
+  id: number
+  retailId: number
+  currentStock: number
+  minStock: number
+  maxStock: number
+  leadTimeDays: number
+  supplierReliability: number // percent
+  product: Product
+}
+
+export interface OrderNotification {
+  id: string
+  retailId: number
+  orderId: number
+  status: OrderStatus
+  message: string
+  read: boolean
+  createdAt: string
+}
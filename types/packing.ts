@@ -0,0 +1,61 @@
+import type { Box, OptimizationConstraints, TemperatureZoneLayout, TruckDimensions, VehicleModel } from "./box"
+import type { OptimizationProgress } from "./worker-messages"
+
+export interface PackingSolverInput {
+  boxes: Box[]
+  truckDimensions: TruckDimensions
+  zoneLayout: TemperatureZoneLayout
+  vehicle: VehicleModel
+  stopOrder: string[] // delivery stop names, first stop first
+  constraints: OptimizationConstraints
+}
+
+// New boxes to slot into a layout that's partly loaded already
+export interface IncrementalPlacementInput extends Omit<PackingSolverInput, "boxes"> {
+  placedBoxes: Box[] // the current layout
+  newBoxes: Box[]
+  frozenBoxIds: string[] // already loaded or locked: never moved
+}
+
+export interface PackingDiagnostics {
+  solverId: string
+  durationMs: number
+  placedCount: number
+  unplacedCount: number
+  volumeUtilization: number // 0-100, placed box volume over truck volume
+  totalWeight: number // placed weight only
+  unsupportedBoxes: SupportIssue[]
+  unloadBlockers: UnloadBlocker[]
+  warnings: string[]
+}
+
+// A stacked box resting on less than the required base support
+export interface SupportIssue {
+  boxId: string
+  supportRatio: number // 0-1 share of the base resting on boxes below
+  cornersSupported: boolean
+}
+
+// A box that can't come off at its stop until later-stop freight is moved
+export interface UnloadBlocker {
+  boxId: string
+  stop: string
+  blockedBy: string[] // ids of the later-stop boxes in the way
+}
+
+export interface PackingSolverResult {
+  placedBoxes: Box[]
+  unplacedBoxes: Box[]
+  diagnostics: PackingDiagnostics
+}
+
+// A packing strategy. `solve` is a generator so callers can surface progress
+// and stop between yields; solvers that can't report progress just return.
+export interface PackingSolver {
+  id: string
+  name: string
+  description: string
+  solve: (input: PackingSolverInput) => Generator<OptimizationProgress, PackingSolverResult, void>
+}
+
+export type PackingSolverInfo = Pick<PackingSolver, "id" | "name" | "description">
@@ -0,0 +1,62 @@
+// Reorder suggestions and back-tests for a retailer's stock, see
+// lib/replenishment.ts. Quantities are in units, times in days.
+
+export type ReplenishmentStrategy = "conservative" | "balanced" | "aggressive"
+
+// How close the shelf is to running out, from the retailer page's wording
+export type StockUrgency = "critical" | "low" | "moderate"
+
+export interface DemandForecast {
+  averageDaily: number
+  stdDevDaily: number
+  daysOfHistory: number // 0 when nothing has been sold or recorded yet
+}
+
+// What the forecast needs to know about one product on one shelf
+export interface ReplenishmentInput {
+  currentStock: number
+  minStock: number
+  maxStock: number
+  leadTimeDays: number
+  supplierReliability: number // percent
+  onOrder: number // units ordered and not yet delivered
+  sales: number[] // units sold per day, oldest first, ending yesterday
+}
+
+export interface ReplenishmentPlan {
+  forecast: DemandForecast
+  serviceLevel: number // 0-1, from the strategy
+  effectiveLeadTimeDays: number
+  safetyStock: number
+  reorderPoint: number
+  orderUpToLevel: number
+  stockPosition: number // on hand plus on order
+  daysOfCover: number | null // null when nothing sells
+  needsReorder: boolean
+  suggestedQuantity: number
+  urgency: StockUrgency
+  explanation: string[] // one sentence per step, in order
+}
+
+export interface ReplenishmentSuggestion {
+  productId: number
+  inventoryItemId: number
+  plan: ReplenishmentPlan
+}
+
+export interface BacktestResult {
+  days: number
+  unitsDemanded: number
+  unitsSold: number
+  lostSales: number
+  fillRate: number // 0-1, share of demand served from the shelf
+  stockoutDays: number
+  averageOnHand: number
+  ordersPlaced: number
+  unitsOrdered: number
+}
+
+export interface ProductBacktest {
+  productId: number
+  result: BacktestResult
+}
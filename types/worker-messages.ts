@@ -0,0 +1,63 @@
+import type { Box, OptimizationConstraints, PhysicsForces, TemperatureZoneLayout, TruckDimensions, VehicleModel } from "./box"
+import type { IncrementalPlacementInput, PackingSolverResult } from "./packing"
+import type { FleetPlan, FleetPlanInput } from "./fleet"
+import type { MCTSPlacementRules } from "@/lib/mcts-placement"
+
+// Messages posted to workers/physics-worker.ts. Every request carries an `id`
+// which the worker echoes back on the responses it triggers.
+export type PhysicsWorkerRequest =
+  | { type: "INITIALIZE"; payload: {}; id: string }
+  | { type: "CREATE_TRUCK"; payload: { dimensions: TruckDimensions }; id: string }
+  | { type: "ADD_BOX"; payload: { box: Box }; id: string }
+  | { type: "START_CONTINUOUS_SIMULATION"; payload: { forces: PhysicsForces }; id: string }
+  | { type: "STOP_SIMULATION"; payload: {}; id: string }
+  | { type: "APPLY_FORCE_EVENT"; payload: { forceType: string; magnitude: number }; id: string }
+  | { type: "FIND_OPTIMAL_PLACEMENT"; payload: { boxes: Box[]; constraints: MCTSPlacementRules & { truckDimensions?: TruckDimensions } }; id: string }
+  | {
+      type: "OPTIMIZE_LAYOUT"
+      payload: {
+        boxes: Box[]
+        truckDimensions: TruckDimensions
+        zoneLayout: TemperatureZoneLayout
+        vehicle: VehicleModel
+        stopOrder: string[]
+        solverId: string
+        constraints: OptimizationConstraints
+      }
+      id: string
+    }
+  | { type: "PLACE_NEW_BOXES"; payload: IncrementalPlacementInput; id: string }
+  | { type: "PLAN_FLEET"; payload: FleetPlanInput; id: string }
+  | { type: "CANCEL_OPTIMIZATION"; payload: {}; id: string }
+  | { type: "DESTROY"; payload: {}; id: string }
+
+export interface WorkerSimulationStats {
+  collisions: number
+  contacts: number
+  totalForce: number
+  stability: number
+}
+
+export interface OptimizationProgress {
+  placed: number
+  unplaced: number
+  total: number
+  currentBoxId: string
+}
+
+// Messages posted back by the worker
+export type PhysicsWorkerResponse =
+  | { type: "READY"; payload: {}; id?: string }
+  | {
+      type: "SIMULATION_UPDATE"
+      payload: { stats: WorkerSimulationStats; positions: Record<string, { x: number; y: number; z: number }> }
+      id?: string
+    }
+  | { type: "OPTIMAL_PLACEMENT_FOUND"; payload: { solutions: Box[] }; id?: string }
+  | { type: "OPTIMIZATION_PROGRESS"; payload: OptimizationProgress; id?: string }
+  | { type: "OPTIMIZATION_COMPLETE"; payload: PackingSolverResult; id?: string }
+  | { type: "FLEET_PLAN_COMPLETE"; payload: FleetPlan; id?: string }
+  | { type: "OPTIMIZATION_CANCELLED"; payload: OptimizationProgress | {}; id?: string }
+  | { type: "ERROR"; payload: { message: string; requestType?: string }; id?: string }
+
+export type PhysicsWorkerRequestType = PhysicsWorkerRequest["type"]
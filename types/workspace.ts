@@ -0,0 +1,67 @@
+import type { Box, TruckDimensions, VehicleModel } from "./box"
+import type { PackingDiagnostics } from "./packing"
+import type { FleetTruckType } from "./fleet"
+
+// A saved copy of one truck's layout, see lib/plan-comparison.ts
+export interface PlanSnapshot {
+  id: string
+  name: string
+  createdAt: number
+  solverId: string | null // null when the layout wasn't produced by a packing run
+  truckDimensions: TruckDimensions
+  vehicleModel: VehicleModel
+  boxes: Box[]
+  unplaceableBoxes: Box[]
+  scores: { stability: number; safety: number; optimization: number }
+  diagnostics: PackingDiagnostics | null
+}
+
+export type WorkspaceType = "sample" | "empty" | "custom"
+
+export interface WorkspaceScores {
+  stability: number
+  safety: number
+  optimization: number
+}
+
+export interface Workspace {
+  id: string
+  name: string
+  type: WorkspaceType
+  boxes?: Box[]
+  unplaceableBoxes?: Box[]
+  truckDimensions?: TruckDimensions
+  fleet?: FleetTruckType[]
+  plans?: PlanSnapshot[]
+  scores?: WorkspaceScores
+  createdAt: string
+  lastModified: string
+  description?: string
+}
+
+// What the workspace list endpoint returns: everything but the contents
+export interface WorkspaceSummary extends Pick<Workspace, "id" | "name" | "type" | "truckDimensions" | "createdAt" | "lastModified" | "description"> {
+  boxCount: number
+  planCount: number
+}
+
+// What a workspace held when it was saved; plans have their own lifecycle and aren't versioned
+export interface WorkspaceVersionContents
+  extends Pick<Workspace, "name" | "type" | "description" | "truckDimensions" | "scores"> {
+  boxes: Box[]
+  unplaceableBoxes: Box[]
+  fleet: FleetTruckType[]
+}
+
+export interface WorkspaceVersionSummary {
+  id: string
+  workspaceId: string
+  number: number
+  label?: string
+  boxCount: number
+  createdAt: string
+}
+
+export interface WorkspaceVersion extends WorkspaceVersionSummary {
+  contents: WorkspaceVersionContents
+}
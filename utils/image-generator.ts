@@ -1,4 +1,11 @@
-import type { Box } from "@/types/box"
+import type { Box, TemperatureZoneLayout } from "@/types/box"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import {
+  DEFAULT_TEMPERATURE_ZONE_LAYOUT,
+  ZONE_COLORS,
+  getCompartmentColor,
+  resolveTemperatureCompartments,
+} from "@/lib/temperature-zones"
 
 export interface GeneratedImage {
   name: string
@@ -11,8 +18,10 @@ export async function generate2DImages(
   boxes: Box[],
   truckDimensions: { width: number; length: number; height: number },
   temperatureZones: { regular: string[]; cold: string[]; frozen: string[] },
+  zoneLayout: TemperatureZoneLayout = DEFAULT_TEMPERATURE_ZONE_LAYOUT,
 ): Promise<GeneratedImage[]> {
   const images: GeneratedImage[] = []
+  const compartments = resolveTemperatureCompartments(zoneLayout, truckDimensions)
 
   // Generate different views
   const views = [
@@ -66,29 +75,19 @@ export async function generate2DImages(
       const offsetX = 400
       const offsetY = 300
 
-      // Draw temperature zones (background)
+      // Draw temperature compartments (background)
       ctx.globalAlpha = 0.15
 
-      // Frozen zone (cyan)
-      ctx.fillStyle = "#00bcd4"
-      if (view.angle === "top") {
-        const zoneWidth = truckDimensions.width * drawScale
-        const zoneHeight = 4 * drawScale
-        ctx.fillRect(
-          offsetX - zoneWidth / 2,
-          offsetY + (truckDimensions.length * drawScale) / 2 - zoneHeight,
-          zoneWidth,
-          zoneHeight,
-        )
-      }
-
-      // Cold zone (blue)
-      ctx.fillStyle = "#2196f3"
-      if (view.angle === "top") {
-        const zoneWidth = truckDimensions.width * drawScale
-        const zoneHeight = 8 * drawScale
-        ctx.fillRect(offsetX - zoneWidth / 2, offsetY - zoneHeight / 2, zoneWidth, zoneHeight)
-      }
+      compartments.forEach((compartment) => {
+        ctx.fillStyle = getCompartmentColor(compartment)
+        if (view.angle === "top") {
+          const zoneWidth = truckDimensions.width * drawScale
+          ctx.fillRect(offsetX - zoneWidth / 2, offsetY + compartment.startZ * drawScale, zoneWidth, compartment.length * drawScale)
+        } else if (view.angle === "side") {
+          const zoneHeight = truckDimensions.height * drawScale
+          ctx.fillRect(offsetX + compartment.startZ * drawScale, offsetY - zoneHeight / 2, compartment.length * drawScale, zoneHeight)
+        }
+      })
 
       ctx.globalAlpha = 1
 
@@ -134,41 +133,33 @@ export async function generate2DImages(
       // Draw boxes
       boxes.forEach((box, index) => {
         let x, y, width, height
+        const dims = getOrientedDimensions(box)
 
         switch (view.angle) {
           case "top":
-            x = offsetX + (box.position.x - box.width / 2) * drawScale
-            y = offsetY + (box.position.z - box.length / 2) * drawScale
-            width = box.width * drawScale
-            height = box.length * drawScale
+            x = offsetX + (box.position.x - dims.width / 2) * drawScale
+            y = offsetY + (box.position.z - dims.length / 2) * drawScale
+            width = dims.width * drawScale
+            height = dims.length * drawScale
             break
           case "side":
-            x = offsetX + (box.position.z - box.length / 2) * drawScale
-            y = offsetY - (box.position.y + box.height / 2) * drawScale
-            width = box.length * drawScale
-            height = box.height * drawScale
+            x = offsetX + (box.position.z - dims.length / 2) * drawScale
+            y = offsetY - (box.position.y + dims.height / 2) * drawScale
+            width = dims.length * drawScale
+            height = dims.height * drawScale
             break
           case "front":
-            x = offsetX + (box.position.x - box.width / 2) * drawScale
-            y = offsetY - (box.position.y + box.height / 2) * drawScale
-            width = box.width * drawScale
-            height = box.height * drawScale
+            x = offsetX + (box.position.x - dims.width / 2) * drawScale
+            y = offsetY - (box.position.y + dims.height / 2) * drawScale
+            width = dims.width * drawScale
+            height = dims.height * drawScale
             break
           default:
             return
         }
 
         // Box fill color
-        switch (box.temperatureZone) {
-          case "frozen":
-            ctx.fillStyle = "#00bcd4"
-            break
-          case "cold":
-            ctx.fillStyle = "#2196f3"
-            break
-          default:
-            ctx.fillStyle = "#666666"
-        }
+        ctx.fillStyle = ZONE_COLORS[box.temperatureZone] ?? ZONE_COLORS.regular
 
         ctx.globalAlpha = box.isFragile ? 0.7 : 1.0
         ctx.fillRect(x, y, width, height)
@@ -214,17 +205,17 @@ export async function generate2DImages(
       ctx.font = "12px Arial"
 
       // Temperature zones legend
-      ctx.fillStyle = "#00bcd4"
+      ctx.fillStyle = ZONE_COLORS.frozen
       ctx.fillRect(20, legendY, 15, 10)
       ctx.fillStyle = "white"
       ctx.fillText("Frozen", 40, legendY + 8)
 
-      ctx.fillStyle = "#2196f3"
+      ctx.fillStyle = ZONE_COLORS.cold
       ctx.fillRect(20, legendY + 15, 15, 10)
       ctx.fillStyle = "white"
       ctx.fillText("Cold", 40, legendY + 23)
 
-      ctx.fillStyle = "#666666"
+      ctx.fillStyle = ZONE_COLORS.regular
       ctx.fillRect(20, legendY + 30, 15, 10)
       ctx.fillStyle = "white"
       ctx.fillText("Regular", 40, legendY + 38)
@@ -453,6 +453,34 @@ export async function generateTemplateBasedPDF_V1(reportData: any, templateDataP
           { 'Specification': 'Maximum Volume', 'Value': `${safeReportData.truckInfo.maxVolume.toFixed(1)} ft³`, 'Status': '✓ Optimized' }
         ], undefined, 2),
 
+        ...(safeReportData.compartments?.length
+          ? [
+              { text: 'Temperature Compartments', style: 'subsectionHeader', margin: [0, 20, 0, 10] },
+              createModernTable(['Compartment', 'Span from Nose', 'Setpoint', 'Accepts', 'Boxes'],
+                safeReportData.compartments.map((compartment: any) => ({
+                  'Compartment': compartment.name,
+                  'Span from Nose': compartment.span,
+                  'Setpoint': compartment.setpoint,
+                  'Accepts': compartment.accepts,
+                  'Boxes': String(compartment.boxCount),
+                }))),
+            ]
+          : []),
+
+        ...(safeReportData.axleLoads?.length
+          ? [
+              { text: 'Axle Loads', style: 'subsectionHeader', margin: [0, 20, 0, 10] },
+              createModernTable(['Axle', 'Load', 'Legal Limit', 'Utilization', 'Status'],
+                safeReportData.axleLoads.map((axle: any) => ({
+                  'Axle': axle.name,
+                  'Load': axle.load,
+                  'Legal Limit': axle.limit,
+                  'Utilization': axle.utilization,
+                  'Status': axle.status,
+                }))),
+            ]
+          : []),
+
         { text: 'Visual Analytics', style: 'sectionHeader', pageBreak: 'before', margin: [0, 0, 0, 20] },
         { text: 'Box Distribution by Destination', style: 'subsectionHeader', margin: [0, 0, 0, 15] },
         // Bar chart is first
@@ -523,16 +551,30 @@ export async function generateTemplateBasedPDF_V1(reportData: any, templateDataP
               const inventoryData = reportData.boxes.map((box: any) => ({
                 'Name': (box.name || '').substring(0, 20),
                 'Dimensions': box.dimensions || '',
+                'Orientation': box.orientation || '',
                 'Weight': box.weight || '',
                 'Position': box.position || '', // FIXED: Added position coordinates column
                 'Zone': box.temperatureZone || '',
                 'Fragile': box.isFragile || '',
                 'Destination': (box.destination || '').substring(0, 15)
               }));
-              return createModernTable(['Name', 'Dimensions', 'Weight', 'Position', 'Zone', 'Fragile', 'Destination'], inventoryData);
+              return createModernTable(['Name', 'Dimensions', 'Orientation', 'Weight', 'Position', 'Zone', 'Fragile', 'Destination'], inventoryData);
             })()
           ]
         },
+        ...(safeReportData.unplacedBoxes?.length
+          ? [
+              { text: 'Unplaced Boxes', style: 'subsectionHeader', margin: [0, 20, 0, 10] },
+              createModernTable(['Name', 'Dimensions', 'Weight', 'Reason', 'Details'],
+                safeReportData.unplacedBoxes.map((box: any) => ({
+                  'Name': (box.name || '').substring(0, 20),
+                  'Dimensions': box.dimensions,
+                  'Weight': box.weight,
+                  'Reason': box.reason,
+                  'Details': box.details,
+                }))),
+            ]
+          : []),
         ...(reportData.images && reportData.images.length > 0 ? [
           { text: 'Loading Plan Visualizations', style: 'sectionHeader', pageBreak: 'before' },
           ...reportData.images.map((image: any) => ({
@@ -0,0 +1,249 @@
+// physics-worker.ts
+// Runs the Rapier step loop and layout packing off the main thread.
+// Protocol lives in types/worker-messages.ts.
+
+import { PhysicsEngine } from "@/lib/physics-engine"
+import { MCTSPlacementOptimizer } from "@/lib/mcts-placement"
+import { getPackingSolver } from "@/lib/packing-solvers"
+import { planFleet } from "@/lib/fleet-planner"
+import { placeNewBoxes } from "@/lib/incremental-placement"
+import { getOrientedDimensions } from "@/lib/box-orientation"
+import type { PhysicsForces, TruckDimensions } from "@/types/box"
+import type { PackingSolverInput } from "@/types/packing"
+import type { OptimizationProgress, PhysicsWorkerRequest, PhysicsWorkerResponse } from "@/types/worker-messages"
+
+// Minimal view of the worker global; the "webworker" lib clashes with "dom" in tsconfig
+const ctx = self as unknown as {
+  postMessage: (message: PhysicsWorkerResponse) => void
+  onmessage: ((event: MessageEvent<PhysicsWorkerRequest>) => void) | null
+}
+
+const STEP_INTERVAL_MS = 1000 / 60
+const UPDATE_EVERY_STEPS = 6 // ~10 stats updates per second
+const PACKING_SLICE_MS = 50 // time budget before yielding so CANCEL_OPTIMIZATION gets through
+
+const engine = new PhysicsEngine()
+let initPromise: Promise<void> | null = null
+let truckDimensions: TruckDimensions | null = null
+let simulationTimer: ReturnType<typeof setInterval> | null = null
+let restingPositions = new Map<string, { x: number; y: number; z: number }>()
+
+// Only one packing job runs at a time; a newer request supersedes the old one
+let activeOptimizationId: string | null = null
+let cancelRequested = false
+
+const post = (message: PhysicsWorkerResponse) => ctx.postMessage(message)
+
+const postError = (error: unknown, requestType?: string, id?: string) => {
+  post({
+    type: "ERROR",
+    payload: { message: error instanceof Error ? error.message : String(error), requestType },
+    id,
+  })
+}
+
+// Messages can arrive before Rapier's WASM has loaded, so every physics
+// handler awaits the same init promise
+const ensureInitialized = () => {
+  if (!initPromise) {
+    initPromise = engine.initialize()
+  }
+  return initPromise
+}
+
+const stopSimulationLoop = () => {
+  if (simulationTimer) {
+    clearInterval(simulationTimer)
+    simulationTimer = null
+  }
+}
+
+// Stability drops as boxes drift away from where they were loaded
+const calculateStability = (positions: Map<string, { x: number; y: number; z: number }>) => {
+  if (positions.size === 0) return 100
+
+  let totalDrift = 0
+  positions.forEach((position, id) => {
+    const rest = restingPositions.get(id)
+    if (!rest) return
+    totalDrift += Math.sqrt((position.x - rest.x) ** 2 + (position.y - rest.y) ** 2 + (position.z - rest.z) ** 2)
+  })
+
+  const averageDrift = totalDrift / positions.size
+  return Math.max(0, Math.min(100, 100 - averageDrift * 20))
+}
+
+const startSimulationLoop = (forces: PhysicsForces, id: string) => {
+  stopSimulationLoop()
+  engine.applyForces(forces)
+
+  let stepCount = 0
+  simulationTimer = setInterval(() => {
+    try {
+      const stats = engine.step(STEP_INTERVAL_MS / 1000)
+      stepCount++
+      if (stepCount % UPDATE_EVERY_STEPS !== 0) return
+
+      const positions = engine.getBoxPositions()
+      post({
+        type: "SIMULATION_UPDATE",
+        payload: {
+          stats: {
+            collisions: stats.collisions,
+            contacts: stats.contacts,
+            totalForce: stats.totalForce,
+            stability: calculateStability(positions),
+          },
+          positions: Object.fromEntries(positions),
+        },
+        id,
+      })
+    } catch (error) {
+      stopSimulationLoop()
+      postError(error, "START_CONTINUOUS_SIMULATION", id)
+    }
+  }, STEP_INTERVAL_MS)
+}
+
+const applyForceEvent = (forceType: string, magnitude: number) => {
+  const forces: PhysicsForces = { acceleration: 0, braking: 0, turning: 0, gravity: 1 }
+
+  switch (forceType) {
+    case "acceleration":
+      forces.acceleration = magnitude
+      break
+    case "braking":
+      forces.braking = magnitude
+      break
+    case "turning":
+      forces.turning = magnitude
+      break
+    case "gravity":
+      forces.gravity = magnitude
+      break
+    default:
+      throw new Error(`Unknown force type: ${forceType}`)
+  }
+
+  engine.applyForces(forces)
+}
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+// Steps a packing generator in time slices, reporting progress between them;
+// resolves with the result, or null once cancelled or superseded
+const runPackingJob = async <T>(run: Generator<OptimizationProgress, T, void>, id: string): Promise<T | null> => {
+  activeOptimizationId = id
+  cancelRequested = false
+
+  let sliceStart = performance.now()
+  let step = run.next()
+
+  while (!step.done) {
+    if (performance.now() - sliceStart >= PACKING_SLICE_MS) {
+      post({ type: "OPTIMIZATION_PROGRESS", payload: step.value, id })
+      await yieldToEventLoop()
+      sliceStart = performance.now()
+
+      if (cancelRequested || activeOptimizationId !== id) {
+        if (activeOptimizationId === id) activeOptimizationId = null
+        post({ type: "OPTIMIZATION_CANCELLED", payload: step.value, id })
+        return null
+      }
+    }
+    step = run.next()
+  }
+
+  activeOptimizationId = null
+  return step.value
+}
+
+const optimizeLayout = async (solverId: string, input: PackingSolverInput, id: string) => {
+  const result = await runPackingJob(getPackingSolver(solverId).solve(input), id)
+  if (result) post({ type: "OPTIMIZATION_COMPLETE", payload: result, id })
+}
+
+const handleMessage = async (message: PhysicsWorkerRequest) => {
+  switch (message.type) {
+    case "INITIALIZE":
+      await ensureInitialized()
+      post({ type: "READY", payload: {}, id: message.id })
+      break
+
+    case "CREATE_TRUCK":
+      await ensureInitialized()
+      truckDimensions = message.payload.dimensions
+      engine.createTruckContainer(message.payload.dimensions)
+      break
+
+    case "ADD_BOX": {
+      await ensureInitialized()
+      const { box } = message.payload
+      // Rapier bodies are axis-aligned cuboids, so hand over the oriented extents
+      engine.addBox({ ...box, ...getOrientedDimensions(box) })
+      restingPositions.set(box.id, { ...box.position })
+      break
+    }
+
+    case "START_CONTINUOUS_SIMULATION":
+      await ensureInitialized()
+      startSimulationLoop(message.payload.forces, message.id)
+      break
+
+    case "STOP_SIMULATION":
+      stopSimulationLoop()
+      break
+
+    case "APPLY_FORCE_EVENT":
+      await ensureInitialized()
+      applyForceEvent(message.payload.forceType, message.payload.magnitude)
+      break
+
+    case "FIND_OPTIMAL_PLACEMENT": {
+      const { boxes, constraints } = message.payload
+      const { truckDimensions: requestedDimensions, ...rules } = constraints
+      const dimensions = requestedDimensions ?? truckDimensions
+      if (!dimensions) {
+        throw new Error("Truck dimensions are required to search for placements")
+      }
+      const optimizer = new MCTSPlacementOptimizer(dimensions, rules)
+      post({ type: "OPTIMAL_PLACEMENT_FOUND", payload: { solutions: optimizer.findOptimalPlacement(boxes) }, id: message.id })
+      break
+    }
+
+    case "OPTIMIZE_LAYOUT": {
+      const { solverId, boxes, truckDimensions, zoneLayout, vehicle, stopOrder, constraints } = message.payload
+      await optimizeLayout(solverId, { boxes, truckDimensions, zoneLayout, vehicle, stopOrder, constraints }, message.id)
+      break
+    }
+
+    case "PLACE_NEW_BOXES": {
+      const result = await runPackingJob(placeNewBoxes(message.payload), message.id)
+      if (result) post({ type: "OPTIMIZATION_COMPLETE", payload: result, id: message.id })
+      break
+    }
+
+    case "PLAN_FLEET": {
+      const plan = await runPackingJob(planFleet(message.payload), message.id)
+      if (plan) post({ type: "FLEET_PLAN_COMPLETE", payload: plan, id: message.id })
+      break
+    }
+
+    case "CANCEL_OPTIMIZATION":
+      cancelRequested = true
+      break
+
+    case "DESTROY":
+      stopSimulationLoop()
+      cancelRequested = true
+      restingPositions = new Map()
+      engine.destroy()
+      initPromise = null
+      break
+  }
+}
+
+ctx.onmessage = (event) => {
+  const message = event.data
+  handleMessage(message).catch((error) => postError(error, message.type, message.id))
+}